@@ -16,6 +16,9 @@ import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
 import Admin from "./pages/Admin";
 import DynamicBlog from "./pages/DynamicBlog";
+import BlogPost from "./pages/BlogPost";
+import BlogArchive from "./pages/BlogArchive";
+import BlogAuthor from "./pages/BlogAuthor";
 
 // Product Pages
 import SmartCRM from "./pages/products/SmartCRM";
@@ -48,6 +51,10 @@ const App = () => (
             <Route path="/products" element={<Products />} />
             <Route path="/solutions" element={<Solutions />} />
             <Route path="/blog" element={<DynamicBlog />} />
+            <Route path="/blog/:slug" element={<BlogPost />} />
+            <Route path="/blog/category/:slug" element={<BlogArchive kind="category" />} />
+            <Route path="/blog/tag/:slug" element={<BlogArchive kind="tag" />} />
+            <Route path="/blog/author/:id" element={<BlogAuthor />} />
             <Route path="/docs" element={<Docs />} />
             <Route path="/pricing" element={<Pricing />} />
             <Route path="/contact" element={<Contact />} />
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useToast } from '@/hooks/use-toast';
+import { blogAuthorPath } from '@/utils/blogSeo';
+import {
+  SOCIAL_LABELS,
+  SOCIAL_NETWORKS,
+  SocialLinks,
+  SocialNetwork,
+  fetchAuthorProfile,
+  parseSocialLinks,
+  saveAuthorProfile
+} from '@/utils/authorProfiles';
+import { ExternalLink, Save } from 'lucide-react';
+
+interface AuthorProfileEditorProps {
+  userId: string;
+  /** Suggested display name for users without a profile yet */
+  email?: string | null;
+}
+
+interface ProfileDraft {
+  display_name: string;
+  bio: string;
+  avatar_url: string;
+  social_links: SocialLinks;
+}
+
+/** The signed-in user's public author profile, shown in post bylines. */
+const AuthorProfileEditor: React.FC<AuthorProfileEditorProps> = ({ userId, email }) => {
+  const [draft, setDraft] = useState<ProfileDraft>({ display_name: '', bio: '', avatar_url: '', social_links: {} });
+  const [exists, setExists] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProfile = async () => {
+      setLoading(true);
+      try {
+        const profile = await fetchAuthorProfile(userId);
+        if (cancelled) return;
+        setExists(!!profile);
+        setDraft({
+          display_name: profile?.display_name ?? email?.split('@')[0] ?? '',
+          bio: profile?.bio ?? '',
+          avatar_url: profile?.avatar_url ?? '',
+          social_links: parseSocialLinks(profile?.social_links)
+        });
+      } catch (error) {
+        console.error('Error fetching author profile:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, email]);
+
+  const updateSocialLink = (network: SocialNetwork, value: string) => {
+    setDraft(prev => ({ ...prev, social_links: { ...prev.social_links, [network]: value } }));
+  };
+
+  const handleSave = async () => {
+    if (!draft.display_name.trim()) {
+      toast({ title: "Validation Error", description: "Display name is required", variant: "destructive" });
+      return;
+    }
+
+    const dropped = SOCIAL_NETWORKS.filter(network =>
+      draft.social_links[network]?.trim() && !parseSocialLinks(draft.social_links)[network]
+    );
+    if (dropped.length > 0) {
+      toast({
+        title: "Validation Error",
+        description: `Use a full http(s) link for ${dropped.map(network => SOCIAL_LABELS[network]).join(', ')}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveAuthorProfile({
+        id: userId,
+        display_name: draft.display_name.trim(),
+        bio: draft.bio.trim() || null,
+        avatar_url: draft.avatar_url.trim() || null,
+        social_links: draft.social_links
+      });
+      setExists(true);
+      toast({ title: "Success", description: "Author profile saved" });
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save author profile",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading profile...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Author Profile</CardTitle>
+        {exists && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={blogAuthorPath(userId)} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="w-4 h-4 mr-2" />
+              View author page
+            </a>
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Shown in the byline of the posts you create and on your author page.
+        </p>
+
+        <div className="flex items-center gap-4">
+          <Avatar className="h-16 w-16">
+            {draft.avatar_url && <AvatarImage src={draft.avatar_url} alt={draft.display_name} />}
+            <AvatarFallback>{draft.display_name.charAt(0).toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="author-avatar-url">Avatar URL</Label>
+            <Input
+              id="author-avatar-url"
+              value={draft.avatar_url}
+              onChange={(e) => setDraft(prev => ({ ...prev, avatar_url: e.target.value }))}
+              placeholder="https://..."
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="author-display-name">Display name</Label>
+          <Input
+            id="author-display-name"
+            value={draft.display_name}
+            onChange={(e) => setDraft(prev => ({ ...prev, display_name: e.target.value }))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="author-bio">Bio</Label>
+          <Textarea
+            id="author-bio"
+            value={draft.bio}
+            onChange={(e) => setDraft(prev => ({ ...prev, bio: e.target.value }))}
+            rows={4}
+          />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {SOCIAL_NETWORKS.map(network => (
+            <div key={network} className="space-y-2">
+              <Label htmlFor={`author-social-${network}`}>{SOCIAL_LABELS[network]}</Label>
+              <Input
+                id={`author-social-${network}`}
+                value={draft.social_links[network] || ''}
+                onChange={(e) => updateSocialLink(network, e.target.value)}
+                placeholder="https://..."
+              />
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={handleSave} disabled={saving}>
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Profile'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuthorProfileEditor;
@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useBlogTaxonomy } from '@/hooks/useBlogTaxonomy';
+import { categoryLabel } from '@/utils/blogTaxonomy';
+import { blogPostPath } from '@/utils/blogSeo';
+import {
+  ANALYTICS_RANGES,
+  AnalyticsRange,
+  DailyBlogStats,
+  PostBlogStats,
+  categoryBreakdown,
+  completionRate,
+  fetchBlogAnalytics,
+  summarizeAnalytics
+} from '@/utils/blogAnalytics';
+
+const TOP_POSTS = 10;
+
+const chartConfig: ChartConfig = {
+  views: { label: 'Views', color: 'hsl(var(--primary))' },
+  completions: { label: 'Read to the end', color: 'hsl(var(--secondary))' }
+};
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+/** Views, read-through and category performance from blog_events. */
+const BlogAnalytics = () => {
+  const [range, setRange] = useState<AnalyticsRange>(30);
+  const [daily, setDaily] = useState<DailyBlogStats[]>([]);
+  const [posts, setPosts] = useState<PostBlogStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { categories } = useBlogTaxonomy();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const result = await fetchBlogAnalytics(range);
+        if (cancelled) return;
+        setDaily(result.daily);
+        setPosts(result.posts);
+      } catch (error) {
+        console.error('Error fetching blog analytics:', error);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load analytics", variant: "destructive" });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [range, toast]);
+
+  const summary = useMemo(() => summarizeAnalytics(posts), [posts]);
+  const byCategory = useMemo(
+    () => categoryBreakdown(posts).map(stats => ({ ...stats, label: categoryLabel(categories, stats.category) })),
+    [posts, categories]
+  );
+  const topPosts = posts.slice(0, TOP_POSTS);
+
+  const stats = [
+    { label: 'Views', value: summary.views.toLocaleString() },
+    { label: 'Read to the end', value: summary.completions.toLocaleString() },
+    { label: 'Completion rate', value: `${summary.completionRate}%` },
+    { label: 'Average read depth', value: `${summary.averageDepth}%` }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Anonymous reading sessions on published posts. Each session counts once per post.
+        </p>
+        <div className="flex gap-2">
+          {ANALYTICS_RANGES.map(days => (
+            <Button
+              key={days}
+              size="sm"
+              variant={range === days ? 'default' : 'outline'}
+              onClick={() => setRange(days)}
+            >
+              {days} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        {stats.map(stat => (
+          <Card key={stat.label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{stat.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold" data-testid={`analytics-${stat.label.toLowerCase().replace(/\s+/g, '-')}`}>
+                {loading ? '…' : stat.value}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Views over time</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+            <AreaChart data={daily} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(day) => formatDay(String(day))} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Area dataKey="views" type="monotone" stroke="var(--color-views)" fill="var(--color-views)" fillOpacity={0.2} />
+              <Area dataKey="completions" type="monotone" stroke="var(--color-completions)" fill="var(--color-completions)" fillOpacity={0.2} />
+            </AreaChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Top posts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {topPosts.length === 0 ? (
+              <p className="text-muted-foreground">{loading ? 'Loading analytics...' : 'No reads in this period yet.'}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Post</TableHead>
+                    <TableHead className="text-right">Views</TableHead>
+                    <TableHead className="text-right">Completion</TableHead>
+                    <TableHead className="text-right">Avg depth</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {topPosts.map(post => (
+                    <TableRow key={post.blog_id} data-testid={`analytics-post-${post.slug}`}>
+                      <TableCell>
+                        <a href={blogPostPath(post.slug)} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                          {post.title}
+                        </a>
+                      </TableCell>
+                      <TableCell className="text-right">{post.views}</TableCell>
+                      <TableCell className="text-right">{completionRate(post)}%</TableCell>
+                      <TableCell className="text-right">{Number(post.avg_depth || 0)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Categories</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {byCategory.length === 0 ? (
+              <p className="text-muted-foreground">{loading ? 'Loading analytics...' : 'No reads in this period yet.'}</p>
+            ) : (
+              <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                <BarChart data={byCategory} layout="vertical" margin={{ left: 12, right: 12 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="views" fill="var(--color-views)" radius={4} />
+                  <Bar dataKey="completions" fill="var(--color-completions)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default BlogAnalytics;
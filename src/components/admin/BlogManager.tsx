@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { TablesUpdate } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -10,10 +11,32 @@ import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import AdvancedRichTextEditor from '@/components/ui/advanced-rich-text-editor';
-import DragDropBlogEditor, { BlogStructure, ContentBlock } from '@/components/ui/drag-drop-blog-editor';
+import DragDropBlogEditor from '@/components/ui/drag-drop-blog-editor';
+import BlogRevisionHistory, { BlogRevision } from '@/components/admin/BlogRevisionHistory';
+import BlogMergeDialog from '@/components/admin/BlogMergeDialog';
+import BlogTagEditor from '@/components/admin/BlogTagEditor';
+import HighlightedText from '@/components/blog/HighlightedText';
+import { BLOG_SCHEMA_VERSION, BlogStructure, createEmptyBlogStructure, loadBlogStructure, parseBlogStructure } from '@/utils/blogSchema';
+import { convertStructureToHTML } from '@/utils/blogExport';
+import { fromDateTimeLocal, resolveScheduledStatus, toDateTimeLocal, validateSchedule } from '@/utils/blogSchedule';
+import { allowedStatuses, canCreateBlog, canDeleteBlog, canEditBlog, canReviewBlog, canTransition } from '@/utils/blogWorkflow';
+import { matchesSearchTerm } from '@/utils/blogSearch';
+import {
+  ADMIN_BLOG_LIST_COLUMNS,
+  AdminBlogListItem,
+  fetchBlogBody,
+  fetchBlogListNumberedPage,
+  fetchStatusCounts,
+  pageWindow
+} from '@/utils/blogListing';
+import { DEFAULT_CATEGORIES, categoryLabel, fetchBlogTags, saveBlogTags } from '@/utils/blogTaxonomy';
+import { fetchCurrentUserId } from '@/utils/authorProfiles';
 import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
+import { groupPeersByBlock, peersForBlog, useBlogPresence } from '@/hooks/useBlogPresence';
+import { useBlogSearch } from '@/hooks/useBlogSearch';
+import { useBlogTaxonomy } from '@/hooks/useBlogTaxonomy';
 import { 
   Plus, 
   Edit, 
@@ -30,13 +53,19 @@ import {
   FileText,
   Save,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  RefreshCw,
+  ThumbsUp,
+  ThumbsDown,
+  MessageSquare
 } from 'lucide-react';
 import { migrateStaticBlogs } from '@/scripts/migrate-static-blogs';
 import { addFeaturedArticles } from '@/scripts/add-featured-articles';
+import { upgradeBlogStructures, BlogStructureUpgradeFailure } from '@/scripts/upgrade-blog-structures';
 // Note: Using a lightweight local placeholder for DocumentUpload in tests
 
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { safeImageUrl, sanitizeHtml } from '@/utils/htmlSanitizer';
 
 interface Blog {
   id: string;
@@ -49,9 +78,17 @@ interface Blog {
   featured: boolean;
   featured_image_url: string;
   created_at: string;
-  blog_structure?: BlogStructure | null; // Use proper type instead of any
+  updated_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+  review_comment?: string | null;
+  reviewed_at?: string | null;
+  submitted_for_review_at?: string | null;
+  blog_structure?: BlogStructure | null; // Validated by parseBlogStructure on load
 }
 
+const ADMIN_PAGE_SIZE = 20;
+
 interface BlogManagerProps {
   userRole: string;
 }
@@ -61,7 +98,7 @@ const LocalDocumentUpload: React.FC<{ onDocumentParsed: (doc: BlogStructure) =>
   return (
     <div>
       <p className="text-sm text-muted-foreground">Document upload placeholder</p>
-      <button onClick={() => onDocumentParsed({ title: 'Imported Doc', featuredImage: '', author: 'Auto', date: new Date().toISOString().split('T')[0], blocks: [] })}>
+      <button onClick={() => onDocumentParsed(createEmptyBlogStructure({ title: 'Imported Doc', author: 'Auto' }))}>
         Parse Document
       </button>
     </div>
@@ -69,8 +106,12 @@ const LocalDocumentUpload: React.FC<{ onDocumentParsed: (doc: BlogStructure) =>
 };
 
 const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
-  const [blogs, setBlogs] = useState<Blog[]>([]);
-  const [filteredBlogs, setFilteredBlogs] = useState<Blog[]>([]);
+  // One numbered page of list columns; the full row is fetched when editing
+  const [blogs, setBlogs] = useState<AdminBlogListItem[]>([]);
+  const [filteredBlogs, setFilteredBlogs] = useState<AdminBlogListItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalBlogs, setTotalBlogs] = useState(0);
+  const [statusTotals, setStatusTotals] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [editingBlog, setEditingBlog] = useState<Blog | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -87,7 +128,9 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
     category: 'general',
     status: 'draft',
     featured: false,
-    featured_image_url: ''
+    featured_image_url: '',
+    publish_at: '', // datetime-local input values, converted on save
+    unpublish_at: ''
   });
   
   // Expose the setFormData function for testing
@@ -101,13 +144,7 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
       }
     };
   }, []);
-  const [blogStructure, setBlogStructure] = useState<BlogStructure>({
-    title: '',
-    featuredImage: '',
-    author: 'Admin',
-    date: new Date().toISOString().split('T')[0],
-    blocks: []
-  });
+  const [blogStructure, setBlogStructure] = useState<BlogStructure>(createEmptyBlogStructure());
   
   // Expose the setBlogStructure function for testing
   useEffect(() => {
@@ -125,9 +162,34 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
   const { toast } = useToast();
   const [migrating, setMigrating] = useState(false);
   const [addingFeatured, setAddingFeatured] = useState(false);
+  const [upgradingStructures, setUpgradingStructures] = useState(false);
+  const [upgradeFailures, setUpgradeFailures] = useState<BlogStructureUpgradeFailure[]>([]);
   const [slugAuto, setSlugAuto] = useState(true);
   const [validationError, setValidationError] = useState('');
   const [deleteDialog, setDeleteDialog] = useState<{ open: boolean; blogId: string | null }>({ open: false, blogId: null });
+  const [reviewDialog, setReviewDialog] = useState<{ blog: AdminBlogListItem; decision: 'approve' | 'reject' } | null>(null);
+  const [reviewComment, setReviewComment] = useState('');
+  const [submittingReview, setSubmittingReview] = useState(false);
+  // Version of the post open in the editor; saves only apply if it is still current
+  const editingVersionRef = useRef<{ id: string; updatedAt: string | null } | null>(null);
+  const [remoteChanged, setRemoteChanged] = useState(false);
+  const [mergeConflict, setMergeConflict] = useState<{ payload: TablesUpdate<'blogs'>; remote: Blog } | null>(null);
+  // Tag names in the form, and the ones the post had when it was opened
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const loadedTagNamesRef = useRef<string[]>([]);
+  const taxonomy = useBlogTaxonomy();
+  const categoryOptions = taxonomy.categories.length > 0 ? taxonomy.categories : DEFAULT_CATEGORIES;
+  const { peers, setActiveBlock } = useBlogPresence(editingBlog?.id ?? null);
+  const editingPeers = editingBlog ? peersForBlog(peers, editingBlog.id) : [];
+
+  // Status picker options; editors only see the statuses they are allowed to save
+  const statusOptions = [
+    { value: 'draft', label: 'Draft', color: 'bg-yellow-500' },
+    { value: 'in_review', label: 'In Review', color: 'bg-purple-500' },
+    { value: 'published', label: 'Published', color: 'bg-green-500' },
+    { value: 'scheduled', label: 'Scheduled', color: 'bg-blue-500' },
+    { value: 'archived', label: 'Archived', color: 'bg-gray-500' }
+  ].filter(option => allowedStatuses(userRole).includes(option.value));
 
   // Block types for preview
   const blockTypes = [
@@ -136,20 +198,35 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
     { type: 'full-width-image', name: 'Full Width Image' },
     { type: 'full-width-text', name: 'Full Width Text' },
     { type: 'image-caption', name: 'Image + Caption' },
+    { type: 'gallery', name: 'Gallery' },
+    { type: 'carousel', name: 'Carousel' },
+    { type: 'comparison', name: 'Before / After' },
     { type: 'video-embed', name: 'Video Embed' },
     { type: 'table', name: 'Table' },
-    { type: 'chart', name: 'Chart' }
+    { type: 'chart', name: 'Chart' },
+    { type: 'heading', name: 'Heading' },
+    { type: 'list', name: 'List' },
+    { type: 'quote', name: 'Quote' },
+    { type: 'code', name: 'Code' },
+    { type: 'divider', name: 'Divider' },
+    { type: 'callout', name: 'Callout' }
   ];
 
   const fetchBlogs = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('blogs')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setBlogs(data as unknown as Blog[] || []);
+      const [listPage, counts] = await Promise.all([
+        fetchBlogListNumberedPage<AdminBlogListItem>({
+          page,
+          pageSize: ADMIN_PAGE_SIZE,
+          columns: ADMIN_BLOG_LIST_COLUMNS,
+          status: statusFilter === 'all' ? null : statusFilter,
+          category: categoryFilter === 'all' ? null : categoryFilter
+        }),
+        fetchStatusCounts()
+      ]);
+      setBlogs(listPage.rows);
+      setTotalBlogs(listPage.total);
+      setStatusTotals(counts);
     } catch (error: unknown) {
       toast({
         title: "Error",
@@ -159,18 +236,40 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
     } finally {
       setLoading(false);
     }
-  }, [toast]);
+  }, [toast, page, statusFilter, categoryFilter]);
+
+  // The realtime handler always refreshes whatever page is showing
+  const fetchBlogsRef = useRef(fetchBlogs);
+  fetchBlogsRef.current = fetchBlogs;
 
   useEffect(() => {
     fetchBlogs();
+  }, [fetchBlogs]);
+
+  // Filters and searches start again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [statusFilter, categoryFilter, searchTerm]);
+
+  // Step back when the last page empties, e.g. after deleting its only post
+  useEffect(() => {
+    const lastPage = Math.max(1, Math.ceil(totalBlogs / ADMIN_PAGE_SIZE));
+    if (page > lastPage) setPage(lastPage);
+  }, [page, totalBlogs]);
 
+  useEffect(() => {
     // Subscribe to real-time updates
     const channel = supabase
       .channel('blogs-changes')
       .on('postgres_changes', 
         { event: '*', schema: 'public', table: 'blogs' },
-        () => {
-          fetchBlogs();
+        (payload) => {
+          const version = editingVersionRef.current;
+          const row = payload.new as Partial<Blog> | undefined;
+          if (version && row?.id === version.id && row.updated_at && row.updated_at !== version.updatedAt) {
+            setRemoteChanged(true);
+          }
+          fetchBlogsRef.current();
         }
       )
       .subscribe();
@@ -178,30 +277,60 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [fetchBlogs]);
+  }, []);
+
+  const search = useBlogSearch(searchTerm, {
+    status: statusFilter === 'all' ? null : statusFilter,
+    category: categoryFilter === 'all' ? null : categoryFilter,
+    pageSize: 50
+  });
+  const searchHits = useMemo(
+    () => new Map(search.results.map(result => [result.id, result])),
+    [search.results]
+  );
 
-  // Filter blogs based on search and filters
+  // Search results can be on any page, so load their list rows by id.
+  // Status and category are already applied by the server in both cases.
   useEffect(() => {
-    let filtered = blogs;
-
-    if (searchTerm) {
-      filtered = filtered.filter(blog => 
-        blog.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        blog.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        blog.excerpt.toLowerCase().includes(searchTerm.toLowerCase())
-      );
+    if (!search.active) {
+      setFilteredBlogs(blogs);
+      return;
     }
+    // Keep showing the previous results until the new ones arrive
+    if (search.loading) return;
 
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(blog => blog.status === statusFilter);
+    if (search.error) {
+      // Search RPC unavailable: fall back to matching the loaded rows
+      setFilteredBlogs(blogs.filter(blog => matchesSearchTerm(blog, searchTerm)));
+      return;
     }
 
-    if (categoryFilter !== 'all') {
-      filtered = filtered.filter(blog => blog.category === categoryFilter);
-    }
+    let cancelled = false;
+    const ids = search.results.map(result => result.id);
+    const loadResults = async () => {
+      if (ids.length === 0) {
+        setFilteredBlogs([]);
+        return;
+      }
+      const { data, error } = await supabase
+        .from('blogs')
+        .select(ADMIN_BLOG_LIST_COLUMNS)
+        .in('id', ids);
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading search results:', error);
+        return;
+      }
+      // Keep the server's ranking
+      const byId = new Map((data as unknown as AdminBlogListItem[]).map(blog => [blog.id, blog]));
+      setFilteredBlogs(ids.map(id => byId.get(id)).filter((blog): blog is AdminBlogListItem => Boolean(blog)));
+    };
+    loadResults();
 
-    setFilteredBlogs(filtered);
-  }, [blogs, searchTerm, statusFilter, categoryFilter]);
+    return () => {
+      cancelled = true;
+    };
+  }, [blogs, searchTerm, search.active, search.loading, search.error, search.results]);
 
   const generateSlug = (title: string) => {
     return title
@@ -212,19 +341,70 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
       .trim();
   };
 
+  // Update the open post only if nobody else saved it since it was loaded.
+  // Returns the new updated_at, or null when the row changed underneath us.
+  // Throws when the update was refused for another reason (RLS, deleted row).
+  const updateIfUnchanged = async (payload: TablesUpdate<'blogs'>, expectedUpdatedAt: string | null) => {
+    if (!editingBlog) return null;
+
+    let query = supabase
+      .from('blogs')
+      .update(payload)
+      .eq('id', editingBlog.id);
+    if (expectedUpdatedAt) {
+      query = query.eq('updated_at', expectedUpdatedAt);
+    }
+
+    const { data, error } = await query.select('updated_at');
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      // RLS also matches 0 rows, so only a newer updated_at means a concurrent edit
+      const { data: current, error: readError } = await supabase
+        .from('blogs')
+        .select('updated_at, status')
+        .eq('id', editingBlog.id)
+        .maybeSingle();
+      if (readError) throw readError;
+      if (!current) throw new Error('This blog was deleted in another session');
+      if (expectedUpdatedAt && current.updated_at !== expectedUpdatedAt) return null;
+      throw new Error(`You do not have permission to save this blog while it is ${current.status}`);
+    }
+
+    editingVersionRef.current = { id: editingBlog.id, updatedAt: data[0].updated_at };
+    setRemoteChanged(false);
+    return data[0].updated_at;
+  };
+
+  // Load the other session's version so the editor can merge it
+  const openMergeDialog = async (payload: TablesUpdate<'blogs'>) => {
+    if (!editingBlog) return;
+
+    const { data: remote, error } = await supabase
+      .from('blogs')
+      .select('*')
+      .eq('id', editingBlog.id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!remote) throw new Error('This blog was deleted in another session');
+
+    setMergeConflict({
+      payload,
+      remote: { ...remote, blog_structure: parseBlogStructure(remote.blog_structure) } as unknown as Blog
+    });
+  };
+
   // Auto-save function
   const autoSave = async (content: string) => {
     if (!editingBlog) return;
     
     setIsAutoSaving(true);
     try {
-      const { error } = await supabase
-        .from('blogs')
-        .update({ content })
-        .eq('id', editingBlog.id);
-      
-      if (!error) {
+      // Never autosave over someone else's changes; the next manual save offers a merge
+      const savedAt = await updateIfUnchanged({ content: sanitizeHtml(content) }, editingVersionRef.current?.updatedAt ?? null);
+      if (savedAt) {
         setLastSaved(new Date());
+      } else {
+        setRemoteChanged(true);
       }
     } catch (error) {
       console.log('Auto-save failed:', error);
@@ -233,6 +413,37 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
     }
   };
 
+  // Tags live in their own tables, so they are written after the post itself.
+  // A failure here leaves the post saved and says so.
+  const saveTags = async (blogId: string) => {
+    const unchanged = tagNames.length === loadedTagNamesRef.current.length
+      && tagNames.every((name, index) => name === loadedTagNamesRef.current[index]);
+    if (unchanged) return;
+
+    try {
+      await saveBlogTags(blogId, tagNames);
+      taxonomy.reload();
+    } catch (error: unknown) {
+      toast({
+        title: "Tags not saved",
+        description: error instanceof Error ? error.message : "The blog was saved, but its tags could not be updated",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const finishSave = (updated: boolean) => {
+    toast({ 
+      title: "Success", 
+      description: updated ? "Blog updated successfully!" : "Blog created successfully!" 
+    });
+
+    setEditingBlog(null);
+    setShowCreateForm(false);
+    resetForm();
+    setLastSaved(new Date());
+  };
+
   const handleSave = async () => {
     if (!formData.title.trim()) {
       setValidationError('Title is required');
@@ -249,24 +460,55 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
       return;
     }
 
+    if (!canTransition(userRole, editingBlog ? editingBlog.status : null, formData.status)) {
+      toast({
+        title: "Validation Error",
+        description: "Editors can only save drafts or submit posts for review",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const publishAt = fromDateTimeLocal(formData.publish_at);
+    const unpublishAt = fromDateTimeLocal(formData.unpublish_at);
+    const scheduleError = validateSchedule(formData.status, publishAt, unpublishAt);
+    if (scheduleError) {
+      toast({
+        title: "Validation Error",
+        description: scheduleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Explicitly set a timeout to prevent test hanging
     let saveTimeoutId = setTimeout(() => {
       console.log('Save operation timed out');
     }, 3000);
 
     try {
+      // New posts get their id here so tags can be linked right after the insert
+      const blogId = editingBlog?.id ?? crypto.randomUUID();
+      // Credit new posts to whoever creates them; left out, the column defaults to auth.uid()
+      const authorId = editingBlog ? null : await fetchCurrentUserId();
+      const newBlogFields = { id: blogId, ...(authorId ? { author_id: authorId } : {}) };
 
       // Prepare blog data based on editor mode
       const blogData = {
         ...formData,
+        // Classic editor HTML is stored sanitized, like the visual editor's conversion
+        content: sanitizeHtml(formData.content),
         slug: formData.slug || generateSlug(formData.title),
+        status: resolveScheduledStatus(formData.status, publishAt),
+        publish_at: publishAt,
+        unpublish_at: unpublishAt,
       };
 
       // Add blog_structure for visual editor
       if (editorMode === 'visual') {
         const structuredData = {
           ...blogData,
-          blog_structure: blogStructure as any // Cast for Supabase JSON compatibility
+          blog_structure: { ...blogStructure, schemaVersion: BLOG_SCHEMA_VERSION } as any // Cast for Supabase JSON compatibility
         };
         
         // Convert structure to HTML content for backward compatibility
@@ -274,42 +516,35 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
         structuredData.content = htmlContent;
         
         if (editingBlog) {
-          const { error } = await supabase
-            .from('blogs')
-            .update(structuredData)
-            .eq('id', editingBlog.id);
-          if (error) throw error;
+          if (!await updateIfUnchanged(structuredData, editingVersionRef.current?.updatedAt ?? null)) {
+            await openMergeDialog(structuredData);
+            clearTimeout(saveTimeoutId);
+            return;
+          }
         } else {
           const { error } = await supabase
             .from('blogs')
-            .insert([structuredData]);
+            .insert([{ ...structuredData, ...newBlogFields }]);
           if (error) throw error;
         }
       } else {
         // Classic editor - save as before
         if (editingBlog) {
-          const { error } = await supabase
-            .from('blogs')
-            .update(blogData)
-            .eq('id', editingBlog.id);
-          if (error) throw error;
+          if (!await updateIfUnchanged(blogData, editingVersionRef.current?.updatedAt ?? null)) {
+            await openMergeDialog(blogData);
+            clearTimeout(saveTimeoutId);
+            return;
+          }
         } else {
           const { error } = await supabase
             .from('blogs')
-            .insert([blogData]);
+            .insert([{ ...blogData, ...newBlogFields }]);
           if (error) throw error;
         }
       }
 
-      toast({ 
-        title: "Success", 
-        description: editingBlog ? "Blog updated successfully!" : "Blog created successfully!" 
-      });
-
-      setEditingBlog(null);
-      setShowCreateForm(false);
-      resetForm();
-      setLastSaved(new Date());
+      await saveTags(blogId);
+      finishSave(!!editingBlog);
       
       // Clear timeout if save successful
       clearTimeout(saveTimeoutId);
@@ -333,20 +568,65 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
       category: 'general',
       status: 'draft',
       featured: false,
-      featured_image_url: ''
-    });
-    setBlogStructure({
-      title: '',
-      featuredImage: '',
-      author: 'Admin',
-      date: new Date().toISOString().split('T')[0],
-      blocks: []
+      featured_image_url: '',
+      publish_at: '',
+      unpublish_at: ''
     });
+    setBlogStructure(createEmptyBlogStructure());
+    setTagNames([]);
+    loadedTagNamesRef.current = [];
     setEditorMode('upload');
+    editingVersionRef.current = null;
+    setRemoteChanged(false);
+  };
+
+  // Save the merged result against the version we just compared with
+  const handleMergeResolved = async (structure: BlogStructure | null) => {
+    if (!mergeConflict) return;
+    const { payload, remote } = mergeConflict;
+
+    const merged: TablesUpdate<'blogs'> = structure
+      ? {
+          ...payload,
+          blog_structure: { ...structure, schemaVersion: BLOG_SCHEMA_VERSION } as unknown as TablesUpdate<'blogs'>['blog_structure'],
+          content: convertStructureToHTML(structure)
+        }
+      : payload;
+
+    try {
+      setMergeConflict(null);
+      if (structure) setBlogStructure(structure);
+
+      if (await updateIfUnchanged(merged, remote.updated_at ?? null)) {
+        await saveTags(remote.id);
+        finishSave(true);
+      } else {
+        // Someone saved again while the dialog was open
+        await openMergeDialog(merged);
+      }
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save merged blog",
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleEdit = (blog: Blog) => {
+  const handleMergeDiscard = () => {
+    if (!mergeConflict) return;
+    loadIntoEditor(mergeConflict.remote);
+    setMergeConflict(null);
+    toast({
+      title: "Loaded latest version",
+      description: "Your unsaved changes were discarded",
+    });
+  };
+
+  const loadIntoEditor = (blog: Blog) => {
     setEditingBlog(blog);
+    editingVersionRef.current = { id: blog.id, updatedAt: blog.updated_at ?? null };
+    setRemoteChanged(false);
     setShowCreateForm(true);
     setFormData({
       title: blog.title,
@@ -356,12 +636,15 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
       category: blog.category,
       status: blog.status,
       featured: blog.featured,
-      featured_image_url: blog.featured_image_url || ''
+      featured_image_url: blog.featured_image_url || '',
+      publish_at: toDateTimeLocal(blog.publish_at),
+      unpublish_at: toDateTimeLocal(blog.unpublish_at)
     });
     
-    // Load structured data if available
-    if (blog.blog_structure) {
-      setBlogStructure(blog.blog_structure as BlogStructure);
+    // Load structured data if available, upgraded to the current schema version
+    const structure = parseBlogStructure(blog.blog_structure);
+    if (structure) {
+      setBlogStructure(structure);
       setEditorMode('visual');
     } else {
       // Default to classic editor for old blogs
@@ -369,6 +652,121 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
     }
   };
 
+  // List rows carry no body, so fetch the full post before editing it
+  const handleEdit = async (item: Pick<AdminBlogListItem, 'id'>) => {
+    try {
+      const [row, tags] = await Promise.all([fetchBlogBody(item.id), fetchBlogTags(item.id)]);
+      if (!row) throw new Error('This blog no longer exists');
+      const { structure, errors } = loadBlogStructure(row.blog_structure);
+      if (errors.length > 0) console.warn(`Repaired blog_structure of "${row.title}":`, errors);
+      loadIntoEditor({ ...row, blog_structure: structure } as unknown as Blog);
+      loadedTagNamesRef.current = tags.map(tag => tag.name);
+      setTagNames(loadedTagNamesRef.current);
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load blog",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Write the revision back to the blog (which records a new revision) and reload the editor
+  const handleRestoreRevision = async (revision: BlogRevision) => {
+    if (!editingBlog) return;
+
+    try {
+      const savedAt = await updateIfUnchanged({
+        title: revision.title,
+        content: revision.content,
+        excerpt: revision.excerpt,
+        blog_structure: revision.blog_structure
+      }, editingVersionRef.current?.updatedAt ?? null);
+      if (!savedAt) {
+        setRemoteChanged(true);
+        throw new Error('This blog was changed in another session. Reload it before restoring a revision.');
+      }
+
+      setFormData(prev => ({
+        ...prev,
+        title: revision.title,
+        content: revision.content,
+        excerpt: revision.excerpt || ''
+      }));
+
+      const structure = parseBlogStructure(revision.blog_structure);
+      if (structure) {
+        setBlogStructure(structure);
+        setEditorMode('visual');
+      } else {
+        setEditorMode('classic');
+      }
+
+      setLastSaved(new Date());
+      toast({
+        title: "Revision restored",
+        description: `Restored the version from ${new Date(revision.created_at).toLocaleString()}`,
+      });
+      fetchBlogs();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore revision",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openReviewDialog = (blog: AdminBlogListItem, decision: 'approve' | 'reject') => {
+    setReviewComment('');
+    setReviewDialog({ blog, decision });
+  };
+
+  // Approve publishes (or schedules) the post, reject sends it back to draft.
+  // reviewed_by/reviewed_at are stamped by the database trigger.
+  const handleReview = async () => {
+    if (!reviewDialog) return;
+    const { blog, decision } = reviewDialog;
+
+    if (decision === 'reject' && !reviewComment.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please explain why the post is rejected",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmittingReview(true);
+    try {
+      const { error } = await supabase
+        .from('blogs')
+        .update({
+          status: decision === 'approve' ? resolveScheduledStatus('published', blog.publish_at) : 'draft',
+          review_comment: reviewComment.trim() || null
+        })
+        .eq('id', blog.id);
+      if (error) throw error;
+
+      toast({
+        title: decision === 'approve' ? "Blog approved" : "Blog rejected",
+        description: decision === 'approve'
+          ? `"${blog.title}" has been approved`
+          : `"${blog.title}" was sent back to the author`
+      });
+      setReviewDialog(null);
+      fetchBlogs();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review blog",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmittingReview(false);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     setDeleteDialog({ open: true, blogId: id });
   };
@@ -442,110 +840,41 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
     }
   };
 
-  // Convert blog structure to HTML for backward compatibility
-  const convertStructureToHTML = (structure: BlogStructure): string => {
-    let html = '';
-    
-    structure.blocks.forEach(block => {
-      const { content } = block;
-      
-      switch (block.type) {
-        case 'left-image-right-text':
-          html += `
-            <div class="grid grid-cols-1 md:grid-cols-2 gap-6 items-center mb-8">
-              <div>
-                <img src="${content.imageUrl}" alt="" class="w-full rounded-lg" />
-              </div>
-              <div>
-                <p>${content.text}</p>
-              </div>
-            </div>
-          `;
-          break;
-        case 'right-image-left-text':
-          html += `
-            <div class="grid grid-cols-1 md:grid-cols-2 gap-6 items-center mb-8">
-              <div>
-                <p>${content.text}</p>
-              </div>
-              <div>
-                <img src="${content.imageUrl}" alt="" class="w-full rounded-lg" />
-              </div>
-            </div>
-          `;
-          break;
-        case 'full-width-image':
-          html += `
-            <div class="mb-8">
-              <img src="${content.imageUrl}" alt="" class="w-full rounded-lg" />
-              ${content.caption ? `<p class="text-sm text-gray-600 mt-2">${content.caption}</p>` : ''}
-            </div>
-          `;
-          break;
-        case 'full-width-text':
-          html += `<div class="mb-8"><p>${content.text}</p></div>`;
-          break;
-        case 'image-caption':
-          html += `
-            <div class="mb-8">
-              <img src="${content.imageUrl}" alt="" class="w-full rounded-lg" />
-              ${content.caption ? `<p class="text-sm text-gray-600 mt-2">${content.caption}</p>` : ''}
-            </div>
-          `;
-          break;
-        case 'video-embed':
-          html += `
-            <div class="mb-8">
-              <div class="aspect-video">
-                <iframe src="${content.videoUrl}" class="w-full h-full rounded-lg" allowfullscreen></iframe>
-              </div>
-            </div>
-          `;
-          break;
-        case 'table':
-          if (content.tableData) {
-            html += '<table class="w-full border-collapse border mb-8">';
-            html += '<thead><tr>';
-            content.tableData.headers.forEach(header => {
-              html += `<th class="border p-3 bg-gray-50">${header}</th>`;
-            });
-            html += '</tr></thead><tbody>';
-            content.tableData.rows.forEach(row => {
-              html += '<tr>';
-              row.forEach(cell => {
-                html += `<td class="border p-3">${cell}</td>`;
-              });
-              html += '</tr>';
-            });
-            html += '</tbody></table>';
-          }
-          break;
-        case 'chart':
-          if (content.chartData) {
-            html += `
-              <div class="mb-8 text-center">
-                <h3 class="text-lg font-semibold mb-4">${content.chartData.title}</h3>
-                <div class="bg-gray-100 p-6 rounded-lg">
-                  <p>Chart: ${content.chartData.type} - ${content.chartData.labels.join(', ')}</p>
-                </div>
-              </div>
-            `;
-          }
-          break;
-      }
-    });
-    
-    return html;
+  const handleUpgradeStructures = async () => {
+    if (!confirm('This will upgrade every stored visual editor structure to the current schema version. Continue?')) return;
+
+    setUpgradingStructures(true);
+    try {
+      const report = await upgradeBlogStructures();
+      setUpgradeFailures(report.failed);
+      toast({
+        title: report.failed.length ? "Upgrade finished with errors" : "Blog structures upgraded!",
+        description: `${report.upgraded} upgraded, ${report.unchanged} already current, ${report.failed.length} failed`,
+        variant: report.failed.length ? "destructive" : "default",
+      });
+      fetchBlogs(); // Refresh the list
+    } catch (error: unknown) {
+      toast({
+        title: "Upgrade failed",
+        description: error instanceof Error ? error.message : "Upgrade failed",
+        variant: "destructive",
+      });
+    } finally {
+      setUpgradingStructures(false);
+    }
   };
 
   // validation error shown in dialog when save fails
 
   const statusCounts = {
-    all: blogs.length,
-    draft: blogs.filter(b => b.status === 'draft').length,
-    published: blogs.filter(b => b.status === 'published').length,
-    archived: blogs.filter(b => b.status === 'archived').length,
+    all: Object.values(statusTotals).reduce((sum, count) => sum + count, 0),
+    draft: statusTotals.draft || 0,
+    published: statusTotals.published || 0,
+    scheduled: statusTotals.scheduled || 0,
+    in_review: statusTotals.in_review || 0,
+    archived: statusTotals.archived || 0,
   };
+  const totalPages = Math.ceil(totalBlogs / ADMIN_PAGE_SIZE);
 
   return (
     <div className="space-y-6" data-testid="blog-manager">
@@ -559,7 +888,7 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
           <div className="flex flex-wrap gap-2">
             <Badge variant="secondary" className="flex items-center gap-1">
               <BookOpen className="w-3 h-3" />
-              <span>{blogs.length}</span>
+              <span>{statusCounts.all}</span>
               <span> Total Posts</span>
             </Badge>
             <Badge variant="outline" className="flex items-center gap-1">
@@ -571,6 +900,12 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
               <FileText className="w-3 h-3" />
               <span>Draft Posts ({statusCounts.draft})</span>
             </Badge>
+            {statusCounts.in_review > 0 && (
+              <Badge variant="outline" className="flex items-center gap-1" data-testid="in-review-count">
+                <MessageSquare className="w-3 h-3" />
+                <span>Awaiting Review ({statusCounts.in_review})</span>
+              </Badge>
+            )}
           </div>
         </div>
       </div>
@@ -597,10 +932,9 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Categories</SelectItem>
-                <SelectItem value="general">General</SelectItem>
-                <SelectItem value="technology">Technology</SelectItem>
-                <SelectItem value="ai">Artificial Intelligence</SelectItem>
-                <SelectItem value="business">Business</SelectItem>
+                {categoryOptions.map(category => (
+                  <SelectItem key={category.slug} value={category.slug}>{category.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -622,6 +956,18 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                     <span className="text-muted-foreground">({statusCounts.published})</span>
                   </div>
                 </SelectItem>
+                <SelectItem value="in_review">
+                  <div className="flex items-center justify-between w-full">
+                    <span>In Review</span>
+                    <span className="text-muted-foreground">({statusCounts.in_review})</span>
+                  </div>
+                </SelectItem>
+                <SelectItem value="scheduled">
+                  <div className="flex items-center justify-between w-full">
+                    <span>Scheduled</span>
+                    <span className="text-muted-foreground">({statusCounts.scheduled})</span>
+                  </div>
+                </SelectItem>
                 <SelectItem value="draft">
                   <div className="flex items-center justify-between w-full">
                     <span>Draft</span>
@@ -651,9 +997,10 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
           </div>
         </div>
 
-        {/* Action Buttons (admin only) */}
-        {userRole === 'admin' && (
+        {/* Action Buttons (maintenance scripts are admin only) */}
           <div className="flex flex-wrap gap-2">
+            {userRole === 'admin' && (
+            <>
             <Button 
               variant="outline" 
               onClick={handleMigrateBlogs}
@@ -670,6 +1017,17 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
               <Star className="w-4 h-4 mr-2" />
               {addingFeatured ? 'Adding...' : 'Add Featured Articles'}
             </Button>
+            <Button 
+              variant="outline" 
+              onClick={handleUpgradeStructures}
+              disabled={upgradingStructures}
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {upgradingStructures ? 'Upgrading...' : 'Upgrade Blog Structures'}
+            </Button>
+            </>
+            )}
+            {canCreateBlog(userRole) && (
             <Dialog open={showCreateForm || !!editingBlog} onOpenChange={(open) => {
             if (!open) {
               setShowCreateForm(false);
@@ -699,6 +1057,23 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                      Auto-saving...
                    </Badge>
                  )}
+                 {editingPeers.length > 0 && (
+                   <div className="flex items-center gap-1" data-testid="editing-peers">
+                     <span className="text-xs text-muted-foreground">Also editing:</span>
+                     {editingPeers.map(peer => (
+                       <Badge key={peer.key} variant="outline" style={{ borderColor: peer.color, color: peer.color }}>
+                         <User className="w-3 h-3 mr-1" />
+                         {peer.name}
+                       </Badge>
+                     ))}
+                   </div>
+                 )}
+                 {remoteChanged && (
+                   <Badge variant="destructive" data-testid="remote-changed-badge">
+                     <AlertCircle className="w-3 h-3 mr-1" />
+                     Changed in another session — saving will ask you to merge
+                   </Badge>
+                 )}
                  {lastSaved && !isAutoSaving && (
                    <Badge variant="outline" className="text-green-600">
                      <CheckCircle className="w-3 h-3 mr-1" />
@@ -711,10 +1086,11 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
              <div className="flex-1 overflow-hidden">
                  <Tabs defaultValue="content" className="h-full flex flex-col">
                    <div className="px-6 pt-4">
-                     <TabsList className="grid w-full grid-cols-3">
+                     <TabsList className={`grid w-full ${editingBlog ? 'grid-cols-4' : 'grid-cols-3'}`}>
                        <TabsTrigger value="content">Content</TabsTrigger>
                        <TabsTrigger value="settings">Settings</TabsTrigger>
                        <TabsTrigger value="preview">Preview</TabsTrigger>
+                       {editingBlog && <TabsTrigger value="history">History</TabsTrigger>}
                      </TabsList>
                    </div>
                  
@@ -830,6 +1206,9 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                                        featuredImage: formData.featured_image_url
                                      }}
                                      showMetaControls={false}
+                                     blogId={editingBlog?.id ?? null}
+                                     blockEditors={groupPeersByBlock(editingPeers)}
+                                     onActiveBlockChange={setActiveBlock}
                                      onChange={(structure) => {
                                        setBlogStructure(structure);
                                        // Sync the title back to formData to enable Create Post button
@@ -858,6 +1237,7 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                                       
                                       // Set the structured content in the visual editor
                                       setBlogStructure({
+                                        schemaVersion: BLOG_SCHEMA_VERSION,
                                         title: document.title,
                                         featuredImage: document.featuredImage,
                                         author: document.author,
@@ -895,28 +1275,55 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                                     <SelectValue />
                                   </SelectTrigger>
                                  <SelectContent>
-                                   <SelectItem value="draft">
-                                     <div className="flex items-center gap-2">
-                                       <div className="w-2 h-2 rounded-full bg-yellow-500"></div>
-                                       Draft
-                                     </div>
-                                   </SelectItem>
-                                   <SelectItem value="published">
-                                     <div className="flex items-center gap-2">
-                                       <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                                       Published
-                                     </div>
-                                   </SelectItem>
-                                   <SelectItem value="archived">
-                                     <div className="flex items-center gap-2">
-                                       <div className="w-2 h-2 rounded-full bg-gray-500"></div>
-                                       Archived
-                                     </div>
-                                   </SelectItem>
+                                   {statusOptions.map(option => (
+                                     <SelectItem key={option.value} value={option.value}>
+                                       <div className="flex items-center gap-2">
+                                         <div className={`w-2 h-2 rounded-full ${option.color}`}></div>
+                                         {option.label}
+                                       </div>
+                                     </SelectItem>
+                                   ))}
                                  </SelectContent>
                                </Select>
                              </div>
 
+                             {editingBlog?.review_comment && (
+                               <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm" data-testid="editor-review-comment">
+                                 <p className="font-medium flex items-center gap-1">
+                                   <MessageSquare className="w-3 h-3" />
+                                   Reviewer comment
+                                 </p>
+                                 <p className="mt-1 whitespace-pre-wrap">{editingBlog.review_comment}</p>
+                               </div>
+                             )}
+
+                             <div>
+                               <Label htmlFor="publish_at" className="text-sm font-medium">Publish at</Label>
+                               <Input
+                                 id="publish_at"
+                                 type="datetime-local"
+                                 value={formData.publish_at}
+                                 onChange={(e) => setFormData({...formData, publish_at: e.target.value})}
+                                 className="mt-1"
+                                 data-testid="blog-publish-at-input"
+                               />
+                               <p className="text-xs text-muted-foreground mt-1">
+                                 Publishing with a future date schedules the post
+                               </p>
+                             </div>
+
+                             <div>
+                               <Label htmlFor="unpublish_at" className="text-sm font-medium">Unpublish at</Label>
+                               <Input
+                                 id="unpublish_at"
+                                 type="datetime-local"
+                                 value={formData.unpublish_at}
+                                 onChange={(e) => setFormData({...formData, unpublish_at: e.target.value})}
+                                 className="mt-1"
+                                 data-testid="blog-unpublish-at-input"
+                               />
+                             </div>
+
                              <div>
                                <Label htmlFor="category" className="text-sm font-medium">Category</Label>
                                 <Select value={formData.category} onValueChange={(value) => setFormData({...formData, category: value})} data-testid="blog-category-select">
@@ -924,14 +1331,20 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                                     <SelectValue />
                                   </SelectTrigger>
                                  <SelectContent>
-                                   <SelectItem value="general">General</SelectItem>
-                                   <SelectItem value="technology">Technology</SelectItem>
-                                   <SelectItem value="ai">Artificial Intelligence</SelectItem>
-                                   <SelectItem value="business">Business</SelectItem>
+                                   {categoryOptions.map(category => (
+                                     <SelectItem key={category.slug} value={category.slug}>{category.name}</SelectItem>
+                                   ))}
                                  </SelectContent>
                                </Select>
                              </div>
 
+                             <div>
+                               <Label htmlFor="blog-tags" className="text-sm font-medium">Tags</Label>
+                               <div className="mt-1">
+                                 <BlogTagEditor value={tagNames} onChange={setTagNames} suggestions={taxonomy.tags} />
+                               </div>
+                             </div>
+
                              <div className="flex items-center justify-between">
                                <Label className="text-sm font-medium">Featured Article</Label>
                                 <Switch
@@ -1080,22 +1493,30 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                           ) : (
                             // Classic editor preview
                             <>
-                              {formData.featured_image_url && (
+                              {safeImageUrl(formData.featured_image_url) && (
                                 <img 
-                                  src={formData.featured_image_url} 
+                                  src={safeImageUrl(formData.featured_image_url)} 
                                   alt={formData.title} 
                                   className="w-full h-48 object-cover rounded mb-6"
                                 />
                               )}
                               <h1 className="text-3xl font-bold mb-2">{formData.title || 'Blog Title'}</h1>
                               <p className="text-muted-foreground mb-6">{formData.excerpt || 'Blog excerpt will appear here...'}</p>
-                              <div dangerouslySetInnerHTML={{ __html: formData.content || '<p>Blog content will appear here...</p>' }} />
+                              <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(formData.content) || '<p>Blog content will appear here...</p>' }} />
                             </>
                           )}
                         </div>
                       </div>
                     </ScrollArea>
                   </TabsContent>
+
+                  {editingBlog && (
+                    <TabsContent value="history" className="flex-1 overflow-hidden mt-0 pt-4">
+                      <ScrollArea className="h-full px-6">
+                        <BlogRevisionHistory blogId={editingBlog.id} onRestore={handleRestoreRevision} />
+                      </ScrollArea>
+                    </TabsContent>
+                  )}
                </Tabs>
              </div>
 
@@ -1128,10 +1549,36 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
             </div>
           </DialogContent>
         </Dialog>
+            )}
         </div>
-        )}
       </div>
 
+      {/* Rows the last structure upgrade could not convert */}
+      {upgradeFailures.length > 0 && (
+        <Card className="p-4 border-destructive/50 bg-destructive/5" data-testid="upgrade-failures">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold flex items-center gap-2 text-destructive">
+              <AlertCircle className="w-4 h-4" />
+              {upgradeFailures.length} blog structure(s) could not be upgraded
+            </h3>
+            <Button size="sm" variant="ghost" onClick={() => setUpgradeFailures([])}>
+              Dismiss
+            </Button>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {upgradeFailures.map(failure => (
+              <li key={failure.id}>
+                <span className="font-medium">{failure.title}</span>
+                <span className="text-muted-foreground"> — {failure.error}</span>
+                {failure.blockIds.length > 0 && (
+                  <span className="text-muted-foreground"> (blocks: {failure.blockIds.join(', ')})</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
       {/* Blog List */}
       <div className="space-y-4">
         {loading ? (
@@ -1170,7 +1617,11 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                   <div className="flex justify-between items-start gap-4">
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 mb-2">
-                        <CardTitle className="text-xl font-bold truncate">{blog.title}</CardTitle>
+                        <CardTitle className="text-xl font-bold truncate">
+                          {searchHits.has(blog.id)
+                            ? <HighlightedText value={searchHits.get(blog.id)?.title_highlight} />
+                            : blog.title}
+                        </CardTitle>
                         {blog.featured && (
                           <Star className="w-4 h-4 text-yellow-500 fill-current" />
                         )}
@@ -1186,16 +1637,60 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                           <Calendar className="w-3 h-3" />
                           {new Date(blog.created_at).toLocaleDateString()}
                         </span>
-                        <span className="capitalize font-medium">{blog.category}</span>
+                        {blog.status === 'scheduled' && blog.publish_at && (
+                          <span className="flex items-center gap-1 text-blue-600">
+                            <Globe className="w-3 h-3" />
+                            Publishes {new Date(blog.publish_at).toLocaleString()}
+                          </span>
+                        )}
+                        {blog.unpublish_at && blog.status !== 'archived' && (
+                          <span className="flex items-center gap-1">
+                            <Calendar className="w-3 h-3" />
+                            Unpublishes {new Date(blog.unpublish_at).toLocaleString()}
+                          </span>
+                        )}
+                        {peersForBlog(peers, blog.id).length > 0 && (
+                          <span className="flex items-center gap-1" data-testid="blog-open-by">
+                            <Edit className="w-3 h-3" />
+                            Open by {peersForBlog(peers, blog.id).map(peer => peer.name).join(', ')}
+                          </span>
+                        )}
+                        <span className="font-medium">{categoryLabel(categoryOptions, blog.category)}</span>
                         <span className="font-mono text-xs bg-muted px-2 py-1 rounded">/{blog.slug}</span>
                       </div>
                     </div>
                     
                     <div className="flex items-center gap-2 flex-shrink-0">
+                      {canReviewBlog(userRole, blog.status) && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openReviewDialog(blog, 'approve')}
+                            className="text-green-700 hover:bg-green-50"
+                            data-testid="approve-blog-button"
+                          >
+                            <ThumbsUp className="w-4 h-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openReviewDialog(blog, 'reject')}
+                            className="text-destructive hover:bg-destructive/10"
+                            data-testid="reject-blog-button"
+                          >
+                            <ThumbsDown className="w-4 h-4 mr-1" />
+                            Reject
+                          </Button>
+                        </>
+                      )}
                       <Button 
                         size="sm" 
                         variant="outline" 
                         onClick={() => handleEdit(blog)}
+                        disabled={!canEditBlog(userRole, blog.status)}
+                        title={canEditBlog(userRole, blog.status) ? undefined : 'Only admins can edit approved posts'}
                         className="hover:bg-primary/10"
                         aria-label="Edit blog"
                         data-testid="edit-blog-button"
@@ -1206,6 +1701,7 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                         size="sm" 
                         variant="outline" 
                         onClick={() => handleDelete(blog.id)}
+                        disabled={!canDeleteBlog(userRole, blog.status)}
                         className="hover:bg-destructive/10 hover:text-destructive"
                         aria-label="Delete blog"
                         data-testid="delete-blog-button"
@@ -1215,12 +1711,33 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                     </div>
                   </div>
                 </CardHeader>
+
+                {blog.review_comment && (
+                  <CardContent className="pt-0 pb-3">
+                    <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm" data-testid="review-comment">
+                      <p className="font-medium flex items-center gap-1">
+                        <MessageSquare className="w-3 h-3" />
+                        Reviewer comment
+                        {blog.reviewed_at && (
+                          <span className="font-normal text-muted-foreground">
+                            · {new Date(blog.reviewed_at).toLocaleString()}
+                          </span>
+                        )}
+                      </p>
+                      <p className="mt-1 whitespace-pre-wrap">{blog.review_comment}</p>
+                    </div>
+                  </CardContent>
+                )}
                 
-                {(blog.excerpt || blog.featured_image_url) && (
+                {(blog.excerpt || blog.featured_image_url || searchHits.has(blog.id)) && (
                   <CardContent className="pt-0">
                     <div className="flex gap-4">
                       <div className="flex-1">
-                        {blog.excerpt && (
+                        {searchHits.get(blog.id)?.snippet ? (
+                          <p className="text-sm text-muted-foreground line-clamp-3 leading-relaxed" data-testid="search-snippet">
+                            <HighlightedText value={searchHits.get(blog.id)?.snippet} />
+                          </p>
+                        ) : blog.excerpt && (
                           <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
                             {blog.excerpt}
                           </p>
@@ -1243,9 +1760,96 @@ const BlogManager: React.FC<BlogManagerProps> = ({ userRole }) => {
                 )}
               </Card>
             ))}
+            {!search.active && totalPages > 1 && (
+              <nav className="flex flex-wrap items-center justify-center gap-1" aria-label="Blog list pages" data-testid="blog-pagination">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  Previous
+                </Button>
+                {pageWindow(page, totalPages).map((item, index) =>
+                  item === 'gap' ? (
+                    <span key={`gap-${index}`} className="px-2 text-muted-foreground">…</span>
+                  ) : (
+                    <Button
+                      key={item}
+                      variant={item === page ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setPage(item)}
+                      aria-current={item === page ? 'page' : undefined}
+                    >
+                      {item}
+                    </Button>
+                  )
+                )}
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                  Next
+                </Button>
+              </nav>
+            )}
+            {search.active && search.hasMore && (
+              <div className="flex items-center justify-center gap-3 text-sm text-muted-foreground">
+                Showing {search.results.length} of {search.total} matches
+                <Button variant="outline" size="sm" onClick={search.loadMore} disabled={search.loading}>
+                  Load more results
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </div>
+
+      {mergeConflict && (
+        <BlogMergeDialog
+          open={!!mergeConflict}
+          base={editingBlog?.blog_structure ?? null}
+          local={editorMode === 'visual' ? blogStructure : null}
+          remote={mergeConflict.remote.blog_structure ?? null}
+          remoteUpdatedAt={mergeConflict.remote.updated_at ?? new Date().toISOString()}
+          onMerge={handleMergeResolved}
+          onDiscard={handleMergeDiscard}
+          onCancel={() => setMergeConflict(null)}
+        />
+      )}
+
+      {/* Approve / reject a post that is in review */}
+      <Dialog open={!!reviewDialog} onOpenChange={(open) => !open && setReviewDialog(null)}>
+        <DialogContent className="sm:max-w-[480px]" data-testid="review-dialog">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewDialog?.decision === 'approve' ? 'Approve' : 'Reject'} "{reviewDialog?.blog.title}"
+            </DialogTitle>
+            <DialogDescription>
+              {reviewDialog?.decision === 'approve'
+                ? 'The post will be published, or scheduled if it has a future publish date.'
+                : 'The post goes back to draft and the author sees your comment.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">
+              Comment{reviewDialog?.decision === 'approve' ? ' (optional)' : ''}
+            </Label>
+            <Textarea
+              id="review-comment"
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+              rows={4}
+              placeholder={reviewDialog?.decision === 'approve' ? 'Notes for the author...' : 'What needs to change?'}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setReviewDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReview}
+              disabled={submittingReview}
+              variant={reviewDialog?.decision === 'reject' ? 'destructive' : 'default'}
+              data-testid="confirm-review-button"
+            >
+              {submittingReview ? 'Saving...' : reviewDialog?.decision === 'approve' ? 'Approve' : 'Reject'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
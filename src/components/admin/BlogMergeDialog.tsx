@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import type { BlogStructure, ContentBlock } from '@/utils/blogSchema';
+import { applyBlockMerge, buildBlockMerge, MergeChoice } from '@/utils/blogMerge';
+import { flattenListItems } from '@/utils/blogLists';
+import { GitMerge } from 'lucide-react';
+
+interface BlogMergeDialogProps {
+  open: boolean;
+  base: BlogStructure | null;
+  local: BlogStructure | null;
+  remote: BlogStructure | null;
+  remoteUpdatedAt: string;
+  /** Save the merged structure, or the local post as-is when there are no blocks to merge. */
+  onMerge: (structure: BlogStructure | null) => void;
+  /** Drop local changes and load the remote version into the editor. */
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+const BlockPreview: React.FC<{ block?: ContentBlock; label: string }> = ({ block, label }) => {
+  if (!block) {
+    return <p className="text-sm italic text-muted-foreground">Removed in {label}</p>;
+  }
+
+  const content = block.content;
+  const summary = content.text || content.caption || content.chartData?.title || content.imageUrl || content.videoUrl
+    || (content.tableData ? `${content.tableData.rows.length} table rows` : '')
+    || (content.listData ? flattenListItems(content.listData.items).join('\n') : '');
+
+  return (
+    <div className="text-sm space-y-1">
+      <span className="text-xs text-muted-foreground">{block.type}</span>
+      <p className="whitespace-pre-wrap break-words line-clamp-6">{summary || 'Empty block'}</p>
+    </div>
+  );
+};
+
+const BlogMergeDialog: React.FC<BlogMergeDialogProps> = ({
+  open,
+  base,
+  local,
+  remote,
+  remoteUpdatedAt,
+  onMerge,
+  onDiscard,
+  onCancel
+}) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  const rows = useMemo(
+    () => local && remote ? buildBlockMerge(base?.blocks || [], local.blocks, remote.blocks) : [],
+    [base, local, remote]
+  );
+
+  useEffect(() => {
+    setChoices({});
+  }, [rows]);
+
+  const handleMerge = () => {
+    if (!local || !remote) {
+      onMerge(null);
+      return;
+    }
+    onMerge({ ...local, blocks: applyBlockMerge(local.blocks, remote.blocks, rows, choices) });
+  };
+
+  const conflicts = rows.filter(row => row.conflict).length;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-4xl w-[95vw] max-h-[90vh] flex flex-col" data-testid="merge-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5" />
+            This post was changed in another session
+          </DialogTitle>
+          <DialogDescription>
+            Someone saved it at {new Date(remoteUpdatedAt).toLocaleString()} after you opened it.
+            {local && remote
+              ? ' Pick which version of each changed block to keep. Title and settings are saved from your version.'
+              : ' This post has no content blocks to merge; keep your version or load theirs.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {local && remote && (
+          <ScrollArea className="flex-1 pr-2">
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">
+                The content blocks are identical; only other fields differ.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {conflicts > 0 && (
+                  <p className="text-sm text-destructive">
+                    {conflicts} block(s) were changed in both sessions.
+                  </p>
+                )}
+                {rows.map(row => {
+                  const choice = choices[row.id] ?? row.defaultChoice;
+                  return (
+                    <div key={row.id} className="border rounded-md p-3" data-testid="merge-row">
+                      <div className="flex items-center gap-2 mb-2">
+                        {row.conflict && <Badge variant="destructive">Conflict</Badge>}
+                        <span className="text-xs text-muted-foreground font-mono">{row.id}</span>
+                      </div>
+                      <div className="grid grid-cols-2 gap-3">
+                        {(['local', 'remote'] as MergeChoice[]).map(side => (
+                          <button
+                            key={side}
+                            type="button"
+                            onClick={() => setChoices(prev => ({ ...prev, [row.id]: side }))}
+                            className={`text-left rounded-md border p-3 transition-colors ${
+                              choice === side ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+                            }`}
+                            aria-pressed={choice === side}
+                          >
+                            <p className="text-xs font-semibold mb-1">
+                              {side === 'local' ? 'Your version' : 'Their version'}
+                            </p>
+                            <BlockPreview
+                              block={side === 'local' ? row.local : row.remote}
+                              label={side === 'local' ? 'your version' : 'their version'}
+                            />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </ScrollArea>
+        )}
+
+        <div className="flex justify-between gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={onDiscard}>
+            Discard mine and load theirs
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} data-testid="apply-merge-button">
+              {local && remote ? 'Save merged version' : 'Keep my version'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BlogMergeDialog;
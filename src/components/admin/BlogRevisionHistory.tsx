@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { parseBlogStructure } from '@/utils/blogSchema';
+import { BlockDiffEntry, diffBlocks, diffText, htmlToDiffText } from '@/utils/blogDiff';
+import { flattenListItems } from '@/utils/blogLists';
+import { History, RotateCcw, User } from 'lucide-react';
+
+export interface BlogRevision {
+  id: string;
+  blog_id: string;
+  title: string;
+  content: string;
+  excerpt: string | null;
+  blog_structure: Json | null;
+  status: string;
+  author_id: string | null;
+  author_email: string | null;
+  created_at: string;
+}
+
+interface BlogRevisionHistoryProps {
+  blogId: string;
+  onRestore: (revision: BlogRevision) => Promise<void>;
+}
+
+const blockChangeStyles: Record<BlockDiffEntry['change'], string> = {
+  added: 'border-green-300 bg-green-50',
+  removed: 'border-red-300 bg-red-50',
+  modified: 'border-amber-300 bg-amber-50',
+  unchanged: 'border-border'
+};
+
+const blockSummary = (entry: BlockDiffEntry): string => {
+  const content = (entry.after || entry.before)?.content;
+  const summary = content?.text || content?.caption || content?.chartData?.title || content?.imageUrl || content?.videoUrl
+    || (content?.listData ? flattenListItems(content.listData.items).join(', ') : '');
+  return summary.length > 120 ? `${summary.slice(0, 120)}…` : summary;
+};
+
+const BlogRevisionHistory: React.FC<BlogRevisionHistoryProps> = ({ blogId, onRestore }) => {
+  const [revisions, setRevisions] = useState<BlogRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('blog_revisions')
+        .select('*')
+        .eq('blog_id', blogId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      const rows = data || [];
+      setRevisions(rows);
+      // Default to comparing the latest revision against the one before it
+      setCompareId(rows[0]?.id ?? null);
+      setBaseId(rows[1]?.id ?? rows[0]?.id ?? null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load revision history",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [blogId, toast]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const handleRestore = async (revision: BlogRevision) => {
+    setRestoringId(revision.id);
+    try {
+      await onRestore(revision);
+      await fetchRevisions();
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const base = revisions.find(revision => revision.id === baseId);
+  const compare = revisions.find(revision => revision.id === compareId);
+
+  const { blockDiff, textDiff } = useMemo(() => {
+    if (!base || !compare) return { blockDiff: null, textDiff: [] };
+
+    const baseStructure = parseBlogStructure(base.blog_structure);
+    const compareStructure = parseBlogStructure(compare.blog_structure);
+    return {
+      blockDiff: baseStructure || compareStructure
+        ? diffBlocks(baseStructure?.blocks || [], compareStructure?.blocks || [])
+        : null,
+      textDiff: diffText(htmlToDiffText(base.content), htmlToDiffText(compare.content))
+    };
+  }, [base, compare]);
+
+  if (loading) {
+    return <div className="text-center py-8 text-muted-foreground">Loading revisions...</div>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground" data-testid="revision-history-empty">
+        No revisions recorded for this blog yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 pb-6" data-testid="revision-history">
+      <Card className="p-4 lg:col-span-1">
+        <h3 className="font-semibold mb-3 flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Revisions ({revisions.length})
+        </h3>
+        <p className="text-xs text-muted-foreground mb-3">
+          Pick a base (A) and a revision to compare (B).
+        </p>
+        <ScrollArea className="h-[55vh] pr-2">
+          <div className="space-y-2">
+            {revisions.map((revision, index) => (
+              <div
+                key={revision.id}
+                className={`border rounded-md p-3 text-sm ${revision.id === compareId ? 'border-primary' : ''}`}
+                data-testid="revision-item"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{new Date(revision.created_at).toLocaleString()}</span>
+                  {index === 0 && <Badge variant="secondary">Current</Badge>}
+                </div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                  <User className="w-3 h-3" />
+                  {revision.author_email || 'Unknown author'}
+                  <span>•</span>
+                  <span className="capitalize">{revision.status}</span>
+                </div>
+                <div className="flex items-center gap-2 mt-2">
+                  <Button
+                    size="sm"
+                    variant={revision.id === baseId ? 'default' : 'outline'}
+                    onClick={() => setBaseId(revision.id)}
+                  >
+                    A
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={revision.id === compareId ? 'default' : 'outline'}
+                    onClick={() => setCompareId(revision.id)}
+                  >
+                    B
+                  </Button>
+                  {index > 0 && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="ml-auto"
+                      disabled={restoringId !== null}
+                      onClick={() => handleRestore(revision)}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </Card>
+
+      <div className="lg:col-span-2 space-y-6">
+        {base && compare && (
+          <p className="text-sm text-muted-foreground">
+            Comparing <strong>{new Date(base.created_at).toLocaleString()}</strong> with{' '}
+            <strong>{new Date(compare.created_at).toLocaleString()}</strong>
+            {base.title !== compare.title && (
+              <> — title changed from “{base.title}” to “{compare.title}”</>
+            )}
+          </p>
+        )}
+
+        {blockDiff && (
+          <Card className="p-4" data-testid="block-diff">
+            <h3 className="font-semibold mb-3">Blocks</h3>
+            {blockDiff.length === 0 && (
+              <p className="text-sm text-muted-foreground">Neither revision has content blocks.</p>
+            )}
+            <div className="space-y-2">
+              {blockDiff.map(entry => (
+                <div key={`${entry.change}-${entry.id}`} className={`border rounded-md p-3 text-sm ${blockChangeStyles[entry.change]}`}>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="capitalize">{entry.change}</Badge>
+                    {entry.moved && <Badge variant="outline">Moved</Badge>}
+                    <span className="text-muted-foreground">{(entry.after || entry.before)?.type}</span>
+                  </div>
+                  {entry.changedFields.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">Changed: {entry.changedFields.join(', ')}</p>
+                  )}
+                  {blockSummary(entry) && <p className="mt-1 break-words">{blockSummary(entry)}</p>}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-4" data-testid="text-diff">
+          <h3 className="font-semibold mb-3">Content</h3>
+          {textDiff.every(line => line.change === 'unchanged') && (
+            <p className="text-sm text-muted-foreground mb-2">No text changes between these revisions.</p>
+          )}
+          <pre className="text-xs whitespace-pre-wrap font-mono space-y-0.5">
+            {textDiff.map((line, index) => (
+              <div
+                key={index}
+                className={
+                  line.change === 'added'
+                    ? 'bg-green-50 text-green-800'
+                    : line.change === 'removed'
+                      ? 'bg-red-50 text-red-800 line-through'
+                      : 'text-muted-foreground'
+                }
+              >
+                {line.change === 'added' ? '+ ' : line.change === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default BlogRevisionHistory;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+import { BlogTag, parseTagNames, toSlug } from '@/utils/blogTaxonomy';
+
+interface BlogTagEditorProps {
+  /** Tag names on the post; new names become tags when the post is saved. */
+  value: string[];
+  onChange: (names: string[]) => void;
+  /** Existing tags, offered as suggestions while typing. */
+  suggestions: BlogTag[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const BlogTagEditor: React.FC<BlogTagEditorProps> = ({ value, onChange, suggestions }) => {
+  const [input, setInput] = useState('');
+  const selectedSlugs = new Set(value.map(toSlug));
+
+  const addNames = (text: string) => {
+    const names = parseTagNames(text).filter(name => !selectedSlugs.has(toSlug(name)));
+    if (names.length > 0) onChange([...value, ...names]);
+    setInput('');
+  };
+
+  const removeName = (name: string) => {
+    onChange(value.filter(existing => existing !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addNames(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeName(value[value.length - 1]);
+    }
+  };
+
+  const query = toSlug(input);
+  const matches = query
+    ? suggestions
+        .filter(tag => !selectedSlugs.has(tag.slug) && (tag.slug.includes(query) || tag.name.toLowerCase().includes(input.trim().toLowerCase())))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  return (
+    <div className="space-y-2" data-testid="blog-tag-editor">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(name => (
+            <Badge key={name} variant="secondary" className="gap-1">
+              {name}
+              <button
+                type="button"
+                onClick={() => removeName(name)}
+                aria-label={`Remove tag ${name}`}
+                className="rounded-full hover:text-destructive"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id="blog-tags"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => input.trim() && addNames(input)}
+        placeholder="Add tags, separated by commas"
+        data-testid="blog-tags-input"
+      />
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1" role="listbox" aria-label="Tag suggestions">
+          {matches.map(tag => (
+            <Badge
+              key={tag.id}
+              variant="outline"
+              role="option"
+              aria-selected={false}
+              className="cursor-pointer hover:bg-muted"
+              // Keep focus in the input so its blur handler does not add the partial text
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addNames(tag.name)}
+            >
+              {tag.name}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BlogTagEditor;
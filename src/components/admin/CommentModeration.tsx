@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { isAdminRole } from '@/utils/blogWorkflow';
+import { blogPostPath } from '@/utils/blogSeo';
+import {
+  COMMENT_STATUSES,
+  COMMENT_STATUS_LABELS,
+  CommentStatus,
+  ModerationComment,
+  deleteComment,
+  fetchCommentStatusCounts,
+  fetchModerationQueue,
+  moderateComments
+} from '@/utils/blogComments';
+import { Ban, Check, ExternalLink, Trash, X } from 'lucide-react';
+
+interface CommentModerationProps {
+  userRole: string;
+}
+
+const ACTIONS: Array<{ status: CommentStatus; label: string; icon: React.ComponentType<{ className?: string }> }> = [
+  { status: 'approved', label: 'Approve', icon: Check },
+  { status: 'rejected', label: 'Reject', icon: X },
+  { status: 'spam', label: 'Mark as spam', icon: Ban }
+];
+
+/** Reader comments by moderation status; admins and editors approve, reject or mark spam. */
+const CommentModeration: React.FC<CommentModerationProps> = ({ userRole }) => {
+  const [status, setStatus] = useState<CommentStatus>('pending');
+  const [comments, setComments] = useState<ModerationComment[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [queue, statusCounts] = await Promise.all([fetchModerationQueue(status), fetchCommentStatusCounts()]);
+      setComments(queue);
+      setCounts(statusCounts);
+      setSelected([]);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      toast({ title: "Error", description: "Failed to load comments", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleModerate = async (ids: string[], next: CommentStatus) => {
+    setWorking(true);
+    try {
+      await moderateComments(ids, next);
+      toast({
+        title: "Success",
+        description: `${ids.length} comment(s) moved to ${COMMENT_STATUS_LABELS[next].toLowerCase()}`
+      });
+      await loadQueue();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update comments",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDelete = async (comment: ModerationComment) => {
+    if (!window.confirm(`Delete this comment by ${comment.author_name}? Replies to it are deleted too.`)) return;
+    setWorking(true);
+    try {
+      await deleteComment(comment.id);
+      await loadQueue();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete comment",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const allSelected = comments.length > 0 && selected.length === comments.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Comment Moderation</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {COMMENT_STATUSES.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={status === option ? 'default' : 'outline'}
+              onClick={() => setStatus(option)}
+            >
+              {COMMENT_STATUS_LABELS[option]} ({counts[option] || 0})
+            </Button>
+          ))}
+        </div>
+
+        {comments.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 border-b pb-3">
+            <Checkbox
+              id="select-all-comments"
+              checked={allSelected}
+              onCheckedChange={(checked) => setSelected(checked ? comments.map(comment => comment.id) : [])}
+            />
+            <label htmlFor="select-all-comments" className="text-sm mr-2">
+              {selected.length > 0 ? `${selected.length} selected` : 'Select all'}
+            </label>
+            {ACTIONS.filter(action => action.status !== status).map(({ status: next, label, icon: Icon }) => (
+              <Button
+                key={next}
+                size="sm"
+                variant="outline"
+                disabled={selected.length === 0 || working}
+                onClick={() => handleModerate(selected, next)}
+              >
+                <Icon className="w-4 h-4 mr-1" />
+                {label} selected
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-muted-foreground">Loading comments...</p>
+        ) : comments.length === 0 ? (
+          <p className="text-muted-foreground">No {COMMENT_STATUS_LABELS[status].toLowerCase()} comments.</p>
+        ) : (
+          <div className="space-y-3">
+            {comments.map(comment => (
+              <div key={comment.id} className="flex gap-3 rounded border p-3" data-testid={`moderation-comment-${comment.id}`}>
+                <Checkbox
+                  checked={selected.includes(comment.id)}
+                  onCheckedChange={() => toggleSelected(comment.id)}
+                  aria-label={`Select comment by ${comment.author_name}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-medium">{comment.author_name}</span>
+                    {comment.parent_id && <Badge variant="outline">Reply</Badge>}
+                    <span className="text-muted-foreground">{new Date(comment.created_at).toLocaleString()}</span>
+                    {comment.blogs && (
+                      <a
+                        href={blogPostPath(comment.blogs.slug)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-primary hover:underline"
+                      >
+                        on {comment.blogs.title}
+                        <ExternalLink className="w-3 h-3 ml-1" />
+                      </a>
+                    )}
+                  </div>
+                  <p className="mt-1 whitespace-pre-line break-words">{comment.body}</p>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {ACTIONS.filter(action => action.status !== status).map(({ status: next, label, icon: Icon }) => (
+                      <Button
+                        key={next}
+                        size="sm"
+                        variant="outline"
+                        disabled={working}
+                        onClick={() => handleModerate([comment.id], next)}
+                        aria-label={`${label}: ${comment.author_name}`}
+                      >
+                        <Icon className="w-4 h-4 mr-1" />
+                        {label}
+                      </Button>
+                    ))}
+                    {isAdminRole(userRole) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={working}
+                        onClick={() => handleDelete(comment)}
+                        aria-label={`Delete comment by ${comment.author_name}`}
+                      >
+                        <Trash className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CommentModeration;
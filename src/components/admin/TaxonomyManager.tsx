@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useBlogTaxonomy } from '@/hooks/useBlogTaxonomy';
+import { fetchCategoryCounts } from '@/utils/blogListing';
+import { TaxonomyTable, TaxonomyTerm, fetchTagCounts, toSlug } from '@/utils/blogTaxonomy';
+import { blogArchivePath } from '@/utils/blogSeo';
+import { ExternalLink, Plus, Save, Trash } from 'lucide-react';
+
+interface TaxonomyManagerProps {
+  userRole: string;
+}
+
+interface TermDraft {
+  name: string;
+  slug: string;
+  description: string;
+  sort_order: number;
+}
+
+const toDraft = (term: TaxonomyTerm): TermDraft => ({
+  name: term.name,
+  slug: term.slug,
+  description: term.description || '',
+  sort_order: term.sort_order
+});
+
+const emptyDraft: TermDraft = { name: '', slug: '', description: '', sort_order: 0 };
+
+interface TermListProps {
+  table: TaxonomyTable;
+  title: string;
+  terms: TaxonomyTerm[];
+  /** Posts using each term: keyed by slug for categories, by id for tags */
+  usage: Record<string, number>;
+  canManage: boolean;
+  onChanged: () => void;
+}
+
+const TermList: React.FC<TermListProps> = ({ table, title, terms, usage, canManage, onChanged }) => {
+  const [drafts, setDrafts] = useState<Record<string, TermDraft>>({});
+  const [newTerm, setNewTerm] = useState<TermDraft>(emptyDraft);
+  const [saving, setSaving] = useState<string | null>(null);
+  const { toast } = useToast();
+  const kind = table === 'categories' ? 'category' : 'tag';
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(terms.map(term => [term.id, toDraft(term)])));
+  }, [terms]);
+
+  const usageOf = (term: TaxonomyTerm) => usage[table === 'categories' ? term.slug : term.id] || 0;
+
+  const updateDraft = (id: string, changes: Partial<TermDraft>) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const isDirty = (term: TaxonomyTerm) => {
+    const draft = drafts[term.id];
+    if (!draft) return false;
+    const saved = toDraft(term);
+    return draft.name !== saved.name || draft.slug !== saved.slug
+      || draft.description !== saved.description || draft.sort_order !== saved.sort_order;
+  };
+
+  const handleSave = async (term: TaxonomyTerm) => {
+    const draft = drafts[term.id];
+    const slug = toSlug(draft.slug || draft.name);
+    if (!draft.name.trim() || !slug) {
+      toast({ title: "Validation Error", description: "Name and slug are required", variant: "destructive" });
+      return;
+    }
+
+    // blogs.category follows the slug through ON UPDATE CASCADE
+    const moved = table === 'categories' && slug !== term.slug ? usageOf(term) : 0;
+    if (moved > 0 && !window.confirm(`Change the slug of "${term.name}"? ${moved} post(s) will move with it.`)) {
+      return;
+    }
+
+    setSaving(term.id);
+    try {
+      const { error } = await supabase
+        .from(table)
+        .update({
+          name: draft.name.trim(),
+          slug,
+          description: draft.description.trim() || null,
+          sort_order: draft.sort_order
+        })
+        .eq('id', term.id);
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: moved > 0 ? `${term.name} updated on ${moved} post(s)` : `${draft.name.trim()} saved`
+      });
+      onChanged();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to save ${kind}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    const slug = toSlug(newTerm.slug || newTerm.name);
+    if (!newTerm.name.trim() || !slug) {
+      toast({ title: "Validation Error", description: "Name is required", variant: "destructive" });
+      return;
+    }
+
+    setSaving('new');
+    try {
+      const { error } = await supabase
+        .from(table)
+        .insert([{
+          name: newTerm.name.trim(),
+          slug,
+          description: newTerm.description.trim() || null,
+          sort_order: newTerm.sort_order
+        }]);
+      if (error) throw error;
+
+      setNewTerm(emptyDraft);
+      onChanged();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to create ${kind}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDelete = async (term: TaxonomyTerm) => {
+    const count = usageOf(term);
+    // Posts keep a category, so one in use has to be emptied first; tags just come off
+    if (table === 'categories' && count > 0) return;
+    const message = count > 0
+      ? `Delete the tag "${term.name}"? It will be removed from ${count} post(s).`
+      : `Delete "${term.name}"?`;
+    if (!window.confirm(message)) return;
+
+    try {
+      const { error } = await supabase.from(table).delete().eq('id', term.id);
+      if (error) throw error;
+      onChanged();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to delete ${kind}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card data-testid={`taxonomy-${table}`}>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="hidden md:grid grid-cols-12 gap-2 text-xs font-medium text-muted-foreground">
+          <span className="col-span-3">Name</span>
+          <span className="col-span-3">Slug</span>
+          <span className="col-span-3">Description</span>
+          <span className="col-span-1">Order</span>
+        </div>
+
+        {terms.length === 0 && (
+          <p className="text-sm text-muted-foreground">No {table} yet.</p>
+        )}
+
+        {terms.map(term => {
+          const draft = drafts[term.id] || toDraft(term);
+          const count = usageOf(term);
+          return (
+            <div key={term.id} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center" data-testid={`${kind}-row-${term.slug}`}>
+              <Input
+                className="md:col-span-3"
+                value={draft.name}
+                onChange={(e) => updateDraft(term.id, { name: e.target.value })}
+                disabled={!canManage}
+                aria-label={`${term.name} name`}
+              />
+              <Input
+                className="md:col-span-3 font-mono text-xs"
+                value={draft.slug}
+                onChange={(e) => updateDraft(term.id, { slug: e.target.value })}
+                disabled={!canManage}
+                aria-label={`${term.name} slug`}
+              />
+              <Input
+                className="md:col-span-3"
+                value={draft.description}
+                onChange={(e) => updateDraft(term.id, { description: e.target.value })}
+                disabled={!canManage}
+                aria-label={`${term.name} description`}
+              />
+              <Input
+                className="md:col-span-1"
+                type="number"
+                value={draft.sort_order}
+                onChange={(e) => updateDraft(term.id, { sort_order: Number(e.target.value) || 0 })}
+                disabled={!canManage}
+                aria-label={`${term.name} order`}
+              />
+              <div className="md:col-span-2 flex items-center justify-end gap-1">
+                <Badge variant="secondary" title={`${count} post(s)`}>{count}</Badge>
+                <Button size="sm" variant="ghost" asChild>
+                  <a href={blogArchivePath(kind, term.slug)} target="_blank" rel="noopener noreferrer" aria-label={`View ${term.name} archive`}>
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                </Button>
+                {canManage && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleSave(term)}
+                      disabled={!isDirty(term) || saving === term.id}
+                      aria-label={`Save ${term.name}`}
+                    >
+                      <Save className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(term)}
+                      disabled={table === 'categories' && count > 0}
+                      title={table === 'categories' && count > 0 ? 'Move its posts to another category first' : undefined}
+                      aria-label={`Delete ${term.name}`}
+                    >
+                      <Trash className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {canManage && (
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center pt-3 border-t">
+            <Input
+              className="md:col-span-3"
+              placeholder={`New ${kind} name`}
+              value={newTerm.name}
+              onChange={(e) => setNewTerm(prev => ({ ...prev, name: e.target.value }))}
+            />
+            <Input
+              className="md:col-span-3 font-mono text-xs"
+              placeholder={toSlug(newTerm.name) || 'slug'}
+              value={newTerm.slug}
+              onChange={(e) => setNewTerm(prev => ({ ...prev, slug: e.target.value }))}
+              aria-label={`New ${kind} slug`}
+            />
+            <Input
+              className="md:col-span-3"
+              placeholder="Description"
+              value={newTerm.description}
+              onChange={(e) => setNewTerm(prev => ({ ...prev, description: e.target.value }))}
+              aria-label={`New ${kind} description`}
+            />
+            <Input
+              className="md:col-span-1"
+              type="number"
+              value={newTerm.sort_order}
+              onChange={(e) => setNewTerm(prev => ({ ...prev, sort_order: Number(e.target.value) || 0 }))}
+              aria-label={`New ${kind} order`}
+            />
+            <div className="md:col-span-2 flex justify-end">
+              <Button size="sm" onClick={handleCreate} disabled={saving === 'new'}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const TaxonomyManager: React.FC<TaxonomyManagerProps> = ({ userRole }) => {
+  const { categories, tags, loading, reload } = useBlogTaxonomy();
+  const [categoryUsage, setCategoryUsage] = useState<Record<string, number>>({});
+  const [tagUsage, setTagUsage] = useState<Record<string, number>>({});
+  const canManage = userRole === 'admin';
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      const [categoryCounts, tagCounts] = await Promise.all([fetchCategoryCounts(), fetchTagCounts()]);
+      setCategoryUsage(categoryCounts);
+      setTagUsage(tagCounts);
+    } catch (error) {
+      console.error('Error fetching taxonomy usage:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  const handleChanged = () => {
+    reload();
+    fetchUsage();
+  };
+
+  if (loading) {
+    return <div className="text-muted-foreground">Loading categories and tags...</div>;
+  }
+
+  return (
+    <div className="space-y-6" data-testid="taxonomy-manager">
+      {!canManage && (
+        <p className="text-sm text-muted-foreground">Only admins can change categories and tags.</p>
+      )}
+      <TermList
+        table="categories"
+        title="Categories"
+        terms={categories}
+        usage={categoryUsage}
+        canManage={canManage}
+        onChanged={handleChanged}
+      />
+      <TermList
+        table="tags"
+        title="Tags"
+        terms={tags}
+        usage={tagUsage}
+        canManage={canManage}
+        onChanged={handleChanged}
+      />
+    </div>
+  );
+};
+
+export default TaxonomyManager;
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BlogAnalytics from '../BlogAnalytics';
+import { TestWrapper } from '../../../test/utils';
+import { supabase } from '../../../integrations/supabase/client';
+import { mockQuery } from '../../../test/mocks/supabaseQuery';
+
+vi.mock('../../../integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn()
+  }
+}));
+
+const daily = [
+  { day: '2024-03-09', views: 12, completions: 4 },
+  { day: '2024-03-10', views: 28, completions: 12 }
+];
+
+const posts = [
+  { blog_id: 'a', title: 'Agents in Production', slug: 'agents-in-production', category: 'ai', views: 30, completions: 15, avg_depth: 80 },
+  { blog_id: 'b', title: 'Quarterly Planning', slug: 'quarterly-planning', category: 'business', views: 10, completions: 1, avg_depth: 40 }
+];
+
+describe('BlogAnalytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (supabase.from as Mock).mockImplementation(() => ({
+      select: vi.fn(() => mockQuery({ data: [] }))
+    }));
+    (supabase.rpc as Mock).mockImplementation((fn: string) =>
+      Promise.resolve({ data: fn === 'blog_analytics_daily' ? daily : posts, error: null })
+    );
+  });
+
+  it('shows totals, completion and the top posts for the last 30 days', async () => {
+    render(
+      <TestWrapper>
+        <BlogAnalytics />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('analytics-views')).toHaveTextContent('40');
+    });
+    expect(screen.getByTestId('analytics-completion-rate')).toHaveTextContent('40%');
+    expect(screen.getByTestId('analytics-average-read-depth')).toHaveTextContent('70%');
+
+    const top = screen.getByTestId('analytics-post-agents-in-production');
+    expect(within(top).getByText('50%')).toBeInTheDocument();
+    expect(supabase.rpc).toHaveBeenCalledWith('blog_analytics_posts', { since: expect.any(String) });
+  });
+
+  it('reloads when another range is picked', async () => {
+    const user = userEvent.setup();
+    render(
+      <TestWrapper>
+        <BlogAnalytics />
+      </TestWrapper>
+    );
+
+    await screen.findByTestId('analytics-post-agents-in-production');
+    (supabase.rpc as Mock).mockClear();
+    await user.click(screen.getByText('7 days'));
+
+    await waitFor(() => {
+      expect(supabase.rpc).toHaveBeenCalledTimes(2);
+    });
+    const since = new Date(((supabase.rpc as Mock).mock.calls[0][1] as { since: string }).since);
+    expect(Date.now() - since.getTime()).toBeLessThan(7 * 24 * 60 * 60 * 1000);
+  });
+});
@@ -1,19 +1,16 @@
 import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
-import { render, screen, waitFor, fireEvent, act } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent, act, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import BlogManager from '../BlogManager';
 import { TestWrapper } from '../../../test/utils';
 import { supabase } from '../../../integrations/supabase/client';
+import { mockQuery } from '../../../test/mocks/supabaseQuery';
 
 // Mock Supabase
 vi.mock('../../../integrations/supabase/client', () => ({
   supabase: {
     from: vi.fn(() => ({
-      select: vi.fn(() => ({
-        order: vi.fn(() => ({
-          eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
-        }))
-      })),
+      select: vi.fn(() => mockQuery({ data: [] })),
       insert: vi.fn(() => Promise.resolve({ data: [], error: null })),
       update: vi.fn(() => ({
         eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
@@ -22,6 +19,10 @@ vi.mock('../../../integrations/supabase/client', () => ({
         eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
       }))
     })),
+    rpc: vi.fn(() => Promise.resolve({ data: [], error: null })),
+    auth: {
+      getUser: vi.fn(() => Promise.resolve({ data: { user: { id: 'user-1' } }, error: null }))
+    },
     channel: vi.fn(() => ({
       on: vi.fn(() => ({
         subscribe: vi.fn()
@@ -92,10 +93,9 @@ describe('BlogManager Component', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    (supabase.rpc as Mock).mockImplementation(() => Promise.resolve({ data: [], error: null }));
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        order: vi.fn(() => Promise.resolve({ data: mockBlogs, error: null }))
-      })),
+      select: vi.fn(() => mockQuery({ data: mockBlogs })),
       insert: vi.fn(() => Promise.resolve({ data: [], error: null })),
       update: vi.fn(() => ({
         eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
@@ -155,13 +155,56 @@ describe('BlogManager Component', () => {
       expect(screen.getByText('Test Blog 2')).toBeInTheDocument();
     });
 
+    (supabase.rpc as Mock).mockImplementation(() => Promise.resolve({
+      data: [{
+        ...mockBlogs[0],
+        rank: 0.5,
+        title_highlight: 'Test <mark>Blog</mark> <mark>1</mark>',
+        snippet: 'Test <mark>text</mark> content',
+        total_count: 1
+      }],
+      error: null
+    }));
+
     const searchInput = screen.getByPlaceholderText('Search blogs...');
     await user.type(searchInput, 'Blog 1');
 
+    await waitFor(() => {
+      expect(screen.getByText('Blog', { selector: 'mark' })).toBeInTheDocument();
+      expect(screen.queryByText('Test Blog 2')).not.toBeInTheDocument();
+    });
+    expect(screen.getByTestId('search-snippet')).toHaveTextContent('Test text content');
+    expect(supabase.rpc).toHaveBeenLastCalledWith('search_blogs', expect.objectContaining({
+      search_query: 'Blog 1',
+      page_offset: 0
+    }));
+  });
+
+  it('falls back to matching loaded blogs when search is unavailable', async () => {
+    const user = userEvent.setup();
+    (supabase.rpc as Mock).mockImplementation(() => Promise.resolve({
+      data: null,
+      error: new Error('function search_blogs does not exist')
+    }));
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    render(
+      <TestWrapper>
+        <BlogManager {...defaultProps} />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Test Blog 2')).toBeInTheDocument();
+    });
+
+    await user.type(screen.getByPlaceholderText('Search blogs...'), 'Blog 1');
+
     await waitFor(() => {
       expect(screen.getByText('Test Blog 1')).toBeInTheDocument();
       expect(screen.queryByText('Test Blog 2')).not.toBeInTheDocument();
     });
+    errorSpy.mockRestore();
   });
 
   it('filters blogs by status', async () => {
@@ -190,6 +233,45 @@ describe('BlogManager Component', () => {
     });
   });
 
+  it('shows numbered pages of list rows', async () => {
+    const user = userEvent.setup();
+    const rows = Array.from({ length: 25 }, (_, index) => ({
+      ...mockBlogs[1],
+      id: `row-${index}`,
+      slug: `row-${index}`,
+      title: `Listed Blog ${index + 1}`
+    }));
+    const listQueries: Array<{ columns: string; query: ReturnType<typeof mockQuery> }> = [];
+    (supabase.from as Mock).mockImplementation(() => ({
+      select: vi.fn((columns: string) => {
+        const query = mockQuery({ data: rows });
+        listQueries.push({ columns, query });
+        return query;
+      })
+    }));
+
+    render(
+      <TestWrapper>
+        <BlogManager {...defaultProps} />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Listed Blog 20')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('Listed Blog 21')).not.toBeInTheDocument();
+    expect(listQueries.some(({ columns }) => columns.includes('title') && columns.includes('content'))).toBe(false);
+
+    const pagination = screen.getByTestId('blog-pagination');
+    await user.click(within(pagination).getByRole('button', { name: '2' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Listed Blog 25')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('Listed Blog 1')).not.toBeInTheDocument();
+    expect(listQueries.some(({ query }) => query.range.mock.calls.some(([from, to]) => from === 20 && to === 39))).toBe(true);
+  });
+
   it('opens create blog form when Create Blog button is clicked', async () => {
     const user = userEvent.setup();
     
@@ -274,9 +356,7 @@ describe('BlogManager Component', () => {
     const mockInsert = vi.fn(() => Promise.resolve({ data: [], error: null }));
     
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        order: vi.fn(() => Promise.resolve({ data: mockBlogs, error: null }))
-      })),
+      select: vi.fn(() => mockQuery({ data: mockBlogs })),
       insert: mockInsert,
       update: vi.fn(() => ({
         eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
@@ -315,6 +395,7 @@ describe('BlogManager Component', () => {
           title: 'New Test Blog',
           slug: 'new-test-blog',
           excerpt: 'Test excerpt',
+          author_id: 'user-1',
           blog_structure: expect.any(Object)
         })
       ]);
@@ -346,6 +427,92 @@ describe('BlogManager Component', () => {
     });
   });
 
+  it('loads and saves post tags, creating new ones by slug', async () => {
+    const user = userEvent.setup();
+    const tags = [
+      { id: 'tag-1', slug: 'ai-research', name: 'AI Research', description: null, sort_order: 0, blog_tags: [{ blog_id: '1' }] },
+      { id: 'tag-2', slug: 'machine-learning', name: 'Machine Learning', description: null, sort_order: 1, blog_tags: [] }
+    ];
+    const mockUpsert = vi.fn(() => Promise.resolve({ data: null, error: null }));
+    const mockLink = vi.fn(() => Promise.resolve({ data: null, error: null }));
+    const mockUnlink = vi.fn(() => ({ eq: vi.fn(() => Promise.resolve({ data: null, error: null })) }));
+
+    (supabase.from as Mock).mockImplementation((table: string) => {
+      if (table === 'tags') {
+        return { select: vi.fn(() => mockQuery({ data: tags })), upsert: mockUpsert };
+      }
+      if (table === 'blog_tags') {
+        return { delete: mockUnlink, insert: mockLink };
+      }
+      return {
+        select: vi.fn(() => mockQuery({ data: table === 'blogs' ? mockBlogs : [] })),
+        update: vi.fn(() => mockQuery({ data: [{ id: '1', updated_at: '2024-02-01T00:00:00Z' }] }))
+      };
+    });
+
+    render(
+      <TestWrapper>
+        <BlogManager {...defaultProps} />
+      </TestWrapper>
+    );
+
+    await waitFor(() => screen.getAllByLabelText('Edit blog'));
+    await user.click(screen.getAllByLabelText('Edit blog')[0]);
+
+    const editor = await screen.findByTestId('blog-tag-editor');
+    await waitFor(() => {
+      expect(within(editor).getByText('AI Research')).toBeInTheDocument();
+    });
+
+    await user.type(within(editor).getByTestId('blog-tags-input'), 'machine');
+    await user.click(within(editor).getByRole('option', { name: 'Machine Learning' }));
+    await user.type(within(editor).getByTestId('blog-tags-input'), 'Edge AI{Enter}');
+
+    await user.click(screen.getByText('Save Blog'));
+
+    await waitFor(() => {
+      expect(mockLink).toHaveBeenCalledWith([
+        { blog_id: '1', tag_id: 'tag-1' },
+        { blog_id: '1', tag_id: 'tag-2' }
+      ]);
+    });
+    expect(mockUpsert).toHaveBeenCalledWith(
+      [
+        { name: 'AI Research', slug: 'ai-research' },
+        { name: 'Machine Learning', slug: 'machine-learning' },
+        { name: 'Edge AI', slug: 'edge-ai' }
+      ],
+      { onConflict: 'slug', ignoreDuplicates: true }
+    );
+    expect(mockUnlink).toHaveBeenCalled();
+  });
+
+  it('does not offer a merge when a save is refused without a newer version', async () => {
+    const user = userEvent.setup();
+    const rows = [{ ...mockBlogs[0], updated_at: '2024-01-01T00:00:00Z' }];
+    const mockUpdate = vi.fn(() => mockQuery({ data: [] }));
+
+    (supabase.from as Mock).mockImplementation((table: string) => ({
+      select: vi.fn(() => mockQuery({ data: table === 'blogs' ? rows : [] })),
+      update: mockUpdate
+    }));
+
+    render(
+      <TestWrapper>
+        <BlogManager {...defaultProps} />
+      </TestWrapper>
+    );
+
+    await waitFor(() => screen.getAllByLabelText('Edit blog'));
+    await user.click(screen.getAllByLabelText('Edit blog')[0]);
+    await screen.findByText('Edit Blog');
+
+    await user.click(screen.getByText('Save Blog'));
+
+    await waitFor(() => expect(mockUpdate).toHaveBeenCalledTimes(1));
+    expect(screen.queryByTestId('merge-dialog')).not.toBeInTheDocument();
+  });
+
   it('deletes blog with confirmation', async () => {
     const user = userEvent.setup();
     const mockDelete = vi.fn(() => ({
@@ -356,9 +523,7 @@ describe('BlogManager Component', () => {
     window.confirm = vi.fn(() => true);
     
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        order: vi.fn(() => Promise.resolve({ data: mockBlogs, error: null }))
-      })),
+      select: vi.fn(() => mockQuery({ data: mockBlogs })),
       insert: vi.fn(() => Promise.resolve({ data: [], error: null })),
       update: vi.fn(() => ({
         eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
@@ -450,9 +615,7 @@ describe('BlogManager Component', () => {
     const mockInsert = vi.fn(() => Promise.resolve({ data: [], error: null }));
     
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        order: vi.fn(() => Promise.resolve({ data: mockBlogs, error: null }))
-      })),
+      select: vi.fn(() => mockQuery({ data: mockBlogs })),
       insert: mockInsert,
       update: vi.fn(() => ({
         eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
@@ -503,9 +666,7 @@ describe('BlogManager Component', () => {
     const mockInsert = vi.fn(() => Promise.resolve({ data: [], error: null }));
     
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        order: vi.fn(() => Promise.resolve({ data: mockBlogs, error: null }))
-      })),
+      select: vi.fn(() => mockQuery({ data: mockBlogs })),
       insert: mockInsert,
       update: vi.fn(() => ({
         eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
@@ -582,9 +743,7 @@ describe('BlogManager Component', () => {
     
     // Mock Supabase
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        order: vi.fn(() => Promise.resolve({ data: mockBlogs, error: null }))
-      })),
+      select: vi.fn(() => mockQuery({ data: mockBlogs })),
       insert: mockInsert,
       update: vi.fn(() => ({
         eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
@@ -683,9 +842,7 @@ describe('BlogManager Component', () => {
     
     // Mock Supabase
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        order: vi.fn(() => Promise.resolve({ data: mockBlogs, error: null }))
-      })),
+      select: vi.fn(() => mockQuery({ data: mockBlogs })),
       insert: mockInsert,
       update: vi.fn(() => ({
         eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
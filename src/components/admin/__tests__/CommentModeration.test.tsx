@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CommentModeration from '../CommentModeration';
+import { TestWrapper } from '../../../test/utils';
+import { supabase } from '../../../integrations/supabase/client';
+import { mockQuery } from '../../../test/mocks/supabaseQuery';
+
+vi.mock('../../../integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn()
+  }
+}));
+
+const comments = [
+  {
+    id: 'c1', blog_id: 'b1', parent_id: null, author_name: 'Ada', body: 'Great post', status: 'pending',
+    created_at: '2024-03-01T00:00:00Z', blogs: { title: 'Agents in Production', slug: 'agents-in-production' }
+  },
+  {
+    id: 'c2', blog_id: 'b1', parent_id: null, author_name: 'Spammer', body: 'Cheap pills', status: 'pending',
+    created_at: '2024-03-02T00:00:00Z', blogs: { title: 'Agents in Production', slug: 'agents-in-production' }
+  },
+  {
+    id: 'c3', blog_id: 'b1', parent_id: null, author_name: 'Grace', body: 'Thanks', status: 'approved',
+    created_at: '2024-02-01T00:00:00Z', blogs: { title: 'Agents in Production', slug: 'agents-in-production' }
+  }
+];
+
+describe('CommentModeration', () => {
+  const updates: ReturnType<typeof mockQuery>[] = [];
+  const mockUpdate = vi.fn(() => {
+    const query = mockQuery({ data: null });
+    updates.push(query);
+    return query;
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    updates.length = 0;
+    (supabase.from as Mock).mockImplementation(() => ({
+      select: vi.fn(() => mockQuery({ data: comments })),
+      update: mockUpdate,
+      delete: vi.fn(() => mockQuery({ data: null }))
+    }));
+  });
+
+  it('lists the pending queue with counts per status', async () => {
+    render(
+      <TestWrapper>
+        <CommentModeration userRole="editor" />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('moderation-comment-c1')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Pending (2)')).toBeInTheDocument();
+    expect(screen.getByText('Approved (1)')).toBeInTheDocument();
+    expect(screen.queryByText('Thanks')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Delete comment by Ada')).not.toBeInTheDocument();
+  });
+
+  it('approves one comment and marks selected ones as spam', async () => {
+    const user = userEvent.setup();
+    render(
+      <TestWrapper>
+        <CommentModeration userRole="admin" />
+      </TestWrapper>
+    );
+
+    const row = await screen.findByTestId('moderation-comment-c1');
+    await user.click(within(row).getByLabelText('Approve: Ada'));
+
+    await waitFor(() => {
+      expect(mockUpdate).toHaveBeenCalledWith({ status: 'approved' });
+    });
+    expect(updates[0].in).toHaveBeenCalledWith('id', ['c1']);
+
+    await user.click(await screen.findByLabelText('Select comment by Spammer'));
+    await user.click(screen.getByText('Mark as spam selected'));
+
+    await waitFor(() => {
+      expect(mockUpdate).toHaveBeenCalledWith({ status: 'spam' });
+    });
+    expect(updates[1].in).toHaveBeenCalledWith('id', ['c2']);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import TaxonomyManager from '../TaxonomyManager';
+import { TestWrapper } from '../../../test/utils';
+import { supabase } from '../../../integrations/supabase/client';
+import { mockQuery } from '../../../test/mocks/supabaseQuery';
+
+vi.mock('../../../integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn()
+  }
+}));
+
+const tables: Record<string, unknown[]> = {
+  categories: [
+    { id: 'c1', slug: 'ai', name: 'AI', description: null, sort_order: 0 },
+    { id: 'c2', slug: 'business', name: 'Business', description: null, sort_order: 1 }
+  ],
+  tags: [
+    { id: 't1', slug: 'llm', name: 'LLM', description: null, sort_order: 0 }
+  ],
+  blogs: [{ category: 'ai' }, { category: 'ai' }],
+  blog_tags: [{ tag_id: 't1' }]
+};
+
+describe('TaxonomyManager', () => {
+  const mockUpdate = vi.fn(() => mockQuery({ data: null }));
+  const mockDelete = vi.fn(() => mockQuery({ data: null }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (supabase.from as Mock).mockImplementation((table: string) => ({
+      select: vi.fn(() => mockQuery({ data: tables[table] || [] })),
+      update: mockUpdate,
+      delete: mockDelete
+    }));
+  });
+
+  it('confirms before changing the slug of a category in use', async () => {
+    const user = userEvent.setup();
+    window.confirm = vi.fn(() => true);
+
+    render(
+      <TestWrapper>
+        <TaxonomyManager userRole="admin" />
+      </TestWrapper>
+    );
+
+    const row = await screen.findByTestId('category-row-ai');
+    await waitFor(() => {
+      expect(within(row).getByTitle('2 post(s)')).toBeInTheDocument();
+    });
+
+    const slug = within(row).getByLabelText('AI slug');
+    await user.clear(slug);
+    await user.type(slug, 'Artificial Intelligence');
+    await user.click(within(row).getByLabelText('Save AI'));
+
+    expect(window.confirm).toHaveBeenCalledWith('Change the slug of "AI"? 2 post(s) will move with it.');
+    expect(mockUpdate).toHaveBeenCalledWith({
+      name: 'AI',
+      slug: 'artificial-intelligence',
+      description: null,
+      sort_order: 0
+    });
+  });
+
+  it('keeps categories with posts from being deleted', async () => {
+    render(
+      <TestWrapper>
+        <TaxonomyManager userRole="admin" />
+      </TestWrapper>
+    );
+
+    const used = await screen.findByTestId('category-row-ai');
+    await waitFor(() => {
+      expect(within(used).getByLabelText('Delete AI')).toBeDisabled();
+    });
+    expect(within(screen.getByTestId('category-row-business')).getByLabelText('Delete Business')).toBeEnabled();
+  });
+
+  it('is read-only for editors', async () => {
+    render(
+      <TestWrapper>
+        <TaxonomyManager userRole="editor" />
+      </TestWrapper>
+    );
+
+    const row = await screen.findByTestId('tag-row-llm');
+    expect(within(row).getByLabelText('LLM name')).toBeDisabled();
+    expect(within(row).queryByLabelText('Save LLM')).not.toBeInTheDocument();
+    expect(screen.getByText('Only admins can change categories and tags.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,179 @@
+import React from 'react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { cn } from '@/lib/utils';
+import { ChartData } from '@/utils/blogSchema';
+import { chartSeries, chartTable, isCircularChart } from '@/utils/blogCharts';
+import { formatNumber } from '@/utils/numberFormat';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+
+interface BlogChartProps {
+  chart: ChartData;
+  className?: string;
+}
+
+// --chart-1 … --chart-5 in index.css, redefined for dark mode
+const PALETTE_SIZE = 5;
+const chartColor = (index: number) => `hsl(var(--chart-${(index % PALETTE_SIZE) + 1}))`;
+
+const seriesKey = (index: number) => `series${index}`;
+
+/**
+ * A chart block drawn with recharts through ui/chart, so colours follow the
+ * theme. The values are repeated in a visually hidden table for screen readers.
+ */
+const BlogChart: React.FC<BlogChartProps> = ({ chart, className }) => {
+  const series = chartSeries(chart);
+  const format = (value: number | string) => formatNumber(Number(value), chart);
+  const table = chartTable(chart);
+
+  let body: React.ReactElement;
+  if (isCircularChart(chart.type)) {
+    const config: ChartConfig = Object.fromEntries(
+      chart.labels.map((label, index) => [`slice${index}`, { label, color: chartColor(index) }])
+    );
+    const slices = chart.labels.map((label, index) => ({
+      key: `slice${index}`,
+      value: series[0]?.data[index] ?? 0,
+      fill: `var(--color-slice${index})`
+    }));
+    body = (
+      <ChartContainer config={config} className="mx-auto aspect-square max-h-80 w-full">
+        <PieChart>
+          <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel valueFormatter={format} />} />
+          <Pie
+            data={slices}
+            dataKey="value"
+            nameKey="key"
+            innerRadius={chart.type === 'donut' ? '55%' : 0}
+            outerRadius="80%"
+            strokeWidth={2}
+          />
+          <ChartLegend content={<ChartLegendContent nameKey="key" />} className="flex-wrap" />
+        </PieChart>
+      </ChartContainer>
+    );
+  } else {
+    const config: ChartConfig = Object.fromEntries(
+      series.map((entry, index) => [seriesKey(index), { label: entry.name, color: chartColor(index) }])
+    );
+    const rows = chart.labels.map((label, row) => ({
+      label,
+      ...Object.fromEntries(series.map((entry, index) => [seriesKey(index), entry.data[row] ?? 0]))
+    }));
+    const stackId = chart.stacked ? 'total' : undefined;
+    const margin = { top: 8, right: 12, left: chart.yAxisLabel ? 12 : 0, bottom: chart.xAxisLabel ? 20 : 0 };
+    // Shared by every cartesian type; an array so recharts still finds each child
+    const axes = [
+      <CartesianGrid key="grid" vertical={false} />,
+      <XAxis
+        key="x"
+        dataKey="label"
+        tickLine={false}
+        axisLine={false}
+        label={chart.xAxisLabel ? { value: chart.xAxisLabel, position: 'insideBottom', offset: -12 } : undefined}
+      />,
+      <YAxis
+        key="y"
+        tickFormatter={format}
+        tickLine={false}
+        axisLine={false}
+        width={64}
+        label={chart.yAxisLabel
+          ? { value: chart.yAxisLabel, angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }
+          : undefined}
+      />,
+      <ChartTooltip key="tooltip" content={<ChartTooltipContent valueFormatter={format} />} />,
+      ...(series.length > 1 ? [<ChartLegend key="legend" content={<ChartLegendContent />} />] : [])
+    ];
+
+    let plot: React.ReactElement;
+    if (chart.type === 'line') {
+      plot = (
+        <LineChart data={rows} margin={margin}>
+          {axes}
+          {series.map((_, index) => (
+            <Line
+              key={index}
+              dataKey={seriesKey(index)}
+              type="monotone"
+              stroke={`var(--color-${seriesKey(index)})`}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+            />
+          ))}
+        </LineChart>
+      );
+    } else if (chart.type === 'area') {
+      plot = (
+        <AreaChart data={rows} margin={margin}>
+          {axes}
+          {series.map((_, index) => (
+            <Area
+              key={index}
+              dataKey={seriesKey(index)}
+              type="monotone"
+              stackId={stackId}
+              stroke={`var(--color-${seriesKey(index)})`}
+              fill={`var(--color-${seriesKey(index)})`}
+              fillOpacity={0.3}
+            />
+          ))}
+        </AreaChart>
+      );
+    } else {
+      plot = (
+        <BarChart data={rows} margin={margin}>
+          {axes}
+          {series.map((_, index) => (
+            <Bar
+              key={index}
+              dataKey={seriesKey(index)}
+              stackId={stackId}
+              fill={`var(--color-${seriesKey(index)})`}
+              radius={chart.stacked ? 0 : 4}
+            />
+          ))}
+        </BarChart>
+      );
+    }
+
+    body = (
+      <ChartContainer config={config} className="aspect-auto h-80 w-full">
+        {plot}
+      </ChartContainer>
+    );
+  }
+
+  return (
+    <figure className={cn('space-y-6', className)} data-testid="blog-chart" data-chart-type={chart.type}>
+      {chart.title && (
+        <figcaption className="text-xl font-bold text-center text-foreground">{chart.title}</figcaption>
+      )}
+      {body}
+      <table className="sr-only">
+        <thead>
+          <tr>
+            {table.headers.map((header, index) => <th key={index} scope="col">{header}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map(([label, ...values], row) => (
+            <tr key={row}>
+              <th scope="row">{label}</th>
+              {values.map((value, index) => <td key={index}>{value}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </figure>
+  );
+};
+
+export default BlogChart;
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CommentDraft,
+  CommentThread,
+  MAX_COMMENT_LENGTH,
+  buildCommentThreads,
+  countComments,
+  fetchApprovedComments,
+  submitComment,
+  validateComment
+} from '@/utils/blogComments';
+import { MessageSquare, Reply } from 'lucide-react';
+
+// Deeper replies keep the last indent so narrow screens stay readable
+const MAX_INDENT_DEPTH = 3;
+
+interface CommentFormProps {
+  blogId: string;
+  parentId?: string | null;
+  onSubmitted?: () => void;
+  onCancel?: () => void;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({ blogId, parentId = null, onSubmitted, onCancel }) => {
+  const [draft, setDraft] = useState<CommentDraft>({ author_name: '', body: '' });
+  // Hidden from people; bots that fill every field are dropped silently
+  const [website, setWebsite] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+  const idPrefix = parentId ? `reply-${parentId}` : 'comment';
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const problem = validateComment(draft);
+    if (problem) {
+      toast({ title: "Validation Error", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      if (!website) {
+        await submitComment({ ...draft, blog_id: blogId, parent_id: parentId });
+      }
+      setDraft({ author_name: '', body: '' });
+      toast({ title: "Thanks for your comment", description: "It will appear once a moderator approves it." });
+      onSubmitted?.();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to post comment",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" data-testid={parentId ? 'reply-form' : 'comment-form'}>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          value={draft.author_name}
+          onChange={(e) => setDraft(prev => ({ ...prev, author_name: e.target.value }))}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-body`}>{parentId ? 'Reply' : 'Comment'}</Label>
+        <Textarea
+          id={`${idPrefix}-body`}
+          value={draft.body}
+          onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+          rows={parentId ? 3 : 4}
+          maxLength={MAX_COMMENT_LENGTH}
+        />
+      </div>
+      <div className="hidden" aria-hidden="true">
+        <label htmlFor={`${idPrefix}-website`}>Website</label>
+        <input
+          id={`${idPrefix}-website`}
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={submitting}>
+          {submitting ? 'Posting...' : parentId ? 'Post Reply' : 'Post Comment'}
+        </Button>
+        {onCancel && (
+          <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+interface CommentItemProps {
+  comment: CommentThread;
+  blogId: string;
+  depth: number;
+  replyingTo: string | null;
+  onReply: (id: string | null) => void;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({ comment, blogId, depth, replyingTo, onReply }) => (
+  <li className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-6 border-l pl-4' : undefined}>
+    <div className="py-3" data-testid="blog-comment">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-medium">{comment.author_name}</span>
+        <time dateTime={comment.created_at} className="text-muted-foreground">
+          {new Date(comment.created_at).toLocaleDateString()}
+        </time>
+      </div>
+      <p className="mt-1 whitespace-pre-line">{comment.body}</p>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="mt-1 h-7 px-2 text-muted-foreground"
+        onClick={() => onReply(replyingTo === comment.id ? null : comment.id)}
+        aria-label={`Reply to ${comment.author_name}`}
+      >
+        <Reply className="w-3 h-3 mr-1" />
+        Reply
+      </Button>
+      {replyingTo === comment.id && (
+        <div className="mt-2">
+          <CommentForm
+            blogId={blogId}
+            parentId={comment.id}
+            onSubmitted={() => onReply(null)}
+            onCancel={() => onReply(null)}
+          />
+        </div>
+      )}
+    </div>
+    {comment.replies.length > 0 && (
+      <ul>
+        {comment.replies.map(reply => (
+          <CommentItem
+            key={reply.id}
+            comment={reply}
+            blogId={blogId}
+            depth={depth + 1}
+            replyingTo={replyingTo}
+            onReply={onReply}
+          />
+        ))}
+      </ul>
+    )}
+  </li>
+);
+
+interface BlogCommentsProps {
+  blogId: string;
+}
+
+/** Approved reader comments under a post, with a form that submits for moderation. */
+const BlogComments: React.FC<BlogCommentsProps> = ({ blogId }) => {
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setThreads([]);
+
+    fetchApprovedComments(blogId)
+      .then(comments => {
+        if (!cancelled) setThreads(buildCommentThreads(comments));
+      })
+      .catch(error => console.error('Error fetching comments:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [blogId]);
+
+  const total = useMemo(() => countComments(threads), [threads]);
+
+  return (
+    <section className="mt-12 pt-6 border-t" data-testid="blog-comments">
+      <h2 className="text-2xl font-bold mb-4 flex items-center gap-2">
+        <MessageSquare className="w-5 h-5" />
+        {total === 0 ? 'Comments' : `${total} Comment${total === 1 ? '' : 's'}`}
+      </h2>
+
+      {threads.length === 0 ? (
+        <p className="text-muted-foreground mb-6">No comments yet. Start the conversation.</p>
+      ) : (
+        <ul className="mb-6 divide-y">
+          {threads.map(thread => (
+            <CommentItem
+              key={thread.id}
+              comment={thread}
+              blogId={blogId}
+              depth={0}
+              replyingTo={replyingTo}
+              onReply={setReplyingTo}
+            />
+          ))}
+        </ul>
+      )}
+
+      <h3 className="text-lg font-semibold mb-3">Leave a comment</h3>
+      <CommentForm blogId={blogId} />
+    </section>
+  );
+};
+
+export default BlogComments;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useNavigate } from 'react-router-dom';
+import { blogPostPath } from '@/utils/blogSeo';
+import { categoryLabel } from '@/utils/blogTaxonomy';
+import { BlogListFilters } from '@/utils/blogListing';
+import { useBlogTaxonomy } from '@/hooks/useBlogTaxonomy';
+import { useInfiniteBlogList, useLoadMoreSentinel } from '@/hooks/useInfiniteBlogList';
+
+interface BlogPostListProps {
+  filters: BlogListFilters;
+}
+
+/**
+ * Infinite list of post cards for the archive pages. Mount it only once the
+ * filters are known, or the first page is fetched unfiltered.
+ */
+const BlogPostList: React.FC<BlogPostListProps> = ({ filters }) => {
+  const navigate = useNavigate();
+  const { categories } = useBlogTaxonomy();
+  const list = useInfiniteBlogList(filters);
+  const loadMoreRef = useLoadMoreSentinel(list.loadMore, list.hasMore && !list.loadingMore);
+
+  return (
+    <>
+      <div className="grid gap-6">
+        {list.rows.map((blog) => (
+          <Card
+            key={blog.id}
+            className="cursor-pointer hover:shadow-md transition-shadow"
+            onClick={() => navigate(blogPostPath(blog.slug))}
+          >
+            <CardHeader>
+              <div className="flex items-center justify-between mb-2">
+                <Badge variant="secondary">{categoryLabel(categories, blog.category)}</Badge>
+                <span className="text-sm text-muted-foreground">
+                  {new Date(blog.created_at).toLocaleDateString()}
+                </span>
+              </div>
+              <CardTitle className="text-xl">{blog.title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">{blog.excerpt}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      {list.loading && (
+        <p className="mt-6 text-center text-muted-foreground">Loading articles...</p>
+      )}
+      {!list.loading && !list.error && list.rows.length === 0 && (
+        <p className="mt-6 text-center text-muted-foreground">No articles published here yet.</p>
+      )}
+      {list.error && !list.loading && (
+        <p className="mt-6 text-center text-muted-foreground">Could not load articles. Please try again later.</p>
+      )}
+      {list.hasMore && (
+        <div ref={loadMoreRef} className="mt-6 flex justify-center">
+          <Button variant="outline" onClick={list.loadMore} disabled={list.loadingMore}>
+            {list.loadingMore ? 'Loading...' : 'Load more articles'}
+          </Button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default BlogPostList;
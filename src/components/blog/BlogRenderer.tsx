@@ -1,7 +1,25 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { cn } from '@/lib/utils';
-import { BlogStructure, ContentBlock } from '@/components/ui/drag-drop-blog-editor';
+import { BlogStructure, ContentBlock } from '@/utils/blogSchema';
 import { Card } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Link } from 'react-router-dom';
+import { AuthorByline, bylineName } from '@/utils/authorProfiles';
+import { blogAuthorPath } from '@/utils/blogSeo';
+import { MIN_TOC_ENTRIES, buildTableOfContents, readingTimeMinutes } from '@/utils/blogOutline';
+import { useScrollSpy } from '@/hooks/useScrollSpy';
+import TableOfContents from '@/components/blog/TableOfContents';
+import TextBlock from '@/components/blog/TextBlock';
+import RichText from '@/components/blog/RichText';
+import VideoPlayer from '@/components/blog/VideoPlayer';
+import BlogChart from '@/components/blog/BlogChart';
+import BlogTable from '@/components/blog/BlogTable';
+import ImageGallery from '@/components/blog/ImageGallery';
+import ImageCarousel from '@/components/blog/ImageCarousel';
+import ImageComparison from '@/components/blog/ImageComparison';
+import { safeImageUrl, sanitizeHtml } from '@/utils/htmlSanitizer';
+import { videoEmbedForContent } from '@/utils/videoEmbed';
+import { comparisonPair, displayableImages } from '@/utils/blogImages';
 
 interface BlogRendererProps {
   blog: {
@@ -13,10 +31,41 @@ interface BlogRendererProps {
     category: string;
     blog_structure?: BlogStructure;
   };
+  /** Profile of the post's author; without one the byline falls back to `blog_structure.author` */
+  author?: AuthorByline | null;
+  /** Display name of `blog.category`, which holds the category slug; the slug is shown without one */
+  categoryLabel?: string;
   className?: string;
 }
 
-const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
+// Linked only for real profiles, so previews outside a router still render
+const AuthorBylineLink: React.FC<{ author: AuthorByline }> = ({ author }) => (
+  <span className="flex items-center gap-2 font-medium" data-testid="blog-byline">
+    <Avatar className="h-6 w-6">
+      {author.avatar_url && <AvatarImage src={author.avatar_url} alt="" />}
+      <AvatarFallback className="text-xs">{author.display_name.charAt(0).toUpperCase()}</AvatarFallback>
+    </Avatar>
+    <span>
+      By{' '}
+      <Link to={blogAuthorPath(author.id)} rel="author" className="text-foreground hover:text-primary">
+        {author.display_name}
+      </Link>
+    </span>
+  </span>
+);
+
+const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, author, categoryLabel, className }) => {
+  const fallbackByline = bylineName(null, blog.blog_structure?.author);
+  const structure = blog.blog_structure;
+  const readingTime = useMemo(
+    () => readingTimeMinutes({ structure, content: blog.content }),
+    [structure, blog.content]
+  );
+  const toc = useMemo(() => buildTableOfContents(structure?.blocks ?? []), [structure]);
+  const headingIds = useMemo(() => toc.map(entry => entry.id), [toc]);
+  const activeHeadingId = useScrollSpy(headingIds);
+  const showToc = toc.length >= MIN_TOC_ENTRIES;
+
   // Render structured content blocks
   const renderContentBlock = (block: ContentBlock) => {
     const { content } = block;
@@ -48,7 +97,7 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-center">
             <div className="order-2 lg:order-1">
               <img 
-                src={content.imageUrl} 
+                src={safeImageUrl(content.imageUrl) ?? undefined} 
                 alt={content.caption || 'Image'}
                 title={content.caption || 'Image'}
                 className={cn(commonImageClasses, "w-full h-64 object-cover")}
@@ -60,7 +109,7 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
                 className={commonTextClasses}
                 style={{ color: content.textColor }}
               >
-                {content.text}
+                {content.richText?.length ? <RichText spans={content.richText} /> : content.text}
               </div>
             </div>
           </div>
@@ -74,12 +123,12 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
                 className={commonTextClasses}
                 style={{ color: content.textColor }}
               >
-                {content.text}
+                {content.richText?.length ? <RichText spans={content.richText} /> : content.text}
               </div>
             </div>
             <div className="order-2">
               <img 
-                src={content.imageUrl} 
+                src={safeImageUrl(content.imageUrl) ?? undefined} 
                 alt={content.caption || 'Image'}
                 title={content.caption || 'Image'}
                 className={cn(commonImageClasses, "w-full h-64 object-cover")}
@@ -93,7 +142,7 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
         return (
           <div className={cn("w-full", `text-${content.alignment}`)}>
             <img 
-              src={content.imageUrl} 
+              src={safeImageUrl(content.imageUrl) ?? undefined} 
               alt={content.caption || 'Image'}
               title={content.caption || 'Image'}
               className={cn(commonImageClasses, "w-full h-80 object-cover")}
@@ -110,11 +159,17 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
       case 'full-width-text':
         return (
           <div className={cn("w-full prose prose-lg max-w-none", `text-${content.alignment}`)}>
-            <div 
-              className={commonTextClasses}
-              style={{ color: content.textColor }}
-              dangerouslySetInnerHTML={{ __html: content.text || '' }}
-            />
+            {content.richText?.length ? (
+              <div className={cn(commonTextClasses, "whitespace-pre-line")} style={{ color: content.textColor }}>
+                <RichText spans={content.richText} />
+              </div>
+            ) : (
+              <div 
+                className={commonTextClasses}
+                style={{ color: content.textColor }}
+                dangerouslySetInnerHTML={{ __html: sanitizeHtml(content.text) }}
+              />
+            )}
           </div>
         );
 
@@ -123,7 +178,7 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
           <div className={cn("w-full", `text-${content.alignment}`)}>
             <figure>
               <img 
-                src={content.imageUrl} 
+                src={safeImageUrl(content.imageUrl) ?? undefined} 
                 alt={content.caption || 'Image'}
                 title={content.caption || 'Image'}
                 className={cn(commonImageClasses, "w-full h-64 object-cover mx-auto")}
@@ -138,247 +193,59 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
           </div>
         );
 
-      case 'video-embed':
+      case 'gallery': {
+        const images = displayableImages(content);
+        if (images.length === 0) return null;
+        return <ImageGallery images={images} columns={content.galleryColumns} />;
+      }
+
+      case 'carousel': {
+        const images = displayableImages(content);
+        if (images.length === 0) return null;
+        return <ImageCarousel images={images} />;
+      }
+
+      case 'comparison': {
+        const pair = comparisonPair(content);
+        if (!pair) return null;
+        return <ImageComparison before={pair[0]} after={pair[1]} />;
+      }
+
+      case 'video-embed': {
+        const video = videoEmbedForContent(content);
+        if (!video) return null;
         return (
           <div className={cn("w-full", `text-${content.alignment}`)}>
             <div 
               className="aspect-video mx-auto overflow-hidden rounded-lg shadow-lg"
               style={{ width: `${content.width}%` }}
             >
-              <iframe
-                src={content.videoUrl}
-                title={content.videoUrl}
-                className="w-full h-full"
-                allowFullScreen
-                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-              />
+              <VideoPlayer video={video} title={content.caption} />
             </div>
           </div>
         );
+      }
 
       case 'table':
         if (!content.tableData) return null;
-        return (
-          <div className="w-full overflow-x-auto">
-            <table className="min-w-full border-collapse bg-background rounded-lg overflow-hidden shadow-sm border border-border">
-              <thead>
-                <tr className="bg-muted/50">
-                  {content.tableData.headers.map((header, i) => (
-                    <th 
-                      key={i} 
-                      className="border border-border p-4 text-left font-semibold text-foreground"
-                    >
-                      {header}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {content.tableData.rows.map((row, i) => (
-                  <tr key={i} className="hover:bg-muted/30 transition-colors">
-                    {row.map((cell, j) => (
-                      <td 
-                        key={j} 
-                        className="border border-border p-4 text-foreground"
-                      >
-                        {cell}
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        );
+        return <BlogTable table={content.tableData} />;
 
       case 'chart':
         if (!content.chartData) return null;
         return (
           <Card className="p-6 bg-gradient-to-br from-background to-muted/20">
-            <h3 className="text-xl font-bold text-center mb-6 text-foreground">
-              {content.chartData.title}
-            </h3>
-            
-            {content.chartData.type === 'pie' && (
-              <div className="flex flex-col lg:flex-row items-center justify-center gap-8">
-                <div className="relative">
-                  <svg width="240" height="240" viewBox="0 0 100 100" className="transform -rotate-90">
-                    {(() => {
-                      const total = content.chartData.data.reduce((sum, val) => sum + val, 0);
-                      let currentAngle = 0;
-                      
-                      return content.chartData.data.map((value, index) => {
-                        const percentage = (value / total) * 100;
-                        const angle = (value / total) * 360;
-                        const x1 = 50 + 40 * Math.cos((currentAngle - 90) * Math.PI / 180);
-                        const y1 = 50 + 40 * Math.sin((currentAngle - 90) * Math.PI / 180);
-                        const x2 = 50 + 40 * Math.cos((currentAngle + angle - 90) * Math.PI / 180);
-                        const y2 = 50 + 40 * Math.sin((currentAngle + angle - 90) * Math.PI / 180);
-                        const largeArc = angle > 180 ? 1 : 0;
-                        
-                        const path = `M 50,50 L ${x1},${y1} A 40,40 0 ${largeArc},1 ${x2},${y2} z`;
-                        const color = `hsl(${(index * 360 / content.chartData.data.length)}, 70%, 60%)`;
-                        
-                        currentAngle += angle;
-                        
-                        return (
-                          <path 
-                            key={index}
-                            d={path} 
-                            fill={color} 
-                            stroke="white" 
-                            strokeWidth="1"
-                            className="hover:opacity-80 transition-opacity cursor-pointer"
-                          />
-                        );
-                      });
-                    })()}
-                  </svg>
-                </div>
-                <div className="space-y-3">
-                  {content.chartData.labels.map((label, i) => (
-                    <div key={i} className="flex items-center gap-3">
-                      <div 
-                        className="w-4 h-4 rounded-sm"
-                        style={{ 
-                          backgroundColor: `hsl(${(i * 360 / content.chartData.data.length)}, 70%, 60%)` 
-                        }}
-                      />
-                      <span className="text-sm font-medium">
-                        {label}: {content.chartData.data[i]}
-                      </span>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {content.chartData.type === 'bar' && (
-              <div className="space-y-4">
-                <svg 
-                  width="100%" 
-                  height="300" 
-                  viewBox={`0 0 ${Math.max(400, content.chartData.data.length * 80)} 300`}
-                  className="mx-auto"
-                >
-                  {content.chartData.data.map((value, index) => {
-                    const maxValue = Math.max(...content.chartData.data);
-                    const height = (value / maxValue) * 200;
-                    const x = index * 80 + 40;
-                    const color = `hsl(${(index * 360 / content.chartData.data.length)}, 70%, 60%)`;
-                    
-                    return (
-                      <g key={index}>
-                        <rect 
-                          x={x} 
-                          y={250 - height} 
-                          width="60" 
-                          height={height} 
-                          fill={color} 
-                          rx="4"
-                          className="hover:opacity-80 transition-opacity"
-                        />
-                        <text 
-                          x={x + 30} 
-                          y="275" 
-                          textAnchor="middle" 
-                          className="text-xs fill-muted-foreground"
-                        >
-                          {content.chartData.labels[index]}
-                        </text>
-                        <text 
-                          x={x + 30} 
-                          y={245 - height} 
-                          textAnchor="middle" 
-                          className="text-xs fill-foreground font-medium"
-                        >
-                          {value}
-                        </text>
-                      </g>
-                    );
-                  })}
-                </svg>
-              </div>
-            )}
-
-            {content.chartData.type === 'line' && (
-              <div className="space-y-4">
-                <svg width="100%" height="300" viewBox="0 0 400 300" className="mx-auto">
-                  <defs>
-                    <linearGradient id="lineGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-                      <stop offset="0%" stopColor="hsl(220, 70%, 60%)" stopOpacity="0.3"/>
-                      <stop offset="100%" stopColor="hsl(220, 70%, 60%)" stopOpacity="0"/>
-                    </linearGradient>
-                  </defs>
-                  
-                  {(() => {
-                    const maxValue = Math.max(...content.chartData.data);
-                    const points = content.chartData.data.map((value, index) => {
-                      const x = (index / (content.chartData.data.length - 1)) * 320 + 40;
-                      const y = 240 - (value / maxValue) * 180;
-                      return `${x},${y}`;
-                    }).join(' ');
-                    
-                    const areaPoints = `40,240 ${points} ${40 + 320},240`;
-                    
-                    return (
-                      <g>
-                        <polygon 
-                          points={areaPoints}
-                          fill="url(#lineGradient)"
-                          className="opacity-50"
-                        />
-                        <polyline 
-                          points={points} 
-                          fill="none" 
-                          stroke="hsl(220, 70%, 60%)" 
-                          strokeWidth="3"
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                        />
-                        {content.chartData.data.map((value, index) => {
-                          const x = (index / (content.chartData.data.length - 1)) * 320 + 40;
-                          const y = 240 - (value / maxValue) * 180;
-                          
-                          return (
-                            <g key={index}>
-                              <circle 
-                                cx={x} 
-                                cy={y} 
-                                r="6" 
-                                fill="hsl(220, 70%, 60%)" 
-                                stroke="white" 
-                                strokeWidth="2"
-                                className="hover:r-8 transition-all cursor-pointer"
-                              />
-                              <text 
-                                x={x} 
-                                y="265" 
-                                textAnchor="middle" 
-                                className="text-xs fill-muted-foreground"
-                              >
-                                {content.chartData.labels[index]}
-                              </text>
-                              <text 
-                                x={x} 
-                                y={y - 10} 
-                                textAnchor="middle" 
-                                className="text-xs fill-foreground font-medium"
-                              >
-                                {value}
-                              </text>
-                            </g>
-                          );
-                        })}
-                      </g>
-                    );
-                  })()}
-                </svg>
-              </div>
-            )}
+            <BlogChart chart={content.chartData} />
           </Card>
         );
 
+      case 'heading':
+      case 'list':
+      case 'quote':
+      case 'code':
+      case 'divider':
+      case 'callout':
+        return <TextBlock block={block} anchorId={toc.find(entry => entry.blockId === block.id)?.id} />;
+
       default:
         return null;
     }
@@ -390,10 +257,10 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
       <article className={cn("blog-renderer max-w-4xl mx-auto", className)}>
         {/* Header */}
         <header className="mb-12">
-          {blog.blog_structure.featuredImage && (
+          {safeImageUrl(blog.blog_structure.featuredImage) && (
             <div className="mb-8">
               <img 
-                src={blog.blog_structure.featuredImage}
+                src={safeImageUrl(blog.blog_structure.featuredImage)}
                 alt={blog.blog_structure.title}
                 className="w-full h-80 object-cover image-hero"
               />
@@ -412,8 +279,12 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
             )}
             
             <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
-              <span className="font-medium">By {blog.blog_structure.author}</span>
-              <span>•</span>
+              {author ? (
+                <AuthorBylineLink author={author} />
+              ) : fallbackByline && (
+                <span className="font-medium" data-testid="blog-byline">By {fallbackByline}</span>
+              )}
+              {(author || fallbackByline) && <span>•</span>}
               <time dateTime={blog.created_at}>
                 {new Date(blog.created_at).toLocaleDateString('en-US', {
                   year: 'numeric',
@@ -422,20 +293,33 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
                 })}
               </time>
               <span>•</span>
+              <span data-testid="blog-reading-time">{readingTime} min read</span>
+              <span>•</span>
               <span className="capitalize bg-primary/10 text-primary px-3 py-1 rounded-full text-xs font-medium">
-                {blog.category}
+                {categoryLabel || blog.category}
               </span>
             </div>
           </div>
         </header>
 
-        {/* Content Blocks */}
-        <div className="space-y-12">
-          {blog.blog_structure.blocks.map((block, index) => (
-            <div key={block.id} className="animate-in fade-in duration-700" style={{ animationDelay: `${index * 100}ms` }}>
-              {renderContentBlock(block)}
-            </div>
-          ))}
+        {showToc && (
+          <TableOfContents entries={toc} activeId={activeHeadingId} variant="collapsible" className="mb-8 lg:hidden" />
+        )}
+
+        {/* Content Blocks, with the table of contents alongside on wide screens */}
+        <div className={cn(showToc && "lg:grid lg:grid-cols-[minmax(0,1fr)_14rem] lg:gap-12")}>
+          <div className="space-y-12">
+            {blog.blog_structure.blocks.map((block, index) => (
+              <div key={block.id} className="animate-in fade-in duration-700" style={{ animationDelay: `${index * 100}ms` }}>
+                {renderContentBlock(block)}
+              </div>
+            ))}
+          </div>
+          {showToc && (
+            <aside className="hidden lg:block">
+              <TableOfContents entries={toc} activeId={activeHeadingId} />
+            </aside>
+          )}
         </div>
       </article>
     );
@@ -446,10 +330,10 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
     <article className={cn("blog-renderer max-w-4xl mx-auto prose prose-lg", className)}>
       {/* Header */}
       <header className="not-prose mb-12">
-        {blog.featured_image_url && (
+        {safeImageUrl(blog.featured_image_url) && (
           <div className="mb-8">
             <img 
-              src={blog.featured_image_url}
+              src={safeImageUrl(blog.featured_image_url)}
               alt={blog.title}
               className="w-full h-80 object-cover image-hero"
             />
@@ -468,6 +352,12 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
           )}
           
           <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            {author && (
+              <>
+                <AuthorBylineLink author={author} />
+                <span>•</span>
+              </>
+            )}
             <time dateTime={blog.created_at}>
               {new Date(blog.created_at).toLocaleDateString('en-US', {
                 year: 'numeric',
@@ -476,8 +366,10 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
               })}
             </time>
             <span>•</span>
+            <span data-testid="blog-reading-time">{readingTime} min read</span>
+            <span>•</span>
             <span className="capitalize bg-primary/10 text-primary px-3 py-1 rounded-full text-xs font-medium">
-              {blog.category}
+              {categoryLabel || blog.category}
             </span>
           </div>
         </div>
@@ -486,7 +378,7 @@ const BlogRenderer: React.FC<BlogRendererProps> = ({ blog, className }) => {
       {/* Classic Content */}
       <div 
         className="prose-content"
-        dangerouslySetInnerHTML={{ __html: blog.content }} 
+        dangerouslySetInnerHTML={{ __html: sanitizeHtml(blog.content) }} 
       />
     </article>
   );
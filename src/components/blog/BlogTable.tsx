@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Search } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { BlockAlignment, TableData } from '@/utils/blogSchema';
+import { TableSort, formatTableCell, tableColumnAlign, tableColumnCount, visibleTableRows } from '@/utils/blogTables';
+
+interface BlogTableProps {
+  table: TableData;
+  className?: string;
+}
+
+const ALIGN_CLASSES: Record<BlockAlignment, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right tabular-nums'
+};
+
+// Stacked layout below md: every row becomes a card of "header: value" lines,
+// the header coming from each cell's data-label
+const STACK = {
+  table: 'max-md:block',
+  thead: 'max-md:sr-only',
+  tbody: 'max-md:block max-md:space-y-3',
+  row: 'max-md:block max-md:rounded-lg max-md:border max-md:border-border',
+  cell: 'max-md:flex max-md:justify-between max-md:gap-4 max-md:border-0 max-md:border-b max-md:text-right max-md:before:content-[attr(data-label)] max-md:before:font-semibold max-md:before:text-left max-md:last:border-b-0'
+};
+
+const nextSort = (sort: TableSort | null, column: number): TableSort | null => {
+  if (sort?.column !== column) return { column, direction: 'ascending' };
+  return sort.direction === 'ascending' ? { column, direction: 'descending' } : null;
+};
+
+/**
+ * A table block. Interactive tables let readers sort by a column (ascending,
+ * descending, then back to the writer's order) and filter rows.
+ */
+const BlogTable: React.FC<BlogTableProps> = ({ table, className }) => {
+  const [sort, setSort] = useState<TableSort | null>(null);
+  const [query, setQuery] = useState('');
+
+  const columns = Array.from({ length: tableColumnCount(table) }, (_, index) => index);
+  const stacked = table.mobileLayout === 'stack';
+  const rows = table.interactive ? visibleTableRows(table, query, sort) : table.rows;
+
+  const sortIcon = (column: number) => {
+    if (sort?.column !== column) return <ArrowUpDown className="h-3.5 w-3.5 opacity-50" aria-hidden="true" />;
+    return sort.direction === 'ascending'
+      ? <ArrowUp className="h-3.5 w-3.5" aria-hidden="true" />
+      : <ArrowDown className="h-3.5 w-3.5" aria-hidden="true" />;
+  };
+
+  return (
+    <div className={cn('w-full space-y-3', className)}>
+      {table.interactive && (
+        <div className="relative max-w-xs">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
+          <Input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter rows..."
+            aria-label="Filter rows"
+            className="pl-9"
+          />
+        </div>
+      )}
+      <div className={cn('w-full', stacked ? 'md:overflow-x-auto' : 'overflow-x-auto')}>
+        <table
+          className={cn(
+            'min-w-full border-collapse bg-background rounded-lg overflow-hidden shadow-sm border border-border',
+            stacked && cn(STACK.table, 'max-md:border-0 max-md:shadow-none')
+          )}
+        >
+          <thead className={cn(stacked && STACK.thead)}>
+            {table.headerGroups?.length ? (
+              <tr className="bg-muted/70">
+                {table.headerGroups.map((group, index) => (
+                  <th
+                    key={index}
+                    colSpan={group.span}
+                    scope="colgroup"
+                    className="border border-border px-4 py-2 text-center font-semibold text-foreground"
+                  >
+                    {group.label}
+                  </th>
+                ))}
+              </tr>
+            ) : null}
+            <tr className="bg-muted/50">
+              {columns.map(column => {
+                const align = tableColumnAlign(table, column);
+                const active = sort?.column === column;
+                return (
+                  <th
+                    key={column}
+                    scope="col"
+                    aria-sort={table.interactive ? (active ? sort.direction : 'none') : undefined}
+                    className={cn('border border-border p-4 font-semibold text-foreground', ALIGN_CLASSES[align])}
+                  >
+                    {table.interactive ? (
+                      <button
+                        type="button"
+                        onClick={() => setSort(nextSort(sort, column))}
+                        className={cn('inline-flex items-center gap-1.5 hover:text-primary', align === 'right' && 'flex-row-reverse')}
+                      >
+                        {table.headers[column]}
+                        {sortIcon(column)}
+                      </button>
+                    ) : (
+                      table.headers[column]
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className={cn(stacked && STACK.tbody)}>
+            {rows.map((row, i) => (
+              <tr key={i} className={cn('hover:bg-muted/30 transition-colors', stacked && STACK.row)}>
+                {columns.map(column => (
+                  <td
+                    key={column}
+                    data-label={stacked ? table.headers[column] ?? '' : undefined}
+                    className={cn(
+                      'border border-border p-4 text-foreground',
+                      ALIGN_CLASSES[tableColumnAlign(table, column)],
+                      stacked && STACK.cell
+                    )}
+                  >
+                    {formatTableCell(table, column, row[column])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {table.interactive && rows.length === 0 && (
+        <p className="text-sm text-muted-foreground" role="status">No rows match “{query}”.</p>
+      )}
+    </div>
+  );
+};
+
+export default BlogTable;
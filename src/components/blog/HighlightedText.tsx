@@ -0,0 +1,24 @@
+import React from 'react';
+import { splitHighlight } from '@/utils/blogSearch';
+
+interface HighlightedTextProps {
+  /** `ts_headline` output from the search RPC */
+  value: string | null | undefined;
+  className?: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ value, className }) => (
+  <span className={className}>
+    {splitHighlight(value).map((segment, index) =>
+      segment.highlighted ? (
+        <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </span>
+);
+
+export default HighlightedText;
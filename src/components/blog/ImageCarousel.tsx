@@ -0,0 +1,49 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { BlockImage } from '@/utils/blogSchema';
+import { imageAlt } from '@/utils/blogImages';
+
+interface ImageCarouselProps {
+  /** From displayableImages; URLs are used as given */
+  images: BlockImage[];
+  className?: string;
+}
+
+/** A carousel block: one picture at a time, with arrows (and arrow keys) to move through them. */
+const ImageCarousel: React.FC<ImageCarouselProps> = ({ images, className }) => {
+  const count = images.length;
+
+  return (
+    // The arrows sit outside the slides, so leave room for them
+    <div className={cn('px-12', className)}>
+      <Carousel opts={{ loop: count > 1 }} aria-label="Image carousel" data-testid="image-carousel">
+        <CarouselContent>
+          {images.map((image, index) => (
+            <CarouselItem key={index} aria-label={`${index + 1} of ${count}`}>
+              <figure className="space-y-3">
+                <img
+                  src={image.url}
+                  alt={imageAlt(image, index, count)}
+                  loading={index === 0 ? undefined : 'lazy'}
+                  className="aspect-video w-full rounded-lg object-cover"
+                />
+                {image.caption && (
+                  <figcaption className="text-center text-sm text-muted-foreground italic">{image.caption}</figcaption>
+                )}
+              </figure>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {count > 1 && (
+          <>
+            <CarouselPrevious />
+            <CarouselNext />
+          </>
+        )}
+      </Carousel>
+    </div>
+  );
+};
+
+export default ImageCarousel;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { ChevronsLeftRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ComparisonImage } from '@/utils/blogImages';
+
+interface ImageComparisonProps {
+  /** From comparisonPair */
+  before: ComparisonImage;
+  after: ComparisonImage;
+  className?: string;
+}
+
+/**
+ * A comparison block: the after picture with the before picture laid over it
+ * and cut off at a divider readers drag across. The divider is a range input
+ * stretched over the pictures, so it also works with the arrow keys.
+ */
+const ImageComparison: React.FC<ImageComparisonProps> = ({ before, after, className }) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className={cn('relative overflow-hidden rounded-lg select-none', className)} data-testid="image-comparison">
+      <img src={after.url} alt={after.alt || after.label} className="block w-full object-cover" />
+      <img
+        src={before.url}
+        alt={before.alt || before.label}
+        className="absolute inset-0 h-full w-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        data-testid="comparison-before"
+      />
+      <span className="absolute left-3 top-3 rounded bg-background/80 px-2 py-0.5 text-xs font-medium" aria-hidden="true">
+        {before.label}
+      </span>
+      <span className="absolute right-3 top-3 rounded bg-background/80 px-2 py-0.5 text-xs font-medium" aria-hidden="true">
+        {after.label}
+      </span>
+      <div
+        className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-background shadow"
+        style={{ left: `${position}%` }}
+        aria-hidden="true"
+      >
+        <span className="absolute left-1/2 top-1/2 flex h-8 w-8 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-background text-foreground shadow-md">
+          <ChevronsLeftRight className="h-4 w-4" />
+        </span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        aria-label={`Compare ${before.label} and ${after.label}`}
+        aria-valuetext={`${position}% ${before.label}`}
+        className="absolute inset-0 h-full w-full cursor-ew-resize opacity-0"
+      />
+    </div>
+  );
+};
+
+export default ImageComparison;
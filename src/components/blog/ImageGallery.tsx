@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { BlockImage, GalleryColumns } from '@/utils/blogSchema';
+import { imageAlt } from '@/utils/blogImages';
+
+interface ImageGalleryProps {
+  /** From displayableImages; URLs are used as given */
+  images: BlockImage[];
+  columns?: GalleryColumns;
+  className?: string;
+}
+
+const COLUMN_CLASSES: Record<GalleryColumns, string> = {
+  2: 'sm:grid-cols-2',
+  3: 'sm:grid-cols-2 md:grid-cols-3',
+  4: 'sm:grid-cols-2 md:grid-cols-4'
+};
+
+/**
+ * A gallery block: a grid of thumbnails that open in a lightbox, where the
+ * arrow buttons or keys step through the rest of the pictures.
+ */
+const ImageGallery: React.FC<ImageGalleryProps> = ({ images, columns = 3, className }) => {
+  const [open, setOpen] = useState<number | null>(null);
+  const count = images.length;
+  const current = open === null ? null : images[open];
+
+  const step = (delta: number) => setOpen(index => index === null ? null : (index + delta + count) % count);
+
+  return (
+    <>
+      <div className={cn('grid grid-cols-1 gap-4', COLUMN_CLASSES[columns], className)} data-testid="image-gallery">
+        {images.map((image, index) => (
+          <figure key={index} className="space-y-2">
+            <button
+              type="button"
+              onClick={() => setOpen(index)}
+              aria-label={`Open ${imageAlt(image, index, count)}`}
+              className="block w-full overflow-hidden rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <img
+                src={image.url}
+                alt={imageAlt(image, index, count)}
+                loading="lazy"
+                className="aspect-[4/3] w-full object-cover transition-transform duration-300 hover:scale-105"
+              />
+            </button>
+            {image.caption && (
+              <figcaption className="text-sm text-muted-foreground italic">{image.caption}</figcaption>
+            )}
+          </figure>
+        ))}
+      </div>
+
+      <Dialog open={current !== null} onOpenChange={(isOpen) => !isOpen && setOpen(null)}>
+        <DialogContent
+          className="max-w-5xl"
+          onKeyDown={(e) => {
+            if (e.key === 'ArrowLeft') step(-1);
+            else if (e.key === 'ArrowRight') step(1);
+          }}
+        >
+          {current && (
+            <>
+              <DialogTitle className="sr-only">{imageAlt(current, open, count)}</DialogTitle>
+              <DialogDescription className="sr-only">
+                Image {open + 1} of {count}. Use the arrow keys to see the others.
+              </DialogDescription>
+              <figure className="space-y-3">
+                <img
+                  src={current.url}
+                  alt={imageAlt(current, open, count)}
+                  className="max-h-[75vh] w-full rounded-md object-contain"
+                />
+                <figcaption className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+                  <span className="italic">{current.caption}</span>
+                  <span aria-hidden="true">{open + 1} / {count}</span>
+                </figcaption>
+              </figure>
+              {count > 1 && (
+                <div className="flex justify-between">
+                  <Button type="button" variant="outline" size="sm" onClick={() => step(-1)}>
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous image
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => step(1)}>
+                    Next image
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ImageGallery;
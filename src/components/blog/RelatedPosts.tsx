@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Link } from 'react-router-dom';
+import { blogPostPath } from '@/utils/blogSeo';
+import { categoryLabel } from '@/utils/blogTaxonomy';
+import { BlogListItem } from '@/utils/blogListing';
+import { RelatedPostsSource, fetchRelatedPosts } from '@/utils/relatedPosts';
+import { useBlogTaxonomy } from '@/hooks/useBlogTaxonomy';
+
+interface RelatedPostsProps {
+  source: RelatedPostsSource;
+  /** `footer` closes a post as a row of cards; `sidebar` is a compact list */
+  variant?: 'footer' | 'sidebar';
+  title?: string;
+  limit?: number;
+}
+
+/** Posts related to `source`; renders nothing until there are some. */
+const RelatedPosts: React.FC<RelatedPostsProps> = ({ source, variant = 'footer', title = 'Related Articles', limit = 3 }) => {
+  const [posts, setPosts] = useState<BlogListItem[]>([]);
+  const { categories } = useBlogTaxonomy();
+  const { id, category } = source;
+
+  useEffect(() => {
+    let cancelled = false;
+    setPosts([]);
+
+    fetchRelatedPosts({ id, category }, limit)
+      .then(result => {
+        if (!cancelled) setPosts(result);
+      })
+      .catch(error => console.error('Error fetching related posts:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, category, limit]);
+
+  if (posts.length === 0) return null;
+
+  if (variant === 'sidebar') {
+    return (
+      <Card data-testid="related-posts-sidebar">
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {posts.map((post) => (
+              <Link
+                key={post.id}
+                to={blogPostPath(post.slug)}
+                className="block hover:bg-muted p-2 rounded transition-colors"
+              >
+                <Badge variant="secondary" className="text-xs mb-2">
+                  {categoryLabel(categories, post.category)}
+                </Badge>
+                <h3 className="font-medium text-sm leading-tight mb-1 line-clamp-2">{post.title}</h3>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(post.created_at).toLocaleDateString()}
+                </p>
+              </Link>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <section className="mt-12" data-testid="related-posts">
+      <h2 className="text-2xl font-bold mb-6">{title}</h2>
+      <div className="grid gap-6 md:grid-cols-3">
+        {posts.map((post) => (
+          <Link key={post.id} to={blogPostPath(post.slug)} className="block">
+            <Card className="h-full hover:shadow-md transition-shadow">
+              {post.featured_image_url && (
+                <div className="aspect-video overflow-hidden rounded-t-lg">
+                  <img src={post.featured_image_url} alt={post.title} className="w-full h-full object-cover" />
+                </div>
+              )}
+              <CardHeader>
+                <Badge variant="secondary" className="w-fit mb-2">{categoryLabel(categories, post.category)}</Badge>
+                <CardTitle className="text-lg leading-tight">{post.title}</CardTitle>
+              </CardHeader>
+              {post.excerpt && (
+                <CardContent>
+                  <p className="text-sm text-muted-foreground line-clamp-3">{post.excerpt}</p>
+                </CardContent>
+              )}
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RelatedPosts;
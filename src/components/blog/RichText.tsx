@@ -0,0 +1,41 @@
+import React from 'react';
+import { RichTextSpan } from '@/utils/blogSchema';
+import { safeHref } from '@/utils/htmlSanitizer';
+
+interface RichTextProps {
+  spans: RichTextSpan[];
+}
+
+/**
+ * Inline-formatted text as React elements, never as HTML. Links are checked
+ * again with safeHref so unnormalized content cannot smuggle in a script URL.
+ */
+const RichText: React.FC<RichTextProps> = ({ spans }) => (
+  <>
+    {spans.map((span, index) => {
+      let node: React.ReactNode = span.text;
+      if (span.marks?.includes('code')) {
+        node = <code className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">{node}</code>;
+      }
+      if (span.marks?.includes('italic')) node = <em>{node}</em>;
+      if (span.marks?.includes('bold')) node = <strong>{node}</strong>;
+
+      const href = safeHref(span.href);
+      if (href) {
+        const external = /^https?:\/\//i.test(href);
+        node = (
+          <a
+            href={href}
+            className="text-primary underline underline-offset-2 hover:no-underline"
+            {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+          >
+            {node}
+          </a>
+        );
+      }
+      return <React.Fragment key={index}>{node}</React.Fragment>;
+    })}
+  </>
+);
+
+export default RichText;
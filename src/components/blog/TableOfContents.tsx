@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { TocEntry } from '@/utils/blogOutline';
+
+interface TableOfContentsProps {
+  entries: TocEntry[];
+  activeId: string | null;
+  /** `sidebar` is the sticky desktop list; `collapsible` folds away above the post on small screens */
+  variant?: 'sidebar' | 'collapsible';
+  className?: string;
+}
+
+const TocLinks: React.FC<{ entries: TocEntry[]; activeId: string | null; onNavigate?: () => void }> = ({
+  entries,
+  activeId,
+  onNavigate
+}) => (
+  <ol className="space-y-1 text-sm">
+    {entries.map(entry => (
+      <li key={entry.id} className={cn(entry.level === 3 && "pl-4", entry.level === 4 && "pl-8")}>
+        <a
+          href={`#${entry.id}`}
+          onClick={onNavigate}
+          aria-current={entry.id === activeId ? 'location' : undefined}
+          className={cn(
+            "block border-l-2 py-1 pl-3 transition-colors hover:text-foreground",
+            entry.id === activeId
+              ? "border-primary text-foreground font-medium"
+              : "border-transparent text-muted-foreground"
+          )}
+        >
+          {entry.text}
+        </a>
+      </li>
+    ))}
+  </ol>
+);
+
+const TableOfContents: React.FC<TableOfContentsProps> = ({ entries, activeId, variant = 'sidebar', className }) => {
+  const [open, setOpen] = useState(false);
+
+  if (variant === 'collapsible') {
+    return (
+      <Collapsible open={open} onOpenChange={setOpen} className={cn("not-prose rounded-lg border border-border", className)}>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" className="w-full justify-between font-semibold">
+            On this page
+            <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="px-3 pb-3">
+          <TocLinks entries={entries} activeId={activeId} onNavigate={() => setOpen(false)} />
+        </CollapsibleContent>
+      </Collapsible>
+    );
+  }
+
+  return (
+    <nav aria-label="Table of contents" className={cn("not-prose sticky top-24", className)}>
+      <p className="mb-3 text-sm font-semibold text-foreground">On this page</p>
+      <TocLinks entries={entries} activeId={activeId} />
+    </nav>
+  );
+};
+
+export default TableOfContents;
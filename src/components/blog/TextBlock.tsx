@@ -0,0 +1,131 @@
+import React from 'react';
+import { AlertOctagon, AlertTriangle, Info, Lightbulb, LucideIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CalloutVariant, ContentBlock, ListData, ListItem } from '@/utils/blogSchema';
+import { CODE_LANGUAGES, CodeTokenType, highlightCode } from '@/utils/codeHighlight';
+
+const HEADING_CLASSES = {
+  1: 'text-4xl',
+  2: 'text-3xl',
+  3: 'text-2xl',
+  4: 'text-xl'
+};
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  plain: '',
+  comment: 'text-muted-foreground italic',
+  string: 'text-emerald-600 dark:text-emerald-400',
+  number: 'text-amber-600 dark:text-amber-400',
+  keyword: 'text-violet-600 dark:text-violet-400 font-medium'
+};
+
+const CALLOUTS: Record<CalloutVariant, { icon: LucideIcon; label: string; className: string }> = {
+  info: { icon: Info, label: 'Note', className: 'border-blue-500 bg-blue-500/10' },
+  tip: { icon: Lightbulb, label: 'Tip', className: 'border-emerald-500 bg-emerald-500/10' },
+  warning: { icon: AlertTriangle, label: 'Warning', className: 'border-amber-500 bg-amber-500/10' },
+  danger: { icon: AlertOctagon, label: 'Important', className: 'border-destructive bg-destructive/10' }
+};
+
+const BlockList: React.FC<{ style: ListData['style']; items: ListItem[]; nested?: boolean }> = ({ style, items, nested }) => {
+  const List = style === 'ordered' ? 'ol' : 'ul';
+  return (
+    <List className={cn("space-y-2 pl-6", style === 'ordered' ? "list-decimal" : "list-disc", nested && "mt-2")}>
+      {items.map((item, index) => (
+        <li key={index}>
+          {item.text}
+          {item.children?.length ? <BlockList style={style} items={item.children} nested /> : null}
+        </li>
+      ))}
+    </List>
+  );
+};
+
+interface TextBlockProps {
+  block: ContentBlock;
+  /** Anchor id for headings, from the table of contents */
+  anchorId?: string;
+}
+
+/**
+ * Heading, list, quote, code, divider and callout blocks, shared by
+ * BlogRenderer and the editor preview; null for any other type.
+ */
+const TextBlock: React.FC<TextBlockProps> = ({ block, anchorId }) => {
+  const { content } = block;
+  const alignment = content.alignment && `text-${content.alignment}`;
+
+  switch (block.type) {
+    case 'heading': {
+      const level = content.level ?? 2;
+      const Heading = `h${level}` as 'h1' | 'h2' | 'h3' | 'h4';
+      return (
+        <Heading
+          id={anchorId}
+          className={cn("scroll-mt-24 font-bold leading-tight text-foreground", HEADING_CLASSES[level], alignment)}
+          style={{ color: content.textColor }}
+        >
+          {content.text}
+        </Heading>
+      );
+    }
+
+    case 'list':
+      if (!content.listData || content.listData.items.length === 0) return null;
+      return (
+        <div className={cn("leading-relaxed", alignment)} style={{ color: content.textColor }}>
+          <BlockList style={content.listData.style} items={content.listData.items} />
+        </div>
+      );
+
+    case 'quote':
+      return (
+        <blockquote className="border-l-4 border-primary pl-6 italic" style={{ color: content.textColor }}>
+          <p className="text-xl leading-relaxed whitespace-pre-line">{content.text}</p>
+          {content.attribution && (
+            <footer className="mt-3 text-sm not-italic text-muted-foreground">— {content.attribution}</footer>
+          )}
+        </blockquote>
+      );
+
+    case 'code': {
+      const language = CODE_LANGUAGES.find(option => option.value === content.language);
+      return (
+        <div className="not-prose overflow-hidden rounded-lg border border-border bg-muted/50">
+          {language && language.value !== 'plaintext' && (
+            <div className="border-b border-border px-4 py-1 text-xs text-muted-foreground">{language.label}</div>
+          )}
+          <pre className="overflow-x-auto p-4 text-sm leading-relaxed">
+            <code className={cn("font-mono", content.language && `language-${content.language}`)}>
+              {highlightCode(content.text || '', content.language).map((token, index) =>
+                token.type === 'plain'
+                  ? <React.Fragment key={index}>{token.value}</React.Fragment>
+                  : <span key={index} className={TOKEN_CLASSES[token.type]}>{token.value}</span>
+              )}
+            </code>
+          </pre>
+        </div>
+      );
+    }
+
+    case 'divider':
+      return <hr className="border-border" />;
+
+    case 'callout': {
+      const callout = CALLOUTS[content.calloutVariant ?? 'info'];
+      return (
+        <div role="note" className={cn("not-prose flex gap-3 rounded-lg border-l-4 p-4", callout.className)}>
+          <callout.icon className="mt-0.5 h-5 w-5 shrink-0" aria-label={callout.label} />
+          <div className="space-y-1">
+            {content.title && <p className="font-semibold text-foreground">{content.title}</p>}
+            <p className="leading-relaxed whitespace-pre-line text-foreground">{content.text}</p>
+          </div>
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+};
+
+export default TextBlock;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { VIDEO_PROVIDER_LABELS, VideoEmbed } from '@/utils/videoEmbed';
+
+interface VideoPlayerProps {
+  /** From parseVideoUrl / videoEmbedForContent; never a raw pasted URL */
+  video: VideoEmbed;
+  title?: string;
+  className?: string;
+}
+
+/**
+ * A parsed video: the provider's player in an iframe, or a native player for
+ * uploads. Shared by blog posts, the block editor and page sections.
+ */
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ video, title, className }) => {
+  const label = title || `${VIDEO_PROVIDER_LABELS[video.provider]} video`;
+
+  if (video.provider === 'upload') {
+    return (
+      <video
+        src={video.embedUrl}
+        title={label}
+        className={cn("w-full h-full object-cover", className)}
+        controls
+        preload="metadata"
+      />
+    );
+  }
+
+  return (
+    <iframe
+      src={video.embedUrl}
+      title={label}
+      className={cn("w-full h-full", className)}
+      loading="lazy"
+      allowFullScreen
+      allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+      referrerPolicy="strict-origin-when-cross-origin"
+    />
+  );
+};
+
+export default VideoPlayer;
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BlogComments from '../BlogComments';
+import { supabase } from '../../../integrations/supabase/client';
+import { mockQuery } from '../../../test/mocks/supabaseQuery';
+
+vi.mock('../../../integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn()
+  }
+}));
+
+const comments = [
+  { id: 'c1', blog_id: 'b1', parent_id: null, author_name: 'Ada', body: 'Loved the section on agents.', status: 'approved', created_at: '2024-03-01T00:00:00Z' },
+  { id: 'c2', blog_id: 'b1', parent_id: 'c1', author_name: 'Grace', body: 'Same here!', status: 'approved', created_at: '2024-03-02T00:00:00Z' },
+  { id: 'c3', blog_id: 'b2', parent_id: null, author_name: 'Linus', body: 'Other post', status: 'approved', created_at: '2024-03-03T00:00:00Z' }
+];
+
+describe('BlogComments', () => {
+  const mockInsert = vi.fn(() => mockQuery({ data: null }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (supabase.from as Mock).mockImplementation(() => ({
+      select: vi.fn(() => mockQuery({ data: comments })),
+      insert: mockInsert
+    }));
+  });
+
+  it('shows approved comments for the post as threads', async () => {
+    render(<BlogComments blogId="b1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('2 Comments')).toBeInTheDocument();
+    });
+    const [first] = screen.getAllByTestId('blog-comment');
+    expect(within(first).getByText('Loved the section on agents.')).toBeInTheDocument();
+    expect(first.closest('li')?.querySelector('ul')).toHaveTextContent('Same here!');
+    expect(screen.queryByText('Other post')).not.toBeInTheDocument();
+  });
+
+  it('submits replies for moderation', async () => {
+    const user = userEvent.setup();
+    render(<BlogComments blogId="b1" />);
+
+    await user.click(await screen.findByLabelText('Reply to Grace'));
+    const form = screen.getByTestId('reply-form');
+    await user.type(within(form).getByLabelText('Name'), '  Alan ');
+    await user.type(within(form).getByLabelText('Reply'), 'Agreed.');
+    await user.click(within(form).getByText('Post Reply'));
+
+    await waitFor(() => {
+      expect(mockInsert).toHaveBeenCalledWith([{ blog_id: 'b1', parent_id: 'c2', author_name: 'Alan', body: 'Agreed.' }]);
+    });
+    expect(screen.queryByTestId('reply-form')).not.toBeInTheDocument();
+  });
+
+  it('drops submissions that fill the hidden honeypot field', async () => {
+    const user = userEvent.setup();
+    const { container } = render(<BlogComments blogId="b1" />);
+
+    const form = await screen.findByTestId('comment-form');
+    await user.type(within(form).getByLabelText('Name'), 'Bot');
+    await user.type(within(form).getByLabelText('Comment'), 'Buy now');
+    await user.type(container.querySelector('#comment-website') as HTMLInputElement, 'https://spam.example');
+    await user.click(within(form).getByText('Post Comment'));
+
+    await waitFor(() => {
+      expect(within(form).getByLabelText('Name')).toHaveValue('');
+    });
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import BlogRenderer from '../BlogRenderer';
 import { TestWrapper } from '../../../test/utils';
+import { ContentBlock } from '../../../utils/blogSchema';
 
 describe('BlogRenderer Component', () => {
   const mockBlogBasic = {
@@ -83,7 +85,7 @@ describe('BlogRenderer Component', () => {
           id: 'block-6',
           type: 'video-embed' as const,
           content: {
-            videoUrl: 'https://www.youtube.com/embed/testVideo',
+            videoUrl: 'https://www.youtube.com/watch?v=testVideo01&t=1m5s',
             width: 90,
             alignment: 'center' as const
           }
@@ -153,6 +155,149 @@ describe('BlogRenderer Component', () => {
     expect(featuredImage).toHaveAttribute('src', 'https://structured-featured.jpg');
   });
 
+  it('links the byline to the author page when the post has a profile', () => {
+    render(
+      <TestWrapper>
+        <BlogRenderer blog={mockBlogWithStructure} author={{ id: 'u1', display_name: 'Ada Lovelace', avatar_url: null }} />
+      </TestWrapper>
+    );
+
+    expect(screen.getByTestId('blog-byline')).toHaveTextContent('By Ada Lovelace');
+    expect(screen.getByRole('link', { name: 'Ada Lovelace' })).toHaveAttribute('href', '/blog/author/u1');
+    expect(screen.queryByText('By Test Author')).not.toBeInTheDocument();
+  });
+
+  it('omits the byline for placeholder authors', () => {
+    render(
+      <TestWrapper>
+        <BlogRenderer blog={{ ...mockBlogWithStructure, blog_structure: { ...mockBlogWithStructure.blog_structure, author: 'Admin' } }} />
+      </TestWrapper>
+    );
+
+    expect(screen.queryByTestId('blog-byline')).not.toBeInTheDocument();
+  });
+
+  const headingBlock = (id: string, text: string, level: 2 | 3) => ({
+    id,
+    type: 'heading' as const,
+    content: { text, level }
+  });
+
+  const blogWithHeadings = {
+    ...mockBlogWithStructure,
+    blog_structure: {
+      ...mockBlogWithStructure.blog_structure,
+      blocks: [
+        headingBlock('h-1', 'Why it matters', 2),
+        ...mockBlogWithStructure.blog_structure.blocks,
+        headingBlock('h-2', 'The details', 3)
+      ]
+    }
+  };
+
+  it('shows the reading time for structured and classic posts', () => {
+    // Date, reading time and category, one separator between each
+    const metaRow = () => Array.from(screen.getByTestId('blog-reading-time').parentElement!.children)
+      .map(child => child.textContent)
+      .slice(-5);
+
+    const { unmount } = render(
+      <TestWrapper>
+        <BlogRenderer blog={mockBlogWithStructure} />
+      </TestWrapper>
+    );
+    expect(screen.getByTestId('blog-reading-time')).toHaveTextContent('1 min read');
+    expect(metaRow()).toEqual(['January 1, 2024', '•', '1 min read', '•', 'technology']);
+    unmount();
+
+    render(
+      <TestWrapper>
+        <BlogRenderer blog={{ ...mockBlogBasic, content: `<p>${'word '.repeat(900)}</p>` }} />
+      </TestWrapper>
+    );
+    expect(screen.getByTestId('blog-reading-time')).toHaveTextContent('4 min read');
+    expect(metaRow()).toEqual(['January 1, 2024', '•', '4 min read', '•', 'technology']);
+  });
+
+  it('renders heading blocks with anchors and links them from the table of contents', () => {
+    render(
+      <TestWrapper>
+        <BlogRenderer blog={blogWithHeadings} />
+      </TestWrapper>
+    );
+
+    expect(screen.getByRole('heading', { level: 2, name: 'Why it matters' })).toHaveAttribute('id', 'why-it-matters');
+    expect(screen.getByRole('heading', { level: 3, name: 'The details' })).toHaveAttribute('id', 'the-details');
+
+    const toc = screen.getByRole('navigation', { name: 'Table of contents' });
+    expect(within(toc).getByRole('link', { name: 'Why it matters' })).toHaveAttribute('href', '#why-it-matters');
+    expect(within(toc).getByRole('link', { name: 'The details' })).toHaveAttribute('href', '#the-details');
+    // Nothing has been scrolled past yet, so the first section is current
+    expect(within(toc).getByRole('link', { name: 'Why it matters' })).toHaveAttribute('aria-current', 'location');
+  });
+
+  it('folds the table of contents away on small screens until opened', async () => {
+    const user = userEvent.setup();
+    render(
+      <TestWrapper>
+        <BlogRenderer blog={blogWithHeadings} />
+      </TestWrapper>
+    );
+
+    expect(screen.getAllByRole('link', { name: 'The details' })).toHaveLength(1);
+    await user.click(screen.getByRole('button', { name: 'On this page' }));
+    expect(screen.getAllByRole('link', { name: 'The details' })).toHaveLength(2);
+  });
+
+  it('renders list, quote, code, divider and callout blocks', () => {
+    const { container } = render(
+      <TestWrapper>
+        <BlogRenderer
+          blog={{
+            ...mockBlogBasic,
+            blog_structure: {
+              ...mockBlogWithStructure.blog_structure,
+              blocks: [
+                {
+                  id: 'list',
+                  type: 'list' as const,
+                  content: { listData: { style: 'ordered' as const, items: [{ text: 'Plan', children: [{ text: 'Scope' }] }, { text: 'Ship' }] } }
+                },
+                { id: 'quote', type: 'quote' as const, content: { text: 'Simplicity is prerequisite for reliability.', attribution: 'Edsger Dijkstra' } },
+                { id: 'code', type: 'code' as const, content: { text: 'const answer = 42; // <b>not bold</b>', language: 'typescript' } },
+                { id: 'divider', type: 'divider' as const, content: {} },
+                { id: 'callout', type: 'callout' as const, content: { title: 'Heads up', text: 'Back up first.', calloutVariant: 'warning' as const } }
+              ]
+            }
+          }}
+        />
+      </TestWrapper>
+    );
+
+    const list = container.querySelector('ol');
+    expect(within(list as HTMLElement).getByText('Scope').closest('ol')).not.toBe(list);
+    expect(screen.getByText('Simplicity is prerequisite for reliability.').closest('blockquote')).toHaveTextContent('— Edsger Dijkstra');
+
+    const code = container.querySelector('code.language-typescript');
+    expect(code).toHaveTextContent('const answer = 42; // <b>not bold</b>');
+    expect(code?.querySelector('b')).toBeNull();
+    expect(within(code as HTMLElement).getByText('const')).toHaveClass('text-violet-600');
+    expect(screen.getByText('TypeScript')).toBeInTheDocument();
+
+    expect(container.querySelector('hr')).toBeInTheDocument();
+    expect(screen.getByRole('note')).toHaveTextContent('Heads upBack up first.');
+  });
+
+  it('leaves the table of contents out of posts with fewer than two headings', () => {
+    render(
+      <TestWrapper>
+        <BlogRenderer blog={mockBlogWithStructure} />
+      </TestWrapper>
+    );
+
+    expect(screen.queryByRole('navigation', { name: 'Table of contents' })).not.toBeInTheDocument();
+  });
+
   it('renders left-image-right-text layout correctly', () => {
     render(
       <TestWrapper>
@@ -204,6 +349,70 @@ describe('BlogRenderer Component', () => {
     expect(screen.getByText('Full width text content that spans the entire article width')).toBeInTheDocument();
   });
 
+  it('renders inline rich text as elements rather than HTML', () => {
+    const blog = {
+      ...mockBlogWithStructure,
+      blog_structure: {
+        ...mockBlogWithStructure.blog_structure,
+        blocks: [{
+          id: 'rich',
+          type: 'full-width-text' as const,
+          content: {
+            text: 'Read the <img src=x onerror=alert(1)> docs',
+            richText: [
+              { text: 'Read the ' },
+              { text: '<img src=x onerror=alert(1)>', marks: ['code' as const] },
+              { text: ' docs', marks: ['bold' as const, 'italic' as const], href: 'https://example.com/docs' },
+              { text: ' now', href: 'javascript:alert(1)' }
+            ]
+          }
+        }]
+      }
+    };
+
+    const { container } = render(
+      <TestWrapper>
+        <BlogRenderer blog={blog} />
+      </TestWrapper>
+    );
+
+    expect(screen.getByText('<img src=x onerror=alert(1)>').tagName).toBe('CODE');
+    const link = screen.getByRole('link', { name: 'docs' });
+    expect(link).toHaveAttribute('href', 'https://example.com/docs');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+    expect(link.querySelector('strong > em')).not.toBeNull();
+    expect(screen.queryByRole('link', { name: 'now' })).not.toBeInTheDocument();
+    expect(container.querySelector('img[src="x"]')).toBeNull();
+  });
+
+  it('sanitizes classic content and unapproved media', () => {
+    const { container } = render(
+      <TestWrapper>
+        <BlogRenderer blog={{ ...mockBlogBasic, content: '<p>Safe</p><img src=x onerror="alert(1)"><script>alert(2)</script>' }} />
+      </TestWrapper>
+    );
+    expect(screen.getByText('Safe')).toBeInTheDocument();
+    expect(container.querySelector('script, [onerror]')).toBeNull();
+
+    const blog = {
+      ...mockBlogWithStructure,
+      blog_structure: {
+        ...mockBlogWithStructure.blog_structure,
+        blocks: [
+          { id: 'v', type: 'video-embed' as const, content: { videoUrl: 'javascript:alert(1)' } },
+          { id: 't', type: 'full-width-text' as const, content: { text: '<a href="javascript:alert(1)">x</a>' } }
+        ]
+      }
+    };
+    const { container: structured } = render(
+      <TestWrapper>
+        <BlogRenderer blog={blog} />
+      </TestWrapper>
+    );
+    expect(structured.querySelector('iframe')).toBeNull();
+    expect(structured.querySelector('a[href^="javascript"]')).toBeNull();
+  });
+
   it('renders image-caption layout', () => {
     render(
       <TestWrapper>
@@ -224,8 +433,76 @@ describe('BlogRenderer Component', () => {
       </TestWrapper>
     );
 
-  const iframes = screen.getAllByTitle('https://www.youtube.com/embed/testVideo');
-  expect(iframes[0]).toHaveAttribute('src', 'https://www.youtube.com/embed/testVideo');
+  const iframes = screen.getAllByTitle('YouTube video');
+  expect(iframes[0]).toHaveAttribute('src', 'https://www.youtube.com/embed/testVideo01?start=65');
+  });
+
+  const withBlocks = (blocks: ContentBlock[]) => ({
+    ...mockBlogWithStructure,
+    blog_structure: { ...mockBlogWithStructure.blog_structure, blocks }
+  });
+
+  it('opens gallery pictures in a lightbox and steps through them', async () => {
+    const user = userEvent.setup();
+    render(
+      <TestWrapper>
+        <BlogRenderer blog={withBlocks([{
+          id: 'g',
+          type: 'gallery',
+          content: {
+            galleryColumns: 2,
+            images: [
+              { url: 'https://example.com/inbox.png', alt: 'Inbox', caption: 'The new inbox' },
+              { url: 'javascript:alert(1)', alt: 'Unsafe' },
+              { url: 'https://example.com/settings.png', alt: 'Settings' }
+            ]
+          }
+        }])} />
+      </TestWrapper>
+    );
+
+    const gallery = screen.getByTestId('image-gallery');
+    expect(within(gallery).getAllByRole('img').map(img => img.getAttribute('alt'))).toEqual(['Inbox', 'Settings']);
+    expect(within(gallery).getByText('The new inbox')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Open Inbox' }));
+    const lightbox = screen.getByRole('dialog', { name: 'Inbox' });
+    expect(within(lightbox).getByRole('img', { name: 'Inbox' })).toHaveAttribute('src', 'https://example.com/inbox.png');
+
+    await user.click(within(lightbox).getByRole('button', { name: 'Next image' }));
+    expect(screen.getByRole('dialog', { name: 'Settings' })).toBeInTheDocument();
+    await user.keyboard('{ArrowRight}');
+    expect(screen.getByRole('dialog', { name: 'Inbox' })).toBeInTheDocument();
+  });
+
+  it('renders carousel slides and a before/after comparison slider', () => {
+    render(
+      <TestWrapper>
+        <BlogRenderer blog={withBlocks([
+          {
+            id: 'c',
+            type: 'carousel',
+            content: { images: [{ url: '/a.png', caption: 'Step one' }, { url: '/b.png', caption: 'Step two' }] }
+          },
+          {
+            id: 'cmp',
+            type: 'comparison',
+            content: { images: [{ url: '/old.png' }, { url: '/new.png', caption: 'Redesign' }] }
+          },
+          { id: 'half', type: 'comparison', content: { images: [{ url: '/only.png' }] } }
+        ])} />
+      </TestWrapper>
+    );
+
+    const slides = within(screen.getByTestId('image-carousel')).getAllByRole('group');
+    expect(slides).toHaveLength(2);
+    expect(within(slides[1]).getByRole('img', { name: 'Step two' })).toHaveAttribute('src', '/b.png');
+    expect(screen.getByRole('button', { name: 'Next slide' })).toBeInTheDocument();
+
+    expect(screen.getAllByTestId('image-comparison')).toHaveLength(1);
+    const slider = screen.getByRole('slider', { name: 'Compare Before and Redesign' });
+    fireEvent.change(slider, { target: { value: '30' } });
+    expect(screen.getByTestId('comparison-before')).toHaveStyle({ clipPath: 'inset(0 70% 0 0)' });
   });
 
   it('renders table with headers and data', () => {
@@ -326,9 +603,53 @@ describe('BlogRenderer Component', () => {
     );
 
     expect(screen.getByText('Market Share')).toBeInTheDocument();
-    expect(screen.getByText('Company A: 40')).toBeInTheDocument();
-    expect(screen.getByText('Company B: 35')).toBeInTheDocument();
-    expect(screen.getByText('Company C: 25')).toBeInTheDocument();
+    expect(screen.getByTestId('blog-chart')).toHaveAttribute('data-chart-type', 'pie');
+    expect(screen.getByRole('row', { name: 'Company A 40' })).toBeInTheDocument();
+    expect(screen.getByRole('row', { name: 'Company B 35' })).toBeInTheDocument();
+    expect(screen.getByRole('row', { name: 'Company C 25' })).toBeInTheDocument();
+  });
+
+  it('lists every series of a multi-series chart with its number format', () => {
+    const stackedBlog = {
+      ...mockBlogBasic,
+      blog_structure: {
+        title: 'Revenue Blog',
+        featuredImage: '',
+        author: 'Author',
+        date: '2024-01-01',
+        blocks: [
+          {
+            id: 'stacked-chart-block',
+            type: 'chart' as const,
+            content: {
+              chartData: {
+                type: 'bar' as const,
+                title: 'Revenue by region',
+                labels: ['2023', '2024'],
+                data: [1200, 1500],
+                series: [
+                  { name: 'Europe', data: [1200, 1500] },
+                  { name: 'Americas', data: [800, 2100.5] }
+                ],
+                stacked: true,
+                xAxisLabel: 'Year',
+                numberFormat: 'currency' as const
+              }
+            }
+          }
+        ]
+      }
+    };
+
+    render(
+      <TestWrapper>
+        <BlogRenderer blog={stackedBlog} />
+      </TestWrapper>
+    );
+
+    expect(screen.getByRole('columnheader', { name: 'Year' })).toBeInTheDocument();
+    expect(screen.getByRole('columnheader', { name: 'Americas' })).toBeInTheDocument();
+    expect(screen.getByRole('row', { name: '2024 $1,500.00 $2,100.50' })).toBeInTheDocument();
   });
 
   it('handles line chart rendering', () => {
@@ -435,6 +756,17 @@ describe('BlogRenderer Component', () => {
     expect(screen.getByText('January 1, 2024')).toBeInTheDocument();
   });
 
+  it('names the category by its label rather than its slug', () => {
+    render(
+      <TestWrapper>
+        <BlogRenderer blog={mockBlogWithStructure} categoryLabel="Tech Insights" />
+      </TestWrapper>
+    );
+
+    expect(screen.getByText('Tech Insights')).toBeInTheDocument();
+    expect(screen.queryByText('technology')).not.toBeInTheDocument();
+  });
+
   it('applies custom className prop', () => {
     const { container } = render(
       <TestWrapper>
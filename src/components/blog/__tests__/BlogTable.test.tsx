@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BlogTable from '../BlogTable';
+import { TableData } from '../../../utils/blogSchema';
+
+const table: TableData = {
+  headerGroups: [{ label: '', span: 1 }, { label: '2024', span: 2 }],
+  headers: ['Region', 'Revenue', 'Growth'],
+  rows: [
+    ['North', '1200', '4.5'],
+    ['South', '980.5', ''],
+    ['East', '15000', '-2']
+  ],
+  columns: [{}, { numberFormat: 'currency' }, { numberFormat: 'percent', align: 'center' }]
+};
+
+const bodyRows = () => screen.getAllByRole('row').slice(2).map(row =>
+  within(row).getAllByRole('cell').map(cell => cell.textContent));
+
+describe('BlogTable', () => {
+  it('renders merged headers, formatted numbers and column alignment', () => {
+    render(<BlogTable table={table} />);
+
+    expect(screen.getByRole('columnheader', { name: '2024' })).toHaveAttribute('colspan', '2');
+    expect(bodyRows()).toEqual([
+      ['North', '$1,200.00', '4.5%'],
+      ['South', '$980.50', ''],
+      ['East', '$15,000.00', '-2%']
+    ]);
+    expect(screen.getByRole('cell', { name: '$1,200.00' })).toHaveClass('text-right');
+    expect(screen.getByRole('cell', { name: '4.5%' })).toHaveClass('text-center');
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('lets readers sort by a column and filter rows when interactive', async () => {
+    const user = userEvent.setup();
+    render(<BlogTable table={{ ...table, interactive: true }} />);
+
+    const growth = screen.getByRole('columnheader', { name: 'Growth' });
+    await user.click(within(growth).getByRole('button'));
+    expect(growth).toHaveAttribute('aria-sort', 'ascending');
+    expect(bodyRows().map(row => row[0])).toEqual(['East', 'North', 'South']);
+
+    await user.click(within(growth).getByRole('button'));
+    expect(growth).toHaveAttribute('aria-sort', 'descending');
+    // Blank cells stay last
+    expect(bodyRows().map(row => row[0])).toEqual(['North', 'East', 'South']);
+
+    await user.click(within(growth).getByRole('button'));
+    expect(growth).toHaveAttribute('aria-sort', 'none');
+    expect(bodyRows().map(row => row[0])).toEqual(['North', 'South', 'East']);
+
+    await user.type(screen.getByRole('searchbox', { name: 'Filter rows' }), '15,000');
+    expect(bodyRows()).toEqual([['East', '$15,000.00', '-2%']]);
+
+    await user.clear(screen.getByRole('searchbox', { name: 'Filter rows' }));
+    await user.type(screen.getByRole('searchbox', { name: 'Filter rows' }), 'west');
+    expect(screen.getByRole('status')).toHaveTextContent('No rows match “west”.');
+  });
+
+  it('labels cells with their header for the stacked mobile layout', () => {
+    render(<BlogTable table={{ ...table, mobileLayout: 'stack' }} />);
+    expect(screen.getByRole('cell', { name: 'South' })).toHaveAttribute('data-label', 'Region');
+    expect(screen.getByRole('cell', { name: '$980.50' })).toHaveAttribute('data-label', 'Revenue');
+  });
+});
@@ -4,6 +4,9 @@ import { Button } from '@/components/ui/button';
 import { Edit, Save, X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import VideoPlayer from '@/components/blog/VideoPlayer';
+import { safeImageUrl } from '@/utils/htmlSanitizer';
+import { parseVideoUrl } from '@/utils/videoEmbed';
 
 interface ContentSection {
   id: string;
@@ -29,6 +32,8 @@ export const DynamicSection: React.FC<DynamicSectionProps> = ({ section, classNa
   const [editTitle, setEditTitle] = useState(section.title);
   const [editContent, setEditContent] = useState(section.content);
   const { toast } = useToast();
+  // Hero media may be a video link; anything that isn't a supported provider is treated as an image
+  const heroVideo = parseVideoUrl(section.image_url);
 
   const handleSave = async () => {
     try {
@@ -105,19 +110,15 @@ export const DynamicSection: React.FC<DynamicSectionProps> = ({ section, classNa
                     ))}
                   </div>
                 )}
-                {section.image_url && (
+                {heroVideo ? (
                   <div className="relative">
-                    {section.image_url.includes('youtube.com') || section.image_url.includes('youtu.be') || section.image_url.includes('vimeo.com') ? (
-                      <div className="aspect-video max-w-4xl mx-auto">
-                        <iframe 
-                          src={section.image_url.includes('youtube.com') ? section.image_url.replace('watch?v=', 'embed/') : section.image_url}
-                          className="w-full h-full rounded-lg shadow-2xl"
-                          allowFullScreen
-                        />
-                      </div>
-                    ) : (
-                      <img src={section.image_url} alt={section.title} className="mx-auto max-w-full h-auto image-hero" />
-                    )}
+                    <div className="aspect-video max-w-4xl mx-auto">
+                      <VideoPlayer video={heroVideo} title={section.title} className="rounded-lg shadow-2xl" />
+                    </div>
+                  </div>
+                ) : safeImageUrl(section.image_url) && (
+                  <div className="relative">
+                    <img src={safeImageUrl(section.image_url)} alt={section.title} className="mx-auto max-w-full h-auto image-hero" />
                   </div>
                 )}
               </div>
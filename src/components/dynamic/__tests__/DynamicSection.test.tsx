@@ -55,4 +55,17 @@ describe('DynamicSection', () => {
     // CTA button
     expect(screen.getByRole('button', { name: 'Get Started' })).toBeInTheDocument();
   });
+
+  it('embeds hero video links through the provider parser and falls back to an image', () => {
+    const hero = { ...baseSection, id: 's4', section_type: 'hero' as const };
+    const { unmount } = renderWithProviders(
+      <DynamicSection section={{ ...hero, image_url: 'https://www.youtube.com/shorts/dQw4w9WgXcQ' }} />
+    );
+    expect(screen.getByTitle('Section Title')).toHaveAttribute('src', 'https://www.youtube.com/embed/dQw4w9WgXcQ');
+    unmount();
+
+    renderWithProviders(<DynamicSection section={{ ...hero, image_url: 'https://cdn.example/hero.jpg' }} />);
+    expect(screen.getByRole('img', { name: 'Section Title' })).toHaveAttribute('src', 'https://cdn.example/hero.jpg');
+    expect(document.querySelector('iframe')).toBeNull();
+  });
 });
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi, beforeAll } from 'vitest';
 import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import * as XLSX from 'xlsx';
 import DragDropBlogEditor, { BlogStructure, ContentBlock } from '../drag-drop-blog-editor';
 
 // Polyfill for JSDOM pointer events
@@ -500,4 +501,378 @@ describe('DragDropBlogEditor Component', () => {
       });
     });
   });
+
+  it('detects the video provider and rejects unknown hosts', async () => {
+    const blogWithVideo: BlogStructure = {
+      ...mockBlogStructure,
+      blocks: [
+        { id: 'video-1', type: 'video-embed', content: { videoUrl: 'https://youtu.be/dQw4w9WgXcQ?t=90' } }
+      ]
+    };
+
+    const { rerender } = render(
+      <TestWrapper>
+        <DragDropBlogEditor value={blogWithVideo} onChange={mockOnChange} />
+      </TestWrapper>
+    );
+
+    expect(screen.getByTestId('video-provider')).toHaveTextContent('YouTube · starts at 1:30');
+
+    fireEvent.change(screen.getByTestId('video-url'), { target: { value: 'https://evil.example/embed/1' } });
+
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenCalledWith({
+        ...blogWithVideo,
+        blocks: [expect.objectContaining({ content: { videoUrl: 'https://evil.example/embed/1' } })]
+      });
+    });
+
+    rerender(
+      <TestWrapper>
+        <DragDropBlogEditor value={mockOnChange.mock.lastCall[0]} onChange={mockOnChange} />
+      </TestWrapper>
+    );
+    expect(screen.getByRole('alert')).toHaveTextContent('Unsupported video link');
+    expect(screen.queryByTestId('video-provider')).not.toBeInTheDocument();
+  });
+
+  it('reads pasted and imported spreadsheet data into table blocks', async () => {
+    const tableData = { headers: ['A'], rows: [['1']] };
+    const blogWithTable: BlogStructure = {
+      ...mockBlogStructure,
+      blocks: [{ id: 'table-1', type: 'table', content: { tableData } }]
+    };
+
+    render(
+      <TestWrapper>
+        <DragDropBlogEditor value={blogWithTable} onChange={mockOnChange} />
+      </TestWrapper>
+    );
+
+    const data = screen.getByTestId('table-data');
+    expect(data).toHaveValue('A\n1');
+
+    fireEvent.change(data, { target: { value: '\t2024\t\nRegion\tQ1\tQ2\nNorth\t10\nSouth\t20\t30' } });
+    fireEvent.click(screen.getByRole('switch', { name: /merged header row/ }));
+
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenLastCalledWith({
+        ...blogWithTable,
+        blocks: [expect.objectContaining({
+          content: {
+            tableData: {
+              headerGroups: [{ label: '', span: 1 }, { label: '2024', span: 2 }],
+              headers: ['Region', 'Q1', 'Q2'],
+              rows: [['North', '10', ''], ['South', '20', '30']]
+            }
+          }
+        })]
+      });
+    });
+
+    const input = screen.getByTestId('table-import');
+    fireEvent.click(screen.getByRole('switch', { name: /merged header row/ }));
+
+    // jsdom's File has no arrayBuffer(); browsers do
+    const sheet = XLSX.utils.aoa_to_sheet([['Region', 'Sales'], ['North', 120], ['South', 80.5]]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Sales');
+    const bytes: ArrayBuffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+    fireEvent.change(input, { target: { files: [Object.assign(new File([bytes], 'sales.xlsx'), { arrayBuffer: async () => bytes })] } });
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenLastCalledWith({
+        ...blogWithTable,
+        blocks: [expect.objectContaining({
+          content: { tableData: { headers: ['Region', 'Sales'], rows: [['North', '120'], ['South', '80.5']], headerGroups: undefined } }
+        })]
+      });
+    });
+
+    const broken = new File(['x'], 'broken.xlsx');
+    fireEvent.change(input, { target: { files: [Object.assign(broken, { arrayBuffer: async () => { throw new Error('unreadable'); } })] } });
+    expect(await screen.findByRole('alert')).toHaveTextContent('Could not read broken.xlsx: unreadable');
+
+    // jsdom's File has no text(); browsers do
+    const csv = 'Name,Score\nAda,"1,200"';
+    fireEvent.change(input, { target: { files: [Object.assign(new File([csv], 'scores.csv'), { text: async () => csv })] } });
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenLastCalledWith({
+        ...blogWithTable,
+        blocks: [expect.objectContaining({
+          content: { tableData: { headers: ['Name', 'Score'], rows: [['Ada', '1,200']], headerGroups: undefined } }
+        })]
+      });
+    });
+  });
+
+  it('reads pasted spreadsheet data into chart series', async () => {
+    const chartData = { type: 'bar' as const, labels: ['Jan'], data: [1], title: 'Traffic' };
+    const blogWithChart: BlogStructure = {
+      ...mockBlogStructure,
+      blocks: [{ id: 'chart-1', type: 'chart', content: { chartData } }]
+    };
+
+    render(
+      <TestWrapper>
+        <DragDropBlogEditor value={blogWithChart} onChange={mockOnChange} />
+      </TestWrapper>
+    );
+
+    const data = screen.getByTestId('chart-data');
+    expect(data).toHaveValue('Label,Value\nJan,1');
+
+    fireEvent.change(data, { target: { value: 'Month\tOrganic\tPaid\nJan\t1,200\t300\nFeb\t1,500\tn/a' } });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Row 3: "n/a" is not a number, using 0.');
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenCalledWith({
+        ...blogWithChart,
+        blocks: [expect.objectContaining({
+          content: {
+            chartData: {
+              ...chartData,
+              labels: ['Jan', 'Feb'],
+              data: [1200, 1500],
+              series: [{ name: 'Organic', data: [1200, 1500] }, { name: 'Paid', data: [300, 0] }]
+            }
+          }
+        })]
+      });
+    });
+  });
+
+  it('adds, uploads and reorders gallery images', async () => {
+    const user = userEvent.setup();
+    const blogWithGallery: BlogStructure = {
+      ...mockBlogStructure,
+      blocks: [{ id: 'gallery-1', type: 'gallery', content: { images: [{ url: 'https://example.com/a.png', caption: 'First' }] } }]
+    };
+
+    render(
+      <TestWrapper>
+        <DragDropBlogEditor value={blogWithGallery} onChange={mockOnChange} />
+      </TestWrapper>
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Add image' }));
+    await user.click(screen.getAllByTestId('file-upload-button')[1]);
+    await user.type(screen.getByRole('textbox', { name: 'Image 2 alt text' }), 'Upload');
+    await user.click(screen.getByRole('button', { name: 'Move Image 2 up' }));
+
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenLastCalledWith({
+        ...blogWithGallery,
+        blocks: [expect.objectContaining({
+          content: {
+            images: [{ url: 'https://test-image.jpg', alt: 'Upload' }, { url: 'https://example.com/a.png', caption: 'First' }]
+          }
+        })]
+      });
+    });
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Image 1 URL' }), { target: { value: 'javascript:alert(1)' } });
+    expect(screen.getByRole('alert')).toHaveTextContent("This address can't be shown.");
+  });
+
+  it('edits the before and after images of a comparison block', async () => {
+    const blogWithComparison: BlogStructure = {
+      ...mockBlogStructure,
+      blocks: [{ id: 'comparison-1', type: 'comparison', content: { images: [] } }]
+    };
+
+    render(
+      <TestWrapper>
+        <DragDropBlogEditor value={blogWithComparison} onChange={mockOnChange} />
+      </TestWrapper>
+    );
+
+    expect(screen.queryByRole('button', { name: 'Add image' })).not.toBeInTheDocument();
+    fireEvent.change(screen.getByRole('textbox', { name: 'Before URL' }), { target: { value: '/old.png' } });
+    fireEvent.change(screen.getByRole('textbox', { name: 'After URL' }), { target: { value: '/new.png' } });
+    fireEvent.change(screen.getByRole('textbox', { name: 'After label' }), { target: { value: 'Redesign' } });
+
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenLastCalledWith({
+        ...blogWithComparison,
+        blocks: [expect.objectContaining({
+          content: { images: [{ url: '/old.png' }, { url: '/new.png', caption: 'Redesign' }] }
+        })]
+      });
+    });
+  });
+
+  it('creates a heading block and edits its text', async () => {
+    const user = userEvent.setup();
+
+    const { rerender } = render(
+      <TestWrapper>
+        <DragDropBlogEditor value={mockBlogStructure} onChange={mockOnChange} />
+      </TestWrapper>
+    );
+
+    await user.click(screen.getByText('Add Content Block'));
+    await user.click(screen.getByText('Heading'));
+
+    const added = mockOnChange.mock.calls[0][0] as BlogStructure;
+    expect(added.blocks[0]).toMatchObject({ type: 'heading', content: { text: 'Section heading', level: 2 } });
+
+    rerender(
+      <TestWrapper>
+        <DragDropBlogEditor value={added} onChange={mockOnChange} />
+      </TestWrapper>
+    );
+    expect(screen.getByRole('heading', { level: 2, name: 'Section heading' })).toBeInTheDocument();
+
+    await user.clear(screen.getByTestId('heading-text'));
+    await user.type(screen.getByTestId('heading-text'), 'Results');
+
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenLastCalledWith({
+        ...added,
+        blocks: [expect.objectContaining({ content: expect.objectContaining({ text: 'Results', level: 2 }) })]
+      });
+    });
+  });
+
+  it('applies inline marks from the formatting toolbar', async () => {
+    const blogWithText: BlogStructure = {
+      ...mockBlogStructure,
+      blocks: [
+        { id: 'rich-1', type: 'full-width-text', content: { text: 'Hello world' } }
+      ]
+    };
+
+    render(
+      <TestWrapper>
+        <DragDropBlogEditor value={blogWithText} onChange={mockOnChange} />
+      </TestWrapper>
+    );
+
+    const textarea = screen.getByTestId('text-block-content') as HTMLTextAreaElement;
+    textarea.setSelectionRange(6, 11);
+    fireEvent.click(screen.getByRole('button', { name: /^bold/i }));
+
+    expect(textarea.value).toBe('Hello **world**');
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenLastCalledWith({
+        ...blogWithText,
+        blocks: [expect.objectContaining({
+          content: expect.objectContaining({
+            text: 'Hello world',
+            richText: [{ text: 'Hello ' }, { text: 'world', marks: ['bold'] }]
+          })
+        })]
+      });
+    });
+  });
+
+  it('edits nested list items as indented lines', async () => {
+    const blogWithList: BlogStructure = {
+      ...mockBlogStructure,
+      blocks: [
+        { id: 'list-1', type: 'list', content: { listData: { style: 'ordered', items: [{ text: 'One' }] } } }
+      ]
+    };
+
+    render(
+      <TestWrapper>
+        <DragDropBlogEditor value={blogWithList} onChange={mockOnChange} />
+      </TestWrapper>
+    );
+
+    const items = screen.getByTestId('list-items');
+    expect(items).toHaveValue('One');
+    fireEvent.change(items, { target: { value: 'One\n  One point five\nTwo' } });
+
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenCalledWith({
+        ...blogWithList,
+        blocks: [expect.objectContaining({
+          content: {
+            listData: {
+              style: 'ordered',
+              items: [{ text: 'One', children: [{ text: 'One point five' }] }, { text: 'Two' }]
+            }
+          }
+        })]
+      });
+    });
+  });
+
+  it('soft-locks blocks selected by another session until overridden', async () => {
+    const user = userEvent.setup();
+    const blogWithBlock: BlogStructure = {
+      ...mockBlogStructure,
+      blocks: [
+        { id: 'locked-1', type: 'full-width-text', content: { text: 'Shared text' } }
+      ]
+    };
+
+    render(
+      <TestWrapper>
+        <DragDropBlogEditor
+          value={blogWithBlock}
+          onChange={mockOnChange}
+          blockEditors={{ 'locked-1': [{ key: 'tab-1', name: 'ann@example.com', color: '#2563eb' }] }}
+        />
+      </TestWrapper>
+    );
+
+    expect(screen.getByText(/ann@example.com is editing this block/)).toBeInTheDocument();
+    expect(screen.getByTestId('text-block-content')).toBeDisabled();
+    expect(screen.getByRole('button', { name: /delete/i })).toBeDisabled();
+
+    await user.click(screen.getByText('Edit anyway'));
+
+    expect(screen.getByTestId('text-block-content')).not.toBeDisabled();
+    expect(screen.queryByTestId('locked-block')).not.toBeInTheDocument();
+  });
+
+  it('drops overrides when the lock is released or another post is loaded', async () => {
+    const user = userEvent.setup();
+    const blogWithBlock: BlogStructure = {
+      ...mockBlogStructure,
+      blocks: [
+        { id: 'locked-1', type: 'full-width-text', content: { text: 'Shared text' } }
+      ]
+    };
+    const lock = { 'locked-1': [{ key: 'tab-1', name: 'ann@example.com', color: '#2563eb' }] };
+    const renderEditor = (blogId: string, blockEditors: typeof lock | Record<string, never>) => (
+      <TestWrapper>
+        <DragDropBlogEditor value={blogWithBlock} onChange={mockOnChange} blogId={blogId} blockEditors={blockEditors} />
+      </TestWrapper>
+    );
+
+    const { rerender } = render(renderEditor('post-1', lock));
+    await user.click(screen.getByText('Edit anyway'));
+    expect(screen.queryByTestId('locked-block')).not.toBeInTheDocument();
+
+    rerender(renderEditor('post-1', {}));
+    rerender(renderEditor('post-1', lock));
+    expect(screen.getByTestId('locked-block')).toBeInTheDocument();
+
+    await user.click(screen.getByText('Edit anyway'));
+    rerender(renderEditor('post-2', lock));
+    expect(screen.getByTestId('locked-block')).toBeInTheDocument();
+  });
+
+  it('reports the block being edited', async () => {
+    const user = userEvent.setup();
+    const onActiveBlockChange = vi.fn();
+    const blogWithBlock: BlogStructure = {
+      ...mockBlogStructure,
+      blocks: [
+        { id: 'focus-1', type: 'full-width-text', content: { text: 'Focus me' } }
+      ]
+    };
+
+    render(
+      <TestWrapper>
+        <DragDropBlogEditor value={blogWithBlock} onChange={mockOnChange} onActiveBlockChange={onActiveBlockChange} />
+      </TestWrapper>
+    );
+
+    await user.click(screen.getByTestId('text-block-content'));
+    expect(onActiveBlockChange).toHaveBeenCalledWith('focus-1');
+  });
 });
\ No newline at end of file
@@ -2,6 +2,8 @@ import React, { useMemo, useRef, useState, useCallback, useEffect } from 'react'
 import ReactQuill from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
 import { cn } from '@/lib/utils';
+import { escapeHtml } from '@/utils/codeHighlight';
+import { sanitizeHtml } from '@/utils/htmlSanitizer';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -186,7 +188,7 @@ const AdvancedRichTextEditor: React.FC<AdvancedRichTextEditorProps> = ({
               ${data.labels.map((label, i) => `
                 <div style="display: flex; align-items: center; gap: 8px;">
                   <div style="width: 16px; height: 16px; background: hsl(${(i * 360 / data.data.length)}, 70%, 60%); border-radius: 2px;"></div>
-                  <span style="font-size: 14px;">${label}: ${data.data[i]}</span>
+                  <span style="font-size: 14px;">${escapeHtml(label)}: ${data.data[i]}</span>
                 </div>
               `).join('')}
             </div>
@@ -201,7 +203,7 @@ const AdvancedRichTextEditor: React.FC<AdvancedRichTextEditorProps> = ({
         
         return `
           <rect x="${x}" y="${170 - height}" width="40" height="${height}" fill="${color}" rx="2"/>
-          <text x="${x + 20}" y="185" text-anchor="middle" style="font-size: 12px; fill: #666;">${data.labels[index]}</text>
+          <text x="${x + 20}" y="185" text-anchor="middle" style="font-size: 12px; fill: #666;">${escapeHtml(data.labels[index])}</text>
           <text x="${x + 20}" y="${165 - height}" text-anchor="middle" style="font-size: 11px; fill: #333;">${value}</text>
         `;
       }).join('');
@@ -236,7 +238,7 @@ const AdvancedRichTextEditor: React.FC<AdvancedRichTextEditorProps> = ({
             ${dots}
             ${data.labels.map((label, i) => {
               const x = (i / (data.data.length - 1)) * 250 + 25;
-              return `<text x="${x}" y="170" text-anchor="middle" style="font-size: 12px; fill: #666;">${label}</text>`;
+              return `<text x="${x}" y="170" text-anchor="middle" style="font-size: 12px; fill: #666;">${escapeHtml(label)}</text>`;
             }).join('')}
           </svg>
         </div>
@@ -627,7 +629,7 @@ const AdvancedRichTextEditor: React.FC<AdvancedRichTextEditorProps> = ({
               <div className="max-w-none prose prose-sm dark:prose-invert">
                 <div 
                   style={{ minHeight: height }}
-                  dangerouslySetInnerHTML={{ __html: value || '<p className="text-muted-foreground italic">Start writing to see preview...</p>' }}
+                  dangerouslySetInnerHTML={{ __html: sanitizeHtml(value) || '<p className="text-muted-foreground italic">Start writing to see preview...</p>' }}
                 />
               </div>
             </div>
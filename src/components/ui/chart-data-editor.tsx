@@ -0,0 +1,154 @@
+import React, { useId, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { CHART_TYPES, ChartData, ChartType, NUMBER_FORMATS, NumberFormat } from '@/utils/blogSchema';
+import {
+  CHART_TYPE_LABELS,
+  chartSeries,
+  chartToCsv,
+  isCircularChart,
+  parseChartCsv,
+  withChartSeries
+} from '@/utils/blogCharts';
+import { NUMBER_FORMAT_LABELS } from '@/utils/numberFormat';
+
+interface ChartDataEditorProps {
+  chart: ChartData;
+  onChange: (chart: ChartData) => void;
+}
+
+/**
+ * Settings and data of a chart block. Data is edited as CSV so a range can be
+ * pasted straight from a spreadsheet; see parseChartCsv for the layout.
+ */
+export const ChartDataEditor: React.FC<ChartDataEditorProps> = ({ chart, onChange }) => {
+  const [csvErrors, setCsvErrors] = useState<string[]>([]);
+  const stackedId = useId();
+  const update = (changes: Partial<ChartData>) => onChange({ ...chart, ...changes });
+
+  const handleDataChange = (text: string) => {
+    const parsed = parseChartCsv(text);
+    setCsvErrors(parsed.errors);
+    if (parsed.labels.length > 0) onChange(withChartSeries(chart, parsed.labels, parsed.series));
+  };
+
+  const circular = isCircularChart(chart.type);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <Label className="text-xs font-medium">Chart title</Label>
+          <Input
+            defaultValue={chart.title}
+            onChange={(e) => update({ title: e.target.value })}
+            className="mt-1"
+            data-testid="chart-title"
+          />
+        </div>
+        <div className="w-32">
+          <Label className="text-xs font-medium">Type</Label>
+          <Select value={chart.type} onValueChange={(type) => update({ type: type as ChartType })}>
+            <SelectTrigger className="mt-1" data-testid="chart-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHART_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{CHART_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <Label className="text-xs font-medium">Data</Label>
+        <Textarea
+          defaultValue={chartToCsv(chart)}
+          onChange={(e) => handleDataChange(e.target.value)}
+          spellCheck={false}
+          className="mt-1 min-h-[100px] font-mono text-sm"
+          data-testid="chart-data"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Paste from a spreadsheet or type CSV: labels in the first column, one column per series, with an optional header row.
+          {circular && chartSeries(chart).length > 1 && ' Pie and donut charts only show the first series.'}
+        </p>
+        {csvErrors.length > 0 && (
+          <ul role="alert" className="text-xs text-destructive mt-1 space-y-0.5">
+            {csvErrors.map((error, index) => <li key={index}>{error}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {!circular && (
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <Label className="text-xs font-medium">X axis label</Label>
+            <Input
+              defaultValue={chart.xAxisLabel || ''}
+              onChange={(e) => update({ xAxisLabel: e.target.value || undefined })}
+              placeholder="Optional"
+              className="mt-1"
+            />
+          </div>
+          <div className="flex-1">
+            <Label className="text-xs font-medium">Y axis label</Label>
+            <Input
+              defaultValue={chart.yAxisLabel || ''}
+              onChange={(e) => update({ yAxisLabel: e.target.value || undefined })}
+              placeholder="Optional"
+              className="mt-1"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="w-40">
+          <Label className="text-xs font-medium">Numbers</Label>
+          <Select
+            value={chart.numberFormat ?? 'number'}
+            onValueChange={(format) => update({ numberFormat: format as NumberFormat })}
+          >
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NUMBER_FORMATS.map(format => (
+                <SelectItem key={format} value={format}>{NUMBER_FORMAT_LABELS[format]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {chart.numberFormat === 'currency' && (
+          <div className="w-24">
+            <Label className="text-xs font-medium">Currency</Label>
+            <Input
+              defaultValue={chart.currency || 'USD'}
+              onChange={(e) => {
+                const currency = e.target.value.trim().toUpperCase();
+                if (/^[A-Z]{3}$/.test(currency)) update({ currency });
+              }}
+              maxLength={3}
+              className="mt-1 uppercase"
+            />
+          </div>
+        )}
+        {(chart.type === 'bar' || chart.type === 'area') && (
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id={stackedId}
+              checked={!!chart.stacked}
+              onCheckedChange={(stacked) => update({ stacked })}
+            />
+            <Label htmlFor={stackedId} className="text-xs">Stack series</Label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
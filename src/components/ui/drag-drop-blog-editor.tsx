@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -31,46 +31,49 @@ import {
   FileText,
   Monitor,
   Upload,
-  Link
+  Link,
+  Lock,
+  Heading,
+  List,
+  Quote,
+  Code,
+  Minus,
+  Info,
+  Images,
+  GalleryHorizontal,
+  SquareSplitHorizontal
 } from 'lucide-react';
 import { FileUploadButton } from '@/components/ui/file-upload';
+import { InlineMarkupTextarea } from '@/components/ui/inline-markup-textarea';
+import { ChartDataEditor } from '@/components/ui/chart-data-editor';
+import { TableDataEditor } from '@/components/ui/table-data-editor';
+import { ImageListEditor } from '@/components/ui/image-list-editor';
+import RichText from '@/components/blog/RichText';
+import TextBlock from '@/components/blog/TextBlock';
+import { CALLOUT_VARIANTS, GALLERY_COLUMNS, ContentBlock, BlogStructure, GalleryColumns, HeadingLevel, ListStyle, CalloutVariant } from '@/utils/blogSchema';
+import { listToText, parseListText } from '@/utils/blogLists';
+import { CODE_LANGUAGES } from '@/utils/codeHighlight';
+import { RICH_TEXT_BLOCK_TYPES, markupFromContent, textFieldsFromMarkup } from '@/utils/richText';
+import { VIDEO_PROVIDER_LABELS, formatTimestamp, parseTimestamp, videoEmbedForContent } from '@/utils/videoEmbed';
+import VideoPlayer from '@/components/blog/VideoPlayer';
+import BlogChart from '@/components/blog/BlogChart';
+import BlogTable from '@/components/blog/BlogTable';
+import ImageGallery from '@/components/blog/ImageGallery';
+import ImageCarousel from '@/components/blog/ImageCarousel';
+import ImageComparison from '@/components/blog/ImageComparison';
+import { COMPARISON_LABELS, comparisonPair, displayableImages } from '@/utils/blogImages';
 
-// Block type definitions
-export interface ContentBlock {
-  id: string;
-  type: 'left-image-right-text' | 'right-image-left-text' | 'full-width-image' | 'full-width-text' | 'image-caption' | 'video-embed' | 'table' | 'chart';
-  content: {
-    title?: string;
-    text?: string;
-    imageUrl?: string;
-    videoUrl?: string;
-    caption?: string;
-    width?: number;
-    alignment?: 'left' | 'center' | 'right';
-    hasBorder?: boolean;
-    hasShadow?: boolean;
-    fontSize?: 'sm' | 'base' | 'lg' | 'xl';
-    fontWeight?: 'normal' | 'medium' | 'semibold' | 'bold';
-    textColor?: string;
-    tableData?: {
-      headers: string[];
-      rows: string[][];
-    };
-    chartData?: {
-      type: 'pie' | 'bar' | 'line';
-      labels: string[];
-      data: number[];
-      title: string;
-    };
-  };
-}
+// Block types live in the shared schema module
+export type { ContentBlock, BlogStructure } from '@/utils/blogSchema';
+
+// Blocks drawn by TextBlock; they have no width or image settings
+const TEXT_BLOCK_TYPES: ContentBlock['type'][] = ['heading', 'list', 'quote', 'code', 'divider', 'callout'];
 
-export interface BlogStructure {
-  title: string;
-  featuredImage: string;
-  author: string;
-  date: string;
-  blocks: ContentBlock[];
+/** Another session that has a block selected. */
+export interface BlockEditorPresence {
+  key: string;
+  name: string;
+  color: string;
 }
 
 interface DragDropBlogEditorProps {
@@ -78,17 +81,48 @@ interface DragDropBlogEditorProps {
   onChange: (value: BlogStructure) => void;
   className?: string;
   showMetaControls?: boolean;
+  /** Post being edited; "Edit anyway" overrides do not carry over to another post */
+  blogId?: string | null;
+  /** Other sessions per block id; those blocks are soft-locked until overridden */
+  blockEditors?: Record<string, BlockEditorPresence[]>;
+  onActiveBlockChange?: (blockId: string | null) => void;
 }
 
 const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
   value,
   onChange,
   className,
-  showMetaControls = true
+  showMetaControls = true,
+  blogId = null,
+  blockEditors = {},
+  onActiveBlockChange
 }) => {
   const [isPreviewMode, setIsPreviewMode] = useState(false);
   const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
   const [showBlockSelector, setShowBlockSelector] = useState(false);
+  // Locked blocks the user chose to edit anyway
+  const [unlockedBlockIds, setUnlockedBlockIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setUnlockedBlockIds([]);
+  }, [blogId]);
+
+  // An override ends with the lock it overrode, so a later lock on the block applies again
+  const lockedBlockKey = Object.keys(blockEditors).filter(id => blockEditors[id].length > 0).sort().join(',');
+  useEffect(() => {
+    const locked = lockedBlockKey.split(',');
+    setUnlockedBlockIds(prev => {
+      const next = prev.filter(id => locked.includes(id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [lockedBlockKey]);
+  const activeBlockIdRef = useRef<string | null>(null);
+
+  const setActiveBlock = (blockId: string | null) => {
+    if (activeBlockIdRef.current === blockId) return;
+    activeBlockIdRef.current = blockId;
+    onActiveBlockChange?.(blockId);
+  };
 
   // Block templates
   const blockTypes = [
@@ -122,6 +156,24 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
       icon: ImageIcon,
       description: 'Image with caption below'
     },
+    {
+      type: 'gallery' as const,
+      name: 'Gallery',
+      icon: Images,
+      description: 'Grid of images that open in a lightbox'
+    },
+    {
+      type: 'carousel' as const,
+      name: 'Carousel',
+      icon: GalleryHorizontal,
+      description: 'Images shown one at a time'
+    },
+    {
+      type: 'comparison' as const,
+      name: 'Before / After',
+      icon: SquareSplitHorizontal,
+      description: 'Slider between two images'
+    },
     {
       type: 'video-embed' as const,
       name: 'Video Embed',
@@ -139,6 +191,42 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
       name: 'Chart',
       icon: BarChart3,
       description: 'Data visualization'
+    },
+    {
+      type: 'heading' as const,
+      name: 'Heading',
+      icon: Heading,
+      description: 'Section heading, listed in the table of contents'
+    },
+    {
+      type: 'list' as const,
+      name: 'List',
+      icon: List,
+      description: 'Bulleted or numbered list, nested by indenting'
+    },
+    {
+      type: 'quote' as const,
+      name: 'Quote',
+      icon: Quote,
+      description: 'Pull quote with attribution'
+    },
+    {
+      type: 'code' as const,
+      name: 'Code',
+      icon: Code,
+      description: 'Code snippet with syntax highlighting'
+    },
+    {
+      type: 'divider' as const,
+      name: 'Divider',
+      icon: Minus,
+      description: 'Horizontal rule between sections'
+    },
+    {
+      type: 'callout' as const,
+      name: 'Callout',
+      icon: Info,
+      description: 'Highlighted note, tip or warning'
     }
   ];
 
@@ -183,6 +271,16 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
         imageUrl: 'https://via.placeholder.com/600x400',
         caption: 'Image caption'
       },
+      'gallery': {
+        images: [],
+        galleryColumns: 3 as const
+      },
+      'carousel': {
+        images: []
+      },
+      'comparison': {
+        images: []
+      },
       'video-embed': {
         ...baseContent,
         videoUrl: 'https://www.youtube.com/embed/dQw4w9WgXcQ'
@@ -205,6 +303,32 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
           data: [30, 45, 60],
           title: 'Sample Chart'
         }
+      },
+      'heading': {
+        text: 'Section heading',
+        level: 2 as const,
+        alignment: 'left' as const
+      },
+      'list': {
+        listData: {
+          style: 'unordered' as const,
+          items: [{ text: 'First item' }, { text: 'Second item' }]
+        },
+        alignment: 'left' as const
+      },
+      'quote': {
+        text: 'Add a memorable quote here...',
+        attribution: ''
+      },
+      'code': {
+        text: '',
+        language: 'plaintext'
+      },
+      'divider': {},
+      'callout': {
+        title: '',
+        text: 'Add a note for your readers...',
+        calloutVariant: 'info' as const
       }
     };
 
@@ -274,9 +398,19 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
   // Render block editor
   const renderBlockEditor = (block: ContentBlock) => {
     const isSelected = selectedBlockId === block.id;
+    const editors = blockEditors[block.id] || [];
+    const isLocked = editors.length > 0 && !unlockedBlockIds.includes(block.id);
     
     return (
-      <Card className={cn("mb-4 transition-all duration-200", isSelected && "ring-2 ring-primary shadow-lg")}>
+      <Card
+        className={cn("mb-4 transition-all duration-200", isSelected && "ring-2 ring-primary shadow-lg")}
+        style={editors.length > 0 ? { boxShadow: `0 0 0 2px ${editors[0].color}` } : undefined}
+        onFocusCapture={() => setActiveBlock(block.id)}
+        onBlurCapture={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setActiveBlock(null);
+        }}
+        data-testid={isLocked ? 'locked-block' : undefined}
+      >
         <CardHeader className="pb-2">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
@@ -284,6 +418,17 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
               <Badge variant="secondary" className="text-xs">
                 {blockTypes.find(t => t.type === block.type)?.name}
               </Badge>
+              {editors.map(editor => (
+                <Badge
+                  key={editor.key}
+                  variant="outline"
+                  className="text-xs"
+                  style={{ borderColor: editor.color, color: editor.color }}
+                >
+                  {isLocked && <Lock className="w-3 h-3 mr-1" />}
+                  {editor.name}
+                </Badge>
+              ))}
             </div>
             <div className="flex items-center gap-1">
               <Button
@@ -300,6 +445,7 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
                 size="sm"
                 aria-label="Delete"
                 onClick={() => deleteBlock(block.id)}
+                disabled={isLocked}
                 className="hover:bg-destructive/10 hover:text-destructive"
               >
                 <Trash2 className="w-4 h-4" />
@@ -310,8 +456,23 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
         </CardHeader>
         
         <CardContent>
-          {/* Always show editing interface */}
-          <div className="space-y-4">
+          {isLocked && (
+            <div className="flex items-center justify-between gap-2 mb-4 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm">
+              <span className="flex items-center gap-2">
+                <Lock className="w-4 h-4" />
+                {editors.map(editor => editor.name).join(', ')} {editors.length === 1 ? 'is' : 'are'} editing this block
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setUnlockedBlockIds(prev => [...prev, block.id])}
+              >
+                Edit anyway
+              </Button>
+            </div>
+          )}
+          {/* Always show editing interface; locked blocks are read-only */}
+          <fieldset disabled={isLocked} className={cn("space-y-4", isLocked && "opacity-60")}>
             {/* Quick Edit Inline Controls */}
             <div className="bg-muted/50 p-3 rounded-lg">
               <h4 className="text-sm font-medium mb-3 text-muted-foreground">Quick Edit</h4>
@@ -331,12 +492,28 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
                 {renderBlockSettings(block)}
               </div>
             )}
-          </div>
+          </fieldset>
         </CardContent>
       </Card>
     );
   };
 
+  // Which provider a pasted video link resolved to, or why it can't be used
+  const renderVideoStatus = (block: ContentBlock) => {
+    if (!block.content.videoUrl) return null;
+    const video = videoEmbedForContent(block.content);
+    return video ? (
+      <p className="text-xs text-muted-foreground mt-2" data-testid="video-provider">
+        {VIDEO_PROVIDER_LABELS[video.provider]}
+        {video.startSeconds ? ` · starts at ${formatTimestamp(video.startSeconds)}` : ''}
+      </p>
+    ) : (
+      <p className="text-xs text-destructive mt-2" role="alert">
+        Unsupported video link. Use YouTube, Vimeo, Loom or upload a video.
+      </p>
+    );
+  };
+
   // Render inline controls for quick editing
   const renderInlineControls = (block: ContentBlock) => {
     return (
@@ -345,15 +522,25 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
         {(block.type.includes('text') || block.type.includes('image')) && block.type !== 'full-width-image' && (
           <div>
             <Label className="text-xs font-medium">Text Content</Label>
-            <Textarea
-              defaultValue={block.content.text || ''}
-              onChange={(e) => updateBlock(block.id, { text: e.target.value })}
-              placeholder="Enter your text content here..."
-              className="mt-1 min-h-[80px]"
-              data-testid={block.type === 'left-image-right-text' ? 'image-left-text' : 
-                          block.type === 'right-image-left-text' ? 'image-right-text' : 
-                          'text-block-content'}
-            />
+            {RICH_TEXT_BLOCK_TYPES.includes(block.type) ? (
+              <InlineMarkupTextarea
+                defaultValue={markupFromContent(block.content)}
+                onValueChange={(markup) => updateBlock(block.id, textFieldsFromMarkup(markup))}
+                placeholder="Enter your text content here..."
+                className="min-h-[80px]"
+                data-testid={block.type === 'left-image-right-text' ? 'image-left-text' : 
+                            block.type === 'right-image-left-text' ? 'image-right-text' : 
+                            'text-block-content'}
+              />
+            ) : (
+              <Textarea
+                defaultValue={block.content.text || ''}
+                onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+                placeholder="Enter your text content here..."
+                className="mt-1 min-h-[80px]"
+                data-testid="text-block-content"
+              />
+            )}
           </div>
         )}
 
@@ -400,8 +587,9 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
             <Input
               value={block.content.videoUrl || ''}
               onChange={(e) => updateBlock(block.id, { videoUrl: e.target.value })}
-              placeholder="Paste video embed URL..."
+              placeholder="Paste a YouTube, Vimeo or Loom link..."
               className="mt-1"
+              data-testid="video-url"
             />
             {/* Upload Button */}
             <div className="flex items-center gap-2 mt-2">
@@ -413,9 +601,28 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
                 size="sm"
               />
             </div>
-            <p className="text-xs text-muted-foreground mt-2">
-              For YouTube videos, use embed URL: https://www.youtube.com/embed/VIDEO_ID
-            </p>
+            {renderVideoStatus(block)}
+            <div className="flex flex-wrap items-center gap-4 mt-2">
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`video-start-${block.id}`} className="text-xs">Start at</Label>
+                <Input
+                  id={`video-start-${block.id}`}
+                  defaultValue={block.content.videoStart ? formatTimestamp(block.content.videoStart) : ''}
+                  onChange={(e) => updateBlock(block.id, { videoStart: parseTimestamp(e.target.value) })}
+                  placeholder="1:30"
+                  className="h-8 w-20"
+                  data-testid="video-start"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`video-privacy-${block.id}`}
+                  checked={!!block.content.privacyEnhanced}
+                  onCheckedChange={(checked) => updateBlock(block.id, { privacyEnhanced: checked })}
+                />
+                <Label htmlFor={`video-privacy-${block.id}`} className="text-xs">Privacy-enhanced mode</Label>
+              </div>
+            </div>
           </div>
         )}
 
@@ -432,6 +639,196 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
           </div>
         )}
 
+        {block.type === 'heading' && (
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Label className="text-xs font-medium">Heading</Label>
+              <Input
+                defaultValue={block.content.text || ''}
+                onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+                placeholder="Section heading"
+                className="mt-1"
+                data-testid="heading-text"
+              />
+            </div>
+            <div className="w-28">
+              <Label className="text-xs font-medium">Level</Label>
+              <Select
+                value={String(block.content.level ?? 2)}
+                onValueChange={(level) => updateBlock(block.id, { level: Number(level) as HeadingLevel })}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4].map(level => (
+                    <SelectItem key={level} value={String(level)}>H{level}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {block.type === 'list' && (
+          <div className="space-y-2">
+            <Select
+              value={block.content.listData?.style ?? 'unordered'}
+              onValueChange={(style) => updateBlock(block.id, {
+                listData: { style: style as ListStyle, items: block.content.listData?.items ?? [] }
+              })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unordered">Bulleted</SelectItem>
+                <SelectItem value="ordered">Numbered</SelectItem>
+              </SelectContent>
+            </Select>
+            <div>
+              <Label className="text-xs font-medium">Items</Label>
+              <Textarea
+                defaultValue={listToText(block.content.listData?.items ?? [])}
+                onChange={(e) => updateBlock(block.id, {
+                  listData: { style: block.content.listData?.style ?? 'unordered', items: parseListText(e.target.value) }
+                })}
+                placeholder="One item per line"
+                className="mt-1 min-h-[80px] font-mono text-sm"
+                data-testid="list-items"
+              />
+              <p className="text-xs text-muted-foreground mt-1">One item per line. Indent with two spaces to nest.</p>
+            </div>
+          </div>
+        )}
+
+        {block.type === 'quote' && (
+          <div className="space-y-2">
+            <div>
+              <Label className="text-xs font-medium">Quote</Label>
+              <Textarea
+                defaultValue={block.content.text || ''}
+                onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+                className="mt-1 min-h-[80px]"
+                data-testid="quote-text"
+              />
+            </div>
+            <div>
+              <Label className="text-xs font-medium">Attribution</Label>
+              <Input
+                defaultValue={block.content.attribution || ''}
+                onChange={(e) => updateBlock(block.id, { attribution: e.target.value })}
+                placeholder="Who said it"
+                className="mt-1"
+              />
+            </div>
+          </div>
+        )}
+
+        {block.type === 'code' && (
+          <div className="space-y-2">
+            <Select
+              value={block.content.language || 'plaintext'}
+              onValueChange={(language) => updateBlock(block.id, { language })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CODE_LANGUAGES.map(language => (
+                  <SelectItem key={language.value} value={language.value}>{language.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              defaultValue={block.content.text || ''}
+              onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+              placeholder="Paste your code here..."
+              spellCheck={false}
+              className="min-h-[120px] font-mono text-sm"
+              data-testid="code-text"
+            />
+          </div>
+        )}
+
+        {block.type === 'callout' && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Select
+                value={block.content.calloutVariant ?? 'info'}
+                onValueChange={(variant) => updateBlock(block.id, { calloutVariant: variant as CalloutVariant })}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CALLOUT_VARIANTS.map(variant => (
+                    <SelectItem key={variant} value={variant} className="capitalize">{variant}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                defaultValue={block.content.title || ''}
+                onChange={(e) => updateBlock(block.id, { title: e.target.value })}
+                placeholder="Title (optional)"
+                className="flex-1"
+              />
+            </div>
+            <Textarea
+              defaultValue={block.content.text || ''}
+              onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+              className="min-h-[80px]"
+              data-testid="callout-text"
+            />
+          </div>
+        )}
+
+        {block.type === 'table' && block.content.tableData && (
+          <TableDataEditor
+            table={block.content.tableData}
+            onChange={(tableData) => updateBlock(block.id, { tableData })}
+          />
+        )}
+
+        {block.type === 'chart' && block.content.chartData && (
+          <ChartDataEditor
+            chart={block.content.chartData}
+            onChange={(chartData) => updateBlock(block.id, { chartData })}
+          />
+        )}
+
+        {(block.type === 'gallery' || block.type === 'carousel' || block.type === 'comparison') && (
+          <div>
+            <Label className="text-xs font-medium">{block.type === 'comparison' ? 'Images to compare' : 'Images'}</Label>
+            <div className="mt-1">
+              <ImageListEditor
+                images={block.content.images ?? []}
+                onChange={(images) => updateBlock(block.id, { images })}
+                slots={block.type === 'comparison' ? COMPARISON_LABELS : undefined}
+              />
+            </div>
+          </div>
+        )}
+
+        {block.type === 'gallery' && (
+          <div className="flex items-center gap-2">
+            <Label className="text-xs">Columns</Label>
+            <Select
+              value={String(block.content.galleryColumns ?? 3)}
+              onValueChange={(columns) => updateBlock(block.id, { galleryColumns: Number(columns) as GalleryColumns })}
+            >
+              <SelectTrigger className="h-8 w-20 text-xs" data-testid="gallery-columns">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GALLERY_COLUMNS.map(columns => (
+                  <SelectItem key={columns} value={String(columns)}>{columns}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Quick Action Buttons */}
         <div className="flex items-center gap-2 pt-2">
           <Button
@@ -442,27 +839,29 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
           >
             {selectedBlockId === block.id ? 'Hide Advanced' : 'Show Advanced'}
           </Button>
-          <div className="flex items-center gap-1 ml-auto">
-            <Label className="text-xs">Width:</Label>
-            <Input
-              type="number"
-              min={20}
-              max={100}
-              defaultValue={block.content.width}
-              onChange={(e) => {
-                const raw = e.target.value;
-                const parsed = Number(raw);
-                if (!Number.isNaN(parsed)) {
-                  updateBlock(block.id, { width: parsed });
-                } else if (raw === '') {
-                  // allow clearing while typing; notify parent with undefined
-                  updateBlock(block.id, { width: undefined as any });
-                }
-              }}
-              className="w-16 h-7 text-xs"
-            />
-            <span className="text-xs text-muted-foreground">%</span>
-          </div>
+          {!TEXT_BLOCK_TYPES.includes(block.type) && (
+            <div className="flex items-center gap-1 ml-auto">
+              <Label className="text-xs">Width:</Label>
+              <Input
+                type="number"
+                min={20}
+                max={100}
+                defaultValue={block.content.width}
+                onChange={(e) => {
+                  const raw = e.target.value;
+                  const parsed = Number(raw);
+                  if (!Number.isNaN(parsed)) {
+                    updateBlock(block.id, { width: parsed });
+                  } else if (raw === '') {
+                    // allow clearing while typing; notify parent with undefined
+                    updateBlock(block.id, { width: undefined as any });
+                  }
+                }}
+                className="w-16 h-7 text-xs"
+              />
+              <span className="text-xs text-muted-foreground">%</span>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -487,7 +886,7 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
                 )}
               </div>
               <div className={cn('order-2', `text-${content.alignment || 'center'}`)}>
-                <div style={{ color: content.textColor }}>{content.text || 'Add your text content here...'}</div>
+                <div style={{ color: content.textColor }}>{content.richText?.length ? <RichText spans={content.richText} /> : content.text || 'Add your text content here...'}</div>
               </div>
             </div>
           );
@@ -496,7 +895,7 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
           return (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
               <div className={cn('order-1', `text-${content.alignment || 'center'}`)}>
-                <div style={{ color: content.textColor }}>{content.text || 'Add your text content here...'}</div>
+                <div style={{ color: content.textColor }}>{content.richText?.length ? <RichText spans={content.richText} /> : content.text || 'Add your text content here...'}</div>
               </div>
               <div className="order-2">
                 {content.imageUrl ? (
@@ -527,7 +926,7 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
         case 'full-width-text':
           return (
             <div className={cn(`text-${content.alignment || 'center'}`)}>
-              <div style={{ color: content.textColor }}>{content.text || 'Add your full-width text content here...'}</div>
+              <div className="whitespace-pre-line" style={{ color: content.textColor }}>{content.richText?.length ? <RichText spans={content.richText} /> : content.text || 'Add your full-width text content here...'}</div>
             </div>
           );
 
@@ -545,16 +944,39 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
             </div>
           );
 
-        case 'video-embed':
+        case 'gallery':
+        case 'carousel': {
+          const images = displayableImages(content);
+          if (images.length === 0) {
+            return (
+              <div className="w-full h-48 bg-muted/50 rounded-lg flex items-center justify-center">
+                <Images className="w-8 h-8 text-muted-foreground" />
+              </div>
+            );
+          }
+          return block.type === 'gallery'
+            ? <ImageGallery images={images} columns={content.galleryColumns} />
+            : <ImageCarousel images={images} />;
+        }
+
+        case 'comparison': {
+          const pair = comparisonPair(content);
+          return pair ? (
+            <ImageComparison before={pair[0]} after={pair[1]} />
+          ) : (
+            <div className="w-full h-48 bg-muted/50 rounded-lg flex items-center justify-center text-sm text-muted-foreground">
+              Add a before and an after image
+            </div>
+          );
+        }
+
+        case 'video-embed': {
+          const video = videoEmbedForContent(content);
           return (
             <div className={cn(`text-${content.alignment || 'center'}`)}>
               <div className="aspect-video mx-auto overflow-hidden rounded-lg shadow-lg" style={widthStyle}>
-                {content.videoUrl ? (
-                  content.videoUrl.includes('youtube') || content.videoUrl.includes('vimeo') ? (
-                    <iframe src={content.videoUrl} className="w-full h-full" allowFullScreen />
-                  ) : (
-                    <video src={content.videoUrl} className="w-full h-full object-cover" controls />
-                  )
+                {video ? (
+                  <VideoPlayer video={video} title={content.caption} />
                 ) : (
                   <div className="w-full h-full bg-muted/50 flex items-center justify-center">
                     <Video className="w-12 h-12 text-muted-foreground" />
@@ -563,37 +985,30 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
               </div>
             </div>
           );
+        }
 
         case 'table':
-          return (
-            <div className="overflow-x-auto">
-              <table className="w-full border-collapse border border-muted">
-                <thead>
-                  <tr>
-                    {(content.tableData?.headers || []).map((header, i) => (
-                      <th key={i} className="border border-muted p-3 bg-muted/50 text-left font-semibold">{header}</th>
-                    ))}
-                  </tr>
-                </thead>
-                <tbody>
-                  {(content.tableData?.rows || []).map((row, i) => (
-                    <tr key={i}>{row.map((cell, j) => <td key={j} className="border border-muted p-3">{cell}</td>)}</tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+          return content.tableData ? (
+            <BlogTable table={content.tableData} />
+          ) : (
+            <div className="bg-muted/20 p-6 rounded-lg text-center text-muted-foreground">No table data</div>
           );
 
         case 'chart':
-          return (
-            <div className="text-center">
-              <h3 className="text-lg font-semibold mb-4">{content.chartData?.title || 'Chart'}</h3>
-              <div className="bg-muted/20 p-6 rounded-lg">
-                <p className="text-muted-foreground">Chart Preview: {content.chartData?.type}</p>
-              </div>
-            </div>
+          return content.chartData ? (
+            <BlogChart chart={content.chartData} />
+          ) : (
+            <div className="bg-muted/20 p-6 rounded-lg text-center text-muted-foreground">No chart data</div>
           );
 
+        case 'heading':
+        case 'list':
+        case 'quote':
+        case 'code':
+        case 'divider':
+        case 'callout':
+          return <TextBlock block={block} />;
+
         default:
           return <div>Unknown block type</div>;
       }
@@ -645,11 +1060,19 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
             {block.type !== 'full-width-image' && (
               <div>
                 <Label>Text Content</Label>
-                <Textarea
-                  defaultValue={block.content.text}
-                  onChange={(e) => updateBlock(block.id, { text: e.target.value })}
-                  placeholder="Enter text content..."
-                />
+                {RICH_TEXT_BLOCK_TYPES.includes(block.type) ? (
+                  <InlineMarkupTextarea
+                    defaultValue={markupFromContent(block.content)}
+                    onValueChange={(markup) => updateBlock(block.id, textFieldsFromMarkup(markup))}
+                    placeholder="Enter text content..."
+                  />
+                ) : (
+                  <Textarea
+                    defaultValue={block.content.text}
+                    onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+                    placeholder="Enter text content..."
+                  />
+                )}
               </div>
             )}
           </>
@@ -702,8 +1125,9 @@ const DragDropBlogEditor: React.FC<DragDropBlogEditorProps> = ({
             <Input
               value={block.content.videoUrl}
               onChange={(e) => updateBlock(block.id, { videoUrl: e.target.value })}
-              placeholder="https://www.youtube.com/embed/..."
+              placeholder="https://www.youtube.com/watch?v=..."
             />
+            {renderVideoStatus(block)}
           </div>
         )}
       </div>
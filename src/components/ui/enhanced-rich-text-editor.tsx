@@ -2,6 +2,7 @@ import React, { useMemo, useRef, useState, useCallback } from 'react';
 import ReactQuill from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
 import { cn } from '@/lib/utils';
+import { sanitizeHtml } from '@/utils/htmlSanitizer';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -352,7 +353,7 @@ const EnhancedRichTextEditor: React.FC<EnhancedRichTextEditorProps> = ({
               <div className="max-w-none prose prose-sm dark:prose-invert">
                 <div 
                   style={{ minHeight: height }}
-                  dangerouslySetInnerHTML={{ __html: value || '<p className="text-muted-foreground italic">Start writing to see preview...</p>' }}
+                  dangerouslySetInnerHTML={{ __html: sanitizeHtml(value) || '<p className="text-muted-foreground italic">Start writing to see preview...</p>' }}
                 />
               </div>
             </div>
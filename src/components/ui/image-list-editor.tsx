@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, ImageIcon, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileUploadButton } from '@/components/ui/file-upload';
+import { BlockImage } from '@/utils/blogSchema';
+import { safeImageUrl } from '@/utils/htmlSanitizer';
+
+interface ImageListEditorProps {
+  images: BlockImage[];
+  onChange: (images: BlockImage[]) => void;
+  /**
+   * Fixed, named places instead of a list the writer can grow and reorder,
+   * e.g. Before and After of a comparison block. Captions become the labels.
+   */
+  slots?: readonly string[];
+}
+
+const fillSlots = (images: BlockImage[], slots?: readonly string[]): BlockImage[] =>
+  slots ? slots.map((_, index) => images[index] ?? { url: '' }) : images;
+
+/** Pictures of a gallery, carousel or comparison block, each with its alt text and caption. */
+export const ImageListEditor: React.FC<ImageListEditorProps> = ({ images, onChange, slots }) => {
+  // Held locally so the inputs stay controlled while the block update is debounced
+  const [draft, setDraft] = useState(() => fillSlots(images, slots));
+
+  const commit = (next: BlockImage[]) => {
+    setDraft(next);
+    onChange(next);
+  };
+  const update = (index: number, changes: Partial<BlockImage>) =>
+    commit(draft.map((image, i) => i === index ? { ...image, ...changes } : image));
+  const move = (index: number, delta: number) => {
+    const next = [...draft];
+    [next[index], next[index + delta]] = [next[index + delta], next[index]];
+    commit(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {draft.map((image, index) => {
+        const name = slots?.[index] ?? `Image ${index + 1}`;
+        const src = safeImageUrl(image.url);
+        return (
+          <div key={index} className="flex gap-3 rounded-md border border-border p-2" data-testid={`image-list-item-${index}`}>
+            <div className="flex h-16 w-16 shrink-0 items-center justify-center overflow-hidden rounded bg-muted">
+              {src ? <img src={src} alt="" className="h-full w-full object-cover" /> : <ImageIcon className="h-5 w-5 text-muted-foreground" />}
+            </div>
+            <div className="flex-1 space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-medium">{name}</Label>
+                {!slots && (
+                  <div className="flex gap-1">
+                    <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === 0} onClick={() => move(index, -1)} aria-label={`Move ${name} up`}>
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === draft.length - 1} onClick={() => move(index, 1)} aria-label={`Move ${name} down`}>
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => commit(draft.filter((_, i) => i !== index))} aria-label={`Remove ${name}`}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  value={image.url}
+                  onChange={(e) => update(index, { url: e.target.value })}
+                  placeholder="Paste image URL or upload"
+                  aria-label={`${name} URL`}
+                  className="h-8 flex-1"
+                />
+                <FileUploadButton acceptedTypes="image" onUploadComplete={(url) => update(index, { url })} variant="outline" size="sm" />
+              </div>
+              {image.url.trim() && !src && (
+                <p className="text-xs text-destructive" role="alert">
+                  This address can't be shown. Use an http(s) link or upload the file.
+                </p>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  value={image.alt || ''}
+                  onChange={(e) => update(index, { alt: e.target.value || undefined })}
+                  placeholder="Alt text"
+                  aria-label={`${name} alt text`}
+                  className="h-8 flex-1"
+                />
+                <Input
+                  value={image.caption || ''}
+                  onChange={(e) => update(index, { caption: e.target.value || undefined })}
+                  placeholder={slots ? `Label (${name})` : 'Caption'}
+                  aria-label={`${name} ${slots ? 'label' : 'caption'}`}
+                  className="h-8 flex-1"
+                />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+      {!slots && (
+        <Button type="button" variant="outline" size="sm" onClick={() => commit([...draft, { url: '' }])}>
+          <Plus className="h-3 w-3 mr-1" />
+          Add image
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useRef } from 'react';
+import { Bold, Code, Italic, Link } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Textarea, TextareaProps } from '@/components/ui/textarea';
+
+type MarkupAction = 'bold' | 'italic' | 'code' | 'link';
+
+const WRAPPERS: Record<Exclude<MarkupAction, 'link'>, { marker: string; placeholder: string }> = {
+  bold: { marker: '**', placeholder: 'bold text' },
+  italic: { marker: '*', placeholder: 'italic text' },
+  code: { marker: '`', placeholder: 'code' }
+};
+
+const ACTIONS: Array<{ action: MarkupAction; label: string; icon: typeof Bold }> = [
+  { action: 'bold', label: 'Bold (Ctrl+B)', icon: Bold },
+  { action: 'italic', label: 'Italic (Ctrl+I)', icon: Italic },
+  { action: 'code', label: 'Inline code', icon: Code },
+  { action: 'link', label: 'Link (Ctrl+K)', icon: Link }
+];
+
+const starsBefore = (value: string, index: number) => value.slice(0, index).match(/\**$/)?.[0].length ?? 0;
+const starsAfter = (value: string, index: number) => value.slice(index).match(/^\**/)?.[0].length ?? 0;
+
+const SHORTCUTS: Record<string, MarkupAction> = { b: 'bold', i: 'italic', k: 'link' };
+
+interface InlineMarkupTextareaProps extends Omit<TextareaProps, 'defaultValue' | 'onChange'> {
+  /** Markup from markupFromContent in utils/richText */
+  defaultValue: string;
+  onValueChange: (markup: string) => void;
+}
+
+/**
+ * Textarea with a formatting toolbar for inline marks. The toolbar wraps the
+ * selection in the markup that parseInlineMarkup understands, or unwraps it
+ * when it is already wrapped.
+ */
+export const InlineMarkupTextarea: React.FC<InlineMarkupTextareaProps> = ({
+  defaultValue,
+  onValueChange,
+  className,
+  ...props
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const apply = (action: MarkupAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart: start, selectionEnd: end, value } = textarea;
+    const selected = value.slice(start, end);
+
+    if (action === 'link') {
+      const label = selected || 'link text';
+      const url = 'https://';
+      textarea.setRangeText(`[${label}](${url})`, start, end, 'end');
+      // Leave the URL selected so the writer can type over it
+      const urlStart = start + label.length + 3;
+      textarea.setSelectionRange(urlStart, urlStart + url.length);
+    } else {
+      const { marker, placeholder } = WRAPPERS[action];
+      const wrapped = action === 'italic'
+        // A single `*` only counts if it isn't half of a bold marker
+        ? starsBefore(value, start) % 2 === 1 && starsAfter(value, end) % 2 === 1
+        : value.slice(start - marker.length, start) === marker && value.slice(end, end + marker.length) === marker;
+      if (wrapped && selected) {
+        textarea.setRangeText(selected, start - marker.length, end + marker.length, 'end');
+        textarea.setSelectionRange(start - marker.length, end - marker.length);
+      } else {
+        const text = selected || placeholder;
+        textarea.setRangeText(`${marker}${text}${marker}`, start, end, 'end');
+        textarea.setSelectionRange(start + marker.length, start + marker.length + text.length);
+      }
+    }
+
+    textarea.focus();
+    onValueChange(textarea.value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const action = SHORTCUTS[e.key.toLowerCase()];
+    if ((e.ctrlKey || e.metaKey) && action) {
+      e.preventDefault();
+      apply(action);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-1" role="toolbar" aria-label="Text formatting">
+        {ACTIONS.map(({ action, label, icon: Icon }) => (
+          <Button
+            key={action}
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            aria-label={label}
+            title={label}
+            // Keep the textarea selection when the button is clicked
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => apply(action)}
+          >
+            <Icon className="h-3.5 w-3.5" />
+          </Button>
+        ))}
+      </div>
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        defaultValue={defaultValue}
+        onChange={(e) => onValueChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className={cn("mt-1", className)}
+      />
+      <p className="mt-1 text-xs text-muted-foreground">
+        **bold**, *italic*, `code`, [link](https://…)
+      </p>
+    </div>
+  );
+};
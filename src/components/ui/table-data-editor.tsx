@@ -0,0 +1,186 @@
+import React, { useId, useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { BlockAlignment, NUMBER_FORMATS, NumberFormat, TableColumn, TableData, TableMobileLayout } from '@/utils/blogSchema';
+import { parseTableCsv, tableColumnCount, tableToCsv } from '@/utils/blogTables';
+import { NUMBER_FORMAT_LABELS } from '@/utils/numberFormat';
+
+interface TableDataEditorProps {
+  table: TableData;
+  onChange: (table: TableData) => void;
+}
+
+const IMPORT_TYPES = '.csv,.tsv,.txt,.xlsx,.xlsm,.xls,.ods,text/csv,text/tab-separated-values';
+const WORKBOOK = /\.(xlsx|xlsm|xls|ods)$/i;
+
+// SheetJS is only loaded once a workbook is picked. Its first sheet goes through
+// the same CSV path as pasted and imported text.
+const readWorkbookAsCsv = async (file: File): Promise<string> => {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('it has no sheets');
+  return XLSX.utils.sheet_to_csv(sheet, { blankrows: false });
+};
+
+/**
+ * Contents and display settings of a table block. Data is edited as CSV so a
+ * range can be pasted straight from a spreadsheet or imported from a file.
+ */
+export const TableDataEditor: React.FC<TableDataEditorProps> = ({ table, onChange }) => {
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mergedHeaders, setMergedHeaders] = useState(!!table.headerGroups?.length);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const ids = { merged: useId(), interactive: useId() };
+
+  const applyText = (text: string, withGroups = mergedHeaders) => {
+    const parsed = parseTableCsv(text, { headerGroups: withGroups });
+    setErrors(parsed.errors);
+    if (parsed.table.headers.length > 0) onChange({ ...table, ...parsed.table });
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    let text: string;
+    try {
+      text = WORKBOOK.test(file.name) ? await readWorkbookAsCsv(file) : await file.text();
+    } catch (error) {
+      setErrors([`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`]);
+      return;
+    }
+    if (textareaRef.current) textareaRef.current.value = text;
+    applyText(text);
+  };
+
+  const columnCount = tableColumnCount(table);
+  const updateColumn = (index: number, changes: TableColumn) => {
+    const columns = Array.from({ length: columnCount }, (_, column) => ({ ...table.columns?.[column] }));
+    columns[index] = { ...columns[index], ...changes };
+    onChange({ ...table, columns });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between">
+          <Label className="text-xs font-medium">Data</Label>
+          <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-3 w-3 mr-1" />
+            Import file
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_TYPES}
+            className="hidden"
+            data-testid="table-import"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <Textarea
+          ref={textareaRef}
+          defaultValue={tableToCsv(table)}
+          onChange={(e) => applyText(e.target.value)}
+          spellCheck={false}
+          className="mt-1 min-h-[120px] font-mono text-sm"
+          data-testid="table-data"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Paste cells from a spreadsheet, type CSV or import a CSV or Excel file (first sheet). The first row holds the column headers.
+        </p>
+        {errors.length > 0 && (
+          <ul role="alert" className="text-xs text-destructive mt-1 space-y-0.5">
+            {errors.map((error, index) => <li key={index}>{error}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id={ids.merged}
+          checked={mergedHeaders}
+          onCheckedChange={(checked) => {
+            setMergedHeaders(checked);
+            applyText(textareaRef.current?.value ?? tableToCsv(table), checked);
+          }}
+        />
+        <Label htmlFor={ids.merged} className="text-xs">
+          First row is a merged header row (blank cells extend the cell to their left)
+        </Label>
+      </div>
+
+      {columnCount > 0 && (
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">Columns</Label>
+          {Array.from({ length: columnCount }, (_, column) => (
+            <div key={column} className="flex items-center gap-2" data-testid={`table-column-${column}`}>
+              <span className="flex-1 truncate text-sm">{table.headers[column] || `Column ${column + 1}`}</span>
+              <Select
+                value={table.columns?.[column]?.align ?? 'auto'}
+                onValueChange={(align) => updateColumn(column, { align: align === 'auto' ? undefined : align as BlockAlignment })}
+              >
+                <SelectTrigger className="h-8 w-28 text-xs" aria-label={`Alignment of ${table.headers[column] || `column ${column + 1}`}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto</SelectItem>
+                  <SelectItem value="left">Left</SelectItem>
+                  <SelectItem value="center">Center</SelectItem>
+                  <SelectItem value="right">Right</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={table.columns?.[column]?.numberFormat ?? 'text'}
+                onValueChange={(format) => updateColumn(column, { numberFormat: format === 'text' ? undefined : format as NumberFormat })}
+              >
+                <SelectTrigger className="h-8 w-32 text-xs" aria-label={`Number format of ${table.headers[column] || `column ${column + 1}`}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="text">As typed</SelectItem>
+                  {NUMBER_FORMATS.map(format => (
+                    <SelectItem key={format} value={format}>{NUMBER_FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id={ids.interactive}
+            checked={!!table.interactive}
+            onCheckedChange={(interactive) => onChange({ ...table, interactive })}
+          />
+          <Label htmlFor={ids.interactive} className="text-xs">Readers can sort and filter</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="text-xs">On phones</Label>
+          <Select
+            value={table.mobileLayout ?? 'scroll'}
+            onValueChange={(layout) => onChange({ ...table, mobileLayout: layout as TableMobileLayout })}
+          >
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="scroll">Scroll sideways</SelectItem>
+              <SelectItem value="stack">Stack rows as cards</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { groupPeersByBlock, peersForBlog, presenceColor, presenceStateToPeers } from '../useBlogPresence';
+
+describe('useBlogPresence helpers', () => {
+  const state = {
+    own: [{ userId: 'me', name: 'me@example.com', blogId: 'b1', blockId: 'x' }],
+    tab1: [{ userId: 'u1', name: 'ann@example.com', blogId: 'b1', blockId: 'block-1' }],
+    tab2: [{ userId: 'u2', name: 'bob@example.com', blogId: 'b2', blockId: null }],
+    tab3: [{ userId: 'u3', name: 'cy@example.com', blogId: 'b1', blockId: 'block-1' }]
+  };
+
+  it('flattens presence state without our own session', () => {
+    const peers = presenceStateToPeers(state, 'own');
+    expect(peers.map(peer => peer.name)).toEqual(['ann@example.com', 'bob@example.com', 'cy@example.com']);
+    expect(peers[0]).toMatchObject({ key: 'tab1', blogId: 'b1', blockId: 'block-1', color: presenceColor('u1') });
+  });
+
+  it('groups peers by blog and block', () => {
+    const peers = presenceStateToPeers(state, 'own');
+    expect(peersForBlog(peers, 'b1').map(peer => peer.userId)).toEqual(['u1', 'u3']);
+    expect(Object.keys(groupPeersByBlock(peers))).toEqual(['block-1']);
+    expect(groupPeersByBlock(peers)['block-1']).toHaveLength(2);
+  });
+
+  it('gives a user the same colour every time', () => {
+    expect(presenceColor('u1')).toBe(presenceColor('u1'));
+    expect(presenceColor('u1')).toMatch(/^#[0-9a-f]{6}$/);
+  });
+});
@@ -0,0 +1,145 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+/** What each admin session broadcasts on the presence channel. */
+interface BlogPresencePayload {
+  userId: string;
+  name: string;
+  blogId: string | null;
+  blockId: string | null;
+}
+
+export interface BlogPresencePeer extends BlogPresencePayload {
+  key: string;
+  color: string;
+}
+
+const PEER_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#4d7c0f'];
+
+// Same user gets the same colour in every session
+export const presenceColor = (id: string): string => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+};
+
+/** Flatten a Supabase presence state into peers, leaving out our own session. */
+export const presenceStateToPeers = (
+  state: Record<string, Array<Partial<BlogPresencePayload>>>,
+  ownKey: string
+): BlogPresencePeer[] =>
+  Object.entries(state)
+    .filter(([key]) => key !== ownKey)
+    .flatMap(([key, entries]) => entries.slice(-1).map(entry => ({
+      key,
+      userId: entry.userId || key,
+      name: entry.name || 'Unknown user',
+      blogId: entry.blogId ?? null,
+      blockId: entry.blockId ?? null,
+      color: presenceColor(entry.userId || key)
+    })));
+
+export const peersForBlog = (peers: BlogPresencePeer[], blogId: string): BlogPresencePeer[] =>
+  peers.filter(peer => peer.blogId === blogId);
+
+/** Peers keyed by the block they have selected, for soft-locking in the editor. */
+export const groupPeersByBlock = (peers: BlogPresencePeer[]): Record<string, BlogPresencePeer[]> =>
+  peers.reduce<Record<string, BlogPresencePeer[]>>((groups, peer) => {
+    if (peer.blockId) {
+      (groups[peer.blockId] = groups[peer.blockId] || []).push(peer);
+    }
+    return groups;
+  }, {});
+
+/**
+ * Shares which blog (and which block in it) this admin session has open with
+ * every other BlogManager session, and returns what the others have open.
+ */
+export const useBlogPresence = (activeBlogId: string | null) => {
+  const [peers, setPeers] = useState<BlogPresencePeer[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const subscribedRef = useRef(false);
+  const identityRef = useRef<{ userId: string; name: string } | null>(null);
+  const stateRef = useRef<{ blogId: string | null; blockId: string | null }>({ blogId: activeBlogId, blockId: null });
+  // One key per browser tab so the same admin in two tabs shows up twice
+  const sessionKeyRef = useRef(`${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`);
+
+  const track = useCallback(() => {
+    const channel = channelRef.current;
+    if (!channel || !subscribedRef.current || !identityRef.current) return;
+    const payload: BlogPresencePayload = { ...identityRef.current, ...stateRef.current };
+    channel.track(payload);
+  }, []);
+
+  useEffect(() => {
+    // Realtime presence only makes sense in the browser
+    if (typeof window === 'undefined') return;
+
+    let cancelled = false;
+    const sessionKey = sessionKeyRef.current;
+
+    const join = async () => {
+      try {
+        const { data } = await supabase.auth.getUser();
+        identityRef.current = {
+          userId: data.user?.id ?? sessionKey,
+          name: data.user?.email ?? 'Unknown user'
+        };
+      } catch (error) {
+        identityRef.current = { userId: sessionKey, name: 'Unknown user' };
+      }
+      if (cancelled) return;
+
+      const channel = supabase.channel('blog-presence', {
+        config: { presence: { key: sessionKey } }
+      });
+      channelRef.current = channel;
+
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          setPeers(presenceStateToPeers(
+            channel.presenceState() as Record<string, Array<Partial<BlogPresencePayload>>>,
+            sessionKey
+          ));
+        })
+        .subscribe((status: string) => {
+          if (status === 'SUBSCRIBED') {
+            subscribedRef.current = true;
+            track();
+          }
+        });
+    };
+
+    join();
+
+    return () => {
+      cancelled = true;
+      subscribedRef.current = false;
+      if (channelRef.current) {
+        try {
+          supabase.removeChannel(channelRef.current);
+        } catch (e) {
+          // swallow during teardown in non-browser environments
+        }
+        channelRef.current = null;
+      }
+    };
+  }, [track]);
+
+  // Opening or closing a blog resets the selected block
+  useEffect(() => {
+    stateRef.current = { blogId: activeBlogId, blockId: null };
+    track();
+  }, [activeBlogId, track]);
+
+  const setActiveBlock = useCallback((blockId: string | null) => {
+    if (stateRef.current.blockId === blockId) return;
+    stateRef.current = { ...stateRef.current, blockId };
+    track();
+  }, [track]);
+
+  return { peers, setActiveBlock };
+};
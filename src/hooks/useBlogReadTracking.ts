@@ -0,0 +1,71 @@
+import { useEffect, RefObject } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { BlogEventType, SCROLL_MILESTONES, readDepth } from '@/utils/blogEvents';
+
+const SESSION_KEY = 'blog:session';
+
+// Anonymous id for this tab; the edge function counts each event once per id
+const readingSessionId = (): string => {
+  try {
+    const existing = sessionStorage.getItem(SESSION_KEY);
+    if (existing) return existing;
+    const created = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_KEY, created);
+    return created;
+  } catch (error) {
+    return crypto.randomUUID();
+  }
+};
+
+// Fire and forget: analytics must never get in the way of reading
+const sendBlogEvent = (slug: string, sessionId: string, type: BlogEventType, depth = 0) => {
+  supabase.functions
+    .invoke('track-blog-event', { body: { slug, sessionId, type, depth } })
+    .catch(error => console.warn('Could not record blog event:', error));
+};
+
+/**
+ * Reports a view of `slug`, each scroll milestone through `articleRef` and
+ * reaching its end to the track-blog-event edge function.
+ */
+export const useBlogReadTracking = (slug: string | null, articleRef: RefObject<HTMLElement>) => {
+  useEffect(() => {
+    if (!slug) return;
+    const sessionId = readingSessionId();
+    const reached = new Set<number>();
+    let frame = 0;
+
+    sendBlogEvent(slug, sessionId, 'view');
+
+    const measure = () => {
+      frame = 0;
+      const article = articleRef.current;
+      if (!article) return;
+
+      const { top, height } = article.getBoundingClientRect();
+      const depth = readDepth(top, height, window.innerHeight);
+
+      SCROLL_MILESTONES.filter(milestone => depth >= milestone && !reached.has(milestone)).forEach(milestone => {
+        reached.add(milestone);
+        sendBlogEvent(slug, sessionId, 'scroll', milestone);
+      });
+      if (depth >= 100 && !reached.has(100)) {
+        reached.add(100);
+        sendBlogEvent(slug, sessionId, 'complete', 100);
+        window.removeEventListener('scroll', onScroll);
+      }
+    };
+
+    const onScroll = () => {
+      if (!frame) frame = window.requestAnimationFrame(measure);
+    };
+
+    window.addEventListener('scroll', onScroll, { passive: true });
+    // Short posts may already be fully on screen
+    onScroll();
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      if (frame) window.cancelAnimationFrame(frame);
+    };
+  }, [slug, articleRef]);
+};
@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { BlogSearchResult, SEARCH_DEBOUNCE_MS } from '@/utils/blogSearch';
+
+interface BlogSearchOptions {
+  status?: string | null;
+  category?: string | null;
+  pageSize?: number;
+}
+
+/**
+ * Debounced full-text search through the `search_blogs` RPC. An empty query
+ * is inactive and returns no results; `loadMore` fetches the next page.
+ */
+export const useBlogSearch = (query: string, { status = null, category = null, pageSize = 20 }: BlogSearchOptions = {}) => {
+  const [results, setResults] = useState<BlogSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore responses for queries that were superseded while in flight
+  const requestRef = useRef(0);
+  const term = query.trim();
+
+  const runSearch = useCallback(async (offset: number) => {
+    const requestId = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: rpcError } = await supabase.rpc('search_blogs', {
+        search_query: term,
+        status_filter: status || undefined,
+        category_filter: category || undefined,
+        page_size: pageSize,
+        page_offset: offset
+      });
+
+      if (rpcError) throw rpcError;
+      if (requestId !== requestRef.current) return;
+
+      const rows = data || [];
+      setResults(previous => offset === 0 ? rows : [...previous, ...rows]);
+      setTotal(rows.length > 0 ? Number(rows[0].total_count) : offset);
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      console.error('Error searching blogs:', err);
+      setError(err instanceof Error ? err.message : 'Search failed');
+      setResults([]);
+      setTotal(0);
+    } finally {
+      if (requestId === requestRef.current) setLoading(false);
+    }
+  }, [term, status, category, pageSize]);
+
+  useEffect(() => {
+    if (!term) {
+      requestRef.current++;
+      setResults([]);
+      setTotal(0);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    // Report loading during the debounce too, so callers don't flash "no results"
+    setLoading(true);
+    const timer = setTimeout(() => runSearch(0), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [term, runSearch]);
+
+  const loadMore = useCallback(() => {
+    if (!loading && results.length < total) runSearch(results.length);
+  }, [loading, results.length, total, runSearch]);
+
+  return {
+    active: term.length > 0,
+    results,
+    total,
+    loading,
+    error,
+    hasMore: results.length < total,
+    loadMore
+  };
+};
@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BlogCategory, BlogTag, fetchTaxonomy } from '@/utils/blogTaxonomy';
+
+/** Managed categories and tags, in display order. */
+export const useBlogTaxonomy = () => {
+  const [categories, setCategories] = useState<BlogCategory[]>([]);
+  const [tags, setTags] = useState<BlogTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const [nextCategories, nextTags] = await Promise.all([
+        fetchTaxonomy<BlogCategory>('categories'),
+        fetchTaxonomy<BlogTag>('tags')
+      ]);
+      setCategories(nextCategories);
+      setTags(nextTags);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching categories and tags:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch categories and tags');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { categories, tags, loading, error, reload };
+};
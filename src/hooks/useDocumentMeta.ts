@@ -0,0 +1,103 @@
+import { useEffect } from 'react';
+import { DocumentMeta, SITE_NAME } from '@/utils/blogSeo';
+
+const JSON_LD_ID = 'document-meta-json-ld';
+
+type MetaAttribute = 'name' | 'property';
+
+// Set a <meta> tag and return a function that restores what was there before.
+// Missing values keep the site-wide default from index.html.
+const setMetaTag = (attribute: MetaAttribute, key: string, content: string | undefined): (() => void) => {
+  if (!content) return () => {};
+
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  const previous = element?.getAttribute('content') ?? null;
+  const created = !element;
+
+  if (!element) {
+    element = document.createElement('meta');
+    element.setAttribute(attribute, key);
+    document.head.appendChild(element);
+  }
+  element.setAttribute('content', content);
+
+  return () => {
+    if (created) {
+      element?.remove();
+    } else if (previous !== null) {
+      element?.setAttribute('content', previous);
+    }
+  };
+};
+
+const setCanonical = (href: string): (() => void) => {
+  let link = document.head.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+  const previous = link?.getAttribute('href') ?? null;
+  const created = !link;
+
+  if (!link) {
+    link = document.createElement('link');
+    link.setAttribute('rel', 'canonical');
+    document.head.appendChild(link);
+  }
+  link.setAttribute('href', href);
+
+  return () => {
+    if (created) {
+      link?.remove();
+    } else if (previous !== null) {
+      link?.setAttribute('href', previous);
+    }
+  };
+};
+
+const setJsonLd = (data: Record<string, unknown> | undefined): (() => void) => {
+  if (!data) return () => {};
+
+  const script = document.createElement('script');
+  script.type = 'application/ld+json';
+  script.id = JSON_LD_ID;
+  // Escape "<" so content cannot close the script tag
+  script.textContent = JSON.stringify(data).replace(/</g, '\\u003c');
+  document.getElementById(JSON_LD_ID)?.remove();
+  document.head.appendChild(script);
+
+  return () => script.remove();
+};
+
+/**
+ * Apply page metadata to <head> while the component is mounted and restore
+ * the static tags from index.html afterwards. Pass null while data is loading.
+ */
+export const useDocumentMeta = (meta: DocumentMeta | null) => {
+  useEffect(() => {
+    if (!meta || typeof document === 'undefined') return;
+
+    const previousTitle = document.title;
+    document.title = meta.title;
+
+    const restore = [
+      setMetaTag('name', 'description', meta.description),
+      setCanonical(meta.canonicalUrl),
+      setMetaTag('property', 'og:title', meta.title),
+      setMetaTag('property', 'og:description', meta.description),
+      setMetaTag('property', 'og:type', meta.type),
+      setMetaTag('property', 'og:url', meta.canonicalUrl),
+      setMetaTag('property', 'og:site_name', SITE_NAME),
+      setMetaTag('property', 'og:image', meta.image),
+      setMetaTag('property', 'article:published_time', meta.publishedTime),
+      setMetaTag('property', 'article:modified_time', meta.modifiedTime),
+      setMetaTag('property', 'article:section', meta.section),
+      setMetaTag('name', 'twitter:card', meta.image ? 'summary_large_image' : 'summary'),
+      setMetaTag('name', 'twitter:title', meta.title),
+      setMetaTag('name', 'twitter:description', meta.description),
+      setMetaTag('name', 'twitter:image', meta.image),
+      setJsonLd(meta.jsonLd)
+    ];
+
+    return () => {
+      document.title = previousTitle;
+      restore.reverse().forEach(fn => fn());
+    };
+  }, [meta]);
+};
@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  BlogListCursor,
+  BlogListFilters,
+  BlogListItem,
+  fetchBlogListPage
+} from '@/utils/blogListing';
+
+/**
+ * Cursor-paginated blog list for infinite scroll. Changing a filter starts
+ * over from the first page; `reload` does the same for realtime updates.
+ */
+export const useInfiniteBlogList = ({ status = null, category = null, tagId = null, authorId = null }: BlogListFilters, pageSize = 9) => {
+  const [rows, setRows] = useState<BlogListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<BlogListCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  // Drop pages that belong to a list we have since reset
+  const generationRef = useRef(0);
+
+  const loadPage = useCallback(async (reset: boolean) => {
+    if (reset) generationRef.current++;
+    const generation = generationRef.current;
+    if (reset) {
+      cursorRef.current = null;
+      setLoading(true);
+    } else {
+      setLoadingMore(true);
+    }
+
+    try {
+      const page = await fetchBlogListPage({
+        status,
+        category,
+        tagId,
+        authorId,
+        pageSize,
+        cursor: reset ? null : cursorRef.current
+      });
+      if (generation !== generationRef.current) return;
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.nextCursor !== null);
+      setRows(previous => reset ? page.rows : [...previous, ...page.rows]);
+      setError(null);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      console.error('Error fetching blogs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch blogs');
+    } finally {
+      if (generation === generationRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [status, category, tagId, authorId, pageSize]);
+
+  useEffect(() => {
+    loadPage(true);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!loading && !loadingMore && hasMore) loadPage(false);
+  }, [loading, loadingMore, hasMore, loadPage]);
+
+  const reload = useCallback(() => loadPage(true), [loadPage]);
+
+  return { rows, loading, loadingMore, hasMore, error, loadMore, reload };
+};
+
+/**
+ * Ref for a sentinel element below the list; calls `onReach` when it scrolls
+ * into view. Without IntersectionObserver (old browsers, jsdom) nothing
+ * happens and the caller's "Load more" button is the fallback.
+ */
+export const useLoadMoreSentinel = (onReach: () => void, enabled: boolean) => {
+  const onReachRef = useRef(onReach);
+  onReachRef.current = onReach;
+  const [element, setElement] = useState<Element | null>(null);
+
+  useEffect(() => {
+    if (!element || !enabled || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onReachRef.current();
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element, enabled]);
+
+  return setElement;
+};
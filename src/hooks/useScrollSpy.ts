@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+
+/** Headings within this many pixels of the top count as the current section. */
+export const SCROLL_SPY_OFFSET = 120;
+
+/**
+ * Id of the last element in `ids` whose top has scrolled past the offset,
+ * i.e. the section being read; the first id until then. Pass a memoized
+ * array, as a new one re-queries the document.
+ */
+export const useScrollSpy = (ids: string[]): string | null => {
+  const [activeId, setActiveId] = useState<string | null>(ids[0] ?? null);
+
+  useEffect(() => {
+    const elements = ids
+      .map(id => document.getElementById(id))
+      .filter((element): element is HTMLElement => element !== null);
+    setActiveId(ids[0] ?? null);
+    if (elements.length === 0) return;
+
+    let frame = 0;
+    const measure = () => {
+      frame = 0;
+      const passed = elements.filter(element => element.getBoundingClientRect().top <= SCROLL_SPY_OFFSET);
+      setActiveId((passed[passed.length - 1] ?? elements[0]).id);
+    };
+
+    const onScroll = () => {
+      if (!frame) frame = window.requestAnimationFrame(measure);
+    };
+
+    window.addEventListener('scroll', onScroll, { passive: true });
+    // Opening a #heading link lands part way down the page
+    onScroll();
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      if (frame) window.cancelAnimationFrame(frame);
+    };
+  }, [ids]);
+
+  return activeId;
+};
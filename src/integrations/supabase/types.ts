@@ -14,6 +14,268 @@ export type Database = {
   }
   public: {
     Tables: {
+      author_profiles: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string
+          display_name: string
+          id: string
+          social_links: Json
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          display_name: string
+          id: string
+          social_links?: Json
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          display_name?: string
+          id?: string
+          social_links?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      blog_revisions: {
+        Row: {
+          author_email: string | null
+          author_id: string | null
+          blog_id: string
+          blog_structure: Json | null
+          content: string
+          created_at: string
+          excerpt: string | null
+          id: string
+          status: string
+          title: string
+        }
+        Insert: {
+          author_email?: string | null
+          author_id?: string | null
+          blog_id: string
+          blog_structure?: Json | null
+          content: string
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          status: string
+          title: string
+        }
+        Update: {
+          author_email?: string | null
+          author_id?: string | null
+          blog_id?: string
+          blog_structure?: Json | null
+          content?: string
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          status?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_revisions_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blog_comment_submissions: {
+        Row: {
+          created_at: string
+          submitter_hash: string
+        }
+        Insert: {
+          created_at?: string
+          submitter_hash: string
+        }
+        Update: {
+          created_at?: string
+          submitter_hash?: string
+        }
+        Relationships: []
+      }
+      blog_comments: {
+        Row: {
+          author_name: string
+          blog_id: string
+          body: string
+          created_at: string
+          id: string
+          moderated_at: string | null
+          moderated_by: string | null
+          parent_id: string | null
+          status: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          author_name: string
+          blog_id: string
+          body: string
+          created_at?: string
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          parent_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          author_name?: string
+          blog_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          parent_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_comments_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blog_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "blog_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blog_events: {
+        Row: {
+          blog_id: string
+          created_at: string
+          depth: number
+          event_type: string
+          id: number
+          session_id: string
+        }
+        Insert: {
+          blog_id: string
+          created_at?: string
+          depth?: number
+          event_type: string
+          id?: never
+          session_id: string
+        }
+        Update: {
+          blog_id?: string
+          created_at?: string
+          depth?: number
+          event_type?: string
+          id?: never
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_events_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blog_related_posts: {
+        Row: {
+          blog_id: string
+          computed_at: string
+          related_blog_id: string
+          same_category: boolean
+          score: number
+          shared_tags: number
+          text_similarity: number
+        }
+        Insert: {
+          blog_id: string
+          computed_at?: string
+          related_blog_id: string
+          same_category?: boolean
+          score: number
+          shared_tags?: number
+          text_similarity?: number
+        }
+        Update: {
+          blog_id?: string
+          computed_at?: string
+          related_blog_id?: string
+          same_category?: boolean
+          score?: number
+          shared_tags?: number
+          text_similarity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_related_posts_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blog_related_posts_related_blog_id_fkey"
+            columns: ["related_blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blog_tags: {
+        Row: {
+          blog_id: string
+          created_at: string
+          tag_id: string
+        }
+        Insert: {
+          blog_id: string
+          created_at?: string
+          tag_id: string
+        }
+        Update: {
+          blog_id?: string
+          created_at?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_tags_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blog_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       blogs: {
         Row: {
           author_id: string | null
@@ -25,9 +287,16 @@ export type Database = {
           featured: boolean | null
           featured_image_url: string | null
           id: string
+          publish_at: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          search_vector: unknown | null
           slug: string
           status: string
+          submitted_for_review_at: string | null
           title: string
+          unpublish_at: string | null
           updated_at: string
         }
         Insert: {
@@ -40,9 +309,16 @@ export type Database = {
           featured?: boolean | null
           featured_image_url?: string | null
           id?: string
+          publish_at?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          search_vector?: unknown | null
           slug: string
           status?: string
+          submitted_for_review_at?: string | null
           title: string
+          unpublish_at?: string | null
           updated_at?: string
         }
         Update: {
@@ -55,9 +331,54 @@ export type Database = {
           featured?: boolean | null
           featured_image_url?: string | null
           id?: string
+          publish_at?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          search_vector?: unknown | null
           slug?: string
           status?: string
+          submitted_for_review_at?: string | null
           title?: string
+          unpublish_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blogs_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          slug?: string
+          sort_order?: number
           updated_at?: string
         }
         Relationships: []
@@ -107,6 +428,36 @@ export type Database = {
         }
         Relationships: []
       }
+      tags: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -133,6 +484,34 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      blog_analytics_daily: {
+        Args: { since: string }
+        Returns: {
+          completions: number
+          day: string
+          views: number
+        }[]
+      }
+      blog_analytics_posts: {
+        Args: { since: string }
+        Returns: {
+          avg_depth: number
+          blog_id: string
+          category: string
+          completions: number
+          slug: string
+          title: string
+          views: number
+        }[]
+      }
+      blog_search_body: {
+        Args: { content: string; structure: Json }
+        Returns: string
+      }
+      blog_structure_text: {
+        Args: { structure: Json }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -140,6 +519,31 @@ export type Database = {
         }
         Returns: boolean
       }
+      search_blogs: {
+        Args: {
+          category_filter?: string
+          page_offset?: number
+          page_size?: number
+          search_query: string
+          status_filter?: string
+        }
+        Returns: {
+          category: string
+          created_at: string
+          excerpt: string
+          featured: boolean
+          featured_image_url: string
+          id: string
+          rank: number
+          slug: string
+          snippet: string
+          status: string
+          title: string
+          title_highlight: string
+          total_count: number
+          updated_at: string
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "editor" | "viewer"
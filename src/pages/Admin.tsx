@@ -11,6 +11,10 @@ import BlogManager from '@/components/admin/BlogManager';
 import ContentManager from '@/components/admin/ContentManager';
 import TestManager from '@/components/admin/TestManager';
 import LiveWebsitePreview from '@/components/admin/LiveWebsitePreview';
+import TaxonomyManager from '@/components/admin/TaxonomyManager';
+import AuthorProfileEditor from '@/components/admin/AuthorProfileEditor';
+import CommentModeration from '@/components/admin/CommentModeration';
+import BlogAnalytics from '@/components/admin/BlogAnalytics';
 
 const Admin = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -94,8 +98,12 @@ const Admin = () => {
         </div>
 
         <Tabs defaultValue="blogs" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="blogs">Blog Management</TabsTrigger>
+            <TabsTrigger value="comments">Comments</TabsTrigger>
+            <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="taxonomy">Categories & Tags</TabsTrigger>
+            <TabsTrigger value="profile">Author Profile</TabsTrigger>
             <TabsTrigger value="content">Content Management</TabsTrigger>
             <TabsTrigger value="tests">Test Reports</TabsTrigger>
             <TabsTrigger value="preview">Live Website Editor</TabsTrigger>
@@ -105,6 +113,22 @@ const Admin = () => {
             <BlogManager userRole={userRole} />
           </TabsContent>
 
+          <TabsContent value="comments">
+            <CommentModeration userRole={userRole} />
+          </TabsContent>
+
+          <TabsContent value="analytics">
+            <BlogAnalytics />
+          </TabsContent>
+
+          <TabsContent value="taxonomy">
+            <TaxonomyManager userRole={userRole} />
+          </TabsContent>
+
+          <TabsContent value="profile">
+            <AuthorProfileEditor userId={user.id} email={user.email} />
+          </TabsContent>
+
           <TabsContent value="content">
             <ContentManager userRole={userRole} />
           </TabsContent>
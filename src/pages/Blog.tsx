@@ -4,27 +4,23 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, ChevronDown, ChevronRight } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import BlogRenderer from "@/components/blog/BlogRenderer";
+import { BlogStructure, parseBlogStructure } from "@/utils/blogSchema";
+import { BlogListItem, fetchBlogBody, fetchBlogListPage } from "@/utils/blogListing";
 
-interface Blog {
-  id: string;
-  title: string;
-  slug: string;
+// Sidebar lists hold list columns only; the body is fetched when a post is opened
+interface Blog extends BlogListItem {
   content: string;
-  excerpt: string;
-  category: string;
-  status: string;
-  featured: boolean;
-  featured_image_url: string;
-  created_at: string;
-  blog_structure?: any; // Support for new visual editor
+  blog_structure?: BlogStructure | null; // Validated by parseBlogStructure on load
 }
 
+// Every category is listed at once here, so read a generous single page
+const SIDEBAR_PAGE_SIZE = 200;
+
 const Blog = () => {
-  const [blogs, setBlogs] = useState<Blog[]>([]);
+  const [blogs, setBlogs] = useState<BlogListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedBlog, setSelectedBlog] = useState<Blog | null>(null);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
@@ -47,14 +43,8 @@ const Blog = () => {
 
   const fetchBlogs = async () => {
     try {
-      const { data, error } = await supabase
-        .from('blogs')
-        .select('*')
-        .eq('status', 'published')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setBlogs(data || []);
+      const { rows } = await fetchBlogListPage({ status: 'published', pageSize: SIDEBAR_PAGE_SIZE });
+      setBlogs(rows);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -92,8 +82,18 @@ const Blog = () => {
     setExpandedCategories(newExpanded);
   };
 
-  const handleBlogClick = (blog: Blog) => {
-    setSelectedBlog(blog);
+  const handleBlogClick = async (blog: BlogListItem) => {
+    try {
+      const row = await fetchBlogBody(blog.id);
+      if (!row) throw new Error('Blog not found');
+      setSelectedBlog({ ...row, blog_structure: parseBlogStructure(row.blog_structure) });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load blog",
+        variant: "destructive",
+      });
+    }
   };
 
   if (loading) {
@@ -226,6 +226,7 @@ const Blog = () => {
                         category: selectedBlog.category,
                         blog_structure: selectedBlog.blog_structure
                       }}
+                      categoryLabel={categoryLabels[selectedBlog.category as keyof typeof categoryLabels]}
                       className="max-w-none"
                     />
                   </div>
@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import BlogPostList from '@/components/blog/BlogPostList';
+import { ArrowLeft, Rss } from 'lucide-react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { BlogArchiveKind, buildBlogArchiveMeta } from '@/utils/blogSeo';
+import { blogFeedUrl } from '@/utils/blogFeed';
+import { TaxonomyTerm, fetchTaxonomyTerm } from '@/utils/blogTaxonomy';
+import { useDocumentMeta } from '@/hooks/useDocumentMeta';
+
+interface BlogArchiveProps {
+  kind: BlogArchiveKind;
+}
+
+/** Published posts in one category (/blog/category/:slug) or with one tag (/blog/tag/:slug). */
+const BlogArchive: React.FC<BlogArchiveProps> = ({ kind }) => {
+  const { slug } = useParams<{ slug: string }>();
+  const [term, setTerm] = useState<TaxonomyTerm | null>(null);
+  const [termLoading, setTermLoading] = useState(true);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!slug) return;
+    let cancelled = false;
+
+    const fetchTerm = async () => {
+      setTermLoading(true);
+      try {
+        const found = await fetchTaxonomyTerm(kind === 'category' ? 'categories' : 'tags', slug);
+        if (!cancelled) setTerm(found);
+      } catch (error) {
+        console.error(`Error fetching ${kind}:`, error);
+        if (!cancelled) setTerm(null);
+      } finally {
+        if (!cancelled) setTermLoading(false);
+      }
+    };
+
+    fetchTerm();
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, slug]);
+
+  const meta = useMemo(
+    () => term ? buildBlogArchiveMeta(kind, term, window.location.origin) : null,
+    [kind, term]
+  );
+  useDocumentMeta(meta);
+
+  if (termLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div>Loading articles...</div>
+      </div>
+    );
+  }
+
+  if (!term) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold mb-4">{kind === 'category' ? 'Category' : 'Tag'} not found</h1>
+          <p className="text-muted-foreground mb-6">There are no articles filed under this name.</p>
+          <Button variant="outline" onClick={() => navigate('/blog')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Blogs
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-4xl mx-auto">
+        <Button variant="outline" onClick={() => navigate('/blog')} className="mb-6">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Blogs
+        </Button>
+
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <p className="text-sm uppercase tracking-wide text-muted-foreground mb-2">
+              {kind === 'category' ? 'Category' : 'Tag'}
+            </p>
+            <h1 className="text-4xl font-bold mb-4">{term.name}</h1>
+            {term.description && (
+              <p className="text-xl text-muted-foreground">{term.description}</p>
+            )}
+          </div>
+          {kind === 'category' && (
+            <Button variant="outline" asChild>
+              <a href={blogFeedUrl('rss', term.slug)} target="_blank" rel="noopener noreferrer">
+                <Rss className="w-4 h-4 mr-2" />
+                RSS Feed
+              </a>
+            </Button>
+          )}
+        </div>
+
+        {/* Tag archives filter through blog_tags by the tag's id */}
+        <BlogPostList
+          filters={{
+            status: 'published',
+            category: kind === 'category' ? term.slug : null,
+            tagId: kind === 'tag' ? term.id : null
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BlogArchive;
@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import BlogPostList from '@/components/blog/BlogPostList';
+import { ArrowLeft } from 'lucide-react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { buildBlogAuthorMeta } from '@/utils/blogSeo';
+import { AuthorProfile, SOCIAL_LABELS, SOCIAL_NETWORKS, fetchAuthorProfile, parseSocialLinks } from '@/utils/authorProfiles';
+import { useDocumentMeta } from '@/hooks/useDocumentMeta';
+
+/** An author's profile and published posts (/blog/author/:id). */
+const BlogAuthor = () => {
+  const { id } = useParams<{ id: string }>();
+  const [author, setAuthor] = useState<AuthorProfile | null>(null);
+  const [authorLoading, setAuthorLoading] = useState(true);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+
+    const fetchAuthor = async () => {
+      setAuthorLoading(true);
+      try {
+        const found = await fetchAuthorProfile(id);
+        if (!cancelled) setAuthor(found);
+      } catch (error) {
+        console.error('Error fetching author:', error);
+        if (!cancelled) setAuthor(null);
+      } finally {
+        if (!cancelled) setAuthorLoading(false);
+      }
+    };
+
+    fetchAuthor();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const meta = useMemo(
+    () => author ? buildBlogAuthorMeta(author, window.location.origin) : null,
+    [author]
+  );
+  useDocumentMeta(meta);
+
+  const socialLinks = useMemo(() => parseSocialLinks(author?.social_links), [author]);
+
+  if (authorLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div>Loading articles...</div>
+      </div>
+    );
+  }
+
+  if (!author) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold mb-4">Author not found</h1>
+          <p className="text-muted-foreground mb-6">There is no author with this profile.</p>
+          <Button variant="outline" onClick={() => navigate('/blog')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Blogs
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-4xl mx-auto">
+        <Button variant="outline" onClick={() => navigate('/blog')} className="mb-6">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Blogs
+        </Button>
+
+        <div className="mb-8 flex items-start gap-6">
+          <Avatar className="h-20 w-20">
+            {author.avatar_url && <AvatarImage src={author.avatar_url} alt={author.display_name} />}
+            <AvatarFallback className="text-2xl">{author.display_name.charAt(0).toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <div>
+            <p className="text-sm uppercase tracking-wide text-muted-foreground mb-2">Author</p>
+            <h1 className="text-4xl font-bold mb-4">{author.display_name}</h1>
+            {author.bio && (
+              <p className="text-xl text-muted-foreground mb-4 whitespace-pre-line">{author.bio}</p>
+            )}
+            {Object.keys(socialLinks).length > 0 && (
+              <div className="flex flex-wrap gap-2" data-testid="author-social-links">
+                {SOCIAL_NETWORKS.filter((network) => socialLinks[network]).map((network) => (
+                  <Button key={network} variant="outline" size="sm" asChild>
+                    <a href={socialLinks[network]} target="_blank" rel="noopener noreferrer me">
+                      {SOCIAL_LABELS[network]}
+                    </a>
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <BlogPostList filters={{ status: 'published', authorId: author.id }} />
+      </div>
+    </div>
+  );
+};
+
+export default BlogAuthor;
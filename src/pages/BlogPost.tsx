@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Download } from 'lucide-react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import BlogRenderer from '@/components/blog/BlogRenderer';
+import RelatedPosts from '@/components/blog/RelatedPosts';
+import BlogComments from '@/components/blog/BlogComments';
+import { BlogStructure, parseBlogStructure } from '@/utils/blogSchema';
+import { buildPrintDocument } from '@/utils/blogExport';
+import { blogArchivePath, buildBlogPostMeta } from '@/utils/blogSeo';
+import { BlogTag, categoryLabel, fetchBlogTags } from '@/utils/blogTaxonomy';
+import { AuthorProfile, fetchAuthorProfile } from '@/utils/authorProfiles';
+import { rememberLastRead } from '@/utils/relatedPosts';
+import { useDocumentMeta } from '@/hooks/useDocumentMeta';
+import { useBlogTaxonomy } from '@/hooks/useBlogTaxonomy';
+import { useBlogReadTracking } from '@/hooks/useBlogReadTracking';
+
+interface BlogPostData {
+  id: string;
+  title: string;
+  slug: string;
+  content: string;
+  excerpt: string;
+  category: string;
+  featured_image_url: string;
+  created_at: string;
+  updated_at?: string | null;
+  publish_at?: string | null;
+  blog_structure?: BlogStructure | null; // Validated by parseBlogStructure on load
+  author_id?: string | null;
+}
+
+const BlogPost = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [blog, setBlog] = useState<BlogPostData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [tags, setTags] = useState<BlogTag[]>([]);
+  const [author, setAuthor] = useState<AuthorProfile | null>(null);
+  const navigate = useNavigate();
+  const { categories } = useBlogTaxonomy();
+  const articleRef = useRef<HTMLDivElement>(null);
+  useBlogReadTracking(blog?.slug ?? null, articleRef);
+
+  useEffect(() => {
+    if (!slug) return;
+
+    const fetchBlog = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('blogs')
+          .select('*')
+          .eq('slug', slug)
+          .eq('status', 'published')
+          .maybeSingle();
+
+        if (error) throw error;
+        setBlog(data ? { ...data, blog_structure: parseBlogStructure(data.blog_structure) } as BlogPostData : null);
+      } catch (error) {
+        console.error('Error fetching blog:', error);
+        setBlog(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBlog();
+  }, [slug]);
+
+  useEffect(() => {
+    if (blog) rememberLastRead(blog);
+  }, [blog]);
+
+  const blogId = blog?.id;
+  useEffect(() => {
+    if (!blogId) return;
+    let cancelled = false;
+
+    fetchBlogTags(blogId)
+      .then(result => {
+        if (!cancelled) setTags(result);
+      })
+      .catch(error => console.error('Error fetching blog tags:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [blogId]);
+
+  const authorId = blog?.author_id;
+  useEffect(() => {
+    setAuthor(null);
+    if (!authorId) return;
+    let cancelled = false;
+
+    fetchAuthorProfile(authorId)
+      .then(result => {
+        if (!cancelled) setAuthor(result);
+      })
+      .catch(error => console.error('Error fetching blog author:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authorId]);
+
+  const meta = useMemo(
+    () => blog ? buildBlogPostMeta({ ...blog, author }, window.location.origin) : null,
+    [blog, author]
+  );
+  useDocumentMeta(meta);
+
+  const handleDownloadPDF = (post: BlogPostData) => {
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(buildPrintDocument(post));
+      printWindow.document.close();
+
+      // Wait for images to load before printing
+      printWindow.onload = () => {
+        setTimeout(() => {
+          printWindow.print();
+        }, 1000);
+      };
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div>Loading blog...</div>
+      </div>
+    );
+  }
+
+  if (!blog) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold mb-4">Post not found</h1>
+          <p className="text-muted-foreground mb-6">This article does not exist or is no longer published.</p>
+          <Button variant="outline" onClick={() => navigate('/blog')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Blogs
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/blog')}
+            className="flex items-center"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Blogs
+          </Button>
+          <Button
+            onClick={() => handleDownloadPDF(blog)}
+            className="flex items-center"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download PDF
+          </Button>
+        </div>
+
+        <div ref={articleRef}>
+          <BlogRenderer
+            blog={{
+              title: blog.title,
+              content: blog.content,
+              excerpt: blog.excerpt,
+              featured_image_url: blog.featured_image_url,
+              created_at: blog.created_at,
+              category: blog.category,
+              blog_structure: blog.blog_structure
+            }}
+            author={author}
+            categoryLabel={categoryLabel(categories, blog.category)}
+            className="prose prose-lg max-w-none"
+          />
+        </div>
+
+        <div className="mt-8 pt-6 border-t flex flex-wrap items-center gap-2" data-testid="blog-post-taxonomy">
+          <span className="text-sm text-muted-foreground mr-1">Filed under</span>
+          <Link to={blogArchivePath('category', blog.category)}>
+            <Badge variant="secondary">{categoryLabel(categories, blog.category)}</Badge>
+          </Link>
+          {tags.map(tag => (
+            <Link key={tag.id} to={blogArchivePath('tag', tag.slug)}>
+              <Badge variant="outline">#{tag.name}</Badge>
+            </Link>
+          ))}
+        </div>
+
+        <RelatedPosts source={blog} />
+
+        <BlogComments blogId={blog.id} />
+      </div>
+    </div>
+  );
+};
+
+export default BlogPost;
@@ -3,6 +3,7 @@ import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { ArrowLeft, BookOpen, Code, Settings, HelpCircle, ChevronRight } from "lucide-react";
+import { sanitizeHtml } from "@/utils/htmlSanitizer";
 
 const Docs = () => {
   const [activeSection, setActiveSection] = useState("getting-started");
@@ -303,7 +304,7 @@ const prediction = await client.predict({
               <div 
                 className="prose prose-lg max-w-none"
                 dangerouslySetInnerHTML={{ 
-                  __html: content[activeSection as keyof typeof content]?.content || "" 
+                  __html: sanitizeHtml(content[activeSection as keyof typeof content]?.content) 
                 }}
               />
             </Card>
@@ -4,16 +4,13 @@ import userEvent from '@testing-library/user-event';
 import Blog from '../Blog';
 import { TestWrapper } from '../../test/utils';
 import { supabase } from '../../integrations/supabase/client';
+import { mockQuery } from '../../test/mocks/supabaseQuery';
 
 // Mock Supabase
 vi.mock('../../integrations/supabase/client', () => ({
   supabase: {
     from: vi.fn(() => ({
-      select: vi.fn(() => ({
-        eq: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ data: [], error: null }))
-        }))
-      }))
+      select: vi.fn(() => mockQuery({ data: [] }))
     }))
   }
 }));
@@ -183,11 +180,7 @@ describe('Blog Page Enhanced Tests', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        eq: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ data: mockBlogs, error: null }))
-        }))
-      }))
+      select: vi.fn(() => mockQuery({ data: mockBlogs }))
     }));
   });
 
@@ -460,11 +453,7 @@ describe('Blog Page Enhanced Tests', () => {
 
   it('handles error state gracefully', async () => {
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        eq: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ data: null, error: { message: 'Database error' } }))
-        }))
-      }))
+      select: vi.fn(() => mockQuery({ data: null, error: { message: 'Database error' } }))
     }));
 
     render(
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import BlogArchive from '../BlogArchive';
+import { supabase } from '../../integrations/supabase/client';
+import { mockQuery } from '../../test/mocks/supabaseQuery';
+
+vi.mock('../../integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn()
+  }
+}));
+
+const categories = [
+  { id: 'c1', slug: 'ai', name: 'Artificial Intelligence', description: 'Models, agents and tooling', sort_order: 0 },
+  { id: 'c2', slug: 'business', name: 'Business', description: null, sort_order: 1 }
+];
+
+const tags = [
+  { id: 't1', slug: 'llm', name: 'LLM', description: null, sort_order: 0 }
+];
+
+const blogs = [
+  {
+    id: 'b1', title: 'Agents in Production', slug: 'agents-in-production', excerpt: 'Shipping agents',
+    category: 'ai', status: 'published', created_at: '2024-03-01T00:00:00Z', blog_tags: [{ tag_id: 't1' }]
+  },
+  {
+    id: 'b2', title: 'Quarterly Planning', slug: 'quarterly-planning', excerpt: 'Planning with data',
+    category: 'business', status: 'published', created_at: '2024-02-01T00:00:00Z', blog_tags: []
+  }
+];
+
+const blogQueries: ReturnType<typeof mockQuery>[] = [];
+
+const renderArchive = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/blog/category/:slug" element={<BlogArchive kind="category" />} />
+        <Route path="/blog/tag/:slug" element={<BlogArchive kind="tag" />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('BlogArchive Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    blogQueries.length = 0;
+    const data: Record<string, unknown[]> = { categories, tags, blogs };
+    (supabase.from as Mock).mockImplementation((table: string) => ({
+      select: vi.fn(() => {
+        const query = mockQuery({ data: data[table] || [] });
+        if (table === 'blogs') blogQueries.push(query);
+        return query;
+      })
+    }));
+  });
+
+  it('lists the published posts in a category with its name and description', async () => {
+    renderArchive('/blog/category/ai');
+
+    await waitFor(() => {
+      expect(screen.getByText('Agents in Production')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('heading', { name: 'Artificial Intelligence' })).toBeInTheDocument();
+    expect(screen.getByText('Models, agents and tooling')).toBeInTheDocument();
+    expect(screen.queryByText('Quarterly Planning')).not.toBeInTheDocument();
+    expect(document.title).toBe('Artificial Intelligence | Hibiz.ai Blog');
+  });
+
+  it('lists posts with a tag through the blog_tags relation', async () => {
+    renderArchive('/blog/tag/llm');
+
+    await waitFor(() => {
+      expect(screen.getByText('Agents in Production')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('Quarterly Planning')).not.toBeInTheDocument();
+    expect(blogQueries).toHaveLength(1);
+    expect(blogQueries[0].eq).toHaveBeenCalledWith('blog_tags.tag_id', 't1');
+  });
+
+  it('shows a not found state for unknown slugs without loading posts', async () => {
+    renderArchive('/blog/tag/unknown');
+
+    await waitFor(() => {
+      expect(screen.getByText('Tag not found')).toBeInTheDocument();
+    });
+    expect(blogQueries).toHaveLength(0);
+  });
+});
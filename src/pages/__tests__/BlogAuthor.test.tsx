@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import BlogAuthor from '../BlogAuthor';
+import { supabase } from '../../integrations/supabase/client';
+import { mockQuery } from '../../test/mocks/supabaseQuery';
+
+vi.mock('../../integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn()
+  }
+}));
+
+const author_profiles = [
+  {
+    id: 'u1', display_name: 'Ada Lovelace', bio: 'Writes about analytical engines.', avatar_url: null,
+    social_links: { github: 'https://github.com/ada', twitter: 'javascript:alert(1)' }
+  }
+];
+
+const blogs = [
+  {
+    id: 'b1', title: 'Notes on the Engine', slug: 'notes-on-the-engine', excerpt: 'Annotations',
+    category: 'ai', status: 'published', author_id: 'u1', created_at: '2024-03-01T00:00:00Z'
+  },
+  {
+    id: 'b2', title: 'Quarterly Planning', slug: 'quarterly-planning', excerpt: 'Planning with data',
+    category: 'business', status: 'published', author_id: 'u2', created_at: '2024-02-01T00:00:00Z'
+  }
+];
+
+const blogQueries: ReturnType<typeof mockQuery>[] = [];
+
+const renderAuthor = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/blog/author/:id" element={<BlogAuthor />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('BlogAuthor Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    blogQueries.length = 0;
+    const data: Record<string, unknown[]> = { author_profiles, blogs };
+    (supabase.from as Mock).mockImplementation((table: string) => ({
+      select: vi.fn(() => {
+        const query = mockQuery({ data: data[table] || [] });
+        if (table === 'blogs') blogQueries.push(query);
+        return query;
+      })
+    }));
+  });
+
+  it('shows the profile with safe social links and lists the author\'s posts', async () => {
+    renderAuthor('/blog/author/u1');
+
+    await waitFor(() => {
+      expect(screen.getByText('Notes on the Engine')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('heading', { name: 'Ada Lovelace' })).toBeInTheDocument();
+    expect(screen.getByText('Writes about analytical engines.')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'GitHub' })).toHaveAttribute('href', 'https://github.com/ada');
+    expect(screen.queryByRole('link', { name: 'X / Twitter' })).not.toBeInTheDocument();
+    expect(screen.queryByText('Quarterly Planning')).not.toBeInTheDocument();
+    expect(blogQueries[0].eq).toHaveBeenCalledWith('author_id', 'u1');
+    expect(document.title).toBe('Ada Lovelace | Hibiz.ai Blog');
+  });
+
+  it('shows a not found state for unknown authors without loading posts', async () => {
+    renderAuthor('/blog/author/missing');
+
+    await waitFor(() => {
+      expect(screen.getByText('Author not found')).toBeInTheDocument();
+    });
+    expect(blogQueries).toHaveLength(0);
+  });
+});
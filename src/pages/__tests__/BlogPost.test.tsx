@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import BlogPost from '../BlogPost';
+import { supabase } from '../../integrations/supabase/client';
+import { mockQuery } from '../../test/mocks/supabaseQuery';
+
+const { mockNavigate } = vi.hoisted(() => ({ mockNavigate: vi.fn() }));
+
+vi.mock('react-router-dom', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('react-router-dom')>();
+  return {
+    ...actual,
+    useNavigate: vi.fn(() => mockNavigate),
+  };
+});
+
+vi.mock('../../integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+    functions: {
+      invoke: vi.fn(() => Promise.resolve({ data: { recorded: true }, error: null }))
+    }
+  }
+}));
+
+// Mock BlogRenderer
+vi.mock('../../components/blog/BlogRenderer', () => ({
+  default: ({ blog, categoryLabel }: { blog: { title: string; content: string; blog_structure?: unknown }; categoryLabel?: string }) => (
+    <div data-testid="blog-renderer">
+      <h1>{blog.title}</h1>
+      <span data-testid="renderer-category">{categoryLabel}</span>
+      <div>{blog.content}</div>
+      {blog.blog_structure && <div data-testid="structured-content">Structured Content</div>}
+    </div>
+  )
+}));
+
+const mockBlog = {
+  id: '1',
+  title: 'Featured AI Article',
+  slug: 'featured-ai-article',
+  content: 'Content about AI',
+  excerpt: 'AI excerpt',
+  category: 'ai-technology',
+  status: 'published',
+  featured: true,
+  featured_image_url: 'https://cdn.test/ai-featured.jpg',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-05T00:00:00Z',
+  blog_structure: {
+    title: 'Featured AI Article',
+    blocks: [
+      {
+        id: 'block-1',
+        type: 'hero',
+        content: {
+          text: 'AI is transforming the world'
+        }
+      }
+    ]
+  }
+};
+
+// The post comes from the first `blogs` query (later ones list related posts);
+// categories and tags come from their own tables
+const mockTables = (blog: unknown, tables: Record<string, unknown[]> = {}) => {
+  const blogQuery = mockQuery({ data: blog ? [blog] : [] });
+  let blogSelects = 0;
+  (supabase.from as Mock).mockImplementation((table: string) => ({
+    select: vi.fn(() => {
+      if (table !== 'blogs') return mockQuery({ data: tables[table] || [] });
+      return blogSelects++ === 0 ? blogQuery : mockQuery({ data: blog ? [blog] : [] });
+    })
+  }));
+  return blogQuery;
+};
+
+const renderPost = (slug = 'featured-ai-article') =>
+  render(
+    <MemoryRouter initialEntries={[`/blog/${slug}`]}>
+      <Routes>
+        <Route path="/blog/:slug" element={<BlogPost />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('BlogPost Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads the published post for the slug in the URL', async () => {
+    const blogQuery = mockTables(mockBlog);
+
+    renderPost();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('blog-renderer')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Content about AI')).toBeInTheDocument();
+    expect(screen.getByTestId('structured-content')).toBeInTheDocument();
+    expect(blogQuery.eq).toHaveBeenCalledWith('slug', 'featured-ai-article');
+    expect(blogQuery.eq).toHaveBeenCalledWith('status', 'published');
+  });
+
+  it('records an anonymous view of the post', async () => {
+    mockTables(mockBlog);
+
+    renderPost();
+
+    await waitFor(() => {
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('track-blog-event', {
+        body: { slug: 'featured-ai-article', sessionId: expect.any(String), type: 'view', depth: 0 }
+      });
+    });
+  });
+
+  it('sets document title, description, canonical and social tags', async () => {
+    mockTables(mockBlog);
+
+    const { unmount } = renderPost();
+
+    await waitFor(() => {
+      expect(document.title).toBe('Featured AI Article | Hibiz.ai Blog');
+    });
+
+    const meta = (selector: string) => document.head.querySelector(selector)?.getAttribute('content');
+    expect(meta('meta[name="description"]')).toBe('AI excerpt');
+    expect(meta('meta[property="og:title"]')).toBe('Featured AI Article | Hibiz.ai Blog');
+    expect(meta('meta[property="og:type"]')).toBe('article');
+    expect(meta('meta[property="og:image"]')).toBe('https://cdn.test/ai-featured.jpg');
+    expect(meta('meta[name="twitter:card"]')).toBe('summary_large_image');
+    expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href'))
+      .toBe(`${window.location.origin}/blog/featured-ai-article`);
+
+    const jsonLd = JSON.parse(document.getElementById('document-meta-json-ld')?.textContent || '{}');
+    expect(jsonLd).toMatchObject({ '@type': 'Article', headline: 'Featured AI Article', dateModified: '2024-01-05T00:00:00Z' });
+
+    unmount();
+    expect(document.getElementById('document-meta-json-ld')).toBeNull();
+    expect(document.head.querySelector('link[rel="canonical"]')).toBeNull();
+  });
+
+  it('links the category and tags to their archive pages', async () => {
+    mockTables(mockBlog, {
+      categories: [{ id: 'c1', slug: 'ai-technology', name: 'AI & Technology', sort_order: 0 }],
+      tags: [
+        { id: 't1', slug: 'llm', name: 'LLM', sort_order: 0, blog_tags: [{ blog_id: '1' }] },
+        { id: 't2', slug: 'robotics', name: 'Robotics', sort_order: 1, blog_tags: [{ blog_id: '2' }] }
+      ]
+    });
+
+    renderPost();
+
+    await waitFor(() => {
+      expect(screen.getByText('#LLM')).toBeInTheDocument();
+    });
+    const taxonomy = screen.getByTestId('blog-post-taxonomy');
+    expect(within(taxonomy).getByText('AI & Technology').closest('a')).toHaveAttribute('href', '/blog/category/ai-technology');
+    // The article header names the category the same way
+    expect(screen.getByTestId('renderer-category')).toHaveTextContent('AI & Technology');
+    expect(screen.getByText('#LLM').closest('a')).toHaveAttribute('href', '/blog/tag/llm');
+    expect(screen.queryByText('#Robotics')).not.toBeInTheDocument();
+  });
+
+  it('suggests related posts after the article and remembers it as last read', async () => {
+    mockTables(mockBlog, {
+      blog_related_posts: [
+        {
+          blog_id: '1',
+          score: 0.8,
+          related: {
+            id: '2', title: 'Agents in Production', slug: 'agents-in-production', excerpt: 'Shipping agents',
+            category: 'ai-technology', created_at: '2024-02-01T00:00:00Z'
+          }
+        },
+        { blog_id: '1', score: 0.4, related: null }
+      ]
+    });
+
+    renderPost();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('related-posts')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Agents in Production').closest('a')).toHaveAttribute('href', '/blog/agents-in-production');
+    expect(JSON.parse(sessionStorage.getItem('blog:last-read') || '{}')).toEqual({
+      id: '1', category: 'ai-technology', title: 'Featured AI Article', slug: 'featured-ai-article'
+    });
+  });
+
+  it('shows a not found state for unknown slugs', async () => {
+    mockTables(null);
+
+    renderPost('missing-post');
+
+    await waitFor(() => {
+      expect(screen.getByText('Post not found')).toBeInTheDocument();
+    });
+  });
+
+  it('returns to the blog listing', async () => {
+    const user = userEvent.setup();
+    mockTables(mockBlog);
+
+    renderPost();
+
+    await waitFor(() => {
+      expect(screen.getByText('Back to Blogs')).toBeInTheDocument();
+    });
+
+    await user.click(screen.getByText('Back to Blogs'));
+
+    expect(mockNavigate).toHaveBeenCalledWith('/blog');
+  });
+
+  it('generates PDF with structured content', async () => {
+    const user = userEvent.setup();
+    const mockWindow = {
+      document: {
+        write: vi.fn(),
+        close: vi.fn()
+      },
+      print: vi.fn(),
+      onload: null
+    };
+    vi.spyOn(window, 'open').mockReturnValue(mockWindow as unknown as Window);
+    mockTables(mockBlog);
+
+    renderPost();
+
+    await waitFor(() => {
+      expect(screen.getByText('Download PDF')).toBeInTheDocument();
+    });
+
+    await user.click(screen.getByText('Download PDF'));
+
+    expect(window.open).toHaveBeenCalledWith('', '_blank');
+    expect(mockWindow.document.write).toHaveBeenCalledWith(
+      expect.stringContaining('AI is transforming the world')
+    );
+  });
+});
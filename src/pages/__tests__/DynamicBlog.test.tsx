@@ -1,16 +1,19 @@
 import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import DynamicBlog from '../DynamicBlog';
 import { TestWrapper } from '../../test/utils';
 import { supabase } from '../../integrations/supabase/client';
+import { mockQuery } from '../../test/mocks/supabaseQuery';
+
+const { mockNavigate } = vi.hoisted(() => ({ mockNavigate: vi.fn() }));
 
 // Mock react-router-dom but keep original exports (so BrowserRouter is available)
 vi.mock('react-router-dom', async (importOriginal: any) => {
   const actual = await importOriginal();
   return {
     ...actual,
-    useNavigate: vi.fn(() => vi.fn()),
+    useNavigate: vi.fn(() => mockNavigate),
   };
 });
 
@@ -18,12 +21,9 @@ vi.mock('react-router-dom', async (importOriginal: any) => {
 vi.mock('../../integrations/supabase/client', () => ({
   supabase: {
     from: vi.fn(() => ({
-      select: vi.fn(() => ({
-        eq: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ data: [], error: null }))
-        }))
-      }))
+      select: vi.fn(() => mockQuery({ data: [] }))
     })),
+    rpc: vi.fn(() => Promise.resolve({ data: [], error: null })),
     channel: vi.fn(() => ({
       on: vi.fn(() => ({
         subscribe: vi.fn()
@@ -38,21 +38,6 @@ vi.mock('../../scripts/add-featured-articles', () => ({
   addFeaturedArticles: vi.fn(() => Promise.resolve())
 }));
 
-// Mock BlogRenderer
-vi.mock('../../components/blog/BlogRenderer', () => ({
-  default: ({ blog }: any) => (
-    <div data-testid="blog-renderer">
-      <h1>{blog.title}</h1>
-      <p>{blog.content}</p>
-      {blog.blog_structure && (
-        <div data-testid="structured-content">
-          Structured blog content
-        </div>
-      )}
-    </div>
-  )
-}));
-
 const mockBlogs = [
   {
     id: '1',
@@ -119,12 +104,10 @@ const mockBlogs = [
 describe('DynamicBlog Component', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        eq: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ data: mockBlogs, error: null }))
-        }))
-      }))
+    sessionStorage.clear();
+    (supabase.rpc as Mock).mockImplementation(() => Promise.resolve({ data: [], error: null }));
+    (supabase.from as Mock).mockImplementation((table: string) => ({
+      select: vi.fn(() => mockQuery({ data: table === 'blogs' ? mockBlogs : [] }))
     }));
   });
 
@@ -200,7 +183,7 @@ describe('DynamicBlog Component', () => {
     });
   });
 
-  it('opens blog in reading view when clicked', async () => {
+  it('opens the post page when a blog is clicked', async () => {
     const user = userEvent.setup();
     
     render(
@@ -210,25 +193,15 @@ describe('DynamicBlog Component', () => {
     );
 
     await waitFor(() => {
-      expect(screen.getAllByText('Featured AI Article').length).toBeGreaterThan(0);
+      expect(screen.getAllByText('Industry Trends').length).toBeGreaterThan(0);
     });
 
-    // Click on blog card
-  const titleElems = screen.getAllByText('Featured AI Article');
-  const blogTitleElem = titleElems.find(el => el.className && el.className.includes('text-xl')) || titleElems[0];
-  const blogCard = blogTitleElem?.closest('[role="generic"]') || blogTitleElem?.closest('div');
-    if (blogCard) {
-      await user.click(blogCard);
-
-      await waitFor(() => {
-        expect(screen.getByText('Back to Blogs')).toBeInTheDocument();
-        expect(screen.getByText('Download PDF')).toBeInTheDocument();
-        expect(screen.getByTestId('blog-renderer')).toBeInTheDocument();
-      });
-    }
+    await user.click(screen.getByText('Industry Trends'));
+
+    expect(mockNavigate).toHaveBeenCalledWith('/blog/industry-trends');
   });
 
-  it('returns to blog listing from reading view', async () => {
+  it('links featured articles to their post page', async () => {
     const user = userEvent.setup();
     
     render(
@@ -237,93 +210,150 @@ describe('DynamicBlog Component', () => {
       </TestWrapper>
     );
 
-    // First click on a blog
     await waitFor(() => {
       expect(screen.getAllByText('Featured AI Article').length).toBeGreaterThan(0);
     });
 
-  const titleElems = screen.getAllByText('Featured AI Article');
-  const blogTitleElem = titleElems.find(el => el.className && el.className.includes('text-xl')) || titleElems[0];
-  const blogCard = blogTitleElem?.closest('[role="generic"]') || blogTitleElem?.closest('div');
-    if (blogCard) {
-      await user.click(blogCard);
-
-      await waitFor(() => {
-        expect(screen.getByText('Back to Blogs')).toBeInTheDocument();
-      });
+    // The last match is the entry in the featured sidebar
+    const titles = screen.getAllByText('Featured AI Article');
+    await user.click(titles[titles.length - 1]);
 
-      // Click back to blogs
-      const backButton = screen.getByText('Back to Blogs');
-      await user.click(backButton);
-
-      await waitFor(() => {
-        expect(screen.getByText('Blog')).toBeInTheDocument();
-        expect(screen.queryByText('Back to Blogs')).not.toBeInTheDocument();
-      });
-    }
+    expect(mockNavigate).toHaveBeenCalledWith('/blog/featured-ai-article');
   });
 
-  it('handles PDF download functionality', async () => {
+  it('searches published posts and highlights matches', async () => {
     const user = userEvent.setup();
-    
-    // Mock window.open
-    const mockOpen = vi.fn();
-    window.open = mockOpen;
-    
+    (supabase.rpc as Mock).mockImplementation(() => Promise.resolve({
+      data: [{
+        ...mockBlogs[2],
+        rank: 0.4,
+        title_highlight: '<mark>Industry</mark> Trends',
+        snippet: 'Latest <mark>industry</mark> content',
+        total_count: 1
+      }],
+      error: null
+    }));
+
     render(
       <TestWrapper>
         <DynamicBlog />
       </TestWrapper>
     );
 
-    // Click on blog and then download
     await waitFor(() => {
-      expect(screen.getAllByText('Featured AI Article').length).toBeGreaterThan(0);
+      expect(screen.getByPlaceholderText('Search articles...')).toBeInTheDocument();
+    });
+
+    await user.type(screen.getByPlaceholderText('Search articles...'), 'industry');
+
+    await waitFor(() => {
+      expect(screen.getByText('1 result for "industry"')).toBeInTheDocument();
     });
+    expect(supabase.rpc).toHaveBeenLastCalledWith('search_blogs', expect.objectContaining({
+      search_query: 'industry',
+      status_filter: 'published'
+    }));
+    expect(screen.getAllByText('industry', { selector: 'mark' })).toHaveLength(1);
 
-  const titleElems = screen.getAllByText('Featured AI Article');
-  const blogTitleElem = titleElems.find(el => el.className && el.className.includes('text-xl')) || titleElems[0];
-  const blogCard = blogTitleElem?.closest('[role="generic"]') || blogTitleElem?.closest('div');
-    if (blogCard) {
-      await user.click(blogCard);
+    await user.click(screen.getByText('Industry', { selector: 'mark' }));
+    expect(mockNavigate).toHaveBeenCalledWith('/blog/industry-trends');
+  });
 
-      await waitFor(() => {
-        const downloadButton = screen.getByText('Download PDF');
-        expect(downloadButton).toBeInTheDocument();
-      });
+  it('labels categories by their managed names and links tags in use', async () => {
+    const tables: Record<string, unknown[]> = {
+      blogs: mockBlogs,
+      categories: [
+        { id: 'c1', slug: 'business-insights', name: 'Business Strategy', sort_order: 0 },
+        { id: 'c2', slug: 'ai-technology', name: 'AI & Technology', sort_order: 1 }
+      ],
+      tags: [
+        { id: 't1', slug: 'llm', name: 'LLM', sort_order: 0 },
+        { id: 't2', slug: 'unused', name: 'Unused', sort_order: 1 }
+      ],
+      blog_tags: [{ tag_id: 't1' }, { tag_id: 't1' }]
+    };
+    (supabase.from as Mock).mockImplementation((table: string) => ({
+      select: vi.fn(() => mockQuery({ data: tables[table] || [] }))
+    }));
 
-      const downloadButton = screen.getByText('Download PDF');
-      await user.click(downloadButton);
+    render(
+      <TestWrapper>
+        <DynamicBlog />
+      </TestWrapper>
+    );
 
-      expect(mockOpen).toHaveBeenCalledWith('', '_blank');
-    }
+    await waitFor(() => {
+      expect(screen.getByTestId('blog-tag-cloud')).toBeInTheDocument();
+    });
+    // Managed order first, then categories without a row
+    const categoryButtons = screen.getAllByRole('button', { name: /\(\d+\)$/ }).map(button => button.textContent);
+    expect(categoryButtons.slice(0, 3)).toEqual(['All Articles (4)', 'Business Strategy (1)', 'AI & Technology (1)']);
+    expect(screen.getByText('LLM (2)').closest('a')).toHaveAttribute('href', '/blog/tag/llm');
+    expect(screen.queryByText(/Unused/)).not.toBeInTheDocument();
+  });
+
+  it('suggests posts related to the last one read in the sidebar', async () => {
+    sessionStorage.setItem('blog:last-read', JSON.stringify({
+      id: '1', category: 'ai-technology', title: 'Featured AI Article', slug: 'featured-ai-article'
+    }));
+    const tables: Record<string, unknown[]> = {
+      blogs: mockBlogs,
+      blog_related_posts: [{ blog_id: '1', score: 0.6, related: mockBlogs[2] }]
+    };
+    (supabase.from as Mock).mockImplementation((table: string) => ({
+      select: vi.fn(() => mockQuery({ data: tables[table] || [] }))
+    }));
+
+    render(
+      <TestWrapper>
+        <DynamicBlog />
+      </TestWrapper>
+    );
+
+    const sidebar = await screen.findByTestId('related-posts-sidebar');
+    expect(within(sidebar).getByText('Because you read "Featured AI Article"')).toBeInTheDocument();
+    expect(within(sidebar).getByText(mockBlogs[2].title).closest('a')).toHaveAttribute('href', `/blog/${mockBlogs[2].slug}`);
   });
 
-  it('renders structured blog content in reading view', async () => {
+  it('pages the article list by cursor without loading post bodies', async () => {
     const user = userEvent.setup();
-    
+    const posts = Array.from({ length: 10 }, (_, index) => ({
+      ...mockBlogs[2],
+      id: `post-${index}`,
+      slug: `post-${index}`,
+      title: `Paged Post ${index}`,
+      created_at: `2024-02-${String(20 - index).padStart(2, '0')}T00:00:00Z`
+    }));
+    const queries: Array<{ columns: string; query: ReturnType<typeof mockQuery> }> = [];
+    (supabase.from as Mock).mockImplementation(() => ({
+      select: vi.fn((columns: string) => {
+        const query = mockQuery({ data: posts });
+        queries.push({ columns, query });
+        return query;
+      })
+    }));
+
     render(
       <TestWrapper>
         <DynamicBlog />
       </TestWrapper>
     );
 
-    // Select a blog with structured content
     await waitFor(() => {
-      expect(screen.getAllByText('Featured AI Article').length).toBeGreaterThan(0);
+      expect(screen.getByText('Paged Post 8')).toBeInTheDocument();
     });
+    expect(screen.queryByText('Paged Post 9')).not.toBeInTheDocument();
 
-  const titleElems = screen.getAllByText('Featured AI Article');
-  const blogTitleElem = titleElems.find(el => el.className && el.className.includes('text-xl')) || titleElems[0];
-  const blogCard = blogTitleElem?.closest('[role="generic"]') || blogTitleElem?.closest('div');
-    if (blogCard) {
-      await user.click(blogCard);
+    const listQueries = queries.filter(({ columns }) => columns.includes('slug'));
+    expect(listQueries.every(({ columns }) => !columns.includes('content') && !columns.includes('blog_structure'))).toBe(true);
 
-      await waitFor(() => {
-        expect(screen.getByTestId('blog-renderer')).toBeInTheDocument();
-        expect(screen.getByTestId('structured-content')).toBeInTheDocument();
-      });
-    }
+    await user.click(screen.getByText('Load more articles'));
+
+    await waitFor(() => {
+      expect(queries.some(({ query }) => query.or.mock.calls.some(([filter]) =>
+        filter === 'created_at.lt."2024-02-12T00:00:00Z",and(created_at.eq."2024-02-12T00:00:00Z",id.lt."post-8")'
+      ))).toBe(true);
+    });
   });
 
   it('displays featured article images', async () => {
@@ -364,13 +394,8 @@ describe('DynamicBlog Component', () => {
 
   it('handles loading state', () => {
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        eq: vi.fn(() => ({
-          order: vi.fn(() => new Promise(resolve => {
-            // Never resolve to test loading state
-          }))
-        }))
-      }))
+      // Never resolve to test loading state
+      select: vi.fn(() => mockQuery({ data: [], pending: true }))
     }));
 
     render(
@@ -384,13 +409,8 @@ describe('DynamicBlog Component', () => {
 
   it('handles empty featured articles', async () => {
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        eq: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ 
-            data: mockBlogs.map(blog => ({ ...blog, featured: false })), 
-            error: null 
-          }))
-        }))
+      select: vi.fn(() => mockQuery({
+        data: mockBlogs.map(blog => ({ ...blog, featured: false }))
       }))
     }));
 
@@ -405,60 +425,13 @@ describe('DynamicBlog Component', () => {
     });
   });
 
-  it('generates PDF with structured content', async () => {
-    const user = userEvent.setup();
-    
-    // Mock window.open and document methods
-    const mockDocument = {
-      write: vi.fn(),
-      close: vi.fn()
-    };
-    const mockWindow = {
-      document: mockDocument,
-      onload: null,
-      print: vi.fn()
-    };
-    window.open = vi.fn(() => mockWindow as any);
-    
-    render(
-      <TestWrapper>
-        <DynamicBlog />
-      </TestWrapper>
-    );
-
-    // Click blog with structured content
-    await waitFor(() => {
-      expect(screen.getAllByText('Featured AI Article').length).toBeGreaterThan(0);
-    });
-
-    const titleElems = screen.getAllByText('Featured AI Article');
-    const blogTitleElem = titleElems.find(el => el.className && el.className.includes('text-xl')) || titleElems[0];
-    const blogCard = blogTitleElem?.closest('[role="generic"]') || blogTitleElem?.closest('div');
-    if (blogCard) {
-      await user.click(blogCard);
-
-      const downloadButton = await screen.findByText('Download PDF');
-      await user.click(downloadButton);
-
-      expect(window.open).toHaveBeenCalledWith('', '_blank');
-      expect(mockDocument.write).toHaveBeenCalledWith(
-        expect.stringContaining('Featured AI Article')
-      );
-    }
-  });
-
   it('automatically adds featured articles if less than 3', async () => {
     const { addFeaturedArticles } = await import('../../scripts/add-featured-articles');
     
     // Mock fewer than 3 featured articles
     (supabase.from as Mock).mockImplementation(() => ({
-      select: vi.fn(() => ({
-        eq: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ 
-            data: mockBlogs.slice(0, 2).map(blog => ({ ...blog, featured: false })), 
-            error: null 
-          }))
-        }))
+      select: vi.fn(() => mockQuery({
+        data: mockBlogs.slice(0, 2).map(blog => ({ ...blog, featured: false }))
       }))
     }));
 
@@ -0,0 +1,88 @@
+// Bulk upgrade of stored blog_structure JSON to the current schema version.
+// Each row is migrated, validated and written back. Rows that cannot be
+// upgraded, or that validation would have to repair (dropping blocks, fields
+// or links), are left untouched and reported back to the caller.
+
+import { supabase } from '../integrations/supabase/client';
+import type { Json } from '../integrations/supabase/types';
+import { BLOG_SCHEMA_VERSION, validateBlogStructure } from '@/utils/blogSchema';
+import { getBlogStructureVersion, migrateBlogStructure } from '@/utils/blogMigrations';
+
+export interface BlogStructureUpgradeFailure {
+  id: string;
+  title: string;
+  error: string;
+  /** Blocks that validation dropped or repaired, by stored id or position */
+  blockIds: string[];
+}
+
+export interface BlogStructureUpgradeReport {
+  upgraded: number;
+  unchanged: number;
+  failed: BlogStructureUpgradeFailure[];
+}
+
+// Validation errors name blocks by position ("blocks[3]: ..."); map them back to stored ids
+const affectedBlockIds = (structure: Record<string, unknown>, errors: string[]): string[] => {
+  const blocks = Array.isArray(structure.blocks) ? structure.blocks : [];
+  const ids = errors.flatMap(error => {
+    const match = /^blocks\[(\d+)\]/.exec(error);
+    if (!match) return [];
+    const block = blocks[Number(match[1])] as { id?: unknown } | undefined;
+    return [typeof block?.id === 'string' && block.id ? block.id : match[0]];
+  });
+  return [...new Set(ids)];
+};
+
+export const upgradeBlogStructures = async (): Promise<BlogStructureUpgradeReport> => {
+  const { data, error } = await supabase
+    .from('blogs')
+    .select('id, title, blog_structure')
+    .not('blog_structure', 'is', null);
+
+  if (error) {
+    console.error('Error loading blog structures:', error);
+    throw error;
+  }
+
+  const report: BlogStructureUpgradeReport = { upgraded: 0, unchanged: 0, failed: [] };
+
+  for (const row of data || []) {
+    let blockIds: string[] = [];
+    try {
+      const { structure: migrated } = migrateBlogStructure(row.blog_structure, BLOG_SCHEMA_VERSION);
+      const { structure, errors } = validateBlogStructure(migrated);
+
+      if (!structure) {
+        throw new Error(errors.join('; '));
+      }
+
+      // A bulk rewrite must not lose content: only rows that migrate cleanly are persisted
+      if (errors.length > 0) {
+        blockIds = affectedBlockIds(migrated, errors);
+        throw new Error(`Validation would repair the structure: ${errors.join('; ')}`);
+      }
+
+      if (getBlogStructureVersion(row.blog_structure) === BLOG_SCHEMA_VERSION) {
+        report.unchanged++;
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from('blogs')
+        .update({ blog_structure: structure as unknown as Json })
+        .eq('id', row.id);
+
+      if (updateError) throw updateError;
+
+      console.log(`✓ Upgraded blog structure: ${row.title}`);
+      report.upgraded++;
+    } catch (rowError) {
+      const message = rowError instanceof Error ? rowError.message : String(rowError);
+      console.error(`Failed to upgrade blog structure for ${row.title}:`, rowError);
+      report.failed.push({ id: row.id, title: row.title, error: message, blockIds });
+    }
+  }
+
+  return report;
+};
@@ -3,6 +3,7 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { TestWrapper } from '../utils';
 import { supabase } from '../../integrations/supabase/client';
+import { mockQuery } from '../mocks/supabaseQuery';
 
 // Import components
 import BlogManager from '../../components/admin/BlogManager';
@@ -14,12 +15,7 @@ import Blog from '../../pages/Blog';
 vi.mock('../../integrations/supabase/client', () => ({
   supabase: {
     from: vi.fn(() => ({
-      select: vi.fn(() => ({
-        order: vi.fn(() => Promise.resolve({ data: [], error: null })),
-        eq: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ data: [], error: null }))
-        }))
-      })),
+      select: vi.fn(() => mockQuery({ data: [] })),
       insert: vi.fn(() => Promise.resolve({ data: [], error: null })),
       update: vi.fn(() => ({
         eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
@@ -156,9 +152,7 @@ describe('Blog System Integration Tests', () => {
       const mockInsert = vi.fn(() => Promise.resolve({ data: [mockCompleteWorkflow.blog], error: null }));
       
       (supabase.from as Mock).mockImplementation(() => ({
-        select: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ data: [], error: null }))
-        })),
+        select: vi.fn(() => mockQuery({ data: [] })),
         insert: mockInsert,
         update: vi.fn(() => ({
           eq: vi.fn(() => Promise.resolve({ data: [], error: null }))
@@ -220,9 +214,7 @@ describe('Blog System Integration Tests', () => {
       }));
 
       (supabase.from as Mock).mockImplementation(() => ({
-        select: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ data: [mockCompleteWorkflow.blog], error: null }))
-        })),
+        select: vi.fn(() => mockQuery({ data: [mockCompleteWorkflow.blog] })),
         insert: vi.fn(() => Promise.resolve({ data: [], error: null })),
         update: mockUpdate,
         delete: vi.fn(() => ({
@@ -299,11 +291,7 @@ describe('Blog System Integration Tests', () => {
       const user = userEvent.setup();
       
       (supabase.from as Mock).mockImplementation(() => ({
-        select: vi.fn(() => ({
-          eq: vi.fn(() => ({
-            order: vi.fn(() => Promise.resolve({ data: [mockCompleteWorkflow.blog], error: null }))
-          }))
-        }))
+        select: vi.fn(() => mockQuery({ data: [mockCompleteWorkflow.blog] }))
       }));
 
       render(
@@ -499,11 +487,7 @@ describe('Blog System Integration Tests', () => {
       window.dispatchEvent(new Event('resize'));
 
       (supabase.from as Mock).mockImplementation(() => ({
-        select: vi.fn(() => ({
-          eq: vi.fn(() => ({
-            order: vi.fn(() => Promise.resolve({ data: [mockCompleteWorkflow.blog], error: null }))
-          }))
-        }))
+        select: vi.fn(() => mockQuery({ data: [mockCompleteWorkflow.blog] }))
       }));
 
       render(
@@ -574,9 +558,7 @@ describe('Blog System Integration Tests', () => {
 
     it('handles network errors in admin interface', async () => {
       (supabase.from as Mock).mockImplementation(() => ({
-        select: vi.fn(() => ({
-          order: vi.fn(() => Promise.resolve({ data: null, error: { message: 'Network error' } }))
-        })),
+        select: vi.fn(() => mockQuery({ data: null, error: { message: 'Network error' } })),
         insert: vi.fn(() => Promise.resolve({ data: null, error: { message: 'Insert failed' } })),
         update: vi.fn(() => ({
           eq: vi.fn(() => Promise.resolve({ data: null, error: { message: 'Update failed' } }))
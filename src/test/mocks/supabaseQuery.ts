@@ -0,0 +1,78 @@
+import { vi } from 'vitest';
+
+type Row = Record<string, unknown>;
+
+interface MockQueryResult {
+  data: unknown;
+  error?: unknown;
+  /** Never settle, to keep a component in its loading state */
+  pending?: boolean;
+}
+
+/**
+ * Chainable stand-in for a Supabase/PostgREST query builder. Every filter and
+ * modifier returns the builder and awaiting it resolves like the real client.
+ * When `data` is an array, `eq`, `in`, `range`, `limit` and `maybeSingle` are
+ * applied to it, so one fixture serves list, count and detail queries.
+ * `eq('relation.column', value)` matches rows whose embedded `relation` array
+ * has such an entry. `or` and `order` are recorded but not applied.
+ */
+export const mockQuery = ({ data, error = null, pending = false }: MockQueryResult) => {
+  const filters: Array<(row: Row) => boolean> = [];
+  let offset = 0;
+  let end: number | null = null;
+  let singleRow = false;
+
+  const resolve = () => {
+    if (error || !Array.isArray(data)) {
+      return { data: error ? null : data, error, count: null };
+    }
+    const matched = (data as Row[]).filter(row => filters.every(filter => filter(row)));
+    if (singleRow) {
+      return { data: matched[0] ?? null, error: null, count: null };
+    }
+    return {
+      data: matched.slice(offset, end === null ? undefined : end + 1),
+      error: null,
+      count: matched.length
+    };
+  };
+
+  const builder = {
+    select: vi.fn((columns?: string, options?: { count?: string }) => builder),
+    eq: vi.fn((column: string, value: unknown) => {
+      const [relation, embedded] = column.split('.');
+      filters.push(embedded
+        ? row => Array.isArray(row[relation]) && (row[relation] as Row[]).some(entry => entry[embedded] === value)
+        : row => row[column] === value);
+      return builder;
+    }),
+    in: vi.fn((column: string, values: unknown[]) => {
+      filters.push(row => values.includes(row[column]));
+      return builder;
+    }),
+    or: vi.fn((filter: string) => builder),
+    order: vi.fn((column: string, options?: { ascending?: boolean }) => builder),
+    range: vi.fn((from: number, to: number) => {
+      offset = from;
+      end = to;
+      return builder;
+    }),
+    limit: vi.fn((count: number) => {
+      end = offset + count - 1;
+      return builder;
+    }),
+    single: vi.fn(() => {
+      singleRow = true;
+      return builder;
+    }),
+    maybeSingle: vi.fn(() => {
+      singleRow = true;
+      return builder;
+    }),
+    then: <T>(onFulfilled?: (value: ReturnType<typeof resolve>) => T, onRejected?: (reason: unknown) => T) =>
+      (pending ? new Promise<ReturnType<typeof resolve>>(() => {}) : Promise.resolve(resolve())).then(onFulfilled, onRejected)
+  };
+
+  return builder;
+};
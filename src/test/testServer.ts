@@ -10,9 +10,15 @@ export const testServer = setupServer(
     const status = url.searchParams.get('status');
     const featured = url.searchParams.get('featured');
     const category = url.searchParams.get('category');
+    const id = url.searchParams.get('id');
 
     let blogs = mockBlogs;
 
+    // Single post opened from a list
+    if (id && id.startsWith('eq.')) {
+      blogs = blogs.filter(blog => blog.id === id.replace('eq.', ''));
+    }
+
     // Filter by status
     if (status === 'eq.published') {
       blogs = blogs.filter(blog => blog.status === 'published');
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { bylineName, parseSocialLinks } from '../authorProfiles';
+
+describe('authorProfiles', () => {
+  it('keeps only known networks with http(s) links', () => {
+    expect(parseSocialLinks({
+      website: ' https://ada.dev ',
+      twitter: 'javascript:alert(1)',
+      github: 'not a url',
+      mastodon: 'https://mastodon.social/@ada'
+    })).toEqual({ website: 'https://ada.dev/' });
+    expect(parseSocialLinks(null)).toEqual({});
+    expect(parseSocialLinks(['https://ada.dev'])).toEqual({});
+  });
+
+  it('prefers the profile name and skips editor placeholders', () => {
+    expect(bylineName({ display_name: 'Ada Lovelace' }, 'Admin')).toBe('Ada Lovelace');
+    expect(bylineName(null, 'Guest Writer')).toBe('Guest Writer');
+    expect(bylineName(null, 'Document Upload')).toBeNull();
+    expect(bylineName(undefined, '  ')).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { analyticsSince, categoryBreakdown, completionRate, summarizeAnalytics } from '../blogAnalytics';
+
+const posts = [
+  { blog_id: 'a', title: 'A', slug: 'a', category: 'ai', views: 30, completions: 15, avg_depth: 80 },
+  { blog_id: 'b', title: 'B', slug: 'b', category: 'business', views: 10, completions: 1, avg_depth: 40 },
+  { blog_id: 'c', title: 'C', slug: 'c', category: 'ai', views: 0, completions: 0, avg_depth: null }
+];
+
+describe('blogAnalytics', () => {
+  it('starts ranges at midnight UTC including today', () => {
+    expect(analyticsSince(7, new Date('2024-03-10T15:30:00Z'))).toBe('2024-03-04T00:00:00.000Z');
+    expect(analyticsSince(1, new Date('2024-03-10T15:30:00Z'))).toBe('2024-03-10T00:00:00.000Z');
+  });
+
+  it('summarizes views, completion rate and view-weighted read depth', () => {
+    expect(summarizeAnalytics(posts)).toEqual({ views: 40, completions: 16, completionRate: 40, averageDepth: 70 });
+    expect(summarizeAnalytics([])).toEqual({ views: 0, completions: 0, completionRate: 0, averageDepth: 0 });
+    expect(completionRate(posts[1])).toBe(10);
+  });
+
+  it('groups posts by category, busiest first', () => {
+    expect(categoryBreakdown(posts)).toEqual([
+      { category: 'ai', views: 30, completions: 15 },
+      { category: 'business', views: 10, completions: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { chartSeries, chartTable, chartToCsv, parseChartCsv } from '../blogCharts';
+import type { ChartData } from '../blogSchema';
+
+const chart: ChartData = {
+  type: 'bar',
+  labels: ['Q1', 'Q2'],
+  data: [1200, 1500],
+  title: 'Revenue',
+  series: [{ name: 'EU', data: [1200, 1500] }, { name: 'US, Canada', data: [800, 950.5] }],
+  xAxisLabel: 'Quarter'
+};
+
+describe('blogCharts', () => {
+  it('treats the data of older charts as one series', () => {
+    expect(chartSeries({ type: 'pie', labels: ['a'], data: [1], title: 'T' })).toEqual([{ name: 'Value', data: [1] }]);
+    expect(chartSeries(chart)).toBe(chart.series);
+  });
+
+  it('parses pasted CSV with a header row into named series', () => {
+    expect(parseChartCsv('Quarter,EU,"US, Canada"\nQ1,"1,200",800\nQ2,1500,950.5')).toEqual({
+      labels: ['Q1', 'Q2'],
+      series: chart.series,
+      errors: []
+    });
+  });
+
+  it('parses headerless and semicolon-separated data', () => {
+    expect(parseChartCsv('Jan\t3\nFeb\t4')).toEqual({
+      labels: ['Jan', 'Feb'],
+      series: [{ name: 'Series 1', data: [3, 4] }],
+      errors: []
+    });
+    expect(parseChartCsv('Mois;Ventes\nJan;1,5').series).toEqual([{ name: 'Ventes', data: [1.5] }]);
+  });
+
+  it('reports unreadable data', () => {
+    expect(parseChartCsv('Month,Visits\nJan,lots\nFeb').errors).toEqual(['Row 2: "lots" is not a number, using 0.']);
+    expect(parseChartCsv('Month,Visits').errors).toEqual(['Only a header row was found; add rows of values below it.']);
+    expect(parseChartCsv('just labels\nno values').labels).toEqual([]);
+  });
+
+  it('round-trips through the editor CSV', () => {
+    const csv = chartToCsv(chart);
+    expect(csv).toBe('Quarter,EU,"US, Canada"\nQ1,1200,800\nQ2,1500,950.5');
+    expect(parseChartCsv(csv).series).toEqual(chart.series);
+  });
+
+  it('tabulates formatted values for exports', () => {
+    expect(chartTable({ ...chart, numberFormat: 'compact' })).toEqual({
+      headers: ['Quarter', 'EU', 'US, Canada'],
+      rows: [['Q1', '1.2K', '800'], ['Q2', '1.5K', '950.5']]
+    });
+  });
+});
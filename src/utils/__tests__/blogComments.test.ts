@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { BlogComment, buildCommentThreads, countComments, validateComment } from '../blogComments';
+
+const comment = (id: string, created_at: string, parent_id: string | null = null) => ({
+  id, parent_id, created_at, blog_id: 'b1', author_name: `Reader ${id}`, body: 'Nice post', status: 'approved'
+}) as BlogComment;
+
+describe('blogComments', () => {
+  it('nests replies under their parents, oldest first', () => {
+    const threads = buildCommentThreads([
+      comment('c3', '2024-01-03T00:00:00Z', 'c1'),
+      comment('c2', '2024-01-02T00:00:00Z'),
+      comment('c1', '2024-01-01T00:00:00Z'),
+      comment('c4', '2024-01-04T00:00:00Z', 'c3'),
+      comment('orphan', '2024-01-05T00:00:00Z', 'hidden')
+    ]);
+
+    expect(threads.map(thread => thread.id)).toEqual(['c1', 'c2']);
+    expect(threads[0].replies.map(reply => reply.id)).toEqual(['c3']);
+    expect(threads[0].replies[0].replies.map(reply => reply.id)).toEqual(['c4']);
+    expect(countComments(threads)).toBe(4);
+  });
+
+  it('requires a name and a comment within the column limits', () => {
+    expect(validateComment({ author_name: ' ', body: 'Hi' })).toBe('Please enter your name');
+    expect(validateComment({ author_name: 'Ada', body: '  ' })).toBe('Please write a comment');
+    expect(validateComment({ author_name: 'Ada', body: 'x'.repeat(2001) })).toBe('Comments are limited to 2000 characters');
+    expect(validateComment({ author_name: 'Ada', body: 'Great read' })).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { diffBlocks, diffText, htmlToDiffText } from '../blogDiff';
+import type { ContentBlock } from '../blogSchema';
+
+const text = (id: string, value: string): ContentBlock => ({ id, type: 'full-width-text', content: { text: value } });
+
+describe('blogDiff', () => {
+  describe('diffBlocks', () => {
+    it('reports added, removed and modified blocks in document order', () => {
+      const before = [text('a', 'Intro'), text('b', 'Gone'), text('c', 'Old')];
+      const after = [text('a', 'Intro'), text('c', 'New'), text('d', 'Fresh')];
+
+      const diff = diffBlocks(before, after);
+      expect(diff.map(entry => [entry.id, entry.change])).toEqual([
+        ['a', 'unchanged'],
+        ['b', 'removed'],
+        ['c', 'modified'],
+        ['d', 'added']
+      ]);
+      expect(diff[2].changedFields).toEqual(['text']);
+    });
+
+    it('flags blocks whose relative position changed', () => {
+      const diff = diffBlocks([text('a', '1'), text('b', '2')], [text('b', '2'), text('a', '1')]);
+      expect(diff.every(entry => entry.change === 'unchanged' && entry.moved)).toBe(true);
+    });
+
+    it('places blocks removed from the top first', () => {
+      const diff = diffBlocks([text('a', '1'), text('b', '2')], [text('b', '2')]);
+      expect(diff.map(entry => entry.id)).toEqual(['a', 'b']);
+      expect(diff[1].moved).toBe(false);
+    });
+  });
+
+  describe('diffText', () => {
+    it('marks inserted and deleted lines around common ones', () => {
+      expect(diffText('one\ntwo\nthree', 'one\n2\nthree\nfour')).toEqual([
+        { change: 'unchanged', text: 'one' },
+        { change: 'removed', text: 'two' },
+        { change: 'added', text: '2' },
+        { change: 'unchanged', text: 'three' },
+        { change: 'added', text: 'four' }
+      ]);
+    });
+
+    it('handles empty inputs', () => {
+      expect(diffText('', '')).toEqual([]);
+      expect(diffText('', 'new')).toEqual([{ change: 'added', text: 'new' }]);
+    });
+  });
+
+  it('extracts one line per paragraph from HTML', () => {
+    expect(htmlToDiffText('<h2>Title</h2><p>First &amp; <strong>bold</strong></p><p>Second<br>line</p>'))
+      .toBe('Title\nFirst & bold\nSecond\nline');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { parseBlogEventPayload, readDepth } from '../blogEvents';
+
+const sessionId = '6f1c2a9e-3b4d-4e5f-8a7b-9c0d1e2f3a4b';
+
+describe('blogEvents', () => {
+  it('pins depth for views and completions and only accepts scroll milestones', () => {
+    expect(parseBlogEventPayload({ slug: 'scaling-ai', sessionId, type: 'view', depth: 80 }))
+      .toEqual({ slug: 'scaling-ai', sessionId, type: 'view', depth: 0 });
+    expect(parseBlogEventPayload({ slug: 'scaling-ai', sessionId, type: 'complete' }))
+      .toEqual({ slug: 'scaling-ai', sessionId, type: 'complete', depth: 100 });
+    expect(parseBlogEventPayload({ slug: 'scaling-ai', sessionId, type: 'scroll', depth: 50 }))
+      .toEqual({ slug: 'scaling-ai', sessionId, type: 'scroll', depth: 50 });
+    expect(parseBlogEventPayload({ slug: 'scaling-ai', sessionId, type: 'scroll', depth: 42 })).toBeNull();
+  });
+
+  it('rejects malformed requests', () => {
+    expect(parseBlogEventPayload(null)).toBeNull();
+    expect(parseBlogEventPayload({ slug: '', sessionId, type: 'view' })).toBeNull();
+    expect(parseBlogEventPayload({ slug: 'scaling-ai', sessionId: 'reader-1', type: 'view' })).toBeNull();
+    expect(parseBlogEventPayload({ slug: 'scaling-ai', sessionId, type: 'click' })).toBeNull();
+  });
+
+  it('measures how far the viewport has reached through the article', () => {
+    expect(readDepth(100, 1000, 600)).toBe(50);
+    expect(readDepth(-2000, 1000, 800)).toBe(100);
+    expect(readDepth(900, 1000, 800)).toBe(0);
+    expect(readDepth(0, 0, 800)).toBe(0);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { buildPrintDocument, convertStructureToHTML, convertStructureToPrintHTML } from '../blogExport';
+import { createEmptyBlogStructure } from '../blogSchema';
+
+const structure = createEmptyBlogStructure({
+  title: 'Export',
+  blocks: [
+    { id: '1', type: 'left-image-right-text', content: { text: 'Side text', imageUrl: 'https://img/1.jpg' } },
+    { id: '2', type: 'image-caption', content: { imageUrl: 'https://img/2.jpg', caption: 'A caption' } },
+    { id: '3', type: 'table', content: { tableData: { headers: ['H'], rows: [['cell']] } } }
+  ]
+});
+
+describe('blogExport', () => {
+  it('converts a structure to HTML for the content column', () => {
+    const html = convertStructureToHTML(structure);
+    expect(html).toContain('<img src="https://img/1.jpg"');
+    expect(html).toContain('<p>Side text</p>');
+    expect(html).toContain('<th class="border p-3 bg-gray-50">H</th>');
+  });
+
+  it('uses the canonical block fields for the printable view', () => {
+    const html = convertStructureToPrintHTML(structure);
+    expect(html).toContain('src="https://img/1.jpg"');
+    expect(html).toContain('src="https://img/2.jpg"');
+    expect(html).toContain('A caption');
+    expect(html).toContain('>H</th>');
+    expect(html).toContain('>cell</td>');
+  });
+
+  it('exports text block types with their text escaped', () => {
+    const textBlocks = createEmptyBlogStructure({
+      blocks: [
+        { id: 'h', type: 'heading', content: { text: 'Q&A', level: 3 } },
+        { id: 'l', type: 'list', content: { listData: { style: 'ordered', items: [{ text: 'a', children: [{ text: 'b' }] }] } } },
+        { id: 'q', type: 'quote', content: { text: 'Quoted', attribution: 'Someone' } },
+        { id: 'c', type: 'code', content: { text: 'if (a < b) return;', language: 'javascript' } },
+        { id: 'd', type: 'divider', content: {} },
+        { id: 'n', type: 'callout', content: { title: 'Note', text: '<img src=x onerror=alert(1)>', calloutVariant: 'tip' } }
+      ]
+    });
+
+    const html = convertStructureToHTML(textBlocks);
+    expect(html).toContain('<h3 class="mb-4">Q&amp;A</h3>');
+    expect(html).toContain('<ol><li>a<ol><li>b</li></ol></li></ol>');
+    expect(html).toContain('<footer>— Someone</footer>');
+    expect(html).toContain('<code class="language-javascript"><span class="token keyword">if</span> (a &lt; b) <span class="token keyword">return</span>;</code>');
+    expect(html).toContain('<hr class="my-8" />');
+    expect(html).toContain('callout-tip');
+    expect(html).not.toContain('<img src=x');
+
+    const print = convertStructureToPrintHTML(textBlocks);
+    expect(print).toContain('<h3>Q&amp;A</h3>');
+    expect(print).toContain('<span style="color: #d73a49;">if</span>');
+    expect(print).toContain('&lt;img src=x onerror=alert(1)&gt;');
+  });
+
+  it('exports inline rich text as escaped markup', () => {
+    const rich = createEmptyBlogStructure({
+      blocks: [{
+        id: 'r',
+        type: 'full-width-text',
+        content: {
+          text: 'Use <b> tags',
+          richText: [{ text: 'Use ' }, { text: '<b>', marks: ['code'] }, { text: ' tags', href: 'https://example.com' }]
+        }
+      }]
+    });
+
+    const expected = 'Use <code>&lt;b&gt;</code><a href="https://example.com"> tags</a>';
+    expect(convertStructureToHTML(rich)).toContain(`<p>${expected}</p>`);
+    expect(convertStructureToPrintHTML(rich)).toContain(expected);
+  });
+
+  it('exports merged headers, alignment and number formats of tables', () => {
+    const tables = createEmptyBlogStructure({
+      blocks: [{
+        id: 't',
+        type: 'table',
+        content: {
+          tableData: {
+            headerGroups: [{ label: 'Item', span: 1 }, { label: 'Q1 & Q2', span: 2 }],
+            headers: ['Name', 'Q1', 'Q2'],
+            rows: [['Widget', '1200', 'n/a']],
+            columns: [{}, { numberFormat: 'compact' }, { numberFormat: 'compact', align: 'center' }],
+            interactive: true
+          }
+        }
+      }]
+    });
+
+    const html = convertStructureToHTML(tables);
+    expect(html).toContain('<th colspan="2" class="border p-3 bg-gray-100 text-center">Q1 &amp; Q2</th>');
+    expect(html).toContain('<td class="border p-3">Widget</td><td class="border p-3 text-right">1.2K</td><td class="border p-3 text-center">n/a</td>');
+
+    const print = convertStructureToPrintHTML(tables);
+    expect(print).toContain('colspan="2"');
+    expect(print).toContain('text-align: right;">1.2K</td>');
+  });
+
+  it('exports chart blocks as tables of formatted values', () => {
+    const charts = createEmptyBlogStructure({
+      blocks: [{
+        id: 'c',
+        type: 'chart',
+        content: {
+          chartData: {
+            type: 'bar',
+            title: 'Share <by> year',
+            labels: ['2024'],
+            data: [12.5],
+            series: [{ name: 'Mobile', data: [12.5] }, { name: 'Desktop', data: [87.5] }],
+            xAxisLabel: 'Year',
+            numberFormat: 'percent'
+          }
+        }
+      }]
+    });
+
+    const html = convertStructureToHTML(charts);
+    expect(html).toContain('Share &lt;by&gt; year</figcaption>');
+    expect(html).toContain('<th class="border p-3 bg-gray-50">Desktop</th>');
+    expect(html).toContain('<th class="border p-3 text-left">2024</th><td class="border p-3 text-right">12.5%</td><td class="border p-3 text-right">87.5%</td>');
+
+    const print = convertStructureToPrintHTML(charts);
+    expect(print).toContain('>Year</th>');
+    expect(print).toContain('>87.5%</td>');
+  });
+
+  it('exports gallery, carousel and comparison pictures all at once', () => {
+    const pictures = createEmptyBlogStructure({
+      blocks: [
+        {
+          id: 'g',
+          type: 'gallery',
+          content: {
+            galleryColumns: 2,
+            images: [{ url: 'https://img/a.png', alt: 'A', caption: 'First <one>' }, { url: 'javascript:alert(1)' }, { url: 'https://img/b.png' }]
+          }
+        },
+        { id: 'c', type: 'carousel', content: { images: [{ url: 'https://img/slide.png', caption: 'Slide' }] } },
+        { id: 'cmp', type: 'comparison', content: { images: [{ url: 'https://img/old.png' }, { url: 'https://img/new.png', caption: 'Now' }] } },
+        { id: 'half', type: 'comparison', content: { images: [{ url: 'https://img/lonely.png' }] } }
+      ]
+    });
+
+    const html = convertStructureToHTML(pictures);
+    expect(html).toContain('<div class="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8">');
+    expect(html).toContain('<figure><img src="https://img/a.png" alt="A" class="w-full rounded-lg" /><figcaption class="text-sm text-gray-600 mt-2">First &lt;one&gt;</figcaption></figure>');
+    expect(html).toContain('alt="Image 2 of 2"');
+    expect(html).toContain('src="https://img/slide.png" alt="Slide"');
+    expect(html).toContain('>Before</figcaption>');
+    expect(html).toContain('>Now</figcaption>');
+    expect(html).not.toMatch(/javascript:|lonely/);
+
+    const print = convertStructureToPrintHTML(pictures);
+    expect(print).toContain('src="https://img/b.png"');
+    expect(print).toContain('First &lt;one&gt;</figcaption>');
+    expect(print).toContain('src="https://img/new.png" alt="Now"');
+    expect(print).not.toMatch(/javascript:|lonely/);
+  });
+
+  it('sanitizes editor content and URLs in both exports', () => {
+    const hostile = createEmptyBlogStructure({
+      blocks: [
+        { id: 't', type: 'full-width-text', content: { text: '<p onclick="x()">Hi<script>alert(1)</script></p>' } },
+        { id: 'i', type: 'image-caption', content: { imageUrl: 'javascript:alert(1)', caption: '"><script>alert(2)</script>' } },
+        { id: 'v', type: 'video-embed', content: { videoUrl: 'https://evil.example/player' } },
+        { id: 'g', type: 'table', content: { tableData: { headers: ['<b>H</b>'], rows: [['<img src=x onerror=alert(3)>']] } } }
+      ]
+    });
+
+    for (const html of [convertStructureToHTML(hostile), convertStructureToPrintHTML(hostile)]) {
+      expect(html).not.toMatch(/<script|onclick|onerror=alert\(3\)>|javascript:|evil\.example|<img src=x/);
+      expect(html).toContain('&lt;img src=x onerror=alert(3)&gt;');
+    }
+    expect(convertStructureToHTML(hostile)).toContain('<p>Hi</p>');
+
+    const doc = buildPrintDocument({
+      title: '</title><script>alert(4)</script>',
+      content: '<img src=x onerror=alert(5)>Body',
+      category: 'news',
+      created_at: '2024-01-01T00:00:00Z',
+      featured_image_url: 'javascript:alert(6)'
+    });
+    expect(doc).not.toMatch(/<script|onerror|javascript:/);
+    expect(doc).toContain('Body');
+  });
+
+  it('builds a print document from the structure, falling back to plain content', () => {
+    const blog = { title: 'Export', content: 'Line one\nLine two', excerpt: 'Short', category: 'news', created_at: '2024-01-01T00:00:00Z' };
+    expect(buildPrintDocument({ ...blog, blog_structure: structure })).toContain('A caption');
+    const fallback = buildPrintDocument(blog);
+    expect(fallback).toContain('<title>Export</title>');
+    expect(fallback).toContain('Line one<br>Line two');
+  });
+});
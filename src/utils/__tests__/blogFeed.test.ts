@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { blogFeedUrl, buildAtomFeed, buildRssFeed, escapeXml, feedEntryHtml } from '../blogFeed';
+import { convertStructureToHTML } from '../blogExport';
+import { createEmptyBlogStructure } from '../blogSchema';
+
+const structure = createEmptyBlogStructure({
+  title: 'Structured',
+  blocks: [{ id: '1', type: 'full-width-text', content: { text: 'Block text ]]> end' } }]
+});
+
+const posts = [
+  {
+    id: '11111111-1111-1111-1111-111111111111',
+    title: 'R&D <Update>',
+    slug: 'rd-update',
+    content: '<p>Stored HTML</p>',
+    excerpt: 'Short summary',
+    category: 'product-updates',
+    created_at: '2024-03-01T10:00:00Z',
+    updated_at: '2024-03-02T10:00:00Z',
+    publish_at: null,
+    blog_structure: structure
+  },
+  {
+    id: '22222222-2222-2222-2222-222222222222',
+    title: 'Legacy post',
+    slug: 'legacy-post',
+    content: '<p>Legacy body</p>',
+    excerpt: null,
+    category: null,
+    created_at: '2024-01-01T00:00:00Z',
+    blog_structure: null
+  }
+];
+
+const options = { siteUrl: 'https://hibiz.ai', feedUrl: blogFeedUrl('rss') };
+
+describe('blogFeed', () => {
+  it('renders entries with the same HTML conversion as the content column', () => {
+    expect(feedEntryHtml(posts[0])).toBe(convertStructureToHTML(structure));
+    expect(feedEntryHtml(posts[1])).toBe('<p>Legacy body</p>');
+  });
+
+  it('builds an RSS 2.0 channel with escaped fields and CDATA content', () => {
+    const xml = buildRssFeed(posts, options);
+    expect(xml).toContain('<rss version="2.0"');
+    expect(xml).toContain('<title>R&amp;D &lt;Update&gt;</title>');
+    expect(xml).toContain('<link>https://hibiz.ai/blog/rd-update</link>');
+    expect(xml).toContain('<pubDate>Fri, 01 Mar 2024 10:00:00 GMT</pubDate>');
+    expect(xml).toContain('<category>product-updates</category>');
+    expect(xml).toContain('Block text ]]]]><![CDATA[> end');
+    expect(xml).toContain('<description>Legacy body</description>');
+  });
+
+  it('builds an Atom feed with escaped HTML content', () => {
+    const xml = buildAtomFeed(posts, { ...options, feedUrl: blogFeedUrl('atom', 'product-updates'), category: 'product-updates' });
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(xml).toContain('<title>Hibiz.ai Blog: product-updates</title>');
+    expect(xml).toContain('format=atom&amp;category=product-updates');
+    expect(xml).toContain('<updated>2024-03-02T10:00:00.000Z</updated>');
+    expect(xml).toContain('<content type="html">&lt;p&gt;Legacy body&lt;/p&gt;</content>');
+  });
+
+  it('orders entries and lastBuildDate by the date entries show', () => {
+    const scheduled = {
+      ...posts[1],
+      id: '33333333-3333-3333-3333-333333333333',
+      title: 'Scheduled post',
+      created_at: '2023-12-01T00:00:00Z',
+      publish_at: '2024-04-01T09:00:00Z'
+    };
+    const xml = buildRssFeed([...posts, scheduled], options);
+    expect(xml).toContain('<lastBuildDate>Mon, 01 Apr 2024 09:00:00 GMT</lastBuildDate>');
+    expect(xml.indexOf('Scheduled post')).toBeLessThan(xml.indexOf('R&amp;D'));
+    expect(xml.indexOf('R&amp;D')).toBeLessThan(xml.indexOf('Legacy post'));
+  });
+
+  it('escapes XML special characters and encodes feed URLs', () => {
+    expect(escapeXml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+    expect(blogFeedUrl('rss', 'ai & ml')).toMatch(/\?format=rss&category=ai\+%26\+ml$/);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { comparisonPair, displayableImages, imageAlt } from '../blogImages';
+
+describe('blogImages', () => {
+  it('keeps only pictures with a safe source', () => {
+    expect(displayableImages({
+      images: [
+        { url: ' https://example.com/a.png ', caption: 'A' },
+        { url: 'javascript:alert(1)' },
+        { url: '/uploads/b.png' }
+      ]
+    })).toEqual([{ url: 'https://example.com/a.png', caption: 'A' }, { url: '/uploads/b.png' }]);
+    expect(displayableImages({})).toEqual([]);
+  });
+
+  it('labels the comparison pair and waits for both pictures', () => {
+    expect(comparisonPair({ images: [{ url: '/old.png' }, { url: '/new.png', caption: 'Redesign' }, { url: '/extra.png' }] })).toEqual([
+      { url: '/old.png', label: 'Before' },
+      { url: '/new.png', caption: 'Redesign', label: 'Redesign' }
+    ]);
+    expect(comparisonPair({ images: [{ url: '/old.png' }] })).toBeNull();
+    expect(comparisonPair({ images: [{ url: '/old.png' }, { url: 'data:text/html,x' }] })).toBeNull();
+  });
+
+  it('falls back from alt text to the caption and then the position', () => {
+    expect(imageAlt({ url: '/a.png', alt: 'Chart', caption: 'Q1' }, 0, 3)).toBe('Chart');
+    expect(imageAlt({ url: '/a.png', caption: 'Q1' }, 0, 3)).toBe('Q1');
+    expect(imageAlt({ url: '/a.png' }, 1, 3)).toBe('Image 2 of 3');
+  });
+});
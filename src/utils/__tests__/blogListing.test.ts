@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { mockQuery } from '@/test/mocks/supabaseQuery';
+import { BLOG_LIST_COLUMNS, cursorFilter, fetchBlogListPage, pageWindow } from '../blogListing';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn()
+  }
+}));
+
+const rows = Array.from({ length: 5 }, (_, index) => ({
+  id: `id-${index}`,
+  status: 'published',
+  created_at: `2024-01-0${5 - index}T00:00:00Z`
+}));
+
+describe('blogListing', () => {
+  let query: ReturnType<typeof mockQuery>;
+
+  beforeEach(() => {
+    query = mockQuery({ data: rows });
+    (supabase.from as Mock).mockImplementation(() => ({ select: query.select }));
+  });
+
+  it('reads list columns newest first and returns a cursor when more rows exist', async () => {
+    const page = await fetchBlogListPage({ status: 'published', pageSize: 2 });
+
+    expect(query.select).toHaveBeenCalledWith(BLOG_LIST_COLUMNS, undefined);
+    expect(BLOG_LIST_COLUMNS).not.toMatch(/\bcontent\b|blog_structure/);
+    expect(query.order.mock.calls).toEqual([
+      ['created_at', { ascending: false }],
+      ['id', { ascending: false }]
+    ]);
+    expect(query.limit).toHaveBeenCalledWith(3);
+    expect(page.rows.map(row => row.id)).toEqual(['id-0', 'id-1']);
+    expect(page.nextCursor).toEqual({ createdAt: '2024-01-04T00:00:00Z', id: 'id-1' });
+  });
+
+  it('continues after a cursor and stops on the last page', async () => {
+    const page = await fetchBlogListPage({
+      pageSize: 10,
+      cursor: { createdAt: '2024-01-04T00:00:00Z', id: 'id-1' }
+    });
+
+    expect(query.or).toHaveBeenCalledWith(cursorFilter({ createdAt: '2024-01-04T00:00:00Z', id: 'id-1' }));
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('breaks created_at ties by id', () => {
+    expect(cursorFilter({ createdAt: '2024-01-04T00:00:00+00:00', id: 'abc' })).toBe(
+      'created_at.lt."2024-01-04T00:00:00+00:00",and(created_at.eq."2024-01-04T00:00:00+00:00",id.lt."abc")'
+    );
+  });
+
+  it('windows numbered pages around the current one', () => {
+    expect(pageWindow(1, 1)).toEqual([1]);
+    expect(pageWindow(1, 4)).toEqual([1, 2, 3, 4]);
+    expect(pageWindow(6, 20)).toEqual([1, 'gap', 4, 5, 6, 7, 8, 'gap', 20]);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { flattenListItems, listToText, parseListText } from '../blogLists';
+
+describe('blogLists', () => {
+  it('nests items by indentation and drops pasted markers', () => {
+    const items = parseListText('• Fruit\n  - Apple\n\n  - Pear\n\t\tRipe\nVegetables\n      2. Too far in');
+
+    expect(items).toEqual([
+      { text: 'Fruit', children: [{ text: 'Apple' }, { text: 'Pear', children: [{ text: 'Ripe' }] }] },
+      { text: 'Vegetables', children: [{ text: 'Too far in' }] }
+    ]);
+  });
+
+  it('round-trips through the textarea form', () => {
+    const items = [{ text: 'a', children: [{ text: 'b', children: [{ text: 'c' }] }] }, { text: 'd' }];
+    expect(listToText(items)).toBe('a\n  b\n    c\nd');
+    expect(parseListText(listToText(items))).toEqual(items);
+  });
+
+  it('flattens items in reading order', () => {
+    expect(flattenListItems([{ text: 'a', children: [{ text: 'b' }] }, { text: 'c' }])).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { applyBlockMerge, buildBlockMerge } from '../blogMerge';
+import type { ContentBlock } from '../blogSchema';
+
+const text = (id: string, value: string): ContentBlock => ({ id, type: 'full-width-text', content: { text: value } });
+
+describe('blogMerge', () => {
+  const base = [text('a', 'A'), text('b', 'B'), text('c', 'C')];
+
+  it('defaults to whichever side changed a block', () => {
+    const local = [text('a', 'A mine'), text('b', 'B'), text('c', 'C')];
+    const remote = [text('a', 'A'), text('b', 'B theirs'), text('c', 'C')];
+
+    const rows = buildBlockMerge(base, local, remote);
+    expect(rows.map(row => [row.id, row.defaultChoice, row.conflict])).toEqual([
+      ['a', 'local', false],
+      ['b', 'remote', false]
+    ]);
+
+    expect(applyBlockMerge(local, remote, rows, {})).toEqual([
+      text('a', 'A mine'),
+      text('b', 'B theirs'),
+      text('c', 'C')
+    ]);
+  });
+
+  it('flags blocks changed on both sides and honours the chosen side', () => {
+    const local = [text('a', 'A mine'), text('b', 'B'), text('c', 'C')];
+    const remote = [text('a', 'A theirs'), text('b', 'B'), text('c', 'C')];
+
+    const rows = buildBlockMerge(base, local, remote);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].conflict).toBe(true);
+    expect(applyBlockMerge(local, remote, rows, { a: 'remote' })[0]).toEqual(text('a', 'A theirs'));
+  });
+
+  it('keeps blocks added remotely and drops blocks deleted remotely', () => {
+    const local = [...base];
+    const remote = [text('a', 'A'), text('n', 'New'), text('c', 'C')];
+
+    const rows = buildBlockMerge(base, local, remote);
+    expect(rows.map(row => [row.id, row.defaultChoice])).toEqual([
+      ['n', 'remote'],
+      ['b', 'remote']
+    ]);
+    expect(applyBlockMerge(local, remote, rows, {}).map(block => block.id)).toEqual(['a', 'n', 'c']);
+  });
+
+  it('keeps blocks added locally', () => {
+    const local = [...base, text('d', 'Mine')];
+    const rows = buildBlockMerge(base, local, base);
+    expect(rows).toEqual([expect.objectContaining({ id: 'd', defaultChoice: 'local', conflict: false })]);
+    expect(applyBlockMerge(local, base, rows, {}).map(block => block.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
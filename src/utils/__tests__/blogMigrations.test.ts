@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BLOG_STRUCTURE_MIGRATIONS,
+  BlogStructureMigration,
+  getBlogStructureVersion,
+  migrateBlogStructure
+} from '../blogMigrations';
+import { BLOG_SCHEMA_VERSION } from '../blogSchema';
+
+describe('blogMigrations', () => {
+  it('has a contiguous chain up to the current schema version', () => {
+    let version = 0;
+    while (version < BLOG_SCHEMA_VERSION) {
+      const step = BLOG_STRUCTURE_MIGRATIONS.find(m => m.from === version);
+      expect(step, `missing migration from ${version}`).toBeDefined();
+      version = step!.to;
+    }
+    expect(version).toBe(BLOG_SCHEMA_VERSION);
+  });
+
+  it('treats structures without schemaVersion as version 0', () => {
+    expect(getBlogStructureVersion({ blocks: [] })).toBe(0);
+    expect(getBlogStructureVersion({ schemaVersion: 'x', blocks: [] })).toBe(0);
+    expect(getBlogStructureVersion({ schemaVersion: 1, blocks: [] })).toBe(1);
+  });
+
+  it('converts legacy block types and fields when upgrading from version 0', () => {
+    const result = migrateBlogStructure({
+      title: 'Legacy',
+      blocks: [
+        { id: '1', type: 'image-caption', content: { image_url: 'a.jpg', caption: 'Cap' } },
+        { id: '2', type: 'table', content: { table_data: [['H1', 'H2'], ['c1', 'c2']] } },
+        { id: '3', type: 'bullet-points', content: { points: ['one', 'two'] } },
+        { id: '4', type: 'hero', content: { text: 'Hero text' } },
+        { id: '5', type: 'paragraph', content: 'Plain paragraph' }
+      ]
+    }, 1);
+
+    const blocks = result.structure.blocks as Array<{ type: string; content: Record<string, unknown> }>;
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(1);
+    expect(result.structure.schemaVersion).toBe(1);
+    expect(result.applied).toHaveLength(1);
+    expect(blocks[0].content).toEqual({ imageUrl: 'a.jpg', caption: 'Cap' });
+    expect(blocks[1].content.tableData).toEqual({ headers: ['H1', 'H2'], rows: [['c1', 'c2']] });
+    expect(blocks[2]).toMatchObject({ type: 'full-width-text', content: { text: '• one\n• two' } });
+    expect(blocks[3]).toMatchObject({ type: 'full-width-text', content: { text: 'Hero text' } });
+    expect(blocks[4]).toMatchObject({ type: 'full-width-text', content: { text: 'Plain paragraph' } });
+  });
+
+  it('turns styled heading text and bullet text into heading and list blocks from version 1', () => {
+    const styled = (id: string, text: string, fontSize = 'base', fontWeight = 'normal') =>
+      ({ id, type: 'full-width-text', content: { text, fontSize, fontWeight, alignment: 'left' } });
+
+    const result = migrateBlogStructure({
+      schemaVersion: 1,
+      blocks: [
+        styled('1', 'Introduction', 'xl', 'bold'),
+        styled('2', 'Details', 'lg', 'semibold'),
+        styled('3', '• one\n• two'),
+        styled('4', '1. first\n2. second'),
+        styled('5', 'A long paragraph.', 'lg'),
+        styled('6', '<strong>Bold</strong>', 'xl', 'bold'),
+        styled('7', '• mixed\nplain line')
+      ]
+    }, 2);
+
+    const blocks = result.structure.blocks as Array<{ type: string; content: Record<string, unknown> }>;
+    expect(blocks[0]).toMatchObject({ type: 'heading', content: { text: 'Introduction', level: 2 } });
+    expect(blocks[1]).toMatchObject({ type: 'heading', content: { text: 'Details', level: 3 } });
+    expect(blocks[2].content.listData).toEqual({ style: 'unordered', items: [{ text: 'one' }, { text: 'two' }] });
+    expect(blocks[3].content.listData).toEqual({ style: 'ordered', items: [{ text: 'first' }, { text: 'second' }] });
+    expect(blocks.slice(4).map(block => block.type)).toEqual(['full-width-text', 'full-width-text', 'full-width-text']);
+  });
+
+  it('applies migrations step by step in order', () => {
+    const migrations: BlogStructureMigration[] = [
+      { from: 0, to: 1, description: 'first', up: s => ({ ...s, steps: ['first'] }) },
+      { from: 1, to: 2, description: 'second', up: s => ({ ...s, steps: [...((s.steps as string[]) || []), 'second'] }) }
+    ];
+
+    const result = migrateBlogStructure({ blocks: [] }, 2, migrations);
+    expect(result.structure.steps).toEqual(['first', 'second']);
+    expect(result.structure.schemaVersion).toBe(2);
+
+    const partial = migrateBlogStructure({ schemaVersion: 1, blocks: [] }, 2, migrations);
+    expect(partial.structure.steps).toEqual(['second']);
+    expect(partial.applied).toEqual(['1→2: second']);
+  });
+
+  it('leaves current structures untouched', () => {
+    const current = { schemaVersion: 1, title: 'Current', blocks: [] };
+    const result = migrateBlogStructure(current, 1);
+    expect(result.structure).toBe(current);
+    expect(result.applied).toEqual([]);
+  });
+
+  it('throws for newer versions, missing steps and non-objects', () => {
+    expect(() => migrateBlogStructure({ schemaVersion: 5, blocks: [] }, 1)).toThrow(/newer/);
+    expect(() => migrateBlogStructure({ blocks: [] }, 3, [])).toThrow(/No blog_structure migration/);
+    expect(() => migrateBlogStructure([], 1)).toThrow(/must be an object/);
+  });
+});
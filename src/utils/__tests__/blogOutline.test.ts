@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { buildTableOfContents, readingTimeMinutes } from '../blogOutline';
+import { ContentBlock } from '../blogSchema';
+
+const text = (id: string, value: string): ContentBlock => ({
+  id,
+  type: 'full-width-text',
+  content: { text: value, fontSize: 'base', alignment: 'left' }
+});
+
+const heading = (id: string, value: string, level: 1 | 2 | 3 | 4 = 2): ContentBlock => ({
+  id,
+  type: 'heading',
+  content: { text: value, level }
+});
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i}`).join(' ');
+
+describe('blogOutline', () => {
+  it('gives headings stable ids and numbers repeats in order', () => {
+    const toc = buildTableOfContents([
+      heading('1', 'Getting Started'),
+      text('2', 'Some paragraph text.'),
+      heading('3', 'Setup & Install', 3),
+      heading('4', 'Getting Started 2'),
+      heading('5', 'Getting Started'),
+      heading('6', '!!!', 4),
+      heading('7', '  ')
+    ]);
+
+    expect(toc).toEqual([
+      { id: 'getting-started', blockId: '1', text: 'Getting Started', level: 2 },
+      { id: 'setup-install', blockId: '3', text: 'Setup & Install', level: 3 },
+      { id: 'getting-started-2', blockId: '4', text: 'Getting Started 2', level: 2 },
+      { id: 'getting-started-3', blockId: '5', text: 'Getting Started', level: 2 },
+      { id: 'section', blockId: '6', text: '!!!', level: 4 }
+    ]);
+  });
+
+  it('estimates reading time from block text, tables and captions', () => {
+    const structure = {
+      title: 'Post',
+      featuredImage: '',
+      author: '',
+      date: '',
+      blocks: [
+        text('1', `<p>${words(300)}</p>`),
+        { id: '2', type: 'list' as const, content: { listData: { style: 'unordered' as const, items: [{ text: words(20), children: [{ text: words(30) }] }] } } },
+        { id: '3', type: 'table' as const, content: { tableData: { headers: ['a', 'b'], rows: [[words(48), 'x']] } } }
+      ]
+    };
+
+    expect(readingTimeMinutes({ structure })).toBe(2);
+    expect(readingTimeMinutes({ content: `<p>${words(1000)}</p>` })).toBe(4);
+    expect(readingTimeMinutes({ content: '' })).toBe(1);
+  });
+});
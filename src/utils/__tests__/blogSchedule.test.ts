@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { fromDateTimeLocal, resolveScheduledStatus, toDateTimeLocal, validateSchedule } from '../blogSchedule';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+describe('blogSchedule', () => {
+  describe('resolveScheduledStatus', () => {
+    it('schedules posts published with a future publish date', () => {
+      expect(resolveScheduledStatus('published', '2026-03-02T09:00:00Z', now)).toBe('scheduled');
+      expect(resolveScheduledStatus('scheduled', '2026-03-02T09:00:00Z', now)).toBe('scheduled');
+    });
+
+    it('publishes scheduled posts whose time has passed', () => {
+      expect(resolveScheduledStatus('scheduled', '2026-02-28T09:00:00Z', now)).toBe('published');
+      expect(resolveScheduledStatus('published', '2026-02-28T09:00:00Z', now)).toBe('published');
+    });
+
+    it('leaves drafts and archived posts alone', () => {
+      expect(resolveScheduledStatus('draft', '2026-03-02T09:00:00Z', now)).toBe('draft');
+      expect(resolveScheduledStatus('archived', null, now)).toBe('archived');
+    });
+  });
+
+  it('validates schedules', () => {
+    expect(validateSchedule('scheduled', null, null)).toMatch(/publish date/);
+    expect(validateSchedule('published', '2026-03-02T09:00:00Z', '2026-03-01T09:00:00Z')).toMatch(/after/);
+    expect(validateSchedule('published', '2026-03-02T09:00:00Z', '2026-03-03T09:00:00Z')).toBeNull();
+  });
+
+  it('round-trips datetime-local values', () => {
+    const local = toDateTimeLocal('2026-03-02T09:30:00Z');
+    expect(local).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+    expect(fromDateTimeLocal(local)).toBe('2026-03-02T09:30:00.000Z');
+    expect(toDateTimeLocal(null)).toBe('');
+    expect(fromDateTimeLocal('')).toBeNull();
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  BLOG_SCHEMA_VERSION,
+  createEmptyBlogStructure,
+  loadBlogStructure,
+  parseBlogStructure,
+  validateBlogStructure
+} from '../blogSchema';
+
+describe('blogSchema', () => {
+  describe('validateBlogStructure', () => {
+    it('accepts a well-formed structure without changes', () => {
+      const raw = {
+        schemaVersion: BLOG_SCHEMA_VERSION,
+        title: 'Valid',
+        featuredImage: '',
+        author: 'Admin',
+        date: '2024-01-01',
+        blocks: [
+          { id: 'a', type: 'full-width-text', content: { text: 'Hello', alignment: 'left' } },
+          { id: 'b', type: 'table', content: { tableData: { headers: ['A'], rows: [['1']] } } }
+        ]
+      };
+
+      const result = validateBlogStructure(raw);
+      expect(result.errors).toEqual([]);
+      expect(result.repaired).toBe(false);
+      expect(result.structure).toEqual(raw);
+    });
+
+    it('rejects values that are not blog structures', () => {
+      expect(validateBlogStructure(null).structure).toBeNull();
+      expect(validateBlogStructure('not json').structure).toBeNull();
+      expect(validateBlogStructure({ title: 'No blocks' }).structure).toBeNull();
+    });
+
+    it('parses JSON strings', () => {
+      const result = validateBlogStructure(JSON.stringify({ title: 'From string', blocks: [] }));
+      expect(result.structure?.title).toBe('From string');
+    });
+
+    it('drops unknown blocks and assigns missing ids', () => {
+      const result = validateBlogStructure({
+        title: 'Repair me',
+        blocks: [
+          { type: 'full-width-text', content: { text: 'No id' } },
+          { id: 'x', type: 'mystery', content: {} },
+          'garbage'
+        ]
+      });
+
+      expect(result.repaired).toBe(true);
+      expect(result.structure?.blocks).toHaveLength(1);
+      expect(result.structure?.blocks[0].id).toBe('block-1');
+      expect(result.structure?.schemaVersion).toBe(BLOG_SCHEMA_VERSION);
+    });
+
+    it('coerces malformed content fields', () => {
+      const result = validateBlogStructure({
+        title: 'Coerce',
+        blocks: [
+          {
+            id: 'c',
+            type: 'chart',
+            content: {
+              width: '50',
+              alignment: 'diagonal',
+              chartData: { type: 'radar', labels: ['a', 2], data: ['3', 'x'], title: 'T' }
+            }
+          }
+        ]
+      });
+
+      const content = result.structure!.blocks[0].content;
+      expect(content.width).toBe(50);
+      expect(content.alignment).toBeUndefined();
+      expect(content.chartData).toEqual({ type: 'bar', labels: ['a', '2'], data: [3, 0], title: 'T' });
+    });
+
+    it('normalizes table columns, header groups and reader options', () => {
+      const result = validateBlogStructure({
+        title: 'Tables',
+        blocks: [
+          {
+            id: 't',
+            type: 'table',
+            content: {
+              tableData: {
+                headers: ['a', 'b', 'c'],
+                rows: [['1', '2', '3']],
+                columns: [{ align: 'justify' }, { align: 'right', numberFormat: 'percent', currency: 'gbp' }, {}, { align: 'left' }],
+                headerGroups: [{ label: 'All', span: 2.7 }, { label: 'Extra', span: 'x' }, { label: 'Overflow', span: 3 }],
+                interactive: true,
+                mobileLayout: 'carousel'
+              }
+            }
+          },
+          {
+            id: 'u',
+            type: 'table',
+            content: { tableData: { headers: ['a', 'b'], rows: [], headerGroups: [{ label: 'A', span: 1 }] } }
+          }
+        ]
+      });
+
+      expect(result.structure!.blocks[0].content.tableData).toEqual({
+        headers: ['a', 'b', 'c'],
+        rows: [['1', '2', '3']],
+        columns: [{}, { align: 'right', numberFormat: 'percent', currency: 'GBP' }, {}],
+        headerGroups: [{ label: 'All', span: 2 }, { label: 'Extra', span: 1 }],
+        interactive: true
+      });
+      expect(result.structure!.blocks[1].content.tableData!.headerGroups).toEqual([{ label: 'A', span: 1 }, { label: '', span: 1 }]);
+      expect(result.errors).toContain('blocks[1]: header groups did not cover every column');
+    });
+
+    it('normalizes chart series and display options', () => {
+      const result = validateBlogStructure({
+        title: 'Charts',
+        blocks: [
+          {
+            id: 'c',
+            type: 'chart',
+            content: {
+              chartData: {
+                type: 'area',
+                labels: ['Q1'],
+                data: [1],
+                title: 'T',
+                series: [{ name: 'North', data: ['5'] }, { data: [7] }, 'junk'],
+                stacked: true,
+                xAxisLabel: 'Quarter',
+                numberFormat: 'roman',
+                currency: 'eur'
+              }
+            }
+          }
+        ]
+      });
+
+      expect(result.structure!.blocks[0].content.chartData).toEqual({
+        type: 'area',
+        labels: ['Q1'],
+        data: [5],
+        title: 'T',
+        series: [{ name: 'North', data: [5] }, { name: 'Series 2', data: [7] }],
+        stacked: true,
+        xAxisLabel: 'Quarter',
+        currency: 'EUR'
+      });
+      expect(result.errors).toContain('blocks[0]: unknown number format "roman"');
+    });
+
+    it('normalizes heading, list and callout fields', () => {
+      const result = validateBlogStructure({
+        title: 'Text blocks',
+        blocks: [
+          { id: 'h', type: 'heading', content: { text: 'Title', level: '3' } },
+          { id: 'h2', type: 'heading', content: { text: 'Too deep', level: 6 } },
+          {
+            id: 'l',
+            type: 'list',
+            content: {
+              listData: {
+                style: 'zigzag',
+                items: ['plain', { text: 'a', children: [{ text: 'b', children: [{ text: 'c', children: [{ text: 'd', children: [{ text: 'e' }] }] }] }] }]
+              }
+            }
+          },
+          { id: 'c', type: 'callout', content: { text: 'Careful', calloutVariant: 'loud', language: 'ts' } }
+        ]
+      });
+
+      const [heading, tooDeep, list, callout] = result.structure!.blocks;
+      expect(heading.content.level).toBe(3);
+      expect(tooDeep.content.level).toBeUndefined();
+      expect(list.content.listData).toEqual({
+        style: 'unordered',
+        items: [
+          { text: 'plain' },
+          { text: 'a', children: [{ text: 'b', children: [{ text: 'c', children: [{ text: 'd' }, { text: 'e' }] }] }] }
+        ]
+      });
+      expect(callout.content).toEqual({ text: 'Careful', language: 'ts' });
+      expect(result.errors).toContain('blocks[2]: unknown list style "zigzag", using "unordered"');
+    });
+
+    it('normalizes gallery images and columns', () => {
+      const result = validateBlogStructure({
+        title: 'Screenshots',
+        blocks: [
+          {
+            id: 'g',
+            type: 'gallery',
+            content: {
+              galleryColumns: '4',
+              images: ['https://example.com/a.png', { url: ' https://example.com/b.png ', alt: 'Settings', caption: '' }, { alt: 'no source' }]
+            }
+          },
+          { id: 'c', type: 'comparison', content: { images: 'before.png', galleryColumns: 5 } }
+        ]
+      });
+
+      const [gallery, comparison] = result.structure!.blocks;
+      expect(gallery.content).toEqual({
+        galleryColumns: 4,
+        images: [{ url: 'https://example.com/a.png' }, { url: 'https://example.com/b.png', alt: 'Settings' }]
+      });
+      expect(comparison.content).toEqual({});
+      expect(result.errors).toEqual(['blocks[0]: dropped image without a URL', 'blocks[1]: images were not an array']);
+    });
+
+    it('sanitizes inline rich text and mirrors it into text', () => {
+      const result = validateBlogStructure({
+        title: 'Rich',
+        blocks: [{
+          id: 'r',
+          type: 'full-width-text',
+          content: {
+            text: 'stale',
+            richText: [
+              { text: 'Hi ', marks: ['bold', 'blink'] },
+              { text: 'there', marks: ['bold'] },
+              { text: ' click', href: 'javascript:alert(1)' },
+              'junk'
+            ]
+          }
+        }]
+      });
+
+      expect(result.structure!.blocks[0].content).toEqual({
+        text: 'Hi there click',
+        richText: [{ text: 'Hi there', marks: ['bold'] }, { text: ' click' }]
+      });
+      expect(result.errors).toContain('blocks[0]: dropped unsafe link "javascript:alert(1)"');
+    });
+  });
+
+  describe('parseBlogStructure', () => {
+    it('returns null for empty column values', () => {
+      expect(parseBlogStructure(null)).toBeNull();
+      expect(parseBlogStructure(undefined)).toBeNull();
+    });
+
+    it('upgrades unversioned legacy structures before validating', () => {
+      const structure = parseBlogStructure({
+        title: 'Legacy',
+        blocks: [{ id: '1', type: 'image', content: { url: 'a.jpg', caption: 'Cap' } }]
+      });
+
+      expect(structure?.schemaVersion).toBe(BLOG_SCHEMA_VERSION);
+      expect(structure?.blocks[0]).toEqual({
+        id: '1',
+        type: 'image-caption',
+        content: { imageUrl: 'a.jpg', caption: 'Cap' }
+      });
+    });
+
+    it('rejects structures written by a newer schema version', () => {
+      expect(parseBlogStructure({ schemaVersion: BLOG_SCHEMA_VERSION + 1, blocks: [] })).toBeNull();
+    });
+
+    it('does not log repairs', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const structure = parseBlogStructure({ title: 'T', blocks: [{ type: 'unknown' }] });
+      expect(structure?.blocks).toEqual([]);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe('loadBlogStructure', () => {
+    it('returns the repairs made to a stored structure', () => {
+      const result = loadBlogStructure({ title: 'T', blocks: [{ type: 'unknown' }] });
+      expect(result.structure?.blocks).toEqual([]);
+      expect(result.errors).toEqual(['blocks[0]: dropped, unknown block type "unknown"']);
+    });
+
+    it('reports structures that cannot be upgraded', () => {
+      const result = loadBlogStructure({ schemaVersion: BLOG_SCHEMA_VERSION + 1, blocks: [] });
+      expect(result.structure).toBeNull();
+      expect(result.errors[0]).toMatch(/^Could not upgrade blog_structure/);
+    });
+
+    it('returns no errors for empty column values', () => {
+      expect(loadBlogStructure(null)).toEqual({ structure: null, errors: [] });
+    });
+  });
+
+  it('creates empty structures stamped with the current version', () => {
+    const structure = createEmptyBlogStructure({ title: 'New' });
+    expect(structure.schemaVersion).toBe(BLOG_SCHEMA_VERSION);
+    expect(structure.title).toBe('New');
+    expect(structure.blocks).toEqual([]);
+  });
+});
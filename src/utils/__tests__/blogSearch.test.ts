@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { matchesSearchTerm, splitHighlight } from '../blogSearch';
+
+describe('blogSearch', () => {
+  it('splits ts_headline output into highlighted runs', () => {
+    expect(splitHighlight('Scaling <mark>AI</mark> in <mark>retail</mark>')).toEqual([
+      { text: 'Scaling ', highlighted: false },
+      { text: 'AI', highlighted: true },
+      { text: ' in ', highlighted: false },
+      { text: 'retail', highlighted: true }
+    ]);
+    expect(splitHighlight(null)).toEqual([]);
+  });
+
+  it('keeps any other markup as plain text', () => {
+    expect(splitHighlight('<b>x</b> <mark>y</mark>')).toEqual([
+      { text: '<b>x</b> ', highlighted: false },
+      { text: 'y', highlighted: true }
+    ]);
+  });
+
+  it('matches loaded rows case-insensitively as a fallback', () => {
+    const blog = { title: 'AI Trends', content: '<p>Retail</p>', excerpt: null };
+    expect(matchesSearchTerm(blog, 'retail')).toBe(true);
+    expect(matchesSearchTerm(blog, '  ')).toBe(true);
+    expect(matchesSearchTerm(blog, 'health')).toBe(false);
+  });
+});
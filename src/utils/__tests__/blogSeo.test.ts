@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { blogArchivePath, blogPostPath, buildBlogArchiveMeta, buildBlogAuthorMeta, buildBlogPostMeta, toAbsoluteUrl, toMetaDescription } from '../blogSeo';
+
+const post = {
+  title: 'Scaling AI',
+  slug: 'scaling-ai',
+  excerpt: 'How teams scale AI in production.',
+  content: '<p>Body</p>',
+  featured_image_url: '/images/scaling.jpg',
+  category: 'ai-technology',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-02-01T00:00:00Z',
+  publish_at: null
+};
+
+describe('blogSeo', () => {
+  it('builds a plain-text description capped for search snippets', () => {
+    expect(toMetaDescription(null, '<p>Hello&nbsp;<strong>world</strong></p>')).toBe('Hello world');
+    const long = toMetaDescription('word '.repeat(60));
+    expect(long.length).toBeLessThanOrEqual(160);
+    expect(long.endsWith('…')).toBe(true);
+  });
+
+  it('resolves post paths and relative URLs against the site', () => {
+    expect(blogPostPath('a b')).toBe('/blog/a%20b');
+    expect(toAbsoluteUrl('/img.jpg', 'https://hibiz.ai')).toBe('https://hibiz.ai/img.jpg');
+    expect(toAbsoluteUrl('https://cdn.test/img.jpg', 'https://hibiz.ai')).toBe('https://cdn.test/img.jpg');
+  });
+
+  it('derives article metadata and JSON-LD from the post', () => {
+    const meta = buildBlogPostMeta(post, 'https://hibiz.ai');
+    expect(meta).toMatchObject({
+      title: 'Scaling AI | Hibiz.ai Blog',
+      description: 'How teams scale AI in production.',
+      canonicalUrl: 'https://hibiz.ai/blog/scaling-ai',
+      image: 'https://hibiz.ai/images/scaling.jpg',
+      type: 'article',
+      publishedTime: '2024-01-01T00:00:00Z',
+      modifiedTime: '2024-02-01T00:00:00Z'
+    });
+    expect(meta.jsonLd).toMatchObject({
+      '@type': 'Article',
+      headline: 'Scaling AI',
+      image: ['https://hibiz.ai/images/scaling.jpg'],
+      mainEntityOfPage: { '@id': 'https://hibiz.ai/blog/scaling-ai' }
+    });
+  });
+
+  it('describes category and tag archives as collection pages', () => {
+    expect(blogArchivePath('tag', 'c++')).toBe('/blog/tag/c%2B%2B');
+
+    const category = buildBlogArchiveMeta('category', { name: 'AI', slug: 'ai', description: 'Models and agents' }, 'https://hibiz.ai');
+    expect(category).toMatchObject({
+      title: 'AI | Hibiz.ai Blog',
+      description: 'Models and agents',
+      canonicalUrl: 'https://hibiz.ai/blog/category/ai',
+      type: 'website'
+    });
+    expect(category.jsonLd).toMatchObject({ '@type': 'CollectionPage', url: 'https://hibiz.ai/blog/category/ai' });
+
+    const tag = buildBlogArchiveMeta('tag', { name: 'LLM', slug: 'llm' }, 'https://hibiz.ai');
+    expect(tag.description).toBe('Articles tagged LLM from Hibiz.ai');
+  });
+
+  it('credits posts to their author and describes author archives as profile pages', () => {
+    const credited = buildBlogPostMeta({ ...post, author: { id: 'u1', display_name: 'Ada Lovelace' } }, 'https://hibiz.ai');
+    expect(credited.jsonLd).toMatchObject({
+      author: { '@type': 'Person', name: 'Ada Lovelace', url: 'https://hibiz.ai/blog/author/u1' }
+    });
+
+    const author = buildBlogAuthorMeta({ id: 'u1', display_name: 'Ada Lovelace', bio: null, avatar_url: '/avatars/ada.png' }, 'https://hibiz.ai');
+    expect(author).toMatchObject({
+      title: 'Ada Lovelace | Hibiz.ai Blog',
+      description: 'Articles by Ada Lovelace on the Hibiz.ai blog',
+      canonicalUrl: 'https://hibiz.ai/blog/author/u1',
+      image: 'https://hibiz.ai/avatars/ada.png'
+    });
+    expect(author.jsonLd).toMatchObject({ '@type': 'ProfilePage', mainEntity: { '@type': 'Person', name: 'Ada Lovelace' } });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareTableCells,
+  formatTableCell,
+  headerGroupsFromCells,
+  parseTableCsv,
+  tableColumnAlign,
+  tableToCsv,
+  visibleTableRows
+} from '../blogTables';
+import type { TableData } from '../blogSchema';
+
+const table: TableData = {
+  headers: ['Item', 'Price', 'Stock'],
+  rows: [
+    ['Item 10', '$1,200', '5'],
+    ['Item 2', '99.5', ''],
+    ['item 3', 'n/a', '12']
+  ],
+  columns: [{}, { numberFormat: 'currency', currency: 'EUR' }, { align: 'center' }]
+};
+
+describe('blogTables', () => {
+  it('formats numeric cells of formatted columns and aligns them right by default', () => {
+    expect(formatTableCell(table, 1, '$1,200')).toBe('€1,200.00');
+    expect(formatTableCell(table, 1, 'n/a')).toBe('n/a');
+    expect(formatTableCell(table, 2, '5')).toBe('5');
+    expect(formatTableCell(table, 0, undefined)).toBe('');
+
+    expect(tableColumnAlign(table, 0)).toBe('left');
+    expect(tableColumnAlign(table, 1)).toBe('right');
+    expect(tableColumnAlign(table, 2)).toBe('center');
+  });
+
+  it('compares numbers by value and text naturally', () => {
+    expect(compareTableCells('1,200', '99.5')).toBeGreaterThan(0);
+    expect(compareTableCells('Item 2', 'Item 10')).toBeLessThan(0);
+    expect(compareTableCells('item 3', 'Item 3')).toBe(0);
+  });
+
+  it('filters on raw and formatted text and sorts with blanks last', () => {
+    expect(visibleTableRows(table, '€1,200', null).map(row => row[0])).toEqual(['Item 10']);
+    expect(visibleTableRows(table, 'ITEM 2', null).map(row => row[0])).toEqual(['Item 2']);
+    expect(visibleTableRows(table, '', { column: 0, direction: 'ascending' }).map(row => row[0]))
+      .toEqual(['Item 2', 'item 3', 'Item 10']);
+    expect(visibleTableRows(table, '', { column: 2, direction: 'descending' }).map(row => row[2]))
+      .toEqual(['12', '5', '']);
+    // The block's own rows are never reordered
+    expect(table.rows[0][0]).toBe('Item 10');
+  });
+
+  it('reads merged header cells the way spreadsheets copy them', () => {
+    expect(headerGroupsFromCells(['', 'Sales', '', 'Costs'], 5)).toEqual([
+      { label: '', span: 1 },
+      { label: 'Sales', span: 2 },
+      { label: 'Costs', span: 2 }
+    ]);
+  });
+
+  it('parses pasted data, padding short rows', () => {
+    expect(parseTableCsv('Name\tScore\tNote\nAda\t10\nLin\t9\tok')).toEqual({
+      table: { headers: ['Name', 'Score', 'Note'], rows: [['Ada', '10', ''], ['Lin', '9', 'ok']], headerGroups: undefined },
+      errors: []
+    });
+    expect(parseTableCsv('Name,Score').errors).toEqual(['Only header rows were found; add rows of data below them.']);
+    expect(parseTableCsv('  ').table.headers).toEqual([]);
+  });
+
+  it('round-trips merged headers through the editor CSV', () => {
+    const grouped: TableData = {
+      headerGroups: [{ label: 'Who', span: 1 }, { label: 'Scores, 2024', span: 2 }],
+      headers: ['Name', 'H1', 'H2'],
+      rows: [['Ada', '1', '2']]
+    };
+    const csv = tableToCsv(grouped);
+    expect(csv).toBe('Who,"Scores, 2024",\nName,H1,H2\nAda,1,2');
+    expect(parseTableCsv(csv, { headerGroups: true }).table).toEqual({
+      headerGroups: grouped.headerGroups,
+      headers: grouped.headers,
+      rows: grouped.rows
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { categoryLabel, parseTagNames, toSlug } from '../blogTaxonomy';
+
+describe('blogTaxonomy', () => {
+  it('slugifies names', () => {
+    expect(toSlug('  Machine Learning ')).toBe('machine-learning');
+    expect(toSlug('AI & Data -- Ops!')).toBe('ai-data-ops');
+    expect(toSlug('***')).toBe('');
+  });
+
+  it('splits tag input and drops blanks and slug duplicates', () => {
+    expect(parseTagNames('LLM, Machine Learning,, machine-learning , ?!, RAG')).toEqual(['LLM', 'Machine Learning', 'RAG']);
+  });
+
+  it('labels categories by name and falls back to the slug', () => {
+    const categories = [{ slug: 'ai', name: 'Artificial Intelligence' }];
+    expect(categoryLabel(categories, 'ai')).toBe('Artificial Intelligence');
+    expect(categoryLabel(categories, 'legacy')).toBe('legacy');
+  });
+});
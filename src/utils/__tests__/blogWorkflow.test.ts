@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { allowedStatuses, canCreateBlog, canDeleteBlog, canEditBlog, canReviewBlog, canTransition } from '../blogWorkflow';
+
+describe('blogWorkflow', () => {
+  it('limits editors to drafting and submitting for review', () => {
+    expect(allowedStatuses('editor')).toEqual(['draft', 'in_review']);
+    expect(allowedStatuses('admin')).toContain('published');
+    expect(canCreateBlog('editor')).toBe(true);
+    expect(canCreateBlog('viewer')).toBe(false);
+  });
+
+  it('allows editors to move only between draft and in_review', () => {
+    expect(canTransition('editor', null, 'in_review')).toBe(true);
+    expect(canTransition('editor', 'draft', 'in_review')).toBe(true);
+    expect(canTransition('editor', 'in_review', 'published')).toBe(false);
+    expect(canTransition('editor', 'published', 'draft')).toBe(false);
+    expect(canTransition('admin', 'in_review', 'published')).toBe(true);
+  });
+
+  it('locks approved posts for editors', () => {
+    expect(canEditBlog('editor', 'draft')).toBe(true);
+    expect(canEditBlog('editor', 'published')).toBe(false);
+    expect(canEditBlog('admin', 'published')).toBe(true);
+    expect(canDeleteBlog('editor', 'in_review')).toBe(false);
+    expect(canDeleteBlog('editor', 'draft')).toBe(true);
+  });
+
+  it('lets only admins review submitted posts', () => {
+    expect(canReviewBlog('admin', 'in_review')).toBe(true);
+    expect(canReviewBlog('admin', 'draft')).toBe(false);
+    expect(canReviewBlog('editor', 'in_review')).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { highlightCode, highlightCodeToHtml } from '../codeHighlight';
+
+describe('codeHighlight', () => {
+  it('splits code into comment, string, number and keyword tokens', () => {
+    expect(highlightCode('const x = "a // b"; // note\nreturn 42;', 'ts')).toEqual([
+      { type: 'keyword', value: 'const' },
+      { type: 'plain', value: ' x = ' },
+      { type: 'string', value: '"a // b"' },
+      { type: 'plain', value: '; ' },
+      { type: 'comment', value: '// note' },
+      { type: 'plain', value: '\n' },
+      { type: 'keyword', value: 'return' },
+      { type: 'plain', value: ' ' },
+      { type: 'number', value: '42' },
+      { type: 'plain', value: ';' }
+    ]);
+  });
+
+  it('matches SQL keywords regardless of case and leaves identifiers alone', () => {
+    const tokens = highlightCode("SELECT name FROM users WHERE id = 'x1'", 'sql');
+    expect(tokens.filter(token => token.type === 'keyword').map(token => token.value)).toEqual(['SELECT', 'FROM', 'WHERE']);
+    expect(tokens.find(token => token.type === 'string')?.value).toBe("'x1'");
+  });
+
+  it('returns unknown languages as a single plain token', () => {
+    expect(highlightCode('if (x) {}', 'brainfuck')).toEqual([{ type: 'plain', value: 'if (x) {}' }]);
+    expect(highlightCode('', 'python')).toEqual([]);
+  });
+
+  it('escapes markup in the HTML output', () => {
+    expect(highlightCodeToHtml('# <script>\nx = "<b>"', 'python'))
+      .toBe('<span class="token comment"># &lt;script&gt;</span>\nx = <span class="token string">&quot;&lt;b&gt;&quot;</span>');
+  });
+});
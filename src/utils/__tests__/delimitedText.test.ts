@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { detectDelimiter, parseDelimitedText, toCsv } from '../delimitedText';
+
+describe('delimitedText', () => {
+  it('detects tabs, semicolons and commas from the first line', () => {
+    expect(detectDelimiter('a\tb,c\n1\t2')).toBe('\t');
+    expect(detectDelimiter('a;b\n1,5;2')).toBe(';');
+    expect(detectDelimiter('a,b;c')).toBe(',');
+  });
+
+  it('splits rows and cells, honouring quotes and skipping blank lines', () => {
+    expect(parseDelimitedText('name,note\r\n"Smith, J","said ""hi""\nthen left"\n\n x , y ')).toEqual([
+      ['name', 'note'],
+      ['Smith, J', 'said "hi"\nthen left'],
+      ['x', 'y']
+    ]);
+    expect(parseDelimitedText('a\t"b\tc"', '\t')).toEqual([['a', 'b\tc']]);
+    expect(parseDelimitedText('')).toEqual([]);
+  });
+
+  it('writes CSV that parses back to the same rows', () => {
+    const rows = [['Label', 'Value'], ['Smith, J', 'said "hi"'], ['plain', '1']];
+    const csv = toCsv(rows);
+    expect(csv).toBe('Label,Value\n"Smith, J","said ""hi"""\nplain,1');
+    expect(parseDelimitedText(csv)).toEqual(rows);
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { DocumentParser } from '@/utils/documentParser';
+import { DocumentParser, StandardizedBlog } from '@/utils/documentParser';
+
+// The parsing steps are private; reach them without the file reader
+const parsers = DocumentParser as unknown as {
+  parseHtmlContentToBlocks: (html: string, fileName: string) => StandardizedBlog;
+  parseTextContentToBlocks: (text: string, fileName: string) => StandardizedBlog;
+};
 
 describe('DocumentParser', () => {
   it('parses simple HTML into standardized blocks and excerpt', () => {
@@ -20,12 +26,46 @@ describe('DocumentParser', () => {
     expect(blog.excerpt.length).toBeGreaterThan(0);
   // Ensure some expected block types exist
   const types = blog.blocks.map((b: any) => b.type);
-  expect(types).toEqual(expect.arrayContaining(['full-width-text', 'table']));
+  expect(types).toEqual(expect.arrayContaining(['heading', 'list', 'table']));
   // Depending on layout toggle, image may be combined with paragraph or standalone
   const hasImageType = types.includes('left-image-right-text') || types.includes('right-image-left-text') || types.includes('image-caption');
   expect(hasImageType).toBe(true);
   });
 
+  it('keeps headings, nested lists, quotes, code and rules as their own block types', () => {
+    const html = `
+      <h1>Guide</h1>
+      <h2>Install</h2>
+      <ol><li>Download<ul><li>Pick a mirror</li></ul></li><li>Run it</li></ol>
+      <blockquote><p>It just works.</p></blockquote>
+      <pre><code>npm install
+  --save</code></pre>
+      <hr />
+    `;
+    const blog = parsers.parseHtmlContentToBlocks(html, 'guide.docx');
+
+    expect(blog.blocks.map(b => b.type)).toEqual(['heading', 'heading', 'list', 'quote', 'code', 'divider']);
+    expect(blog.blocks[0].content).toMatchObject({ text: 'Guide', level: 2 });
+    expect(blog.blocks[1].content).toMatchObject({ text: 'Install', level: 3 });
+    expect(blog.blocks[2].content.listData).toEqual({
+      style: 'ordered',
+      items: [{ text: 'Download', children: [{ text: 'Pick a mirror' }] }, { text: 'Run it' }]
+    });
+    expect(blog.blocks[3].content.text).toBe('It just works.');
+    expect(blog.blocks[4].content.text).toBe('npm install\n  --save');
+  });
+
+  it('groups consecutive list lines in plain text into one list', () => {
+    const text = `Title Line\nSome paragraph line that is fairly long to be considered content.\n1. First\n2. Second\n- Loose bullet`;
+    const blog = parsers.parseTextContentToBlocks(text, 'sample.pdf');
+    const lists = blog.blocks.filter(b => b.type === 'list');
+
+    expect(lists.map(b => b.content.listData)).toEqual([
+      { style: 'ordered', items: [{ text: 'First' }, { text: 'Second' }] },
+      { style: 'unordered', items: [{ text: 'Loose bullet' }] }
+    ]);
+  });
+
   it('parses plain text into blocks with inferred title', () => {
     const text = `Title Line\nSome paragraph line that is fairly long to be considered content.\n- Bullet 1\n- Bullet 2`;
     const blog = (DocumentParser as any).parseTextContentToBlocks(text, 'sample.pdf');
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { safeHref, safeImageUrl, safeVideoUrl, sanitizeHtml, sanitizeStyle } from '../htmlSanitizer';
+
+// Classic payloads; none of them may leave an executable tag, handler or URL behind
+const XSS_PAYLOADS = [
+  '<script>alert(1)</script>',
+  '<SCRIPT SRC=//evil.example/xss.js></SCRIPT>',
+  '<img src=x onerror=alert(1)>',
+  '<img src="javascript:alert(1)">',
+  '<img/src="x"/onerror=alert(1)>',
+  '<IMG SRC=JaVaScRiPt:alert(1)>',
+  '<img src="jav&#x09;ascript:alert(1)">',
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">x</a>',
+  '<a href="java\tscript:alert(1)">x</a>',
+  '<a href="javascript&colon;alert(1)">x</a>',
+  '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+  '<svg onload=alert(1)><script>alert(1)</script></svg>',
+  '<math><mtext><script>alert(1)</script></mtext></math>',
+  '<iframe src="javascript:alert(1)"></iframe>',
+  '<iframe srcdoc="<script>alert(1)</script>" src="https://www.youtube.com/embed/dQw4w9WgXcQ"></iframe>',
+  '<body onload=alert(1)>',
+  '<div style="background:url(javascript:alert(1))">x</div>',
+  '<div style="width: expression(alert(1))">x</div>',
+  '<object data="javascript:alert(1)"></object>',
+  '<embed src="javascript:alert(1)">',
+  '<form action="javascript:alert(1)"><button>go</button></form>',
+  '<details open ontoggle=alert(1)>',
+  '<scr<script>ipt>alert(1)</script>',
+  '<style>@import "//evil.example/x.css";</style>',
+  '<!--<img src=x onerror=alert(1)>-->',
+  '<img src=x onerror=alert(1)//',
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<video poster="javascript:alert(1)" src="https://evil.example/a.mp4"></video>'
+];
+
+const DANGEROUS_TAGS = new Set(['SCRIPT', 'SVG', 'MATH', 'OBJECT', 'EMBED', 'FORM', 'META', 'STYLE', 'BODY', 'DETAILS']);
+
+// Anything a browser would act on, found by parsing the output like a browser does
+const executableParts = (html: string): string[] => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return Array.from(template.content.querySelectorAll('*')).flatMap(element => [
+    ...(DANGEROUS_TAGS.has(element.tagName.toUpperCase()) ? [element.tagName] : []),
+    ...Array.from(element.attributes)
+      .filter(attribute => /^on|srcdoc/i.test(attribute.name) || /javascript:|expression\(|url\(|data:text/i.test(attribute.value))
+      .map(attribute => `${attribute.name}=${attribute.value}`)
+  ]);
+};
+
+describe('htmlSanitizer', () => {
+  it.each(XSS_PAYLOADS)('neutralizes %s', payload => {
+    expect(executableParts(sanitizeHtml(payload))).toEqual([]);
+  });
+
+  it('keeps allowed formatting, links and media', () => {
+    const html = '<h2 class="ql-align-center">Title</h2><p>A <strong>bold</strong> <a href="https://example.com" target="_blank">link</a></p>'
+      + '<img src="https://cdn.example/a.png" alt="A"><table><tr><td colspan="2">cell</td></tr></table>';
+    expect(sanitizeHtml(html)).toBe(
+      '<h2 class="ql-align-center">Title</h2><p>A <strong>bold</strong> <a href="https://example.com" target="_blank" rel="noopener noreferrer">link</a></p>'
+      + '<img src="https://cdn.example/a.png" alt="A"><table><tr><td colspan="2">cell</td></tr></table>'
+    );
+  });
+
+  it('unwraps unknown tags, escapes stray markup and closes open tags', () => {
+    expect(sanitizeHtml('<font color="red">hi</font> 1 < 2 & 3 &amp; 4')).toBe('hi 1 &lt; 2 &amp; 3 &amp; 4');
+    expect(sanitizeHtml('<div><p>open')).toBe('<div><p>open</p></div>');
+    expect(sanitizeHtml('</div>text</p>')).toBe('text');
+  });
+
+  it('keeps embeds only from approved video hosts', () => {
+    expect(sanitizeHtml('<iframe src="https://youtu.be/dQw4w9WgXcQ" allowfullscreen onload="x()"></iframe>'))
+      .toBe('<iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ" allowfullscreen></iframe>');
+    expect(sanitizeHtml('<iframe src="https://evil.example/embed">fallback</iframe>after')).toBe('after');
+  });
+
+  it('filters inline styles to safe declarations', () => {
+    expect(sanitizeStyle('color: red; position: fixed; background-image: url(x); text-align:center'))
+      .toBe('color: red; text-align: center');
+  });
+
+  it('checks URL schemes per use', () => {
+    expect(safeHref('/blog/post')).toBe('/blog/post');
+    expect(safeHref('#section')).toBe('#section');
+    expect(safeHref('mailto:hi@example.com')).toBe('mailto:hi@example.com');
+    expect(safeHref('//evil.example')).toBeNull();
+    expect(safeHref(' data:text/html,<script>')).toBeNull();
+
+    expect(safeImageUrl('https://cdn.example/a.jpg')).toBe('https://cdn.example/a.jpg');
+    expect(safeImageUrl('data:image/png;base64,iVBORw0KGgo=')).toBe('data:image/png;base64,iVBORw0KGgo=');
+    expect(safeImageUrl('data:image/svg+xml;base64,PHN2Zz4=')).toBeNull();
+    expect(safeImageUrl('ftp://example.com/a.jpg')).toBeNull();
+
+    expect(safeVideoUrl('https://player.vimeo.com/video/1')).toBe('https://player.vimeo.com/video/1');
+    expect(safeVideoUrl('https://tqpjqyjyidyargswfzga.supabase.co/storage/v1/object/public/blog-videos/a.mp4'))
+      .toBe('https://tqpjqyjyidyargswfzga.supabase.co/storage/v1/object/public/blog-videos/a.mp4');
+    expect(safeVideoUrl('https://tqpjqyjyidyargswfzga.supabase.co/storage/v1/object/public/other/a.mp4')).toBeNull();
+    expect(safeVideoUrl('https://youtube.com.evil.example/embed/dQw4w9WgXcQ')).toBeNull();
+    expect(safeVideoUrl('https://evil.supabase.co/storage/v1/object/public/blog-videos/x.mp4')).toBeNull();
+    expect(sanitizeHtml('<iframe src="https://evil.supabase.co/storage/v1/object/public/blog-videos/x.mp4"></iframe>after')).toBe('after');
+  });
+});
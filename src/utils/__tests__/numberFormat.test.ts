@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { formatNumber, parseNumber } from '../numberFormat';
+
+describe('numberFormat', () => {
+  it('formats values per number format', () => {
+    expect(formatNumber(1234.567, {})).toBe('1,234.57');
+    expect(formatNumber(1234567, { numberFormat: 'compact' })).toBe('1.2M');
+    expect(formatNumber(12.5, { numberFormat: 'percent' })).toBe('12.5%');
+    expect(formatNumber(1234.5, { numberFormat: 'currency' })).toBe('$1,234.50');
+    expect(formatNumber(10, { numberFormat: 'currency', currency: 'EUR' })).toBe('€10.00');
+  });
+
+  it('reads numbers the way spreadsheets copy them', () => {
+    expect(parseNumber('1,234')).toBe(1234);
+    expect(parseNumber(' $12.50 ')).toBe(12.5);
+    expect(parseNumber('45%')).toBe(45);
+    expect(parseNumber('-3')).toBe(-3);
+    expect(parseNumber('1.234,5', true)).toBe(1234.5);
+    expect(parseNumber('')).toBeNull();
+    expect(parseNumber('n/a')).toBeNull();
+  });
+});
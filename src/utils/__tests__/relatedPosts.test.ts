@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { fetchRelatedPosts, readLastRead, rememberLastRead } from '../relatedPosts';
+import { supabase } from '../../integrations/supabase/client';
+import { mockQuery } from '../../test/mocks/supabaseQuery';
+
+vi.mock('../../integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn()
+  }
+}));
+
+const post = (id: string, category: string) => ({
+  id, title: `Post ${id}`, slug: `post-${id}`, category, status: 'published', created_at: '2024-01-01T00:00:00Z'
+});
+
+const mockTables = (tables: Record<string, unknown[]>) => {
+  (supabase.from as Mock).mockImplementation((table: string) => ({
+    select: vi.fn(() => mockQuery({ data: tables[table] || [] }))
+  }));
+};
+
+describe('relatedPosts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionStorage.clear();
+  });
+
+  it('reads the precomputed list and skips posts the reader cannot see', async () => {
+    mockTables({
+      blog_related_posts: [
+        { blog_id: 'a', score: 0.9, related: post('b', 'ai') },
+        { blog_id: 'a', score: 0.5, related: null },
+        { blog_id: 'other', score: 0.7, related: post('c', 'ai') }
+      ]
+    });
+
+    const related = await fetchRelatedPosts({ id: 'a', category: 'ai' });
+    expect(related.map(item => item.id)).toEqual(['b']);
+  });
+
+  it('falls back to the latest posts in the same category', async () => {
+    mockTables({ blogs: [post('a', 'ai'), post('d', 'ai'), post('e', 'business')] });
+
+    const related = await fetchRelatedPosts({ id: 'a', category: 'ai' });
+    expect(related.map(item => item.id)).toEqual(['d']);
+  });
+
+  it('remembers the last post read for the session', () => {
+    expect(readLastRead()).toBeNull();
+    rememberLastRead({ ...post('a', 'ai'), excerpt: 'not stored' } as Parameters<typeof rememberLastRead>[0]);
+    expect(readLastRead()).toEqual({ id: 'a', category: 'ai', title: 'Post a', slug: 'post-a' });
+  });
+});
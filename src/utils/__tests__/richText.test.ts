@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  markupFromContent,
+  parseInlineMarkup,
+  richTextToHtml,
+  textFieldsFromMarkup,
+  toInlineMarkup
+} from '../richText';
+import type { RichTextSpan } from '../blogSchema';
+
+describe('richText', () => {
+  it('parses bold, italic, code and links', () => {
+    expect(parseInlineMarkup('A **bold** and *italic* `x < y` [site](https://example.com)')).toEqual([
+      { text: 'A ' },
+      { text: 'bold', marks: ['bold'] },
+      { text: ' and ' },
+      { text: 'italic', marks: ['italic'] },
+      { text: ' ' },
+      { text: 'x < y', marks: ['code'] },
+      { text: ' ' },
+      { text: 'site', href: 'https://example.com' }
+    ]);
+  });
+
+  it('nests marks and keeps unmatched markers as text', () => {
+    expect(parseInlineMarkup('**a *b***')).toEqual([
+      { text: 'a ', marks: ['bold'] },
+      { text: 'b', marks: ['bold', 'italic'] }
+    ]);
+    expect(parseInlineMarkup('5 * 3 and [not a link]')).toEqual([{ text: '5 * 3 and [not a link]' }]);
+    expect(parseInlineMarkup('\\*literal\\*')).toEqual([{ text: '*literal*' }]);
+  });
+
+  it('drops unsafe link targets but keeps the label', () => {
+    expect(parseInlineMarkup('[click](javascript:void) ok')).toEqual([{ text: 'click ok' }]);
+  });
+
+  it('round-trips overlapping marks through the markup', () => {
+    const spans: RichTextSpan[] = [
+      { text: 'a ', marks: ['italic'] },
+      { text: 'b', marks: ['bold', 'italic'] },
+      { text: ' c*d', marks: ['italic'] },
+      { text: ' link ', href: 'https://example.com/a_(b)' },
+      { text: 'code', marks: ['code'], href: 'https://example.com/a_(b)' }
+    ];
+    expect(parseInlineMarkup(toInlineMarkup(spans))).toEqual([
+      ...spans.slice(0, 3),
+      { text: ' link ', href: 'https://example.com/a_(b%29' },
+      { text: 'code', marks: ['code'], href: 'https://example.com/a_(b%29' }
+    ]);
+  });
+
+  it('escapes plain text for editing so it saves unchanged', () => {
+    const markup = markupFromContent({ text: 'x * y [1]' });
+    expect(markup).toBe('x \\* y \\[1\\]');
+    expect(textFieldsFromMarkup(markup)).toEqual({ text: 'x * y [1]', richText: undefined });
+  });
+
+  it('keeps a plain-text mirror alongside formatted spans', () => {
+    expect(textFieldsFromMarkup('Hello **world**')).toEqual({
+      text: 'Hello world',
+      richText: [{ text: 'Hello ' }, { text: 'world', marks: ['bold'] }]
+    });
+  });
+
+  it('renders escaped HTML', () => {
+    expect(richTextToHtml([
+      { text: '<b>' },
+      { text: 'go', marks: ['bold', 'italic'], href: 'https://example.com/?a="1"' },
+      { text: 'bad', href: 'javascript:alert(1)' }
+    ])).toBe('&lt;b&gt;<a href="https://example.com/?a=&quot;1&quot;"><strong><em>go</em></strong></a>bad');
+  });
+});
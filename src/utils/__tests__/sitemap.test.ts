@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import appSource from '../../App.tsx?raw';
+import robotsTxt from '../../../public/robots.txt?raw';
+import {
+  DISALLOWED_PATHS,
+  STATIC_SITEMAP_ROUTES,
+  archiveSitemapEntries,
+  blogSitemapEntries,
+  buildRobotsTxt,
+  buildSitemapXml
+} from '../sitemap';
+
+describe('sitemap', () => {
+  it('lists every static route from App.tsx except private ones', () => {
+    const routes = [...appSource.matchAll(/<Route path="([^"]+)"/g)]
+      .map(match => match[1])
+      .filter(path => path !== '*' && !path.includes(':') && !DISALLOWED_PATHS.includes(path));
+
+    expect(STATIC_SITEMAP_ROUTES.map(entry => entry.path).sort()).toEqual(routes.sort());
+  });
+
+  it('adds published blogs with lastmod from updated_at', () => {
+    const entries = blogSitemapEntries([
+      { slug: 'ai-&-ml', created_at: '2024-01-01T00:00:00Z', updated_at: '2024-02-01T12:00:00Z' },
+      { slug: 'older', created_at: '2023-05-01T00:00:00Z', updated_at: null }
+    ]);
+    const xml = buildSitemapXml(entries, 'https://hibiz.ai');
+
+    expect(xml).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+    expect(xml).toContain('<loc>https://hibiz.ai/blog/ai-%26-ml</loc>');
+    expect(xml).toContain('<lastmod>2024-02-01T12:00:00.000Z</lastmod>');
+    expect(xml).toContain('<lastmod>2023-05-01T00:00:00.000Z</lastmod>');
+    expect(xml).toContain('<priority>0.6</priority>');
+  });
+
+  it('adds category and tag archives', () => {
+    const xml = buildSitemapXml([
+      ...archiveSitemapEntries('category', [{ slug: 'ai', lastmod: '2024-03-01T00:00:00Z' }]),
+      ...archiveSitemapEntries('tag', [{ slug: 'large language models' }])
+    ], 'https://hibiz.ai');
+
+    expect(xml).toContain('<loc>https://hibiz.ai/blog/category/ai</loc>');
+    expect(xml).toContain('<lastmod>2024-03-01T00:00:00.000Z</lastmod>');
+    expect(xml).toContain('<loc>https://hibiz.ai/blog/tag/large%20language%20models</loc>');
+  });
+
+  it('skips lastmod values that are not dates', () => {
+    const xml = buildSitemapXml([{ path: '/pricing', lastmod: 'soon' }], 'https://hibiz.ai');
+    expect(xml).toContain('<loc>https://hibiz.ai/pricing</loc>');
+    expect(xml).not.toContain('<lastmod>');
+  });
+
+  it('keeps public/robots.txt in sync with the generator', () => {
+    expect(robotsTxt).toBe(buildRobotsTxt());
+    expect(robotsTxt).toContain('Disallow: /admin');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { formatTimestamp, parseTimestamp, parseVideoUrl, videoEmbedForContent } from '../videoEmbed';
+
+const YOUTUBE_ID = 'dQw4w9WgXcQ';
+const LOOM_ID = '0123456789abcdef0123456789abcdef';
+const UPLOAD = 'https://tqpjqyjyidyargswfzga.supabase.co/storage/v1/object/public/blog-videos/talk.mp4';
+
+describe('videoEmbed', () => {
+  it.each([
+    `https://www.youtube.com/watch?v=${YOUTUBE_ID}`,
+    `https://youtube.com/watch?feature=share&v=${YOUTUBE_ID}`,
+    `https://m.youtube.com/watch?v=${YOUTUBE_ID}`,
+    `https://youtu.be/${YOUTUBE_ID}`,
+    `https://www.youtube.com/shorts/${YOUTUBE_ID}`,
+    `https://www.youtube.com/live/${YOUTUBE_ID}`,
+    `https://www.youtube.com/embed/${YOUTUBE_ID}`,
+    `https://www.youtube-nocookie.com/embed/${YOUTUBE_ID}`
+  ])('normalizes the YouTube link %s', url => {
+    expect(parseVideoUrl(url)).toEqual({
+      provider: 'youtube',
+      id: YOUTUBE_ID,
+      embedUrl: `https://www.youtube.com/embed/${YOUTUBE_ID}`,
+      watchUrl: `https://www.youtube.com/watch?v=${YOUTUBE_ID}`,
+      thumbnailUrl: `https://i.ytimg.com/vi/${YOUTUBE_ID}/hqdefault.jpg`,
+      startSeconds: undefined
+    });
+  });
+
+  it('carries YouTube start times and privacy-enhanced mode', () => {
+    expect(parseVideoUrl(`https://youtu.be/${YOUTUBE_ID}?t=1m30s`)?.embedUrl)
+      .toBe(`https://www.youtube.com/embed/${YOUTUBE_ID}?start=90`);
+    expect(parseVideoUrl(`https://www.youtube.com/embed/${YOUTUBE_ID}?start=42`)?.startSeconds).toBe(42);
+
+    const video = parseVideoUrl(`https://www.youtube.com/watch?v=${YOUTUBE_ID}&t=10`, { startSeconds: 75, privacyEnhanced: true });
+    expect(video?.embedUrl).toBe(`https://www.youtube-nocookie.com/embed/${YOUTUBE_ID}?start=75`);
+    expect(video?.watchUrl).toBe(`https://www.youtube.com/watch?v=${YOUTUBE_ID}&t=75`);
+  });
+
+  it('normalizes Vimeo links, including unlisted hashes and start times', () => {
+    expect(parseVideoUrl('https://vimeo.com/76979871')?.embedUrl).toBe('https://player.vimeo.com/video/76979871');
+    expect(parseVideoUrl('https://vimeo.com/channels/staffpicks/76979871')?.id).toBe('76979871');
+
+    const unlisted = parseVideoUrl('https://vimeo.com/76979871/abc123ef#t=45s', { privacyEnhanced: true });
+    expect(unlisted?.embedUrl).toBe('https://player.vimeo.com/video/76979871?h=abc123ef&dnt=1#t=45s');
+    expect(unlisted?.watchUrl).toBe('https://vimeo.com/76979871/abc123ef#t=45s');
+    expect(unlisted?.thumbnailUrl).toBeNull();
+  });
+
+  it('normalizes Loom share links', () => {
+    expect(parseVideoUrl(`https://www.loom.com/share/${LOOM_ID}?t=30`)).toMatchObject({
+      provider: 'loom',
+      embedUrl: `https://www.loom.com/embed/${LOOM_ID}?t=30`,
+      thumbnailUrl: `https://cdn.loom.com/sessions/thumbnails/${LOOM_ID}-with-play.gif`
+    });
+    expect(parseVideoUrl('https://www.loom.com/share/not-a-video')).toBeNull();
+  });
+
+  it('accepts uploads only from the blog-videos bucket over https', () => {
+    expect(parseVideoUrl(`${UPLOAD}#t=12`)).toMatchObject({ provider: 'upload', id: 'talk.mp4', embedUrl: `${UPLOAD}#t=12` });
+    expect(parseVideoUrl(UPLOAD.replace('https:', 'http:'))).toBeNull();
+    expect(parseVideoUrl(UPLOAD.replace('blog-videos', 'avatars'))).toBeNull();
+  });
+
+  it.each([
+    'https://evil.example/embed/dQw4w9WgXcQ',
+    'https://youtube.com.evil.example/watch?v=dQw4w9WgXcQ',
+    'https://evil.supabase.co/storage/v1/object/public/blog-videos/x.mp4',
+    'https://www.youtube.com/watch?v=short',
+    'javascript:alert(1)',
+    'not a url',
+    ''
+  ])('rejects %s', url => {
+    expect(parseVideoUrl(url)).toBeNull();
+  });
+
+  it('applies a block\'s start time and privacy settings', () => {
+    expect(videoEmbedForContent({ videoUrl: `https://youtu.be/${YOUTUBE_ID}`, videoStart: 5, privacyEnhanced: true })?.embedUrl)
+      .toBe(`https://www.youtube-nocookie.com/embed/${YOUTUBE_ID}?start=5`);
+  });
+
+  it('parses and formats timestamps', () => {
+    expect(parseTimestamp('90')).toBe(90);
+    expect(parseTimestamp('90s')).toBe(90);
+    expect(parseTimestamp('1m30s')).toBe(90);
+    expect(parseTimestamp('1h2m3s')).toBe(3723);
+    expect(parseTimestamp('1:30')).toBe(90);
+    expect(parseTimestamp('1:02:03')).toBe(3723);
+    expect(parseTimestamp('0')).toBeUndefined();
+    expect(parseTimestamp('soon')).toBeUndefined();
+    expect(parseTimestamp('')).toBeUndefined();
+
+    expect(formatTimestamp(90)).toBe('1:30');
+    expect(formatTimestamp(3723)).toBe('1:02:03');
+  });
+});
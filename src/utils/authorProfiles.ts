@@ -0,0 +1,83 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type AuthorProfile = Tables<'author_profiles'>;
+
+/** What a byline needs; the archive page uses the full profile. */
+export type AuthorByline = Pick<AuthorProfile, 'id' | 'display_name' | 'avatar_url'>;
+
+export const SOCIAL_NETWORKS = ['website', 'twitter', 'linkedin', 'github'] as const;
+export type SocialNetwork = typeof SOCIAL_NETWORKS[number];
+export type SocialLinks = Partial<Record<SocialNetwork, string>>;
+
+export const SOCIAL_LABELS: Record<SocialNetwork, string> = {
+  website: 'Website',
+  twitter: 'X / Twitter',
+  linkedin: 'LinkedIn',
+  github: 'GitHub'
+};
+
+// Defaults written into BlogStructure.author by the editor and document
+// import; they name no one, so bylines skip them
+const PLACEHOLDER_AUTHORS = ['admin', 'auto', 'document upload'];
+
+/** Only http(s) links are rendered; anything else could run script on click. */
+const toSafeUrl = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/** Known networks with valid links from `author_profiles.social_links`. */
+export const parseSocialLinks = (value: Json | null | undefined): SocialLinks => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  return SOCIAL_NETWORKS.reduce<SocialLinks>((links, network) => {
+    const url = toSafeUrl(value[network]);
+    if (url) links[network] = url;
+    return links;
+  }, {});
+};
+
+/**
+ * Name for a post byline: the linked author's profile, else the free-text
+ * `BlogStructure.author` unless it is one of the editor's placeholders.
+ */
+export const bylineName = (profile: Pick<AuthorProfile, 'display_name'> | null | undefined, structureAuthor?: string | null): string | null => {
+  if (profile?.display_name.trim()) return profile.display_name.trim();
+  const fallback = structureAuthor?.trim();
+  return fallback && !PLACEHOLDER_AUTHORS.includes(fallback.toLowerCase()) ? fallback : null;
+};
+
+export const fetchAuthorProfile = async (id: string): Promise<AuthorProfile | null> => {
+  const { data, error } = await supabase
+    .from('author_profiles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/** Id of the signed-in user, or null when there is none (or auth is unavailable). */
+export const fetchCurrentUserId = async (): Promise<string | null> => {
+  try {
+    const { data } = await supabase.auth.getUser();
+    return data.user?.id ?? null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const saveAuthorProfile = async (profile: Pick<AuthorProfile, 'id' | 'display_name' | 'bio' | 'avatar_url'> & { social_links: SocialLinks }) => {
+  const { error } = await supabase
+    .from('author_profiles')
+    .upsert([{ ...profile, social_links: parseSocialLinks(profile.social_links) }], { onConflict: 'id' });
+
+  if (error) throw error;
+};
@@ -0,0 +1,74 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type DailyBlogStats = Database['public']['Functions']['blog_analytics_daily']['Returns'][number];
+export type PostBlogStats = Database['public']['Functions']['blog_analytics_posts']['Returns'][number];
+
+/** Reporting windows offered in the dashboard, in days. */
+export const ANALYTICS_RANGES = [7, 30, 90] as const;
+export type AnalyticsRange = typeof ANALYTICS_RANGES[number];
+
+export interface AnalyticsSummary {
+  views: number;
+  completions: number;
+  /** Share of viewing sessions that reached the end, 0–100 */
+  completionRate: number;
+  /** Deepest scroll per session, averaged over all sessions, 0–100 */
+  averageDepth: number;
+}
+
+export interface CategoryStats {
+  category: string;
+  views: number;
+  completions: number;
+}
+
+/** Start of the UTC day `days - 1` days ago, so a range of 7 covers today and the six days before. */
+export const analyticsSince = (days: number, now: Date = new Date()): string => {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  return start.toISOString();
+};
+
+const percent = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+
+export const completionRate = (stats: Pick<PostBlogStats, 'views' | 'completions'>): number =>
+  percent(stats.completions, stats.views);
+
+export const summarizeAnalytics = (posts: PostBlogStats[]): AnalyticsSummary => {
+  const views = posts.reduce((total, post) => total + post.views, 0);
+  const completions = posts.reduce((total, post) => total + post.completions, 0);
+  // avg_depth is per post; weight it by views so busy posts count for more
+  const depthTotal = posts.reduce((total, post) => total + Number(post.avg_depth || 0) * post.views, 0);
+
+  return {
+    views,
+    completions,
+    completionRate: percent(completions, views),
+    averageDepth: views > 0 ? Math.round((depthTotal / views) * 10) / 10 : 0
+  };
+};
+
+/** Views and completions per category, busiest first. */
+export const categoryBreakdown = (posts: PostBlogStats[]): CategoryStats[] => {
+  const byCategory = new Map<string, CategoryStats>();
+  posts.forEach(post => {
+    const stats = byCategory.get(post.category) ?? { category: post.category, views: 0, completions: 0 };
+    stats.views += post.views;
+    stats.completions += post.completions;
+    byCategory.set(post.category, stats);
+  });
+  return [...byCategory.values()].sort((a, b) => b.views - a.views || a.category.localeCompare(b.category));
+};
+
+export const fetchBlogAnalytics = async (days: number) => {
+  const since = analyticsSince(days);
+  const [daily, posts] = await Promise.all([
+    supabase.rpc('blog_analytics_daily', { since }),
+    supabase.rpc('blog_analytics_posts', { since })
+  ]);
+
+  if (daily.error) throw daily.error;
+  if (posts.error) throw posts.error;
+  return { daily: daily.data || [], posts: posts.data || [] };
+};
@@ -0,0 +1,100 @@
+// Chart blocks: series access, export tables and the CSV form the editor uses
+// for data entry. No "@/" alias: blogExport uses this under Deno.
+import type { ChartData, ChartSeries, ChartType, TableData } from './blogSchema.ts';
+import { detectDelimiter, parseDelimitedText, toCsv } from './delimitedText.ts';
+import { formatNumber, parseNumber } from './numberFormat.ts';
+
+export const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  bar: 'Bar',
+  line: 'Line',
+  area: 'Area',
+  pie: 'Pie',
+  donut: 'Donut'
+};
+
+/** Pie and donut charts draw the first series as slices of a whole. */
+export const isCircularChart = (type: ChartType): boolean => type === 'pie' || type === 'donut';
+
+/** Every series of a chart; the one series of older charts is named after the value axis. */
+export const chartSeries = (chart: ChartData): ChartSeries[] =>
+  chart.series?.length ? chart.series : [{ name: chart.yAxisLabel || 'Value', data: chart.data }];
+
+/** A chart with new labels and series, keeping `data` in step with the first series. */
+export const withChartSeries = (chart: ChartData, labels: string[], series: ChartSeries[]): ChartData => ({
+  ...chart,
+  labels,
+  series,
+  data: series[0]?.data ?? []
+});
+
+/**
+ * The chart's values as a table of formatted text: one row per label, one
+ * column per series. Used where a chart can't be drawn (exports, screen readers).
+ */
+export const chartTable = (chart: ChartData): TableData => {
+  const series = chartSeries(chart);
+  return {
+    headers: [chart.xAxisLabel || 'Label', ...series.map(entry => entry.name)],
+    rows: chart.labels.map((label, index) => [
+      label,
+      ...series.map(entry => formatNumber(entry.data[index] ?? 0, chart))
+    ])
+  };
+};
+
+export interface ChartCsv {
+  labels: string[];
+  series: ChartSeries[];
+  /** Problems worth showing; unreadable values are kept as 0 */
+  errors: string[];
+}
+
+/**
+ * Chart data from pasted CSV/TSV: the first column holds the labels and each
+ * further column is a series. A first row with any non-numeric value is read
+ * as the header that names the series.
+ */
+export const parseChartCsv = (text: string): ChartCsv => {
+  const delimiter = detectDelimiter(text);
+  const decimalComma = delimiter === ';';
+  const rows = parseDelimitedText(text, delimiter);
+  const columns = Math.max(0, ...rows.map(row => row.length)) - 1;
+
+  if (rows.length === 0 || columns < 1) {
+    return { labels: [], series: [], errors: ['Paste at least one row with a label and a value.'] };
+  }
+
+  const hasHeader = rows[0].slice(1).some(cell => parseNumber(cell, decimalComma) === null);
+  const header = hasHeader ? rows[0] : undefined;
+  const body = hasHeader ? rows.slice(1) : rows;
+  const errors: string[] = [];
+
+  const series: ChartSeries[] = Array.from({ length: columns }, (_, column) => ({
+    name: header?.[column + 1] || `Series ${column + 1}`,
+    data: body.map((row, index) => {
+      const cell = row[column + 1] ?? '';
+      const value = parseNumber(cell, decimalComma);
+      if (value === null && cell !== '') {
+        errors.push(`Row ${index + (hasHeader ? 2 : 1)}: "${cell}" is not a number, using 0.`);
+      }
+      return value ?? 0;
+    })
+  }));
+
+  if (body.length === 0) errors.push('Only a header row was found; add rows of values below it.');
+
+  return {
+    labels: body.map(row => row[0]),
+    series,
+    errors
+  };
+};
+
+/** Inverse of parseChartCsv, for filling the editor's data field. */
+export const chartToCsv = (chart: ChartData): string => {
+  const series = chartSeries(chart);
+  return toCsv([
+    [chart.xAxisLabel || 'Label', ...series.map(entry => entry.name)],
+    ...chart.labels.map((label, index) => [label, ...series.map(entry => String(entry.data[index] ?? 0))])
+  ]);
+};
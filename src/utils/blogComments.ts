@@ -0,0 +1,135 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Length limits and statuses mirror the blog_comments CHECK constraints; the
+// submission rate limit is enforced by the limit_blog_comment_rate trigger only.
+export const MAX_COMMENT_AUTHOR_LENGTH = 80;
+export const MAX_COMMENT_LENGTH = 2000;
+
+export const COMMENT_STATUSES = ['pending', 'approved', 'rejected', 'spam'] as const;
+export type CommentStatus = typeof COMMENT_STATUSES[number];
+
+export const COMMENT_STATUS_LABELS: Record<CommentStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  spam: 'Spam'
+};
+
+export type BlogComment = Tables<'blog_comments'>;
+
+export interface CommentThread extends BlogComment {
+  replies: CommentThread[];
+}
+
+/** Queue rows carry the post they were left on. */
+export type ModerationComment = BlogComment & { blogs: { title: string; slug: string } | null };
+
+export interface CommentDraft {
+  author_name: string;
+  body: string;
+}
+
+export const validateComment = ({ author_name, body }: CommentDraft): string | null => {
+  if (!author_name.trim()) return 'Please enter your name';
+  if (author_name.trim().length > MAX_COMMENT_AUTHOR_LENGTH) {
+    return `Names are limited to ${MAX_COMMENT_AUTHOR_LENGTH} characters`;
+  }
+  if (!body.trim()) return 'Please write a comment';
+  if (body.trim().length > MAX_COMMENT_LENGTH) return `Comments are limited to ${MAX_COMMENT_LENGTH} characters`;
+  return null;
+};
+
+/**
+ * Nest comments under their parents, oldest first at every level. Replies
+ * whose parent is not in the list (not approved, or removed) are dropped
+ * rather than shown out of context.
+ */
+export const buildCommentThreads = (comments: BlogComment[]): CommentThread[] => {
+  const byId = new Map<string, CommentThread>();
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  sorted.forEach(comment => byId.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: CommentThread[] = [];
+  sorted.forEach(comment => {
+    const thread = byId.get(comment.id)!;
+    if (!comment.parent_id) {
+      roots.push(thread);
+    } else {
+      byId.get(comment.parent_id)?.replies.push(thread);
+    }
+  });
+  return roots;
+};
+
+/** Number of comments in the threads, replies included. */
+export const countComments = (threads: CommentThread[]): number =>
+  threads.reduce((total, thread) => total + 1 + countComments(thread.replies), 0);
+
+/** Approved comments on a post; RLS hides everything else from readers. */
+export const fetchApprovedComments = async (blogId: string): Promise<BlogComment[]> => {
+  const { data, error } = await supabase
+    .from('blog_comments')
+    .select('*')
+    .eq('blog_id', blogId)
+    .eq('status', 'approved')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const submitComment = async (comment: CommentDraft & { blog_id: string; parent_id?: string | null }) => {
+  const { error } = await supabase
+    .from('blog_comments')
+    .insert([{
+      blog_id: comment.blog_id,
+      parent_id: comment.parent_id ?? null,
+      author_name: comment.author_name.trim(),
+      body: comment.body.trim()
+    }]);
+
+  if (error) throw error;
+};
+
+export const fetchModerationQueue = async (status: CommentStatus): Promise<ModerationComment[]> => {
+  const { data, error } = await supabase
+    .from('blog_comments')
+    .select('*, blogs(title, slug)')
+    .eq('status', status)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) throw error;
+  return (data || []) as unknown as ModerationComment[];
+};
+
+export const fetchCommentStatusCounts = async (): Promise<Record<string, number>> => {
+  const { data, error } = await supabase
+    .from('blog_comments')
+    .select('status');
+
+  if (error) throw error;
+  return (data || []).reduce<Record<string, number>>((counts, row) => {
+    counts[row.status] = (counts[row.status] || 0) + 1;
+    return counts;
+  }, {});
+};
+
+export const moderateComments = async (ids: string[], status: CommentStatus) => {
+  const { error } = await supabase
+    .from('blog_comments')
+    .update({ status })
+    .in('id', ids);
+
+  if (error) throw error;
+};
+
+export const deleteComment = async (id: string) => {
+  const { error } = await supabase
+    .from('blog_comments')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,126 @@
+// Diffs between two saved versions of a blog, used by the revision history.
+// Visual posts are compared block by block (matched on block id); classic
+// posts are compared line by line on the text extracted from their HTML.
+
+import type { ContentBlock } from '@/utils/blogSchema';
+
+export type BlockChangeType = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface BlockDiffEntry {
+  id: string;
+  change: BlockChangeType;
+  moved: boolean;
+  before?: ContentBlock;
+  after?: ContentBlock;
+  changedFields: string[];
+}
+
+export type TextChangeType = 'added' | 'removed' | 'unchanged';
+
+export interface TextDiffLine {
+  change: TextChangeType;
+  text: string;
+}
+
+const changedContentFields = (before: ContentBlock, after: ContentBlock): string[] => {
+  const fields: string[] = [];
+  if (before.type !== after.type) fields.push('type');
+
+  const keys = new Set([...Object.keys(before.content || {}), ...Object.keys(after.content || {})]);
+  keys.forEach(key => {
+    const a = (before.content as Record<string, unknown>)?.[key];
+    const b = (after.content as Record<string, unknown>)?.[key];
+    if (JSON.stringify(a) !== JSON.stringify(b)) fields.push(key);
+  });
+
+  return fields;
+};
+
+/**
+ * Compare two block lists. Entries follow the order of `after`, with removed
+ * blocks placed after the block that preceded them in `before`. A block is
+ * flagged as moved when its position relative to the other kept blocks changed.
+ */
+export const diffBlocks = (before: ContentBlock[], after: ContentBlock[]): BlockDiffEntry[] => {
+  const beforeById = new Map(before.map(block => [block.id, block]));
+  const afterIds = new Set(after.map(block => block.id));
+
+  const keptBefore = before.filter(block => afterIds.has(block.id)).map(block => block.id);
+  const keptAfter = after.filter(block => beforeById.has(block.id)).map(block => block.id);
+
+  const entries: BlockDiffEntry[] = after.map(block => {
+    const previous = beforeById.get(block.id);
+    if (!previous) {
+      return { id: block.id, change: 'added', moved: false, after: block, changedFields: [] };
+    }
+
+    const changedFields = changedContentFields(previous, block);
+    return {
+      id: block.id,
+      change: changedFields.length > 0 ? 'modified' : 'unchanged',
+      moved: keptBefore.indexOf(block.id) !== keptAfter.indexOf(block.id),
+      before: previous,
+      after: block,
+      changedFields
+    };
+  });
+
+  before.forEach((block, index) => {
+    if (afterIds.has(block.id)) return;
+
+    const removed: BlockDiffEntry = { id: block.id, change: 'removed', moved: false, before: block, changedFields: [] };
+    const precedingId = index > 0 ? before[index - 1].id : null;
+    const position = precedingId ? entries.findIndex(entry => entry.id === precedingId) : -1;
+    entries.splice(position + 1, 0, removed);
+  });
+
+  return entries;
+};
+
+/** Reduce stored HTML to one line per paragraph-level element for diffing. */
+export const htmlToDiffText = (html: string): string =>
+  (html || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr|blockquote|figure|figcaption|table)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+
+/** Line-based diff using the longest common subsequence of the two texts. */
+export const diffText = (before: string, after: string): TextDiffLine[] => {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: TextDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ change: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ change: 'removed', text: a[i++] });
+    } else {
+      lines.push({ change: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ change: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ change: 'added', text: b[j++] });
+
+  return lines;
+};
@@ -0,0 +1,44 @@
+// Reading events sent by BlogPost and stored by the track-blog-event edge
+// function (Deno), so this module has no imports.
+
+export const BLOG_EVENT_TYPES = ['view', 'scroll', 'complete'] as const;
+export type BlogEventType = typeof BLOG_EVENT_TYPES[number];
+
+/** Scroll depths (percent of the article) reported once each per session. */
+export const SCROLL_MILESTONES = [25, 50, 75] as const;
+
+export interface BlogEventPayload {
+  slug: string;
+  sessionId: string;
+  type: BlogEventType;
+  depth: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validated event from an untrusted request body, or null. Depth is pinned
+ * for views (0) and completions (100) and must be a milestone for scrolls, so
+ * the once-per-session unique index can do the deduplication.
+ */
+export const parseBlogEventPayload = (raw: unknown): BlogEventPayload | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { slug, sessionId, type, depth } = raw as Record<string, unknown>;
+
+  if (typeof slug !== 'string' || !slug.trim() || slug.length > 200) return null;
+  if (typeof sessionId !== 'string' || !UUID_PATTERN.test(sessionId)) return null;
+  if (!(BLOG_EVENT_TYPES as readonly unknown[]).includes(type)) return null;
+
+  if (type === 'scroll') {
+    if (!(SCROLL_MILESTONES as readonly unknown[]).includes(depth)) return null;
+    return { slug, sessionId, type, depth: depth as number };
+  }
+  return { slug, sessionId, type: type as BlogEventType, depth: type === 'complete' ? 100 : 0 };
+};
+
+/** How far through `article` the bottom of the viewport is, 0–100. */
+export const readDepth = (articleTop: number, articleHeight: number, viewportBottom: number): number => {
+  if (articleHeight <= 0) return 0;
+  const ratio = (viewportBottom - articleTop) / articleHeight;
+  return Math.round(Math.min(Math.max(ratio, 0), 1) * 100);
+};
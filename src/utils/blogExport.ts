@@ -0,0 +1,475 @@
+// Relative imports with extensions: also loaded by the blog-feed edge function (Deno)
+import type { BlockImage, BlogStructure, CalloutVariant, ContentBlock, ContentBlockContent, GalleryColumns, ListData, ListItem } from './blogSchema.ts';
+import { highlightCode, highlightCodeToHtml, escapeHtml } from './codeHighlight.ts';
+import { richTextToHtml } from './richText.ts';
+import { safeImageUrl, sanitizeHtml } from './htmlSanitizer.ts';
+import { videoEmbedForContent } from './videoEmbed.ts';
+import { chartTable } from './blogCharts.ts';
+import { formatTableCell, tableColumnAlign, tableColumnCount } from './blogTables.ts';
+import { comparisonPair, displayableImages, imageAlt } from './blogImages.ts';
+
+// Everything written by an editor goes through htmlSanitizer.ts or escapeHtml
+// before it is interpolated: the output is stored, fed and printed as HTML.
+
+// Body text of the older text blocks: escaped inline marks when the writer
+// formatted it, otherwise the stored HTML, sanitized
+const bodyHtml = (content: ContentBlockContent): string =>
+  content.richText?.length ? richTextToHtml(content.richText) : sanitizeHtml(content.text);
+
+// Nothing at all for images whose source is not an allowed URL
+const imageHtml = (url: string | undefined, attributes: string): string => {
+  const src = safeImageUrl(url);
+  return src ? `<img src="${escapeHtml(src)}" ${attributes} />` : '';
+};
+
+// Gallery, carousel and comparison pictures; exports have no lightbox,
+// slides or slider, so every picture is shown at once
+const figureHtml = (image: BlockImage, alt: string, imageAttributes: string, captionAttributes: string, caption = image.caption): string => {
+  const figcaption = caption ? `<figcaption ${captionAttributes}>${escapeHtml(caption)}</figcaption>` : '';
+  return `<figure>${imageHtml(image.url, `alt="${escapeHtml(alt)}" ${imageAttributes}`)}${figcaption}</figure>`;
+};
+
+const GALLERY_GRID_CLASSES: Record<GalleryColumns, string> = {
+  2: 'sm:grid-cols-2',
+  3: 'sm:grid-cols-2 md:grid-cols-3',
+  4: 'sm:grid-cols-2 md:grid-cols-4'
+};
+
+// Heading, list, quote and callout text is plain text (not HTML), so unlike
+// the older text blocks it is escaped on the way out
+const headingTag = (level?: number) => `h${level && level >= 1 && level <= 4 ? level : 2}`;
+
+const listHtml = (list: ListData, itemAttributes = '', listAttributes = ''): string => {
+  const tag = list.style === 'ordered' ? 'ol' : 'ul';
+  const render = (items: ListItem[]): string =>
+    `<${tag}${listAttributes}>${items.map(item =>
+      `<li${itemAttributes}>${escapeHtml(item.text)}${item.children?.length ? render(item.children) : ''}</li>`
+    ).join('')}</${tag}>`;
+  return render(list.items);
+};
+
+const CALLOUT_PRINT_COLORS: Record<CalloutVariant, { border: string; background: string }> = {
+  info: { border: '#3b82f6', background: '#eff6ff' },
+  tip: { border: '#22c55e', background: '#f0fdf4' },
+  warning: { border: '#f59e0b', background: '#fffbeb' },
+  danger: { border: '#ef4444', background: '#fef2f2' }
+};
+
+const CODE_PRINT_COLORS: Record<string, string> = {
+  comment: '#6a737d',
+  string: '#032f62',
+  number: '#005cc5',
+  keyword: '#d73a49'
+};
+
+// Convert blog structure to HTML for the `blogs.content` column (backward compatibility)
+export const convertStructureToHTML = (structure: BlogStructure): string => {
+  let html = '';
+
+  structure.blocks.forEach(block => {
+    const { content } = block;
+
+    switch (block.type) {
+      case 'left-image-right-text':
+        html += `
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-6 items-center mb-8">
+            <div>
+              ${imageHtml(content.imageUrl, 'alt="" class="w-full rounded-lg"')}
+            </div>
+            <div>
+              <p>${bodyHtml(content)}</p>
+            </div>
+          </div>
+        `;
+        break;
+      case 'right-image-left-text':
+        html += `
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-6 items-center mb-8">
+            <div>
+              <p>${bodyHtml(content)}</p>
+            </div>
+            <div>
+              ${imageHtml(content.imageUrl, 'alt="" class="w-full rounded-lg"')}
+            </div>
+          </div>
+        `;
+        break;
+      case 'full-width-image':
+        html += `
+          <div class="mb-8">
+            ${imageHtml(content.imageUrl, 'alt="" class="w-full rounded-lg"')}
+            ${content.caption ? `<p class="text-sm text-gray-600 mt-2">${escapeHtml(content.caption)}</p>` : ''}
+          </div>
+        `;
+        break;
+      case 'full-width-text':
+        html += `<div class="mb-8"><p>${bodyHtml(content)}</p></div>`;
+        break;
+      case 'image-caption':
+        html += `
+          <div class="mb-8">
+            ${imageHtml(content.imageUrl, 'alt="" class="w-full rounded-lg"')}
+            ${content.caption ? `<p class="text-sm text-gray-600 mt-2">${escapeHtml(content.caption)}</p>` : ''}
+          </div>
+        `;
+        break;
+      case 'gallery':
+      case 'carousel': {
+        const images = displayableImages(content);
+        if (images.length === 0) break;
+        const layout = block.type === 'gallery'
+          ? `grid grid-cols-1 ${GALLERY_GRID_CLASSES[content.galleryColumns ?? 3]} gap-4`
+          : 'space-y-6';
+        html += `
+          <div class="${layout} mb-8">
+            ${images.map((image, index) =>
+              figureHtml(image, imageAlt(image, index, images.length), 'class="w-full rounded-lg"', 'class="text-sm text-gray-600 mt-2"')
+            ).join('')}
+          </div>
+        `;
+        break;
+      }
+      case 'comparison': {
+        const pair = comparisonPair(content);
+        if (!pair) break;
+        html += `
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+            ${pair.map(image =>
+              figureHtml(image, image.alt || image.label, 'class="w-full rounded-lg"', 'class="text-sm text-gray-600 mt-2"', image.label)
+            ).join('')}
+          </div>
+        `;
+        break;
+      }
+      case 'video-embed': {
+        const video = videoEmbedForContent(content);
+        if (video) {
+          const player = video.provider === 'upload'
+            ? `<video src="${escapeHtml(video.embedUrl)}" class="w-full h-full rounded-lg" controls preload="metadata"></video>`
+            : `<iframe src="${escapeHtml(video.embedUrl)}" class="w-full h-full rounded-lg" loading="lazy" allowfullscreen></iframe>`;
+          html += `
+            <div class="mb-8">
+              <div class="aspect-video">
+                ${player}
+              </div>
+            </div>
+          `;
+        }
+        break;
+      }
+      case 'table':
+        if (content.tableData) {
+          // Exported tables are static: formatted and aligned, but not sortable
+          const table = content.tableData;
+          const columns = Array.from({ length: tableColumnCount(table) }, (_, index) => index);
+          const align = (column: number) => {
+            const value = tableColumnAlign(table, column);
+            return value === 'left' ? '' : ` text-${value}`;
+          };
+          html += '<table class="w-full border-collapse border mb-8">';
+          html += '<thead>';
+          if (table.headerGroups?.length) {
+            html += `<tr>${table.headerGroups.map(group =>
+              `<th colspan="${group.span}" class="border p-3 bg-gray-100 text-center">${escapeHtml(group.label)}</th>`
+            ).join('')}</tr>`;
+          }
+          html += `<tr>${columns.map(column =>
+            `<th class="border p-3 bg-gray-50${align(column)}">${escapeHtml(table.headers[column] ?? '')}</th>`
+          ).join('')}</tr>`;
+          html += '</thead><tbody>';
+          table.rows.forEach(row => {
+            html += `<tr>${columns.map(column =>
+              `<td class="border p-3${align(column)}">${escapeHtml(formatTableCell(table, column, row[column]))}</td>`
+            ).join('')}</tr>`;
+          });
+          html += '</tbody></table>';
+        }
+        break;
+      case 'chart':
+        // Static HTML can't draw the recharts chart, so its values go out as a table
+        if (content.chartData) {
+          const table = chartTable(content.chartData);
+          html += `
+            <figure class="mb-8">
+              <figcaption class="text-lg font-semibold mb-4 text-center">${escapeHtml(content.chartData.title)}</figcaption>
+              <table class="w-full border-collapse border">
+                <thead><tr>${table.headers.map(header => `<th class="border p-3 bg-gray-50">${escapeHtml(header)}</th>`).join('')}</tr></thead>
+                <tbody>${table.rows.map(([label, ...values]) =>
+                  `<tr><th class="border p-3 text-left">${escapeHtml(label)}</th>${values.map(value => `<td class="border p-3 text-right">${escapeHtml(value)}</td>`).join('')}</tr>`
+                ).join('')}</tbody>
+              </table>
+            </figure>
+          `;
+        }
+        break;
+      case 'heading': {
+        const tag = headingTag(content.level);
+        html += `<${tag} class="mb-4">${escapeHtml(content.text || '')}</${tag}>`;
+        break;
+      }
+      case 'list':
+        if (content.listData) {
+          html += `<div class="mb-8">${listHtml(content.listData)}</div>`;
+        }
+        break;
+      case 'quote':
+        html += `
+          <blockquote class="mb-8 border-l-4 pl-4 italic">
+            <p>${escapeHtml(content.text || '')}</p>
+            ${content.attribution ? `<footer>— ${escapeHtml(content.attribution)}</footer>` : ''}
+          </blockquote>
+        `;
+        break;
+      case 'code': {
+        const language = content.language || 'plaintext';
+        html += `<pre class="mb-8"><code class="language-${escapeHtml(language)}">${highlightCodeToHtml(content.text || '', language)}</code></pre>`;
+        break;
+      }
+      case 'divider':
+        html += '<hr class="my-8" />';
+        break;
+      case 'callout':
+        html += `
+          <aside class="mb-8 callout callout-${content.calloutVariant || 'info'}" role="note">
+            ${content.title ? `<p><strong>${escapeHtml(content.title)}</strong></p>` : ''}
+            <p>${escapeHtml(content.text || '')}</p>
+          </aside>
+        `;
+        break;
+    }
+  });
+
+  return html;
+};
+
+// Inline-styled block HTML for the printable (Download PDF) view
+const renderPrintBlock = (block: ContentBlock): string => {
+  const { content } = block;
+
+  switch (block.type) {
+    case 'full-width-text':
+      return `<div style="margin-bottom: 20px;">
+        <p style="line-height: 1.6; font-size: 16px; white-space: pre-line;">${bodyHtml(content)}</p>
+      </div>`;
+    case 'left-image-right-text':
+    case 'right-image-left-text': {
+      const image = imageHtml(content.imageUrl, `alt="${escapeHtml(content.caption || '')}" style="max-width: 300px; height: auto; object-fit: cover; border-radius: 8px;"`);
+      const text = `<div style="flex: 1;">
+          <p style="line-height: 1.6; font-size: 16px;">${bodyHtml(content)}</p>
+        </div>`;
+      return `<div style="margin-bottom: 30px; display: flex; align-items: flex-start; gap: 20px;">
+        ${block.type === 'left-image-right-text' ? image + text : text + image}
+      </div>`;
+    }
+    case 'full-width-image':
+    case 'image-caption':
+      if (!safeImageUrl(content.imageUrl)) return '';
+      return `<div style="margin-bottom: 30px; text-align: center;">
+        ${imageHtml(content.imageUrl, `alt="${escapeHtml(content.caption || '')}" style="max-width: 100%; height: auto; border-radius: 8px;"`)}
+        ${content.caption ? `<p style="margin-top: 10px; font-style: italic; color: #666; font-size: 14px;">${escapeHtml(content.caption)}</p>` : ''}
+      </div>`;
+    case 'gallery':
+    case 'carousel': {
+      const images = displayableImages(content);
+      if (images.length === 0) return '';
+      return `<div style="margin-bottom: 30px; display: flex; flex-wrap: wrap; gap: 16px;">
+        ${images.map((image, index) => `<div style="flex: 1 1 45%; text-align: center;">
+          ${figureHtml(image, imageAlt(image, index, images.length), 'style="max-width: 100%; height: auto; border-radius: 8px;"', 'style="margin-top: 6px; font-style: italic; color: #666; font-size: 13px;"')}
+        </div>`).join('')}
+      </div>`;
+    }
+    case 'comparison': {
+      const pair = comparisonPair(content);
+      if (!pair) return '';
+      return `<div style="margin-bottom: 30px; display: flex; gap: 16px;">
+        ${pair.map(image => `<div style="flex: 1; text-align: center;">
+          ${figureHtml(image, image.alt || image.label, 'style="max-width: 100%; height: auto; border-radius: 8px;"', 'style="margin-top: 6px; font-weight: 600; font-size: 14px;"', image.label)}
+        </div>`).join('')}
+      </div>`;
+    }
+    case 'video-embed': {
+      // Paper can't play video: show the thumbnail where the provider has one and link the watch page
+      const video = videoEmbedForContent(content);
+      if (!video) return '';
+      return `<div style="margin-bottom: 20px;">
+        ${video.thumbnailUrl ? imageHtml(video.thumbnailUrl, `alt="${escapeHtml(content.caption || 'Video thumbnail')}" style="max-width: 320px; height: auto; border-radius: 8px;"`) : ''}
+        <p style="font-size: 14px;">Video: <a href="${escapeHtml(video.watchUrl)}">${escapeHtml(video.watchUrl)}</a></p>
+      </div>`;
+    }
+    case 'table': {
+      const table = content.tableData;
+      if (!table) return '';
+      const columns = Array.from({ length: tableColumnCount(table) }, (_, index) => index);
+      return `<div style="margin-bottom: 30px; overflow-x: auto;">
+        <table style="width: 100%; border-collapse: collapse; border: 1px solid #ddd;">
+          ${table.headerGroups?.length ? `<tr>${table.headerGroups.map(group =>
+            `<th colspan="${group.span}" style="padding: 12px; border: 1px solid #ddd; text-align: center; background-color: #ebebeb; font-weight: bold;">${escapeHtml(group.label)}</th>`
+          ).join('')}</tr>` : ''}
+          <tr>${columns.map(column =>
+            `<th style="padding: 12px; border: 1px solid #ddd; text-align: ${tableColumnAlign(table, column)}; background-color: #f5f5f5; font-weight: bold;">${escapeHtml(table.headers[column] ?? '')}</th>`
+          ).join('')}</tr>
+          ${table.rows.map(row =>
+            `<tr>${columns.map(column =>
+              `<td style="padding: 12px; border: 1px solid #ddd; text-align: ${tableColumnAlign(table, column)};">${escapeHtml(formatTableCell(table, column, row[column]))}</td>`
+            ).join('')}</tr>`
+          ).join('')}
+        </table>
+      </div>`;
+    }
+    case 'chart': {
+      if (!content.chartData) return '';
+      const table = chartTable(content.chartData);
+      return `<div style="margin-bottom: 30px;">
+        <h3>${escapeHtml(content.chartData.title)}</h3>
+        <table style="width: 100%; border-collapse: collapse; border: 1px solid #ddd;">
+          <tr>${table.headers.map(header =>
+            `<th style="padding: 12px; border: 1px solid #ddd; text-align: left; background-color: #f5f5f5; font-weight: bold;">${escapeHtml(header)}</th>`
+          ).join('')}</tr>
+          ${table.rows.map(([label, ...values]) =>
+            `<tr><td style="padding: 12px; border: 1px solid #ddd; text-align: left;">${escapeHtml(label)}</td>${values.map(value =>
+              `<td style="padding: 12px; border: 1px solid #ddd; text-align: right;">${escapeHtml(value)}</td>`
+            ).join('')}</tr>`
+          ).join('')}
+        </table>
+      </div>`;
+    }
+    case 'heading': {
+      const tag = headingTag(content.level);
+      return `<${tag}>${escapeHtml(content.text || '')}</${tag}>`;
+    }
+    case 'list':
+      if (!content.listData) return '';
+      return `<div style="margin-bottom: 20px;">
+        ${listHtml(content.listData, ' style="margin-bottom: 8px; line-height: 1.6;"', ' style="padding-left: 20px;"')}
+      </div>`;
+    case 'quote':
+      return `<blockquote style="margin: 0 0 20px; padding: 10px 20px; border-left: 4px solid #ccc; font-style: italic; color: #444;">
+        <p style="line-height: 1.6; font-size: 16px; white-space: pre-line;">${escapeHtml(content.text || '')}</p>
+        ${content.attribution ? `<p style="font-size: 14px; font-style: normal;">— ${escapeHtml(content.attribution)}</p>` : ''}
+      </blockquote>`;
+    case 'code':
+      return `<pre style="margin-bottom: 20px; padding: 16px; background-color: #f6f8fa; border-radius: 8px; font-size: 13px; white-space: pre-wrap;"><code>${
+        highlightCode(content.text || '', content.language)
+          .map(token => token.type === 'plain'
+            ? escapeHtml(token.value)
+            : `<span style="color: ${CODE_PRINT_COLORS[token.type]};">${escapeHtml(token.value)}</span>`)
+          .join('')
+      }</code></pre>`;
+    case 'divider':
+      return '<hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;" />';
+    case 'callout': {
+      const colors = CALLOUT_PRINT_COLORS[content.calloutVariant || 'info'];
+      return `<div style="margin-bottom: 20px; padding: 12px 16px; border-left: 4px solid ${colors.border}; background-color: ${colors.background}; border-radius: 4px;">
+        ${content.title ? `<p style="font-weight: bold; margin: 0 0 6px;">${escapeHtml(content.title)}</p>` : ''}
+        <p style="line-height: 1.6; font-size: 16px; margin: 0; white-space: pre-line;">${escapeHtml(content.text || '')}</p>
+      </div>`;
+    }
+    default:
+      return '';
+  }
+};
+
+export const convertStructureToPrintHTML = (structure: BlogStructure): string =>
+  structure.blocks.map(renderPrintBlock).join('');
+
+export interface PrintableBlog {
+  title: string;
+  content: string;
+  excerpt?: string | null;
+  category: string;
+  created_at: string;
+  featured_image_url?: string | null;
+  blog_structure?: BlogStructure | null;
+}
+
+/** Complete HTML document for the "Download PDF" print window. */
+export const buildPrintDocument = (blog: PrintableBlog): string => {
+  const contentHtml = blog.blog_structure && blog.blog_structure.blocks && blog.blog_structure.blocks.length > 0
+    ? convertStructureToPrintHTML(blog.blog_structure)
+    // Fallback to regular content
+    : `<div style="line-height: 1.6;">${sanitizeHtml(blog.content).replace(/\n/g, '<br>')}</div>`;
+  const featuredImage = safeImageUrl(blog.featured_image_url);
+
+  return `
+    <html>
+      <head>
+        <title>${escapeHtml(blog.title)}</title>
+        <meta charset="utf-8">
+        <style>
+          @media print {
+            body { -webkit-print-color-adjust: exact; color-adjust: exact; }
+            img { max-width: 100% !important; height: auto !important; }
+          }
+          body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; 
+            padding: 40px; 
+            max-width: 800px; 
+            margin: 0 auto;
+            line-height: 1.6;
+            color: #333;
+          }
+          h1 { 
+            color: #1a1a1a; 
+            font-size: 32px; 
+            margin-bottom: 10px;
+            font-weight: 700;
+          }
+          .meta { 
+            color: #666; 
+            margin-bottom: 30px; 
+            padding-bottom: 20px;
+            border-bottom: 2px solid #eee;
+            font-size: 14px;
+          }
+          .meta p { margin: 5px 0; }
+          .excerpt {
+            font-size: 18px;
+            color: #555;
+            font-style: italic;
+            margin-bottom: 30px;
+            padding: 20px;
+            background-color: #f9f9f9;
+            border-left: 4px solid #007acc;
+          }
+          .featured-image {
+            margin-bottom: 30px;
+            text-align: center;
+          }
+          .featured-image img {
+            max-width: 100%;
+            height: auto;
+            border-radius: 8px;
+            box-shadow: 0 4px 8px rgba(0,0,0,0.1);
+          }
+          .content { 
+            font-size: 16px;
+            line-height: 1.8;
+          }
+          .content p { margin-bottom: 16px; }
+          .content h2, .content h3 { 
+            margin-top: 30px; 
+            margin-bottom: 15px; 
+            color: #1a1a1a;
+          }
+          .content ul, .content ol { 
+            margin-bottom: 16px; 
+            padding-left: 30px;
+          }
+          .content li { margin-bottom: 8px; }
+        </style>
+      </head>
+      <body>
+        <h1>${escapeHtml(blog.title)}</h1>
+        <div class="meta">
+          <p><strong>Category:</strong> ${escapeHtml(blog.category)}</p>
+          <p><strong>Published:</strong> ${new Date(blog.created_at).toLocaleDateString()}</p>
+        </div>
+        ${blog.excerpt ? `<div class="excerpt">${escapeHtml(blog.excerpt)}</div>` : ''}
+        ${featuredImage ? `<div class="featured-image"><img src="${escapeHtml(featuredImage)}" alt="${escapeHtml(blog.title)}" /></div>` : ''}
+        <div class="content">
+          ${contentHtml}
+        </div>
+      </body>
+    </html>
+  `;
+};
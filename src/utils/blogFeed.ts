@@ -0,0 +1,159 @@
+// RSS 2.0 and Atom documents for published blogs. Shared by the blog-feed
+// edge function (Deno), so imports stay relative with explicit extensions.
+import { convertStructureToHTML } from './blogExport.ts';
+import { parseBlogStructure } from './blogSchema.ts';
+import { sanitizeHtml } from './htmlSanitizer.ts';
+import { SITE_NAME, blogPostPath, toAbsoluteUrl, toMetaDescription } from './blogSeo.ts';
+
+export const BLOG_FEED_ENDPOINT = 'https://tqpjqyjyidyargswfzga.supabase.co/functions/v1/blog-feed';
+
+export const FEED_FORMATS = ['rss', 'atom'] as const;
+export type FeedFormat = typeof FEED_FORMATS[number];
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8'
+};
+
+export interface FeedPost {
+  id: string;
+  title: string;
+  slug: string;
+  content: string;
+  excerpt?: string | null;
+  category?: string | null;
+  featured_image_url?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+  publish_at?: string | null;
+  blog_structure?: unknown;
+}
+
+export interface FeedOptions {
+  siteUrl: string;
+  /** Public URL of the feed itself, for the self links. */
+  feedUrl: string;
+  category?: string | null;
+}
+
+/** Public URL of a feed; `category` narrows it to one `blogs.category`. */
+export const blogFeedUrl = (format: FeedFormat, category?: string | null): string => {
+  const params = new URLSearchParams({ format });
+  if (category) params.set('category', category);
+  return `${BLOG_FEED_ENDPOINT}?${params.toString()}`;
+};
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// "]]>" would end the section early, so split it across two CDATA blocks
+const cdata = (value: string): string => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+/**
+ * Full HTML for a feed entry: the same conversion BlogManager writes to
+ * `blogs.content`, falling back to the stored content (sanitized) for
+ * unstructured posts.
+ */
+export const feedEntryHtml = (post: FeedPost): string => {
+  const structure = parseBlogStructure(post.blog_structure);
+  return structure && structure.blocks.length > 0 ? convertStructureToHTML(structure) : sanitizeHtml(post.content);
+};
+
+const publishedAt = (post: FeedPost): string => post.publish_at || post.created_at;
+
+/** Newest first by the date entries show, so scheduled posts sort by when they went live. */
+export const sortFeedPosts = (posts: FeedPost[]): FeedPost[] =>
+  [...posts].sort((a, b) => Date.parse(publishedAt(b)) - Date.parse(publishedAt(a)));
+
+const feedTitle = (category?: string | null): string =>
+  category ? `${SITE_NAME} Blog: ${category}` : `${SITE_NAME} Blog`;
+
+const feedDescription = (category?: string | null): string =>
+  category
+    ? `Latest ${category} articles from ${SITE_NAME}`
+    : `Insights, trends, and innovations in AI and technology from ${SITE_NAME}`;
+
+const blogIndexUrl = (siteUrl: string): string => toAbsoluteUrl('/blog', siteUrl);
+
+export const buildRssFeed = (posts: FeedPost[], options: FeedOptions): string => {
+  const { siteUrl, feedUrl, category } = options;
+  const sorted = sortFeedPosts(posts);
+  const lastBuild = sorted.length > 0 ? new Date(publishedAt(sorted[0])) : new Date();
+
+  const items = sorted.map(post => {
+    const link = toAbsoluteUrl(blogPostPath(post.slug), siteUrl);
+    return [
+      '    <item>',
+      `      <title>${escapeXml(post.title)}</title>`,
+      `      <link>${escapeXml(link)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(post.id)}</guid>`,
+      `      <pubDate>${new Date(publishedAt(post)).toUTCString()}</pubDate>`,
+      post.category ? `      <category>${escapeXml(post.category)}</category>` : null,
+      `      <description>${escapeXml(toMetaDescription(post.excerpt, post.content))}</description>`,
+      `      <content:encoded>${cdata(feedEntryHtml(post))}</content:encoded>`,
+      '    </item>'
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feedTitle(category))}</title>`,
+    `    <link>${escapeXml(blogIndexUrl(siteUrl))}</link>`,
+    `    <description>${escapeXml(feedDescription(category))}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${lastBuild.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+};
+
+export const buildAtomFeed = (posts: FeedPost[], options: FeedOptions): string => {
+  const { siteUrl, feedUrl, category } = options;
+  const updated = posts.length > 0
+    ? Math.max(...posts.map(post => Date.parse(post.updated_at || publishedAt(post))))
+    : Date.now();
+
+  const entries = sortFeedPosts(posts).map(post => {
+    const link = toAbsoluteUrl(blogPostPath(post.slug), siteUrl);
+    return [
+      '  <entry>',
+      `    <title>${escapeXml(post.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(link)}" />`,
+      `    <id>urn:uuid:${escapeXml(post.id)}</id>`,
+      `    <published>${new Date(publishedAt(post)).toISOString()}</published>`,
+      `    <updated>${new Date(post.updated_at || publishedAt(post)).toISOString()}</updated>`,
+      `    <author><name>${escapeXml(SITE_NAME)}</name></author>`,
+      post.category ? `    <category term="${escapeXml(post.category)}" />` : null,
+      `    <summary>${escapeXml(toMetaDescription(post.excerpt, post.content))}</summary>`,
+      `    <content type="html">${escapeXml(feedEntryHtml(post))}</content>`,
+      '  </entry>'
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(feedTitle(category))}</title>`,
+    `  <subtitle>${escapeXml(feedDescription(category))}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(blogIndexUrl(siteUrl))}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}" />`,
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <updated>${new Date(updated).toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+};
+
+export const buildFeed = (format: FeedFormat, posts: FeedPost[], options: FeedOptions): string =>
+  format === 'atom' ? buildAtomFeed(posts, options) : buildRssFeed(posts, options);
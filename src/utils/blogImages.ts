@@ -0,0 +1,32 @@
+// Gallery, carousel and comparison blocks: the pictures that can actually be
+// shown, and the labelled pair of a comparison. No "@/" alias: blogExport
+// uses this under Deno.
+import type { BlockImage, ContentBlockContent } from './blogSchema.ts';
+import { safeImageUrl } from './htmlSanitizer.ts';
+
+export const COMPARISON_LABELS = ['Before', 'After'] as const;
+
+/** The block's pictures whose URL passes safeImageUrl, with the URL trimmed. */
+export const displayableImages = (content: ContentBlockContent): BlockImage[] =>
+  (content.images ?? []).flatMap(image => {
+    const url = safeImageUrl(image.url);
+    return url ? [{ ...image, url }] : [];
+  });
+
+export interface ComparisonImage extends BlockImage {
+  /** The picture's caption, or "Before"/"After" */
+  label: string;
+}
+
+/** The before and after pictures of a comparison block; null until both can be shown. */
+export const comparisonPair = (content: ContentBlockContent): [ComparisonImage, ComparisonImage] | null => {
+  const pair = (content.images ?? []).slice(0, 2).map((image, index) => {
+    const url = safeImageUrl(image.url);
+    return url ? { ...image, url, label: image.caption || COMPARISON_LABELS[index] } : null;
+  });
+  return pair.length === 2 && pair[0] && pair[1] ? [pair[0], pair[1]] : null;
+};
+
+/** Alt text for a picture: its own, else its caption, else its position in the block. */
+export const imageAlt = (image: BlockImage, index: number, count: number): string =>
+  image.alt || image.caption || `Image ${index + 1} of ${count}`;
@@ -0,0 +1,159 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Lists only need card fields; `content` and `blog_structure` are fetched by
+// `fetchBlogBody` when a post is opened.
+export const BLOG_LIST_COLUMNS =
+  'id, title, slug, excerpt, category, status, featured, featured_image_url, created_at, updated_at, publish_at';
+
+// Admin cards also show scheduling and review state
+export const ADMIN_BLOG_LIST_COLUMNS =
+  `${BLOG_LIST_COLUMNS}, unpublish_at, review_comment, reviewed_at, submitted_for_review_at`;
+
+export type BlogListItem = Pick<
+  Tables<'blogs'>,
+  'id' | 'title' | 'slug' | 'excerpt' | 'category' | 'status' | 'featured' | 'featured_image_url' | 'created_at' | 'updated_at' | 'publish_at'
+>;
+
+export type AdminBlogListItem = BlogListItem & Pick<
+  Tables<'blogs'>,
+  'unpublish_at' | 'review_comment' | 'reviewed_at' | 'submitted_for_review_at'
+>;
+
+/** Position after the last row of a page; lists are ordered newest first. */
+export interface BlogListCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface BlogListFilters {
+  status?: string | null;
+  category?: string | null;
+  featured?: boolean;
+  /** Only posts with this tag, through the `blog_tags` join table */
+  tagId?: string | null;
+  authorId?: string | null;
+}
+
+export const cursorFromRow = (row: { created_at: string; id: string }): BlogListCursor => ({
+  createdAt: row.created_at,
+  id: row.id
+});
+
+/**
+ * PostgREST `or` filter for rows strictly after the cursor in
+ * (created_at desc, id desc) order. `id` breaks ties between posts created in
+ * the same instant, so no row is skipped or repeated across pages.
+ */
+export const cursorFilter = ({ createdAt, id }: BlogListCursor): string =>
+  `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt."${id}")`;
+
+/** Numbered pages shown around the current one, e.g. 1 … 4 5 [6] 7 8 … 20 */
+export const pageWindow = (current: number, totalPages: number, radius = 2): Array<number | 'gap'> => {
+  if (totalPages <= 1) return totalPages === 1 ? [1] : [];
+
+  const pages: Array<number | 'gap'> = [];
+  const start = Math.max(2, current - radius);
+  const end = Math.min(totalPages - 1, current + radius);
+
+  pages.push(1);
+  if (start > 2) pages.push('gap');
+  for (let page = start; page <= end; page++) pages.push(page);
+  if (end < totalPages - 1) pages.push('gap');
+  pages.push(totalPages);
+  return pages;
+};
+
+const listQuery = (columns: string, { status, category, featured, tagId, authorId }: BlogListFilters, count = false) => {
+  let query = supabase
+    .from('blogs')
+    .select(tagId ? `${columns}, blog_tags!inner(tag_id)` : columns, count ? { count: 'exact' } : undefined);
+
+  if (status) query = query.eq('status', status);
+  if (category) query = query.eq('category', category);
+  if (featured !== undefined) query = query.eq('featured', featured);
+  if (tagId) query = query.eq('blog_tags.tag_id', tagId);
+  if (authorId) query = query.eq('author_id', authorId);
+
+  return query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+};
+
+/**
+ * One page of list rows after `cursor` (or from the start). Asks for one row
+ * more than needed to know whether another page exists.
+ */
+export const fetchBlogListPage = async <Row extends BlogListItem = BlogListItem>({
+  cursor = null,
+  pageSize = 12,
+  columns = BLOG_LIST_COLUMNS,
+  ...filters
+}: BlogListFilters & { cursor?: BlogListCursor | null; pageSize?: number; columns?: string }) => {
+  let query = listQuery(columns, filters);
+  if (cursor) query = query.or(cursorFilter(cursor));
+
+  const { data, error } = await query.limit(pageSize + 1);
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as Row[];
+  const pageRows = rows.slice(0, pageSize);
+  return {
+    rows: pageRows,
+    nextCursor: rows.length > pageSize && pageRows.length > 0 ? cursorFromRow(pageRows[pageRows.length - 1]) : null
+  };
+};
+
+/**
+ * A numbered page (1-based) with the total row count. Jumping straight to page
+ * N needs an offset, so this is for the admin table rather than infinite scroll.
+ */
+export const fetchBlogListNumberedPage = async <Row extends BlogListItem = BlogListItem>({
+  page = 1,
+  pageSize = 20,
+  columns = BLOG_LIST_COLUMNS,
+  ...filters
+}: BlogListFilters & { page?: number; pageSize?: number; columns?: string }) => {
+  const from = (Math.max(page, 1) - 1) * pageSize;
+  const { data, error, count } = await listQuery(columns, filters, true).range(from, from + pageSize - 1);
+  if (error) throw error;
+
+  return { rows: (data || []) as unknown as Row[], total: count ?? 0 };
+};
+
+/** Full row, including `content` and `blog_structure`, for a post being opened. */
+export const fetchBlogBody = async (id: string) => {
+  const { data, error } = await supabase
+    .from('blogs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/** Post counts per category, from a single-column read of the matching rows. */
+export const fetchCategoryCounts = async (status: string | null = null): Promise<Record<string, number>> => {
+  let query = supabase.from('blogs').select('category');
+  if (status) query = query.eq('status', status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).reduce<Record<string, number>>((counts, row) => {
+    counts[row.category] = (counts[row.category] || 0) + 1;
+    return counts;
+  }, {});
+};
+
+/** Post counts per status for the admin header, from a single-column read. */
+export const fetchStatusCounts = async (): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.from('blogs').select('status');
+  if (error) throw error;
+
+  return (data || []).reduce<Record<string, number>>((counts, row) => {
+    counts[row.status] = (counts[row.status] || 0) + 1;
+    return counts;
+  }, {});
+};
@@ -0,0 +1,54 @@
+// Plain-text editing form of list blocks: one item per line, nested by
+// indenting two spaces (or a tab) per level.
+import { ListItem, MAX_LIST_DEPTH } from '@/utils/blogSchema';
+
+const INDENT = '  ';
+const MARKER = /^(?:[•*-]|\d+[.)])\s+/;
+
+const indentDepth = (line: string): number => {
+  const whitespace = line.match(/^[ \t]*/)?.[0] ?? '';
+  return Math.floor(whitespace.replace(/\t/g, INDENT).length / INDENT.length);
+};
+
+/**
+ * Items from textarea text. Blank lines are skipped, pasted "•", "-" and "1."
+ * markers are dropped, and an item can be at most one level deeper than the
+ * one before it.
+ */
+export const parseListText = (text: string): ListItem[] => {
+  const root: ListItem[] = [];
+  // Open parents by depth; stack[d] is the list that items at depth d go into
+  const stack: ListItem[][] = [root];
+
+  text.split('\n').forEach(line => {
+    const itemText = line.trim().replace(MARKER, '');
+    if (!itemText) return;
+
+    const depth = Math.min(indentDepth(line), stack.length - 1, MAX_LIST_DEPTH - 1);
+    stack.length = depth + 1;
+
+    const item: ListItem = { text: itemText };
+    stack[depth].push(item);
+    item.children = [];
+    stack.push(item.children);
+  });
+
+  const prune = (items: ListItem[]): ListItem[] =>
+    items.map(item => item.children && item.children.length > 0
+      ? { text: item.text, children: prune(item.children) }
+      : { text: item.text });
+  return prune(root);
+};
+
+/** Inverse of parseListText. */
+export const listToText = (items: ListItem[], depth = 0): string =>
+  items
+    .map(item => [
+      `${INDENT.repeat(depth)}${item.text}`,
+      ...(item.children?.length ? [listToText(item.children, depth + 1)] : [])
+    ].join('\n'))
+    .join('\n');
+
+/** Item texts in reading order, nested items included. */
+export const flattenListItems = (items: ListItem[]): string[] =>
+  items.flatMap(item => [item.text, ...flattenListItems(item.children || [])]);
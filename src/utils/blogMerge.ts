@@ -0,0 +1,73 @@
+// Block-level three-way merge for blog saves that conflict with another session.
+// `base` is the structure the editor loaded, `local` is what they are saving
+// and `remote` is what another session saved in the meantime.
+
+import type { ContentBlock } from '@/utils/blogSchema';
+import { diffBlocks } from '@/utils/blogDiff';
+
+export type MergeChoice = 'local' | 'remote';
+
+export interface BlockMergeRow {
+  id: string;
+  local?: ContentBlock;
+  remote?: ContentBlock;
+  /** Both sides changed the block since it was loaded. */
+  conflict: boolean;
+  /** Side that kept the edit when only one side changed; local for real conflicts. */
+  defaultChoice: MergeChoice;
+}
+
+const sameBlock = (a?: ContentBlock, b?: ContentBlock): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Rows for every block that differs between the local and remote structures,
+ * in merged document order. Blocks that are identical on both sides are not
+ * returned and are always kept.
+ */
+export const buildBlockMerge = (
+  base: ContentBlock[],
+  local: ContentBlock[],
+  remote: ContentBlock[]
+): BlockMergeRow[] => {
+  const baseById = new Map(base.map(block => [block.id, block]));
+
+  return diffBlocks(remote, local)
+    .filter(entry => !sameBlock(entry.after, entry.before))
+    .map(entry => {
+      const baseBlock = baseById.get(entry.id);
+      const localChanged = !sameBlock(entry.after, baseBlock);
+      const remoteChanged = !sameBlock(entry.before, baseBlock);
+
+      return {
+        id: entry.id,
+        local: entry.after,
+        remote: entry.before,
+        conflict: localChanged && remoteChanged,
+        defaultChoice: localChanged ? 'local' : 'remote'
+      };
+    });
+};
+
+/**
+ * Build the merged block list. Blocks that only differ are taken from the
+ * chosen side (a side without the block drops it); identical blocks are kept.
+ * Order follows the local structure with remote-only blocks slotted in.
+ */
+export const applyBlockMerge = (
+  local: ContentBlock[],
+  remote: ContentBlock[],
+  rows: BlockMergeRow[],
+  choices: Record<string, MergeChoice>
+): ContentBlock[] => {
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+
+  return diffBlocks(remote, local).reduce<ContentBlock[]>((merged, entry) => {
+    const row = rowsById.get(entry.id);
+    const block = row
+      ? (choices[row.id] ?? row.defaultChoice) === 'local' ? row.local : row.remote
+      : entry.after ?? entry.before;
+    if (block) merged.push(block);
+    return merged;
+  }, []);
+};
@@ -0,0 +1,190 @@
+// Step-by-step upgrades for stored `blogs.blog_structure` JSON.
+// Rows written before `schemaVersion` existed are treated as version 0.
+// To change the block schema: bump BLOG_SCHEMA_VERSION in blogSchema.ts and
+// append a migration from the previous version here.
+
+type RawStructure = Record<string, unknown>;
+
+export interface BlogStructureMigration {
+  from: number;
+  to: number;
+  description: string;
+  up: (structure: RawStructure) => RawStructure;
+}
+
+export interface BlogStructureMigrationResult {
+  structure: RawStructure;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Block types written by the first editor and the static blog importer
+const LEGACY_BLOCK_TYPES: Record<string, string> = {
+  'hero': 'full-width-text',
+  'paragraph': 'full-width-text',
+  'bullet-points': 'full-width-text',
+  'image': 'image-caption'
+};
+
+// snake_case field names written by older importers
+const LEGACY_FIELD_NAMES: Record<string, string> = {
+  image_url: 'imageUrl',
+  url: 'imageUrl',
+  video_url: 'videoUrl',
+  text_color: 'textColor',
+  font_size: 'fontSize',
+  font_weight: 'fontWeight',
+  chart_data: 'chartData'
+};
+
+const upgradeLegacyBlock = (block: unknown): unknown => {
+  if (!isRecord(block)) return block;
+
+  const type = typeof block.type === 'string' && LEGACY_BLOCK_TYPES[block.type]
+    ? LEGACY_BLOCK_TYPES[block.type]
+    : block.type;
+
+  // Legacy "paragraph"/"image" blocks kept their value directly in `content`
+  let content: unknown = block.content;
+  if (typeof content === 'string') {
+    content = type === 'full-width-text' ? { text: content } : { imageUrl: content };
+  }
+  if (!isRecord(content)) return { ...block, type };
+
+  const next: Record<string, unknown> = { ...content };
+  Object.entries(LEGACY_FIELD_NAMES).forEach(([legacy, current]) => {
+    if (legacy in next) {
+      if (next[current] === undefined) next[current] = next[legacy];
+      delete next[legacy];
+    }
+  });
+
+  // "bullet-points" blocks stored their items in `points`
+  if (Array.isArray(next.points)) {
+    if (next.text === undefined) {
+      next.text = next.points.map(point => `• ${String(point)}`).join('\n');
+    }
+    delete next.points;
+  }
+
+  // `table_data` was a plain 2D array whose first row is the header row
+  if (Array.isArray(next.table_data)) {
+    const matrix = next.table_data.filter(Array.isArray) as unknown[][];
+    if (next.tableData === undefined && matrix.length > 0) {
+      next.tableData = { headers: matrix[0], rows: matrix.slice(1) };
+    }
+    delete next.table_data;
+  }
+
+  return { ...block, type, content: next };
+};
+
+const MAX_HEADING_LENGTH = 120;
+const BULLET_LINE = /^[•\-*]\s+/;
+const NUMBERED_LINE = /^\d+[.)]\s+/;
+
+// Before heading and list blocks existed, DocumentParser (and editors copying
+// it) wrote headings as short bold xl/lg text and lists as "• item" lines.
+const upgradeStyledTextBlock = (block: unknown): unknown => {
+  if (!isRecord(block) || block.type !== 'full-width-text' || !isRecord(block.content)) return block;
+
+  const content = block.content;
+  const text = typeof content.text === 'string' ? content.text.trim() : '';
+  if (!text || text.includes('<')) return block;
+
+  const isBold = content.fontWeight === 'bold' || content.fontWeight === 'semibold';
+  if (isBold && (content.fontSize === 'xl' || content.fontSize === 'lg') && !text.includes('\n') && text.length <= MAX_HEADING_LENGTH) {
+    return {
+      ...block,
+      type: 'heading',
+      content: { text, level: content.fontSize === 'xl' ? 2 : 3, alignment: content.alignment, textColor: content.textColor }
+    };
+  }
+
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const pattern = lines.every(line => NUMBERED_LINE.test(line)) ? NUMBERED_LINE
+    : lines.every(line => BULLET_LINE.test(line)) ? BULLET_LINE
+    : null;
+  if (!pattern) return block;
+
+  return {
+    ...block,
+    type: 'list',
+    content: {
+      listData: {
+        style: pattern === NUMBERED_LINE ? 'ordered' : 'unordered',
+        items: lines.map(line => ({ text: line.replace(pattern, '') }))
+      },
+      alignment: content.alignment,
+      textColor: content.textColor
+    }
+  };
+};
+
+export const BLOG_STRUCTURE_MIGRATIONS: BlogStructureMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Convert legacy block types and snake_case fields to the canonical block schema',
+    up: (structure) => ({
+      ...structure,
+      blocks: Array.isArray(structure.blocks) ? structure.blocks.map(upgradeLegacyBlock) : structure.blocks
+    })
+  },
+  {
+    from: 1,
+    to: 2,
+    description: 'Turn styled heading text and bulleted text into heading and list blocks',
+    up: (structure) => ({
+      ...structure,
+      blocks: Array.isArray(structure.blocks) ? structure.blocks.map(upgradeStyledTextBlock) : structure.blocks
+    })
+  }
+];
+
+export const getBlogStructureVersion = (structure: unknown): number => {
+  if (!isRecord(structure)) return 0;
+  const version = structure.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+/**
+ * Upgrade a stored structure one migration at a time until it reaches
+ * `targetVersion`. Throws when the value is not an object, when it was written
+ * by a newer schema than this build knows, or when a step is missing.
+ */
+export const migrateBlogStructure = (
+  raw: unknown,
+  targetVersion: number,
+  migrations: BlogStructureMigration[] = BLOG_STRUCTURE_MIGRATIONS
+): BlogStructureMigrationResult => {
+  const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  if (!isRecord(parsed)) {
+    throw new Error('blog_structure must be an object');
+  }
+
+  const fromVersion = getBlogStructureVersion(parsed);
+  if (fromVersion > targetVersion) {
+    throw new Error(`blog_structure version ${fromVersion} is newer than supported version ${targetVersion}`);
+  }
+
+  let structure: RawStructure = parsed;
+  let version = fromVersion;
+  const applied: string[] = [];
+
+  while (version < targetVersion) {
+    const migration = migrations.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`No blog_structure migration from version ${version}`);
+    }
+    structure = { ...migration.up(structure), schemaVersion: migration.to };
+    applied.push(`${migration.from}→${migration.to}: ${migration.description}`);
+    version = migration.to;
+  }
+
+  return { structure, fromVersion, toVersion: version, applied };
+};
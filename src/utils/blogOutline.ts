@@ -0,0 +1,79 @@
+import { BlogStructure, ContentBlock, HeadingLevel } from '@/utils/blogSchema';
+import { toSlug } from '@/utils/blogTaxonomy';
+import { flattenListItems } from '@/utils/blogLists';
+
+// Reading time and table of contents for BlogRenderer.
+
+export const WORDS_PER_MINUTE = 225;
+
+/** Fewer headings than this and the post is short enough to skip the TOC. */
+export const MIN_TOC_ENTRIES = 2;
+
+export interface TocEntry {
+  /** Anchor id rendered on the heading element */
+  id: string;
+  blockId: string;
+  text: string;
+  level: HeadingLevel;
+}
+
+const htmlToText = (html: string): string =>
+  (html || '')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Readable words in a block: its text and captions, plus table and chart labels. */
+export const blockText = (block: ContentBlock): string => {
+  const { content } = block;
+  const parts = [
+    content.title,
+    content.text && htmlToText(content.text),
+    content.caption,
+    content.images?.map(image => image.caption).join(' '),
+    content.attribution,
+    content.listData && flattenListItems(content.listData.items).join(' '),
+    content.tableData?.headers.join(' '),
+    content.tableData?.rows.map(row => row.join(' ')).join(' '),
+    content.chartData?.title,
+    content.chartData?.labels.join(' ')
+  ];
+  return parts.filter(Boolean).join(' ');
+};
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/** Whole minutes, never less than one. Classic posts pass their HTML as `content`. */
+export const readingTimeMinutes = (source: { structure?: BlogStructure | null; content?: string | null }): number => {
+  const words = source.structure?.blocks.length
+    ? source.structure.blocks.reduce((total, block) => total + countWords(blockText(block)), 0)
+    : countWords(htmlToText(source.content || ''));
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+};
+
+/**
+ * Headings in document order with anchor ids taken from their text, so links
+ * survive re-saves. Repeated headings get -2, -3… suffixes in order.
+ */
+export const buildTableOfContents = (blocks: ContentBlock[]): TocEntry[] => {
+  const used = new Set<string>();
+
+  return blocks.flatMap(block => {
+    if (block.type !== 'heading') return [];
+    const level = block.content.level ?? 2;
+    const text = (block.content.text || '').trim();
+    if (!text) return [];
+
+    const base = toSlug(text) || 'section';
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+
+    return [{ id, blockId: block.id, text, level }];
+  });
+};
@@ -0,0 +1,58 @@
+// Scheduled publishing helpers shared by the blog editor.
+// `publish_at`/`unpublish_at` are stored as timestamptz; the
+// publish-scheduled-blogs edge function flips the status when they pass.
+
+export const BLOG_STATUSES = ['draft', 'in_review', 'scheduled', 'published', 'archived'] as const;
+export type BlogStatus = typeof BLOG_STATUSES[number];
+
+const isFuture = (value: string | null | undefined, now: Date): boolean =>
+  !!value && new Date(value).getTime() > now.getTime();
+
+/**
+ * Status to store for a save. Publishing with a future `publish_at` becomes
+ * "scheduled"; a scheduled post whose time has already passed is published.
+ */
+export const resolveScheduledStatus = (
+  status: string,
+  publishAt: string | null | undefined,
+  now: Date = new Date()
+): string => {
+  if ((status === 'published' || status === 'scheduled') && isFuture(publishAt, now)) {
+    return 'scheduled';
+  }
+  if (status === 'scheduled') {
+    return 'published';
+  }
+  return status;
+};
+
+/** Returns an error message for an impossible schedule, or null. */
+export const validateSchedule = (
+  status: string,
+  publishAt: string | null | undefined,
+  unpublishAt: string | null | undefined
+): string | null => {
+  if (status === 'scheduled' && !publishAt) {
+    return 'Scheduled posts need a publish date';
+  }
+  if (publishAt && unpublishAt && new Date(unpublishAt).getTime() <= new Date(publishAt).getTime()) {
+    return 'Unpublish date must be after the publish date';
+  }
+  return null;
+};
+
+/** Convert a stored timestamp to the value of a `datetime-local` input (local time). */
+export const toDateTimeLocal = (value: string | null | undefined): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+/** Convert a `datetime-local` input value back to an ISO timestamp, or null when empty. */
+export const fromDateTimeLocal = (value: string): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
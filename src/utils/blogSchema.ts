@@ -0,0 +1,572 @@
+// No "@/" alias here: the blog-feed edge function runs this module under Deno
+import { migrateBlogStructure } from './blogMigrations.ts';
+import { INLINE_MARKS, mergeSpans, richTextToPlain } from './richText.ts';
+import { safeHref } from './htmlSanitizer.ts';
+
+// Canonical block schema for the visual blog editor.
+// Every producer and consumer of `blogs.blog_structure` (editor, document parser,
+// renderer, HTML/PDF exporters) should import its types from here and run stored
+// JSON through `parseBlogStructure` before using it.
+
+// Bump together with a new entry in BLOG_STRUCTURE_MIGRATIONS
+export const BLOG_SCHEMA_VERSION = 2;
+
+export const CONTENT_BLOCK_TYPES = [
+  'left-image-right-text',
+  'right-image-left-text',
+  'full-width-image',
+  'full-width-text',
+  'image-caption',
+  'gallery',
+  'carousel',
+  'comparison',
+  'video-embed',
+  'table',
+  'chart',
+  'heading',
+  'list',
+  'quote',
+  'code',
+  'divider',
+  'callout'
+] as const;
+
+export type ContentBlockType = typeof CONTENT_BLOCK_TYPES[number];
+
+export type BlockAlignment = 'left' | 'center' | 'right';
+export type BlockFontSize = 'sm' | 'base' | 'lg' | 'xl';
+export type BlockFontWeight = 'normal' | 'medium' | 'semibold' | 'bold';
+export type ChartType = 'pie' | 'donut' | 'bar' | 'line' | 'area';
+export type NumberFormat = 'number' | 'compact' | 'percent' | 'currency';
+export type HeadingLevel = 1 | 2 | 3 | 4;
+export type ListStyle = 'ordered' | 'unordered';
+export type CalloutVariant = 'info' | 'tip' | 'warning' | 'danger';
+export type InlineMark = 'bold' | 'italic' | 'code';
+
+export type TableMobileLayout = 'scroll' | 'stack';
+export type GalleryColumns = 2 | 3 | 4;
+
+/** Display settings of one table column */
+export interface TableColumn {
+  /** Defaults to right for formatted numbers, left otherwise */
+  align?: BlockAlignment;
+  /** Cells that read as numbers are shown in this format; other cells as typed */
+  numberFormat?: NumberFormat;
+  /** ISO 4217 code for the 'currency' format; USD when unset */
+  currency?: string;
+}
+
+/** A merged header cell spanning `span` columns above `headers` */
+export interface TableHeaderGroup {
+  label: string;
+  span: number;
+}
+
+export interface TableData {
+  headers: string[];
+  rows: string[][];
+  /** By column index; missing entries use the defaults */
+  columns?: TableColumn[];
+  /** Spans add up to the number of columns */
+  headerGroups?: TableHeaderGroup[];
+  /** Readers can sort by any column and filter rows */
+  interactive?: boolean;
+  /** Small screens: scroll the table sideways (default) or show each row as a card */
+  mobileLayout?: TableMobileLayout;
+}
+
+/** One named row of values, aligned with ChartData.labels */
+export interface ChartSeries {
+  name: string;
+  data: number[];
+}
+
+export interface ChartData {
+  type: ChartType;
+  labels: string[];
+  /** Values of the first series, for readers that only know single-series charts */
+  data: number[];
+  title: string;
+  /** Named series; without it `data` is the only series. Pie and donut charts draw just the first */
+  series?: ChartSeries[];
+  /** bar and area charts: stack the series instead of grouping or overlapping them */
+  stacked?: boolean;
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+  numberFormat?: NumberFormat;
+  /** ISO 4217 code for the 'currency' format; USD when unset */
+  currency?: string;
+}
+
+export interface ListItem {
+  text: string;
+  children?: ListItem[];
+}
+
+export interface ListData {
+  style: ListStyle;
+  items: ListItem[];
+}
+
+/** One picture of a gallery, carousel or comparison block */
+export interface BlockImage {
+  url: string;
+  alt?: string;
+  caption?: string;
+}
+
+/** A run of text with the same inline formatting; see richText.ts */
+export interface RichTextSpan {
+  text: string;
+  marks?: InlineMark[];
+  /** Only http(s), mailto, site-relative and #anchor targets survive normalization */
+  href?: string;
+}
+
+export interface ContentBlockContent {
+  title?: string;
+  /** Plain text; mirrors `richText` when that is set */
+  text?: string;
+  /** full-width-text and image+text blocks: inline bold/italic/code/links */
+  richText?: RichTextSpan[];
+  imageUrl?: string;
+  videoUrl?: string;
+  /** video-embed blocks: seconds to start at, overriding any time in `videoUrl` */
+  videoStart?: number;
+  /** video-embed blocks: no-cookie / do-not-track players where the provider has one */
+  privacyEnhanced?: boolean;
+  caption?: string;
+  width?: number;
+  alignment?: BlockAlignment;
+  hasBorder?: boolean;
+  hasShadow?: boolean;
+  fontSize?: BlockFontSize;
+  fontWeight?: BlockFontWeight;
+  textColor?: string;
+  tableData?: TableData;
+  chartData?: ChartData;
+  /** heading blocks */
+  level?: HeadingLevel;
+  /** list blocks */
+  listData?: ListData;
+  /** quote blocks: who said it */
+  attribution?: string;
+  /** code blocks: language of `text`, see CODE_LANGUAGES in codeHighlight.ts */
+  language?: string;
+  /** callout blocks */
+  calloutVariant?: CalloutVariant;
+  /** gallery and carousel blocks: the pictures in order; comparison blocks: before, then after, captions as labels */
+  images?: BlockImage[];
+  /** gallery blocks: grid columns on wide screens */
+  galleryColumns?: GalleryColumns;
+}
+
+export interface ContentBlock {
+  id: string;
+  type: ContentBlockType;
+  content: ContentBlockContent;
+}
+
+export interface BlogStructure {
+  schemaVersion?: number;
+  title: string;
+  featuredImage: string;
+  author: string;
+  date: string;
+  blocks: ContentBlock[];
+}
+
+export interface BlogStructureValidationResult {
+  structure: BlogStructure | null;
+  errors: string[];
+  repaired: boolean;
+}
+
+const ALIGNMENTS: BlockAlignment[] = ['left', 'center', 'right'];
+const FONT_SIZES: BlockFontSize[] = ['sm', 'base', 'lg', 'xl'];
+const FONT_WEIGHTS: BlockFontWeight[] = ['normal', 'medium', 'semibold', 'bold'];
+export const CHART_TYPES: ChartType[] = ['bar', 'line', 'area', 'pie', 'donut'];
+export const NUMBER_FORMATS: NumberFormat[] = ['number', 'compact', 'percent', 'currency'];
+export const TABLE_MOBILE_LAYOUTS: TableMobileLayout[] = ['scroll', 'stack'];
+const HEADING_LEVELS: HeadingLevel[] = [1, 2, 3, 4];
+const LIST_STYLES: ListStyle[] = ['ordered', 'unordered'];
+export const CALLOUT_VARIANTS: CalloutVariant[] = ['info', 'tip', 'warning', 'danger'];
+export const GALLERY_COLUMNS: GalleryColumns[] = [2, 3, 4];
+
+// Deeper nesting than this is flattened into the last allowed level
+export const MAX_LIST_DEPTH = 4;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toText = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+};
+
+const toCurrency = (value: unknown): string | undefined => {
+  const code = toText(value)?.toUpperCase();
+  return code && /^[A-Z]{3}$/.test(code) ? code : undefined;
+};
+
+const toEnum = <T extends string>(value: unknown, allowed: readonly T[]): T | undefined =>
+  allowed.includes(value as T) ? (value as T) : undefined;
+
+export const isContentBlockType = (type: unknown): type is ContentBlockType =>
+  CONTENT_BLOCK_TYPES.includes(type as ContentBlockType);
+
+const normalizeTableData = (raw: unknown, errors: string[], path: string): TableData | undefined => {
+  if (!isRecord(raw)) return undefined;
+
+  const headers = Array.isArray(raw.headers) ? raw.headers.map(h => toText(h) ?? '') : [];
+  const rows = Array.isArray(raw.rows)
+    ? raw.rows.filter(Array.isArray).map(row => (row as unknown[]).map(cell => toText(cell) ?? ''))
+    : [];
+
+  if (!Array.isArray(raw.headers) || !Array.isArray(raw.rows)) {
+    errors.push(`${path}: table headers/rows were not arrays`);
+  }
+
+  const table: TableData = { headers, rows };
+  const columnCount = Math.max(headers.length, ...rows.map(row => row.length));
+
+  if (Array.isArray(raw.columns)) {
+    const columns = raw.columns.slice(0, columnCount).map(entry => {
+      const column: TableColumn = {};
+      if (!isRecord(entry)) return column;
+      const align = toEnum(entry.align, ALIGNMENTS);
+      if (align) column.align = align;
+      const numberFormat = toEnum(entry.numberFormat, NUMBER_FORMATS);
+      if (numberFormat) column.numberFormat = numberFormat;
+      const currency = toCurrency(entry.currency);
+      if (currency) column.currency = currency;
+      return column;
+    });
+    if (columns.some(column => Object.keys(column).length > 0)) table.columns = columns;
+  }
+
+  if (Array.isArray(raw.headerGroups)) {
+    // Spans are clamped so the groups cover exactly the table's columns
+    const headerGroups: TableHeaderGroup[] = [];
+    let covered = 0;
+    raw.headerGroups.filter(isRecord).forEach(entry => {
+      const span = Math.min(Math.max(1, Math.floor(Number(entry.span)) || 1), columnCount - covered);
+      if (span <= 0) return;
+      headerGroups.push({ label: toText(entry.label) ?? '', span });
+      covered += span;
+    });
+    if (covered < columnCount && headerGroups.length > 0) {
+      headerGroups.push({ label: '', span: columnCount - covered });
+      errors.push(`${path}: header groups did not cover every column`);
+    }
+    if (headerGroups.length > 0) table.headerGroups = headerGroups;
+  }
+
+  if (typeof raw.interactive === 'boolean') table.interactive = raw.interactive;
+  const mobileLayout = toEnum(raw.mobileLayout, TABLE_MOBILE_LAYOUTS);
+  if (mobileLayout) table.mobileLayout = mobileLayout;
+
+  return table;
+};
+
+const toChartValues = (raw: unknown): number[] =>
+  Array.isArray(raw)
+    ? raw.map(value => {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : 0;
+      })
+    : [];
+
+const normalizeChartData = (raw: unknown, errors: string[], path: string): ChartData | undefined => {
+  if (!isRecord(raw)) return undefined;
+
+  const labels = Array.isArray(raw.labels) ? raw.labels.map(l => toText(l) ?? '') : [];
+  const type = toEnum(raw.type, CHART_TYPES);
+
+  if (!type) errors.push(`${path}: unknown chart type "${String(raw.type)}", using "bar"`);
+
+  const chart: ChartData = {
+    type: type ?? 'bar',
+    labels,
+    data: toChartValues(raw.data),
+    title: toText(raw.title) ?? ''
+  };
+
+  const series = Array.isArray(raw.series)
+    ? raw.series.filter(isRecord).map((entry, index) => ({
+        name: toText(entry.name) || `Series ${index + 1}`,
+        data: toChartValues(entry.data)
+      }))
+    : [];
+  if (series.length > 0) {
+    chart.series = series;
+    chart.data = series[0].data;
+  }
+
+  if (typeof raw.stacked === 'boolean') chart.stacked = raw.stacked;
+  const xAxisLabel = toText(raw.xAxisLabel);
+  if (xAxisLabel) chart.xAxisLabel = xAxisLabel;
+  const yAxisLabel = toText(raw.yAxisLabel);
+  if (yAxisLabel) chart.yAxisLabel = yAxisLabel;
+
+  if (raw.numberFormat !== undefined) {
+    const numberFormat = toEnum(raw.numberFormat, NUMBER_FORMATS);
+    if (numberFormat) chart.numberFormat = numberFormat;
+    else errors.push(`${path}: unknown number format "${String(raw.numberFormat)}"`);
+  }
+  const currency = toCurrency(raw.currency);
+  if (currency) chart.currency = currency;
+
+  return chart;
+};
+
+const normalizeListItems = (raw: unknown[], depth: number): ListItem[] =>
+  raw.flatMap(entry => {
+    // Plain strings are accepted as childless items
+    if (!isRecord(entry)) {
+      const text = toText(entry);
+      return text === undefined ? [] : [{ text }];
+    }
+
+    const item: ListItem = { text: toText(entry.text) ?? '' };
+    const children = Array.isArray(entry.children) ? normalizeListItems(entry.children, depth + 1) : [];
+    if (children.length === 0) return [item];
+    if (depth + 1 < MAX_LIST_DEPTH) return [{ ...item, children }];
+    return [item, ...children];
+  });
+
+const normalizeListData = (raw: unknown, errors: string[], path: string): ListData | undefined => {
+  if (!isRecord(raw)) return undefined;
+
+  if (!Array.isArray(raw.items)) errors.push(`${path}: list items were not an array`);
+  const style = toEnum(raw.style, LIST_STYLES);
+  if (!style) errors.push(`${path}: unknown list style "${String(raw.style)}", using "unordered"`);
+
+  return {
+    style: style ?? 'unordered',
+    items: Array.isArray(raw.items) ? normalizeListItems(raw.items, 0) : []
+  };
+};
+
+const normalizeImages = (raw: unknown, errors: string[], path: string): BlockImage[] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: images were not an array`);
+    return undefined;
+  }
+
+  return raw.flatMap((entry): BlockImage[] => {
+    // Plain strings are accepted as bare URLs
+    const source: Record<string, unknown> = isRecord(entry) ? entry : { url: entry };
+    const url = toText(source.url)?.trim();
+    if (!url) {
+      errors.push(`${path}: dropped image without a URL`);
+      return [];
+    }
+    const image: BlockImage = { url };
+    const alt = toText(source.alt);
+    if (alt) image.alt = alt;
+    const caption = toText(source.caption);
+    if (caption) image.caption = caption;
+    return [image];
+  });
+};
+
+const normalizeRichText = (raw: unknown, errors: string[], path: string): RichTextSpan[] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: rich text was not an array`);
+    return undefined;
+  }
+
+  const spans = raw.flatMap((entry): RichTextSpan[] => {
+    if (!isRecord(entry)) return [];
+    const span: RichTextSpan = { text: toText(entry.text) ?? '' };
+    const rawMarks: unknown[] = Array.isArray(entry.marks) ? entry.marks : [];
+    const marks = INLINE_MARKS.filter(mark => rawMarks.includes(mark));
+    if (marks.length > 0) span.marks = marks;
+    if (entry.href !== undefined) {
+      const href = safeHref(entry.href);
+      if (href) span.href = href;
+      else errors.push(`${path}: dropped unsafe link "${String(entry.href)}"`);
+    }
+    return [span];
+  });
+  return mergeSpans(spans);
+};
+
+const normalizeContent = (raw: unknown, errors: string[], path: string): ContentBlockContent => {
+  if (!isRecord(raw)) {
+    if (raw !== undefined) errors.push(`${path}: content was not an object`);
+    return {};
+  }
+
+  const source = raw;
+  const content: ContentBlockContent = {};
+  const assign = <K extends keyof ContentBlockContent>(key: K, value: ContentBlockContent[K] | undefined) => {
+    if (value !== undefined) content[key] = value;
+  };
+
+  assign('title', toText(source.title));
+  assign('text', toText(source.text));
+  assign('imageUrl', toText(source.imageUrl));
+  assign('videoUrl', toText(source.videoUrl));
+  assign('caption', toText(source.caption));
+  assign('textColor', toText(source.textColor));
+  assign('alignment', toEnum(source.alignment, ALIGNMENTS));
+  assign('fontSize', toEnum(source.fontSize, FONT_SIZES));
+  assign('fontWeight', toEnum(source.fontWeight, FONT_WEIGHTS));
+
+  if (typeof source.hasBorder === 'boolean') content.hasBorder = source.hasBorder;
+  if (typeof source.hasShadow === 'boolean') content.hasShadow = source.hasShadow;
+  if (typeof source.privacyEnhanced === 'boolean') content.privacyEnhanced = source.privacyEnhanced;
+
+  const videoStart = Number(source.videoStart);
+  if (source.videoStart !== undefined && Number.isFinite(videoStart) && videoStart > 0) content.videoStart = Math.floor(videoStart);
+
+  if (source.width !== undefined && source.width !== null && source.width !== '') {
+    const width = Number(source.width);
+    if (Number.isFinite(width)) {
+      content.width = Math.min(100, Math.max(0, width));
+    } else {
+      errors.push(`${path}: dropped non-numeric width`);
+    }
+  }
+
+  assign('tableData', normalizeTableData(source.tableData, errors, path));
+  assign('chartData', normalizeChartData(source.chartData, errors, path));
+  if (HEADING_LEVELS.includes(Number(source.level) as HeadingLevel)) content.level = Number(source.level) as HeadingLevel;
+  assign('listData', normalizeListData(source.listData, errors, path));
+  assign('attribution', toText(source.attribution));
+  assign('language', toText(source.language));
+  assign('calloutVariant', toEnum(source.calloutVariant, CALLOUT_VARIANTS));
+  assign('images', normalizeImages(source.images, errors, path));
+  if (GALLERY_COLUMNS.includes(Number(source.galleryColumns) as GalleryColumns)) content.galleryColumns = Number(source.galleryColumns) as GalleryColumns;
+
+  const richText = normalizeRichText(source.richText, errors, path);
+  if (richText && richText.length > 0) {
+    content.richText = richText;
+    content.text = richTextToPlain(richText);
+  }
+
+  return content;
+};
+
+const normalizeBlock = (raw: unknown, index: number, seenIds: Set<string>, errors: string[]): ContentBlock | null => {
+  const path = `blocks[${index}]`;
+
+  if (!isRecord(raw)) {
+    errors.push(`${path}: dropped, block was not an object`);
+    return null;
+  }
+
+  if (!isContentBlockType(raw.type)) {
+    errors.push(`${path}: dropped, unknown block type "${String(raw.type)}"`);
+    return null;
+  }
+  const type = raw.type;
+
+  let id = toText(raw.id);
+  if (!id || seenIds.has(id)) {
+    id = `block-${index + 1}`;
+    while (seenIds.has(id)) id = `${id}-dup`;
+    errors.push(`${path}: assigned missing or duplicate id "${id}"`);
+  }
+  seenIds.add(id);
+
+  return { id, type, content: normalizeContent(raw.content, errors, path) };
+};
+
+/**
+ * Validate a `blog_structure` value in the current schema version and repair
+ * what can be repaired. Returns `structure: null` when the value cannot be
+ * interpreted as a blog structure at all; `errors` lists every rejection or
+ * repair that was made. Older versions must go through `migrateBlogStructure`
+ * first — `parseBlogStructure` does both.
+ */
+export const validateBlogStructure = (raw: unknown): BlogStructureValidationResult => {
+  const errors: string[] = [];
+
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return { structure: null, errors: ['blog_structure is not valid JSON'], repaired: false };
+    }
+  }
+
+  if (!isRecord(value)) {
+    return { structure: null, errors: ['blog_structure must be an object'], repaired: false };
+  }
+
+  if (!Array.isArray(value.blocks)) {
+    return { structure: null, errors: ['blog_structure.blocks must be an array'], repaired: false };
+  }
+
+  const seenIds = new Set<string>();
+  const blocks = value.blocks
+    .map((block, index) => normalizeBlock(block, index, seenIds, errors))
+    .filter((block): block is ContentBlock => block !== null);
+
+  if (value.schemaVersion !== undefined && value.schemaVersion !== BLOG_SCHEMA_VERSION) {
+    errors.push(`schemaVersion: expected ${BLOG_SCHEMA_VERSION}, got ${String(value.schemaVersion)}`);
+  }
+
+  ['title', 'featuredImage', 'author', 'date'].forEach(field => {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      errors.push(`${field}: expected a string`);
+    }
+  });
+
+  const structure: BlogStructure = {
+    schemaVersion: BLOG_SCHEMA_VERSION,
+    title: toText(value.title) ?? '',
+    featuredImage: toText(value.featuredImage) ?? '',
+    author: toText(value.author) ?? '',
+    date: toText(value.date) ?? '',
+    blocks
+  };
+
+  return { structure, errors, repaired: errors.length > 0 };
+};
+
+export interface BlogStructureLoadResult {
+  structure: BlogStructure | null;
+  /** Upgrade failure or repairs made while loading; empty for a clean structure */
+  errors: string[];
+}
+
+/**
+ * Load-time helper: upgrades a stored structure to the current schema version,
+ * then validates it. `structure` is null when the stored value is unusable
+ * (callers should fall back to the classic `content`); reporting `errors` is
+ * left to the caller.
+ */
+export const loadBlogStructure = (raw: unknown): BlogStructureLoadResult => {
+  if (raw === null || raw === undefined) return { structure: null, errors: [] };
+
+  let migrated: unknown;
+  try {
+    migrated = migrateBlogStructure(raw, BLOG_SCHEMA_VERSION).structure;
+  } catch (error) {
+    return { structure: null, errors: [`Could not upgrade blog_structure: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const { structure, errors } = validateBlogStructure(migrated);
+  return { structure, errors };
+};
+
+/** `loadBlogStructure` for readers that only need the structure */
+export const parseBlogStructure = (raw: unknown): BlogStructure | null => loadBlogStructure(raw).structure;
+
+export const createEmptyBlogStructure = (overrides: Partial<BlogStructure> = {}): BlogStructure => ({
+  schemaVersion: BLOG_SCHEMA_VERSION,
+  title: '',
+  featuredImage: '',
+  author: 'Admin',
+  date: new Date().toISOString().split('T')[0],
+  blocks: [],
+  ...overrides
+});
@@ -0,0 +1,49 @@
+import type { Database } from '@/integrations/supabase/types';
+
+// Rows returned by the `search_blogs` RPC, best match first
+export type BlogSearchResult = Database['public']['Functions']['search_blogs']['Returns'][number];
+
+export const SEARCH_DEBOUNCE_MS = 300;
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+const MARK_PATTERN = /<mark>([\s\S]*?)<\/mark>/g;
+
+/**
+ * Split a `ts_headline` string into plain and highlighted runs. Only the
+ * <mark> tags added by the RPC are treated as markup, so everything else is
+ * rendered as text.
+ */
+export const splitHighlight = (value: string | null | undefined): HighlightSegment[] => {
+  if (!value) return [];
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const match of value.matchAll(MARK_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: value.slice(lastIndex, index), highlighted: false });
+    }
+    if (match[1]) {
+      segments.push({ text: match[1], highlighted: true });
+    }
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < value.length) {
+    segments.push({ text: value.slice(lastIndex), highlighted: false });
+  }
+  return segments;
+};
+
+/** Fallback when the RPC is unavailable: case-insensitive substring match. */
+export const matchesSearchTerm = (
+  blog: { title: string; content?: string | null; excerpt?: string | null },
+  term: string
+): boolean => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return true;
+  return [blog.title, blog.content, blog.excerpt].some(field => (field || '').toLowerCase().includes(needle));
+};
@@ -0,0 +1,162 @@
+// Document metadata for public blog pages: title, description, canonical URL,
+// Open Graph / Twitter tags and schema.org JSON-LD.
+
+export const SITE_NAME = 'Hibiz.ai';
+
+export interface DocumentMeta {
+  title: string;
+  description: string;
+  canonicalUrl: string;
+  image?: string;
+  type: 'website' | 'article';
+  publishedTime?: string;
+  modifiedTime?: string;
+  section?: string;
+  jsonLd?: Record<string, unknown>;
+}
+
+export interface BlogPostMetaSource {
+  title: string;
+  slug: string;
+  excerpt?: string | null;
+  content?: string | null;
+  featured_image_url?: string | null;
+  category?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+  publish_at?: string | null;
+  /** Linked author profile; posts without one are credited to the site */
+  author?: { id: string; display_name: string } | null;
+}
+
+const MAX_DESCRIPTION_LENGTH = 160;
+
+/** Plain-text description from the excerpt, falling back to the start of the content. */
+export const toMetaDescription = (excerpt?: string | null, content?: string | null): string => {
+  const text = (excerpt || content || '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text.length <= MAX_DESCRIPTION_LENGTH) return text;
+  return `${text.slice(0, MAX_DESCRIPTION_LENGTH - 1).replace(/\s+\S*$/, '')}…`;
+};
+
+/** Resolve relative image paths so crawlers can fetch them. */
+export const toAbsoluteUrl = (url: string, siteUrl: string): string => {
+  try {
+    return new URL(url, siteUrl).toString();
+  } catch (error) {
+    return url;
+  }
+};
+
+export const blogPostPath = (slug: string): string => `/blog/${encodeURIComponent(slug)}`;
+
+/** Archive of one author's published posts; authors are keyed by auth user id. */
+export const blogAuthorPath = (id: string): string => `/blog/author/${encodeURIComponent(id)}`;
+
+export type BlogArchiveKind = 'category' | 'tag';
+
+/** Archive listing the published posts in a category or with a tag. */
+export const blogArchivePath = (kind: BlogArchiveKind, slug: string): string =>
+  `/blog/${kind}/${encodeURIComponent(slug)}`;
+
+export interface BlogArchiveMetaSource {
+  name: string;
+  slug: string;
+  description?: string | null;
+}
+
+export const buildBlogArchiveMeta = (
+  kind: BlogArchiveKind,
+  term: BlogArchiveMetaSource,
+  siteUrl: string
+): DocumentMeta => {
+  const canonicalUrl = toAbsoluteUrl(blogArchivePath(kind, term.slug), siteUrl);
+  const description = toMetaDescription(
+    term.description,
+    kind === 'category' ? `${term.name} articles from ${SITE_NAME}` : `Articles tagged ${term.name} from ${SITE_NAME}`
+  );
+
+  return {
+    title: `${term.name} | ${SITE_NAME} Blog`,
+    description,
+    canonicalUrl,
+    type: 'website',
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'CollectionPage',
+      name: term.name,
+      description,
+      url: canonicalUrl,
+      isPartOf: { '@type': 'Blog', name: `${SITE_NAME} Blog`, url: toAbsoluteUrl('/blog', siteUrl) }
+    }
+  };
+};
+
+export const buildBlogPostMeta = (post: BlogPostMetaSource, siteUrl: string): DocumentMeta => {
+  const canonicalUrl = toAbsoluteUrl(blogPostPath(post.slug), siteUrl);
+  const description = toMetaDescription(post.excerpt, post.content);
+  const image = post.featured_image_url ? toAbsoluteUrl(post.featured_image_url, siteUrl) : undefined;
+  const publishedTime = post.publish_at || post.created_at;
+  const modifiedTime = post.updated_at || publishedTime;
+
+  return {
+    title: `${post.title} | ${SITE_NAME} Blog`,
+    description,
+    canonicalUrl,
+    image,
+    type: 'article',
+    publishedTime,
+    modifiedTime,
+    section: post.category || undefined,
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'Article',
+      headline: post.title,
+      description,
+      ...(image ? { image: [image] } : {}),
+      datePublished: publishedTime,
+      dateModified: modifiedTime,
+      ...(post.category ? { articleSection: post.category } : {}),
+      mainEntityOfPage: { '@type': 'WebPage', '@id': canonicalUrl },
+      author: post.author
+        ? { '@type': 'Person', name: post.author.display_name, url: toAbsoluteUrl(blogAuthorPath(post.author.id), siteUrl) }
+        : { '@type': 'Organization', name: SITE_NAME },
+      publisher: { '@type': 'Organization', name: SITE_NAME }
+    }
+  };
+};
+
+export interface BlogAuthorMetaSource {
+  id: string;
+  display_name: string;
+  bio?: string | null;
+  avatar_url?: string | null;
+}
+
+export const buildBlogAuthorMeta = (author: BlogAuthorMetaSource, siteUrl: string): DocumentMeta => {
+  const canonicalUrl = toAbsoluteUrl(blogAuthorPath(author.id), siteUrl);
+  const description = toMetaDescription(author.bio, `Articles by ${author.display_name} on the ${SITE_NAME} blog`);
+  const image = author.avatar_url ? toAbsoluteUrl(author.avatar_url, siteUrl) : undefined;
+
+  return {
+    title: `${author.display_name} | ${SITE_NAME} Blog`,
+    description,
+    canonicalUrl,
+    image,
+    type: 'website',
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'ProfilePage',
+      url: canonicalUrl,
+      mainEntity: {
+        '@type': 'Person',
+        name: author.display_name,
+        description,
+        ...(image ? { image } : {})
+      }
+    }
+  };
+};
@@ -0,0 +1,113 @@
+// Table blocks: cell display, reader-side sorting and filtering, and the CSV
+// form the editor uses for pasted and imported data. No "@/" alias:
+// blogExport uses this under Deno.
+import type { BlockAlignment, TableData, TableHeaderGroup } from './blogSchema.ts';
+import { detectDelimiter, parseDelimitedText, toCsv } from './delimitedText.ts';
+import { formatNumber, parseNumber } from './numberFormat.ts';
+
+export type SortDirection = 'ascending' | 'descending';
+
+export interface TableSort {
+  column: number;
+  direction: SortDirection;
+}
+
+export const tableColumnCount = (table: TableData): number =>
+  Math.max(table.headers.length, ...table.rows.map(row => row.length));
+
+export const tableColumnAlign = (table: TableData, column: number): BlockAlignment => {
+  const settings = table.columns?.[column];
+  return settings?.align ?? (settings?.numberFormat ? 'right' : 'left');
+};
+
+/** A cell as readers see it: formatted when its column has a number format and it reads as a number. */
+export const formatTableCell = (table: TableData, column: number, cell: string | undefined): string => {
+  const settings = table.columns?.[column];
+  const text = cell ?? '';
+  if (!settings?.numberFormat) return text;
+  const value = parseNumber(text);
+  return value === null ? text : formatNumber(value, settings);
+};
+
+/** Numbers by value, everything else as text with embedded numbers in order ("Item 2" before "Item 10"). */
+export const compareTableCells = (a: string, b: string): number => {
+  const left = parseNumber(a);
+  const right = parseNumber(b);
+  if (left !== null && right !== null) return left - right;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+/** Rows containing the query in any cell (case-insensitive), in the given sort order. */
+export const visibleTableRows = (table: TableData, query: string, sort: TableSort | null): string[][] => {
+  const needle = query.trim().toLowerCase();
+  const rows = needle
+    ? table.rows.filter(row => row.some((cell, column) =>
+        `${cell} ${formatTableCell(table, column, cell)}`.toLowerCase().includes(needle)))
+    : [...table.rows];
+  if (!sort) return rows;
+  const sign = sort.direction === 'ascending' ? 1 : -1;
+  // Array.prototype.sort is stable, so equal cells keep the writer's order
+  return rows.sort((a, b) => {
+    const left = (a[sort.column] ?? '').trim();
+    const right = (b[sort.column] ?? '').trim();
+    // Blank cells go last in both directions
+    if (!left || !right) return Number(!left) - Number(!right);
+    return sign * compareTableCells(left, right);
+  });
+};
+
+/** Merged header cells from a spreadsheet row: blank cells belong to the cell on their left. */
+export const headerGroupsFromCells = (cells: string[], columnCount: number): TableHeaderGroup[] => {
+  const groups: TableHeaderGroup[] = [];
+  for (let column = 0; column < columnCount; column++) {
+    const label = cells[column] ?? '';
+    if (label || groups.length === 0) groups.push({ label, span: 1 });
+    else groups[groups.length - 1].span++;
+  }
+  return groups;
+};
+
+const headerGroupCells = (groups: TableHeaderGroup[]): string[] =>
+  groups.flatMap(group => [group.label, ...Array<string>(group.span - 1).fill('')]);
+
+export interface TableCsv {
+  table: Pick<TableData, 'headers' | 'rows' | 'headerGroups'>;
+  errors: string[];
+}
+
+/**
+ * Table contents from pasted CSV/TSV. The first row is the header row, or,
+ * with `headerGroups`, the merged header row above it. Short rows are padded
+ * so every row has a cell per column.
+ */
+export const parseTableCsv = (text: string, options: { headerGroups?: boolean } = {}): TableCsv => {
+  const rows = parseDelimitedText(text, detectDelimiter(text));
+  const headerRows = options.headerGroups ? 2 : 1;
+  if (rows.length < headerRows) {
+    return {
+      table: { headers: [], rows: [] },
+      errors: [options.headerGroups ? 'Paste a merged header row, a header row and the data below them.' : 'Paste a header row and the data below it.']
+    };
+  }
+
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array<string>(columnCount - row.length).fill('')];
+  const errors = rows.length === headerRows ? ['Only header rows were found; add rows of data below them.'] : [];
+
+  return {
+    table: {
+      headers: pad(rows[headerRows - 1]),
+      rows: rows.slice(headerRows).map(pad),
+      headerGroups: options.headerGroups ? headerGroupsFromCells(rows[0], columnCount) : undefined
+    },
+    errors
+  };
+};
+
+/** Inverse of parseTableCsv, for filling the editor's data field. */
+export const tableToCsv = (table: TableData): string =>
+  toCsv([
+    ...(table.headerGroups?.length ? [headerGroupCells(table.headerGroups)] : []),
+    table.headers,
+    ...table.rows
+  ]);
@@ -0,0 +1,130 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type TaxonomyTable = 'categories' | 'tags';
+export type BlogCategory = Tables<'categories'>;
+export type BlogTag = Tables<'tags'>;
+export type TaxonomyTerm = BlogCategory | BlogTag;
+
+// Shown until the categories table has loaded (or if it cannot be read), so
+// the admin form always offers the categories posts were created with.
+export const DEFAULT_CATEGORIES: Pick<BlogCategory, 'slug' | 'name'>[] = [
+  { slug: 'general', name: 'General' },
+  { slug: 'technology', name: 'Technology' },
+  { slug: 'ai', name: 'Artificial Intelligence' },
+  { slug: 'business', name: 'Business' }
+];
+
+/** Lower-case, hyphen-separated slug for a category or tag name. */
+export const toSlug = (value: string): string =>
+  value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+/** Display name for a category slug, falling back to the slug itself. */
+export const categoryLabel = (categories: Pick<BlogCategory, 'slug' | 'name'>[], slug: string): string =>
+  categories.find(category => category.slug === slug)?.name || slug;
+
+/** Tag names from comma-separated input, without blanks or slug duplicates. */
+export const parseTagNames = (value: string): string[] => {
+  const seen = new Set<string>();
+  return value
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => {
+      const slug = toSlug(name);
+      if (!slug || seen.has(slug)) return false;
+      seen.add(slug);
+      return true;
+    });
+};
+
+/** All terms of one kind in display order. */
+export const fetchTaxonomy = async <T extends TaxonomyTerm = TaxonomyTerm>(table: TaxonomyTable): Promise<T[]> => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as T[];
+};
+
+export const fetchTaxonomyTerm = async <T extends TaxonomyTerm = TaxonomyTerm>(
+  table: TaxonomyTable,
+  slug: string
+): Promise<T | null> => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as T | null;
+};
+
+/** Tags on one post, in display order. */
+export const fetchBlogTags = async (blogId: string): Promise<BlogTag[]> => {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*, blog_tags!inner(blog_id)')
+    .eq('blog_tags.blog_id', blogId)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(({ blog_tags, ...tag }) => tag as BlogTag);
+};
+
+/**
+ * Visible posts per tag id. `blog_tags` rows are only readable for posts the
+ * caller can see, so on public pages this counts published posts.
+ */
+export const fetchTagCounts = async (): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.from('blog_tags').select('tag_id');
+  if (error) throw error;
+
+  return (data || []).reduce<Record<string, number>>((counts, row) => {
+    counts[row.tag_id] = (counts[row.tag_id] || 0) + 1;
+    return counts;
+  }, {});
+};
+
+/**
+ * Replace a post's tags with `names`, creating tags that do not exist yet.
+ * Existing tags are matched by slug, so "Machine Learning" and
+ * "machine-learning" are the same tag.
+ */
+export const saveBlogTags = async (blogId: string, names: string[]): Promise<void> => {
+  const wanted = parseTagNames(names.join(','));
+  const slugs = wanted.map(toSlug);
+
+  let tagIds: string[] = [];
+  if (wanted.length > 0) {
+    // Tags someone else created in the meantime are left as they are
+    const { error: createError } = await supabase
+      .from('tags')
+      .upsert(wanted.map(name => ({ name, slug: toSlug(name) })), { onConflict: 'slug', ignoreDuplicates: true });
+    if (createError) throw createError;
+
+    const { data, error } = await supabase.from('tags').select('id, slug').in('slug', slugs);
+    if (error) throw error;
+    tagIds = (data || []).map(tag => tag.id);
+  }
+
+  const { error: clearError } = await supabase.from('blog_tags').delete().eq('blog_id', blogId);
+  if (clearError) throw clearError;
+
+  if (tagIds.length > 0) {
+    const { error: linkError } = await supabase
+      .from('blog_tags')
+      .insert(tagIds.map(tagId => ({ blog_id: blogId, tag_id: tagId })));
+    if (linkError) throw linkError;
+  }
+};
@@ -0,0 +1,32 @@
+// Editorial review rules shared by the admin UI. The same transitions are
+// enforced in the database by RLS and the enforce_blog_review_workflow trigger;
+// these helpers only keep the UI from offering actions that would be rejected.
+
+/** Statuses an editor may save; everything else needs an admin. */
+export const EDITOR_STATUSES = ['draft', 'in_review'];
+
+export const isAdminRole = (role: string | null | undefined): boolean => role === 'admin';
+
+export const canCreateBlog = (role: string | null | undefined): boolean =>
+  role === 'admin' || role === 'editor';
+
+/** Statuses offered in the status picker for a role. */
+export const allowedStatuses = (role: string | null | undefined): string[] =>
+  isAdminRole(role)
+    ? ['draft', 'in_review', 'scheduled', 'published', 'archived']
+    : EDITOR_STATUSES;
+
+/** Editors can only change posts that have not been approved yet. */
+export const canEditBlog = (role: string | null | undefined, status: string): boolean =>
+  isAdminRole(role) || EDITOR_STATUSES.includes(status);
+
+export const canDeleteBlog = (role: string | null | undefined, status: string): boolean =>
+  isAdminRole(role) || status === 'draft';
+
+export const canTransition = (role: string | null | undefined, from: string | null, to: string): boolean => {
+  if (isAdminRole(role)) return true;
+  return (from === null || EDITOR_STATUSES.includes(from)) && EDITOR_STATUSES.includes(to);
+};
+
+export const canReviewBlog = (role: string | null | undefined, status: string): boolean =>
+  isAdminRole(role) && status === 'in_review';
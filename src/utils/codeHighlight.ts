@@ -0,0 +1,144 @@
+// Small syntax highlighter for code blocks. No imports: blogExport.ts uses it
+// and is also loaded by the blog-feed edge function (Deno).
+// It only tells comments, strings, numbers and keywords apart, which is
+// enough for readable snippets without shipping a full grammar library.
+
+export const CODE_LANGUAGES = [
+  { value: 'plaintext', label: 'Plain text' },
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'typescript', label: 'TypeScript' },
+  { value: 'python', label: 'Python' },
+  { value: 'bash', label: 'Shell' },
+  { value: 'sql', label: 'SQL' },
+  { value: 'json', label: 'JSON' },
+  { value: 'css', label: 'CSS' },
+  { value: 'html', label: 'HTML' }
+] as const;
+
+export type CodeTokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  value: string;
+}
+
+interface Grammar {
+  comment?: RegExp;
+  string?: RegExp;
+  keywords?: string[];
+  /** SQL keywords are case-insensitive */
+  ignoreCase?: boolean;
+}
+
+const C_COMMENT = /\/\/[^\n]*|\/\*[\s\S]*?\*\//;
+const HASH_COMMENT = /#[^\n]*/;
+const QUOTED = /"(?:\\[\s\S]|[^"\\\n])*"|'(?:\\[\s\S]|[^'\\\n])*'/;
+const QUOTED_OR_TEMPLATE = /"(?:\\[\s\S]|[^"\\\n])*"|'(?:\\[\s\S]|[^'\\\n])*'|`(?:\\[\s\S]|[^`\\])*`/;
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+  'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'let',
+  'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'undefined', 'var', 'void', 'while', 'yield'
+];
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript: { comment: C_COMMENT, string: QUOTED_OR_TEMPLATE, keywords: JS_KEYWORDS },
+  typescript: {
+    comment: C_COMMENT,
+    string: QUOTED_OR_TEMPLATE,
+    keywords: [...JS_KEYWORDS, 'as', 'enum', 'implements', 'interface', 'keyof', 'private', 'protected', 'public', 'readonly', 'type']
+  },
+  python: {
+    comment: HASH_COMMENT,
+    string: /"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\[\s\S]|[^"\\\n])*"|'(?:\\[\s\S]|[^'\\\n])*'/,
+    keywords: [
+      'and', 'as', 'async', 'await', 'break', 'class', 'continue', 'def', 'elif', 'else', 'except', 'False',
+      'finally', 'for', 'from', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or', 'pass', 'raise',
+      'return', 'True', 'try', 'while', 'with', 'yield'
+    ]
+  },
+  bash: {
+    comment: HASH_COMMENT,
+    string: QUOTED,
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'return', 'then', 'while']
+  },
+  sql: {
+    comment: /--[^\n]*|\/\*[\s\S]*?\*\//,
+    string: /'(?:''|[^'])*'/,
+    keywords: [
+      'and', 'as', 'by', 'create', 'delete', 'desc', 'distinct', 'from', 'group', 'having', 'in', 'insert', 'into',
+      'is', 'join', 'left', 'limit', 'not', 'null', 'on', 'or', 'order', 'returning', 'select', 'set', 'table',
+      'update', 'values', 'where', 'with'
+    ],
+    ignoreCase: true
+  },
+  json: { string: /"(?:\\[\s\S]|[^"\\\n])*"/, keywords: ['true', 'false', 'null'] },
+  css: { comment: /\/\*[\s\S]*?\*\//, string: QUOTED },
+  html: { comment: /<!--[\s\S]*?-->/, string: QUOTED }
+};
+
+const NUMBER = /\b\d+(?:\.\d+)?\b/;
+const WORD = /[A-Za-z_$][\w$]*/;
+
+const grammarFor = (language?: string): Grammar | undefined => {
+  const key = (language || '').toLowerCase();
+  if (key === 'js' || key === 'jsx') return GRAMMARS.javascript;
+  if (key === 'ts' || key === 'tsx') return GRAMMARS.typescript;
+  if (key === 'sh' || key === 'shell') return GRAMMARS.bash;
+  return GRAMMARS[key];
+};
+
+/** Split `code` into tokens; unknown languages come back as one plain token. */
+export const highlightCode = (code: string, language?: string): CodeToken[] => {
+  const grammar = grammarFor(language);
+  if (!grammar || !code) return code ? [{ type: 'plain', value: code }] : [];
+
+  const rules: Array<[CodeTokenType, RegExp | undefined]> = [
+    ['comment', grammar.comment],
+    ['string', grammar.string],
+    ['number', NUMBER],
+    ['keyword', grammar.keywords ? WORD : undefined]
+  ];
+  const active = rules.filter((rule): rule is [CodeTokenType, RegExp] => rule[1] !== undefined);
+  const pattern = new RegExp(active.map(([, regex]) => `(${regex.source})`).join('|'), 'g');
+  const keywords = new Set((grammar.keywords || []).map(word => grammar.ignoreCase ? word.toLowerCase() : word));
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.value += value;
+    else tokens.push({ type, value });
+  };
+
+  let index = 0;
+  for (const match of code.matchAll(pattern)) {
+    if (match.index > index) push('plain', code.slice(index, match.index));
+    const group = match.slice(1).findIndex(value => value !== undefined);
+    let type = active[group][0];
+    if (type === 'keyword') {
+      const word = grammar.ignoreCase ? match[0].toLowerCase() : match[0];
+      if (!keywords.has(word)) type = 'plain';
+    }
+    push(type, match[0]);
+    index = match.index + match[0].length;
+  }
+  if (index < code.length) push('plain', code.slice(index));
+  return tokens;
+};
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/** Escaped HTML with Prism-style `token <type>` spans, for exported markup. */
+export const highlightCodeToHtml = (code: string, language?: string): string =>
+  highlightCode(code, language)
+    .map(token => token.type === 'plain'
+      ? escapeHtml(token.value)
+      : `<span class="token ${token.type}">${escapeHtml(token.value)}</span>`)
+    .join('');
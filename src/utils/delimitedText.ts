@@ -0,0 +1,72 @@
+// CSV / TSV as pasted from spreadsheets. Excel and Google Sheets copy cells
+// as tab-separated text; exported files are usually comma- or (in locales
+// with decimal commas) semicolon-separated. No "@/" alias: blogExport uses
+// this through blogCharts.ts under Deno.
+
+export type Delimiter = ',' | '\t' | ';';
+
+/**
+ * The delimiter of a pasted block, judged from its first line: tabs win,
+ * then semicolons when there are no commas, then commas.
+ */
+export const detectDelimiter = (text: string): Delimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  if (firstLine.includes('\t')) return '\t';
+  if (firstLine.includes(';') && !firstLine.includes(',')) return ';';
+  return ',';
+};
+
+/**
+ * Rows of cells. Double-quoted cells may contain the delimiter, line breaks
+ * and "" for a literal quote; cells are trimmed and blank lines skipped.
+ */
+export const parseDelimitedText = (text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(cell.trim());
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some(value => value !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+const csvCell = (value: string): string =>
+  /[",\n\r]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Comma-separated text for rows, quoting cells only where needed. */
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(csvCell).join(',')).join('\n');
@@ -1,51 +1,36 @@
 import mammoth from 'mammoth';
+import { BLOG_SCHEMA_VERSION, BlogStructure, ContentBlock, HeadingLevel, ListItem } from '@/utils/blogSchema';
 
-// Import the blog structure interfaces
-export interface ContentBlock {
-  id: string;
-  type: 'left-image-right-text' | 'right-image-left-text' | 'full-width-image' | 'full-width-text' | 'image-caption' | 'video-embed' | 'table' | 'chart';
-  content: {
-    title?: string;
-    text?: string;
-    imageUrl?: string;
-    videoUrl?: string;
-    caption?: string;
-    width?: number;
-    alignment?: 'left' | 'center' | 'right';
-    hasBorder?: boolean;
-    hasShadow?: boolean;
-    fontSize?: 'sm' | 'base' | 'lg' | 'xl';
-    fontWeight?: 'normal' | 'medium' | 'semibold' | 'bold';
-    textColor?: string;
-    tableData?: {
-      headers: string[];
-      rows: string[][];
-    };
-    chartData?: {
-      type: 'pie' | 'bar' | 'line';
-      labels: string[];
-      data: number[];
-      title: string;
-    };
-  };
-}
+export type { ContentBlock } from '@/utils/blogSchema';
 
-export interface StandardizedBlog {
-  title: string;
-  featuredImage: string;
-  author: string;
-  date: string;
-  blocks: ContentBlock[];
+export interface StandardizedBlog extends BlogStructure {
   excerpt: string;
 }
 
 interface DocumentBlock {
-  type: 'heading' | 'paragraph' | 'list' | 'image' | 'table';
+  type: 'heading' | 'paragraph' | 'list' | 'image' | 'table' | 'quote' | 'code' | 'divider';
   level?: number;
   content: string;
-  items?: string[];
+  items?: ListItem[];
 }
 
+// Items of a <ul>/<ol>, keeping nested lists as children
+const listItemsFromElement = (list: Element): ListItem[] =>
+  Array.from(list.children)
+    .filter(child => child.tagName.toLowerCase() === 'li')
+    .map(li => {
+      const nested = Array.from(li.children).filter(child => ['ul', 'ol'].includes(child.tagName.toLowerCase()));
+      const text = Array.from(li.childNodes)
+        .filter(node => !nested.includes(node as Element))
+        .map(node => node.textContent || '')
+        .join('')
+        .trim();
+      const children = nested.flatMap(listItemsFromElement);
+      return children.length > 0 ? { text, children } : { text };
+    });
+
+const LIST_LINE = /^(?:[•-]|\d+\.)\s*/;
+
 export class DocumentParser {
   static async parseWordDocument(file: File): Promise<StandardizedBlog> {
     try {
@@ -113,7 +98,7 @@ export class DocumentParser {
       const tagName = element.tagName.toLowerCase();
       const content = element.textContent?.trim() || '';
       
-      if (!content && tagName !== 'img') return;
+      if (!content && tagName !== 'img' && tagName !== 'hr') return;
       
       switch (tagName) {
         case 'h1':
@@ -134,11 +119,21 @@ export class DocumentParser {
           break;
         case 'ul':
         case 'ol':
-          const listItems = Array.from(element.querySelectorAll('li')).map(li => li.textContent?.trim() || '');
+          const listItems = listItemsFromElement(element);
           if (listItems.length > 0) {
             rawBlocks.push({ type: 'list', content: tagName, items: listItems });
           }
           break;
+        case 'blockquote':
+          rawBlocks.push({ type: 'quote', content });
+          break;
+        case 'pre':
+          // Keep the original line breaks and indentation
+          rawBlocks.push({ type: 'code', content: element.textContent?.replace(/^\n+|\s+$/g, '') || '' });
+          break;
+        case 'hr':
+          rawBlocks.push({ type: 'divider', content: '' });
+          break;
         case 'img':
           const src = element.getAttribute('src');
           if (src) {
@@ -157,6 +152,7 @@ export class DocumentParser {
     const excerpt = this.generateExcerptFromBlocks(standardizedBlocks);
     
     return {
+      schemaVersion: BLOG_SCHEMA_VERSION,
       title,
       featuredImage: extractedImages[0] || '',
       author: 'Document Upload',
@@ -183,13 +179,19 @@ export class DocumentParser {
         continue;
       }
       
-      // Detect headings (lines that are shorter and don't end with punctuation)
-      if (trimmedLine.length < 100 && !trimmedLine.match(/[.!?]$/)) {
+      if (LIST_LINE.test(trimmedLine)) {
+        // Consecutive list lines become one list
+        const item = { text: trimmedLine.replace(LIST_LINE, '') };
+        const style = /^\d/.test(trimmedLine) ? 'ol' : 'ul';
+        const previous = rawBlocks[rawBlocks.length - 1];
+        if (previous?.type === 'list' && previous.content === style) {
+          previous.items?.push(item);
+        } else {
+          rawBlocks.push({ type: 'list', content: style, items: [item] });
+        }
+      } else if (trimmedLine.length < 100 && !trimmedLine.match(/[.!?]$/)) {
+        // Detect headings (lines that are shorter and don't end with punctuation)
         rawBlocks.push({ type: 'heading', level: 2, content: trimmedLine });
-      } else if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-') || trimmedLine.match(/^\d+\./)) {
-        // List items
-        const content = trimmedLine.replace(/^[•\-\d+\.]\s*/, '');
-        rawBlocks.push({ type: 'list', content: 'ul', items: [content] });
       } else {
         rawBlocks.push({ type: 'paragraph', content: trimmedLine });
       }
@@ -200,6 +202,7 @@ export class DocumentParser {
     const excerpt = this.generateExcerptFromBlocks(standardizedBlocks);
     
     return {
+      schemaVersion: BLOG_SCHEMA_VERSION,
       title,
       featuredImage: '',
       author: 'Document Upload',
@@ -220,20 +223,14 @@ export class DocumentParser {
       
       switch (block.type) {
         case 'heading':
-          // Convert headings to full-width text blocks with appropriate styling
-          const fontSize = block.level === 1 ? 'xl' : block.level === 2 ? 'lg' : 'base';
-          const fontWeight = block.level <= 2 ? 'bold' : 'semibold';
-          
+          // The post title is the page's h1, so document headings move down a level
           standardizedBlocks.push({
             id: `block-${blockId++}`,
-            type: 'full-width-text',
+            type: 'heading',
             content: {
               text: block.content,
-              alignment: 'left',
-              fontSize,
-              fontWeight,
-              textColor: 'hsl(var(--foreground))',
-              width: 100
+              level: Math.min((block.level || 1) + 1, 4) as HeadingLevel,
+              alignment: 'left'
             }
           });
           break;
@@ -293,29 +290,38 @@ export class DocumentParser {
           break;
           
         case 'list':
-          // Convert lists to formatted text blocks
-          let listText = '';
-          if (block.items) {
-            const listType = block.content === 'ol' ? 'numbered' : 'bullet';
-            listText = block.items.map((item, index) => {
-              const prefix = listType === 'numbered' ? `${index + 1}. ` : '• ';
-              return `${prefix}${item}`;
-            }).join('\n');
-          }
-          
           standardizedBlocks.push({
             id: `block-${blockId++}`,
-            type: 'full-width-text',
+            type: 'list',
             content: {
-              text: listText,
-              alignment: 'left',
-              fontSize: 'base',
-              fontWeight: 'normal',
-              textColor: 'hsl(var(--foreground))',
-              width: 100
+              listData: {
+                style: block.content === 'ol' ? 'ordered' : 'unordered',
+                items: block.items || []
+              },
+              alignment: 'left'
             }
           });
           break;
+
+        case 'quote':
+          standardizedBlocks.push({
+            id: `block-${blockId++}`,
+            type: 'quote',
+            content: { text: block.content, alignment: 'left' }
+          });
+          break;
+
+        case 'code':
+          standardizedBlocks.push({
+            id: `block-${blockId++}`,
+            type: 'code',
+            content: { text: block.content, language: 'plaintext' }
+          });
+          break;
+
+        case 'divider':
+          standardizedBlocks.push({ id: `block-${blockId++}`, type: 'divider', content: {} });
+          break;
           
         case 'table':
           // Parse table HTML and convert to table block
@@ -354,6 +360,8 @@ export class DocumentParser {
   private static generateExcerptFromBlocks(blocks: ContentBlock[]): string {
     // Find the first text block
     const textBlock = blocks.find(block => 
+      block.type !== 'heading' &&
+      block.type !== 'code' &&
       block.content.text && 
       block.content.text.length > 0 &&
       !block.content.text.match(/^(#|##|###)/) // Skip headings
@@ -0,0 +1,267 @@
+// Allow-list HTML sanitizer and URL checks shared by everything that renders
+// or exports blog HTML. String based rather than DOM based, and relative
+// imports only, because blogExport.ts also runs in the edge functions (Deno).
+import { escapeHtml } from './codeHighlight.ts';
+import { parseVideoUrl } from './videoEmbed.ts';
+
+export interface SanitizePolicy {
+  /** Allowed tags and the attributes each may carry besides `globalAttributes` */
+  tags: Record<string, string[]>;
+  globalAttributes: string[];
+}
+
+const noAttributes = (tags: string[]): Record<string, string[]> =>
+  Object.fromEntries(tags.map(tag => [tag, []]));
+
+export const BLOG_HTML_POLICY: SanitizePolicy = {
+  globalAttributes: ['class', 'id', 'title', 'style', 'dir', 'lang'],
+  tags: {
+    ...noAttributes([
+      'abbr', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'del', 'div', 'em', 'figcaption', 'figure',
+      'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'ins', 'kbd', 'li', 'mark', 'p', 'pre', 's', 'small', 'span',
+      'strong', 'sub', 'sup', 'table', 'tbody', 'tfoot', 'thead', 'tr', 'u', 'ul'
+    ]),
+    a: ['href', 'target', 'rel'],
+    img: ['src', 'alt', 'width', 'height', 'loading'],
+    ol: ['start', 'type'],
+    td: ['colspan', 'rowspan'],
+    th: ['colspan', 'rowspan', 'scope'],
+    iframe: ['src', 'width', 'height', 'allow', 'allowfullscreen', 'frameborder'],
+    video: ['src', 'poster', 'controls', 'width', 'height', 'preload', 'muted', 'loop', 'playsinline'],
+    source: ['src', 'type']
+  }
+};
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'source']);
+
+// Removed together with everything inside them rather than unwrapped
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'template', 'noscript', 'noembed', 'noframes', 'textarea', 'title', 'xmp', 'object',
+  'applet', 'svg', 'math', 'select', 'frameset', 'head'
+]);
+
+const BOOLEAN_ATTRIBUTES = new Set(['allowfullscreen', 'controls', 'muted', 'loop', 'playsinline']);
+
+const ATTRIBUTE_PATTERNS: Record<string, RegExp> = {
+  width: /^\d+%?$/,
+  height: /^\d+%?$/,
+  colspan: /^\d+$/,
+  rowspan: /^\d+$/,
+  start: /^-?\d+$/,
+  frameborder: /^\d$/,
+  type: /^[\w/.+-]+$/,
+  allow: /^[\w\s;-]+$/,
+  loading: /^(lazy|eager)$/,
+  preload: /^(none|metadata|auto)$/,
+  scope: /^(row|col|rowgroup|colgroup)$/,
+  target: /^_blank$/,
+  dir: /^(ltr|rtl|auto)$/
+};
+
+const SAFE_DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp|avif);base64,[a-z0-9+/=\s]+$/i;
+
+// Browsers skip whitespace and control characters when reading a scheme, so
+// "java\tscript:" must be caught as javascript:
+const schemeOf = (url: string): string | null => {
+  const compact = Array.from(url).filter(char => char.charCodeAt(0) > 32 && char.charCodeAt(0) !== 127).join('');
+  const match = compact.match(/^([a-z][a-z0-9+.-]*):/i);
+  return match ? match[1].toLowerCase() : null;
+};
+
+const isSiteRelative = (url: string) => /^\/(?![/\\])/.test(url);
+
+/**
+ * The link target if it is safe to render, otherwise null: http(s), mailto,
+ * site-relative paths and in-page anchors.
+ */
+export const safeHref = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const url = value.trim();
+  const scheme = schemeOf(url);
+  if (scheme) return ['http', 'https', 'mailto'].includes(scheme) ? url : null;
+  return isSiteRelative(url) || url.startsWith('#') ? url : null;
+};
+
+/** Image sources: http(s), site-relative paths and base64 raster data URLs. */
+export const safeImageUrl = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const url = value.trim();
+  const scheme = schemeOf(url);
+  if (scheme === 'data') return SAFE_DATA_IMAGE.test(url) ? url : null;
+  if (scheme) return scheme === 'http' || scheme === 'https' ? url : null;
+  return isSiteRelative(url) ? url : null;
+};
+
+/**
+ * Video and player URLs: the canonical embed URL when the video is on a
+ * supported provider (see videoEmbed.ts), otherwise null.
+ */
+export const safeVideoUrl = (value: unknown): string | null =>
+  typeof value === 'string' ? parseVideoUrl(value)?.embedUrl ?? null : null;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  colon: ':', tab: '\t', newline: '\n', lpar: '(', rpar: ')', sol: '/', semi: ';'
+};
+
+// Attribute values are checked decoded, so "&#106;avascript:" is no way round
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+// A bare ">" is harmless in text, so only "<" and stray "&" are escaped
+const escapeText = (text: string): string =>
+  text
+    .replace(/&(?!(?:#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);)/gi, '&amp;')
+    .replace(/</g, '&lt;');
+
+const STYLE_PROPERTIES = new Set([
+  'color', 'background-color', 'text-align', 'text-decoration', 'text-transform', 'font-weight', 'font-style',
+  'font-size', 'font-family', 'line-height', 'letter-spacing', 'white-space', 'vertical-align', 'list-style-type',
+  'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+  'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+  'border', 'border-top', 'border-right', 'border-bottom', 'border-left', 'border-color', 'border-radius',
+  'border-collapse', 'width', 'max-width', 'height', 'display', 'float', 'gap', 'flex', 'align-items',
+  'object-fit', 'overflow-x', 'box-shadow'
+]);
+
+const UNSAFE_STYLE_VALUE = /url\s*\(|expression\s*\(|javascript:|@import|behavior|[<>\\]/i;
+
+/** Allow-listed declarations only; anything that could load a URL or run script is dropped. */
+export const sanitizeStyle = (style: string): string =>
+  decodeEntities(style)
+    .split(';')
+    .map(declaration => {
+      const colon = declaration.indexOf(':');
+      if (colon === -1) return null;
+      const property = declaration.slice(0, colon).trim().toLowerCase();
+      const value = declaration.slice(colon + 1).trim();
+      if (!STYLE_PROPERTIES.has(property) || !value || UNSAFE_STYLE_VALUE.test(value)) return null;
+      return `${property}: ${value}`;
+    })
+    .filter(Boolean)
+    .join('; ');
+
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const sanitizeAttributes = (tag: string, source: string, policy: SanitizePolicy): { html: string; src: string | null } => {
+  const allowed = new Set([...policy.globalAttributes, ...(policy.tags[tag] || [])]);
+  const seen = new Set<string>();
+  let html = '';
+  let src: string | null = null;
+
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase();
+    // Browsers keep the first of duplicated attributes
+    if (seen.has(name)) continue;
+    seen.add(name);
+    if (!allowed.has(name) || name === 'rel') continue;
+
+    if (BOOLEAN_ATTRIBUTES.has(name)) {
+      html += ` ${name}`;
+      continue;
+    }
+
+    const raw = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    let value: string | null = raw;
+    if (name === 'href') value = safeHref(raw);
+    else if (name === 'poster') value = safeImageUrl(raw);
+    else if (name === 'src') value = tag === 'img' ? safeImageUrl(raw) : safeVideoUrl(raw);
+    else if (name === 'style') value = sanitizeStyle(raw) || null;
+    else if (ATTRIBUTE_PATTERNS[name] && !ATTRIBUTE_PATTERNS[name].test(raw.trim())) value = null;
+
+    if (value === null) continue;
+    if (name === 'src') src = value;
+    html += ` ${name}="${escapeHtml(value)}"`;
+    // New tabs must not get a handle on this page
+    if (name === 'target') html += ' rel="noopener noreferrer"';
+  }
+
+  return { html, src };
+};
+
+const TAG = /<(\/?)([a-z][a-z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/iy;
+
+/**
+ * HTML reduced to the tags, attributes, URL schemes and styles the policy
+ * allows. Unknown tags are unwrapped, script-like ones removed with their
+ * content, and open tags are closed so the output can be embedded safely.
+ */
+export const sanitizeHtml = (html: string | null | undefined, policy: SanitizePolicy = BLOG_HTML_POLICY): string => {
+  const source = html || '';
+  const open: string[] = [];
+  let output = '';
+  let index = 0;
+
+  const skipElement = (tag: string, from: number): number => {
+    const close = new RegExp(`</${tag}\\s*>`, 'ig');
+    close.lastIndex = from;
+    return close.exec(source) ? close.lastIndex : source.length;
+  };
+
+  while (index < source.length) {
+    const next = source.indexOf('<', index);
+    if (next === -1) {
+      output += escapeText(source.slice(index));
+      break;
+    }
+    output += escapeText(source.slice(index, next));
+    index = next;
+
+    if (source.startsWith('<!--', index)) {
+      const end = source.indexOf('-->', index + 4);
+      index = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source[index + 1] === '!' || source[index + 1] === '?') {
+      const end = source.indexOf('>', index);
+      index = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    TAG.lastIndex = index;
+    const match = TAG.exec(source);
+    if (!match) {
+      output += '&lt;';
+      index += 1;
+      continue;
+    }
+    index = TAG.lastIndex;
+
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+
+    if (closing) {
+      const position = open.lastIndexOf(tag);
+      if (position !== -1) {
+        while (open.length > position) output += `</${open.pop()}>`;
+      }
+      continue;
+    }
+
+    if (DROP_WITH_CONTENT.has(tag)) {
+      index = skipElement(tag, index);
+      continue;
+    }
+    if (!policy.tags[tag]) continue;
+
+    const attributes = sanitizeAttributes(tag, match[3], policy);
+    // Media that would not load from an allowed source is left out entirely
+    if (tag === 'iframe' && !attributes.src) {
+      index = skipElement(tag, index);
+      continue;
+    }
+    if (tag === 'img' && !attributes.src) continue;
+
+    output += `<${tag}${attributes.html}>`;
+    if (!VOID_TAGS.has(tag)) open.push(tag);
+  }
+
+  while (open.length > 0) output += `</${open.pop()}>`;
+  return output;
+};
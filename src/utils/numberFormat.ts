@@ -0,0 +1,44 @@
+// Number display shared by chart and table blocks. No "@/" alias: blogExport
+// uses this under Deno.
+import type { NumberFormat } from './blogSchema.ts';
+
+export interface NumberFormatOptions {
+  numberFormat?: NumberFormat;
+  /** ISO 4217 code for the 'currency' format; USD when unset */
+  currency?: string;
+}
+
+export const NUMBER_FORMAT_LABELS: Record<NumberFormat, string> = {
+  number: '1,234.5',
+  compact: '1.2K',
+  percent: '12.5%',
+  currency: '$1,234.50'
+};
+
+/**
+ * A value as shown to readers. Percentages are stored as percent points
+ * (12.5 means 12.5%).
+ */
+export const formatNumber = (value: number, options: NumberFormatOptions): string => {
+  switch (options.numberFormat) {
+    case 'compact':
+      return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+    case 'percent':
+      return new Intl.NumberFormat('en-US', { style: 'percent', maximumFractionDigits: 1 }).format(value / 100);
+    case 'currency':
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency: options.currency || 'USD' }).format(value);
+    default:
+      return new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 }).format(value);
+  }
+};
+
+/**
+ * A number from a spreadsheet cell such as "1,234", "$12.50", "45%" or, in
+ * semicolon-separated data, "1.234,5". Null for anything else, blank included.
+ */
+export const parseNumber = (cell: string, decimalComma = false): number | null => {
+  let text = cell.replace(/[\s$€£¥%]/g, '');
+  text = decimalComma ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  return Number(text);
+};
@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+import { BLOG_LIST_COLUMNS, BlogListItem, fetchBlogListPage } from '@/utils/blogListing';
+
+// The blog_related_posts triggers keep up to this many per post
+export const MAX_RELATED_POSTS = 6;
+
+/** The post suggestions are computed for; category drives the fallback. */
+export interface RelatedPostsSource {
+  id: string;
+  category: string;
+}
+
+/**
+ * Best-scoring related posts from the precomputed `blog_related_posts` table.
+ * Posts without a list yet (e.g. published before their first refresh) fall
+ * back to the latest posts in the same category.
+ */
+export const fetchRelatedPosts = async (source: RelatedPostsSource, limit = 3): Promise<BlogListItem[]> => {
+  const { data, error } = await supabase
+    .from('blog_related_posts')
+    .select(`score, related:blogs!blog_related_posts_related_blog_id_fkey(${BLOG_LIST_COLUMNS})`)
+    .eq('blog_id', source.id)
+    .order('score', { ascending: false })
+    .limit(Math.min(limit, MAX_RELATED_POSTS));
+
+  if (error) throw error;
+
+  // The embed is null for posts the reader may not see
+  const related = ((data || []) as unknown as Array<{ related: BlogListItem | null }>)
+    .map(row => row.related)
+    .filter((post): post is BlogListItem => !!post);
+  if (related.length > 0) return related;
+
+  const { rows } = await fetchBlogListPage({ status: 'published', category: source.category, pageSize: limit + 1 });
+  return rows.filter(post => post.id !== source.id).slice(0, limit);
+};
+
+export type LastReadPost = RelatedPostsSource & Pick<BlogListItem, 'title' | 'slug'>;
+
+const LAST_READ_KEY = 'blog:last-read';
+
+/** Remembered for the session so the blog index can suggest what to read next. */
+export const rememberLastRead = (post: LastReadPost) => {
+  try {
+    const { id, category, title, slug } = post;
+    sessionStorage.setItem(LAST_READ_KEY, JSON.stringify({ id, category, title, slug }));
+  } catch (error) {
+    // Storage can be disabled or full; suggestions are optional
+  }
+};
+
+export const readLastRead = (): LastReadPost | null => {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(LAST_READ_KEY) || 'null');
+    return stored && typeof stored.id === 'string' && typeof stored.slug === 'string' ? stored : null;
+  } catch (error) {
+    return null;
+  }
+};
@@ -0,0 +1,192 @@
+// Inline formatting for text blocks. Marks are stored as spans in
+// `content.richText` (with `content.text` kept as the plain-text mirror) and
+// edited as a small markup: **bold**, *italic*, `code` and [label](url).
+// Relative imports: blogSchema.ts and blogExport.ts use this under Deno too.
+import type { ContentBlockContent, ContentBlockType, InlineMark, RichTextSpan } from './blogSchema.ts';
+import { escapeHtml } from './codeHighlight.ts';
+import { safeHref } from './htmlSanitizer.ts';
+
+export const INLINE_MARKS: InlineMark[] = ['bold', 'italic', 'code'];
+
+/** Blocks whose body text can carry inline marks */
+export const RICH_TEXT_BLOCK_TYPES: ContentBlockType[] = ['full-width-text', 'left-image-right-text', 'right-image-left-text'];
+
+const sameFormat = (a: RichTextSpan, b: RichTextSpan) =>
+  a.href === b.href && (a.marks || []).join() === (b.marks || []).join();
+
+const makeSpan = (text: string, marks: InlineMark[], href?: string): RichTextSpan => {
+  const span: RichTextSpan = { text };
+  const sorted = INLINE_MARKS.filter(mark => marks.includes(mark));
+  if (sorted.length > 0) span.marks = sorted;
+  if (href) span.href = href;
+  return span;
+};
+
+/** Drops empty spans and joins neighbours with the same formatting. */
+export const mergeSpans = (spans: RichTextSpan[]): RichTextSpan[] =>
+  spans.reduce<RichTextSpan[]>((merged, span) => {
+    if (!span.text) return merged;
+    const last = merged[merged.length - 1];
+    if (last && sameFormat(last, span)) {
+      merged[merged.length - 1] = { ...last, text: last.text + span.text };
+    } else {
+      merged.push(span);
+    }
+    return merged;
+  }, []);
+
+export const hasInlineFormatting = (spans: RichTextSpan[]): boolean =>
+  spans.some(span => (span.marks && span.marks.length > 0) || span.href);
+
+export const richTextToPlain = (spans: RichTextSpan[]): string => spans.map(span => span.text).join('');
+
+const ESCAPABLE = new Set(['\\', '*', '`', '[', ']']);
+
+interface ParseResult {
+  spans: RichTextSpan[];
+  end: number;
+  closed: boolean;
+}
+
+// One level of the markup. Each mark can only be opened once per nesting
+// path, which keeps the backtracking on unmatched markers shallow.
+const parseMarkup = (source: string, start: number, closer: string | null, marks: InlineMark[], href?: string): ParseResult => {
+  const spans: RichTextSpan[] = [];
+  let buffer = '';
+  let i = start;
+
+  const flush = () => {
+    if (buffer) spans.push(makeSpan(buffer, marks, href));
+    buffer = '';
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\\' && ESCAPABLE.has(source[i + 1])) {
+      buffer += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (closer && source.startsWith(closer, i)) {
+      flush();
+      return { spans, end: i + closer.length, closed: true };
+    }
+
+    if (char === '`') {
+      const close = source.indexOf('`', i + 1);
+      if (close > i + 1) {
+        flush();
+        spans.push(makeSpan(source.slice(i + 1, close), [...marks, 'code'], href));
+        i = close + 1;
+        continue;
+      }
+    }
+
+    const opener = source.startsWith('**', i) && !marks.includes('bold') ? '**'
+      : char === '*' && !marks.includes('italic') ? '*'
+      : null;
+    if (opener) {
+      const inner = parseMarkup(source, i + opener.length, opener, [...marks, opener === '**' ? 'bold' : 'italic'], href);
+      if (inner.closed) {
+        flush();
+        spans.push(...inner.spans);
+        i = inner.end;
+        continue;
+      }
+    }
+
+    if (char === '[' && href === undefined) {
+      const label = parseMarkup(source, i + 1, ']', marks, '');
+      if (label.closed && source[label.end] === '(') {
+        const close = source.indexOf(')', label.end + 1);
+        if (close !== -1) {
+          flush();
+          const target = safeHref(source.slice(label.end + 1, close));
+          // Unsafe targets keep their label as plain text
+          spans.push(...label.spans.map(span => makeSpan(span.text, span.marks || [], target || undefined)));
+          i = close + 1;
+          continue;
+        }
+      }
+    }
+
+    buffer += char;
+    i += 1;
+  }
+
+  flush();
+  return { spans, end: i, closed: false };
+};
+
+/** Spans from editor markup; unmatched markers stay as literal text. */
+export const parseInlineMarkup = (source: string): RichTextSpan[] =>
+  mergeSpans(parseMarkup(source || '', 0, null, []).spans);
+
+const escapeMarkup = (text: string) => text.replace(/[\\*`[\]]/g, match => `\\${match}`);
+
+// Links outermost, then bold, then italic, then code, grouping neighbours
+// that share a format so the output nests cleanly and parses back the same.
+const serialize = (spans: RichTextSpan[], level: number): string => {
+  if (level === 4) return spans.map(span => escapeMarkup(span.text)).join('');
+
+  const keyOf = (span: RichTextSpan): string => {
+    if (level === 0) return span.href || '';
+    return span.marks?.includes(INLINE_MARKS[level - 1]) ? 'on' : '';
+  };
+
+  const groups: RichTextSpan[][] = [];
+  spans.forEach(span => {
+    const last = groups[groups.length - 1];
+    if (last && keyOf(last[0]) === keyOf(span)) last.push(span);
+    else groups.push([span]);
+  });
+
+  return groups.map(group => {
+    const key = keyOf(group[0]);
+    if (!key) return serialize(group, level + 1);
+    if (level === 0) {
+      return `[${serialize(group, 1)}](${key.replace(/\)/g, '%29').replace(/\s/g, '%20')})`;
+    }
+    const mark = INLINE_MARKS[level - 1];
+    if (mark === 'code') {
+      const code = group.map(span => span.text).join('');
+      // Backticks cannot appear inside a code span; fall back to plain text
+      return code.includes('`') ? escapeMarkup(code) : `\`${code}\``;
+    }
+    const marker = mark === 'bold' ? '**' : '*';
+    return `${marker}${serialize(group, level + 1)}${marker}`;
+  }).join('');
+};
+
+/** Editor markup for stored spans; the inverse of parseInlineMarkup. */
+export const toInlineMarkup = (spans: RichTextSpan[]): string => serialize(mergeSpans(spans), 0);
+
+/** What the editor shows for a block; older plain text is escaped so it round-trips unchanged. */
+export const markupFromContent = (content: Pick<ContentBlockContent, 'text' | 'richText'>): string =>
+  content.richText?.length ? toInlineMarkup(content.richText) : escapeMarkup(content.text || '');
+
+/**
+ * Block fields for edited markup: the plain-text mirror always, and spans
+ * only when something is actually formatted.
+ */
+export const textFieldsFromMarkup = (markup: string): { text: string; richText: RichTextSpan[] | undefined } => {
+  const spans = parseInlineMarkup(markup);
+  return {
+    text: richTextToPlain(spans),
+    richText: hasInlineFormatting(spans) ? spans : undefined
+  };
+};
+
+/** Escaped HTML for exported markup. */
+export const richTextToHtml = (spans: RichTextSpan[]): string =>
+  spans.map(span => {
+    let html = escapeHtml(span.text).replace(/\n/g, '<br>');
+    if (span.marks?.includes('code')) html = `<code>${html}</code>`;
+    if (span.marks?.includes('italic')) html = `<em>${html}</em>`;
+    if (span.marks?.includes('bold')) html = `<strong>${html}</strong>`;
+    const href = safeHref(span.href);
+    if (href) html = `<a href="${escapeHtml(href)}">${html}</a>`;
+    return html;
+  }).join('');
@@ -0,0 +1,113 @@
+// sitemap.xml and robots.txt for crawlers. Shared by the sitemap edge function
+// (Deno), so imports stay relative with explicit extensions.
+import { escapeXml } from './blogFeed.ts';
+import { BlogArchiveKind, blogArchivePath, blogPostPath, toAbsoluteUrl } from './blogSeo.ts';
+
+export const SITEMAP_ENDPOINT = 'https://tqpjqyjyidyargswfzga.supabase.co/functions/v1/sitemap';
+
+export type ChangeFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface SitemapEntry {
+  path: string;
+  lastmod?: string | null;
+  changefreq?: ChangeFrequency;
+  priority?: number;
+}
+
+/** Public pages from App.tsx. Keep in sync when adding a route. */
+export const STATIC_SITEMAP_ROUTES: SitemapEntry[] = [
+  { path: '/', changefreq: 'weekly', priority: 1 },
+  { path: '/products', changefreq: 'monthly', priority: 0.9 },
+  { path: '/products/smartcrm', changefreq: 'monthly', priority: 0.8 },
+  { path: '/products/predictive-sales-ai', changefreq: 'monthly', priority: 0.8 },
+  { path: '/products/chatbot360', changefreq: 'monthly', priority: 0.8 },
+  { path: '/products/ai-email-optimizer', changefreq: 'monthly', priority: 0.8 },
+  { path: '/products/data-intelligence-hub', changefreq: 'monthly', priority: 0.8 },
+  { path: '/solutions', changefreq: 'monthly', priority: 0.9 },
+  { path: '/solutions/retail-ecommerce', changefreq: 'monthly', priority: 0.8 },
+  { path: '/solutions/healthcare', changefreq: 'monthly', priority: 0.8 },
+  { path: '/solutions/logistics-supply-chain', changefreq: 'monthly', priority: 0.8 },
+  { path: '/solutions/financial-services', changefreq: 'monthly', priority: 0.8 },
+  { path: '/solutions/marketing-automation', changefreq: 'monthly', priority: 0.8 },
+  { path: '/solutions/sales-enhancement', changefreq: 'monthly', priority: 0.8 },
+  { path: '/solutions/customer-support', changefreq: 'monthly', priority: 0.8 },
+  { path: '/solutions/operations-optimization', changefreq: 'monthly', priority: 0.8 },
+  { path: '/blog', changefreq: 'daily', priority: 0.8 },
+  { path: '/docs', changefreq: 'monthly', priority: 0.7 },
+  { path: '/pricing', changefreq: 'monthly', priority: 0.7 },
+  { path: '/contact', changefreq: 'monthly', priority: 0.5 },
+  { path: '/enterprise', changefreq: 'monthly', priority: 0.6 }
+];
+
+/** Routes crawlers should stay out of. */
+export const DISALLOWED_PATHS = ['/admin', '/auth'];
+
+export interface SitemapBlog {
+  slug: string;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export const blogSitemapEntries = (blogs: SitemapBlog[]): SitemapEntry[] =>
+  blogs.map(blog => ({
+    path: blogPostPath(blog.slug),
+    lastmod: blog.updated_at || blog.created_at,
+    changefreq: 'weekly',
+    priority: 0.6
+  }));
+
+export interface SitemapArchive {
+  slug: string;
+  lastmod?: string | null;
+}
+
+/** Category and tag archive pages; list only terms that have published posts. */
+export const archiveSitemapEntries = (kind: BlogArchiveKind, archives: SitemapArchive[]): SitemapEntry[] =>
+  archives.map(archive => ({
+    path: blogArchivePath(kind, archive.slug),
+    lastmod: archive.lastmod,
+    changefreq: 'weekly',
+    priority: 0.5
+  }));
+
+// W3C datetime; crawlers ignore lastmod they cannot parse
+const toLastmod = (value: string): string | null => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export const buildSitemapXml = (entries: SitemapEntry[], siteUrl: string): string => {
+  const urls = entries.map(entry => {
+    const lastmod = entry.lastmod ? toLastmod(entry.lastmod) : null;
+    return [
+      '  <url>',
+      `    <loc>${escapeXml(toAbsoluteUrl(entry.path, siteUrl))}</loc>`,
+      lastmod ? `    <lastmod>${lastmod}</lastmod>` : null,
+      entry.changefreq ? `    <changefreq>${entry.changefreq}</changefreq>` : null,
+      entry.priority !== undefined ? `    <priority>${entry.priority.toFixed(1)}</priority>` : null,
+      '  </url>'
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * robots.txt pointing at the generated sitemap. `public/robots.txt` is this
+ * output checked in, so the static host serves the same file.
+ */
+export const buildRobotsTxt = (sitemapUrl: string = SITEMAP_ENDPOINT): string =>
+  [
+    'User-agent: *',
+    'Allow: /',
+    ...DISALLOWED_PATHS.map(path => `Disallow: ${path}`),
+    '',
+    `Sitemap: ${sitemapUrl}`,
+    ''
+  ].join('\n');
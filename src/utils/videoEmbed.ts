@@ -0,0 +1,190 @@
+// Video providers: turns whatever URL a writer pastes (watch pages, share
+// links, shorts, existing embeds, uploads) into one normalized description
+// with a canonical embed URL, in the spirit of an oEmbed response. No
+// runtime imports, so the sanitizer and exporters can use it under Deno too.
+import type { ContentBlockContent } from './blogSchema.ts';
+
+export type VideoProvider = 'youtube' | 'vimeo' | 'loom' | 'upload';
+
+export interface VideoEmbed {
+  provider: VideoProvider;
+  /** Provider video id; the storage path for uploads */
+  id: string;
+  /** iframe src for hosted players, the file itself for uploads (played with <video>) */
+  embedUrl: string;
+  /** Page to link to where an embed can't be shown (print, feeds) */
+  watchUrl: string;
+  thumbnailUrl: string | null;
+  startSeconds?: number;
+}
+
+export interface VideoEmbedOptions {
+  /** Overrides a start time found in the URL */
+  startSeconds?: number;
+  /** YouTube's no-cookie player and Vimeo's do-not-track mode */
+  privacyEnhanced?: boolean;
+}
+
+export const VIDEO_PROVIDER_LABELS: Record<VideoProvider, string> = {
+  youtube: 'YouTube',
+  vimeo: 'Vimeo',
+  loom: 'Loom',
+  upload: 'Uploaded video'
+};
+
+// Uploads from the editor live in this public bucket of the Supabase project
+// (the project of client.ts and BLOG_FEED_ENDPOINT); other projects' buckets are unknown hosts
+const VIDEO_STORAGE_HOST = 'tqpjqyjyidyargswfzga.supabase.co';
+const VIDEO_STORAGE_PATH = '/storage/v1/object/public/blog-videos/';
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+const LOOM_ID = /^[0-9a-f]{32}$/i;
+
+/**
+ * Seconds from "90", "90s", "1m30s", "1h2m3s" or "1:30"; undefined for
+ * anything else or zero.
+ */
+export const parseTimestamp = (value: string | number | null | undefined): number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim().toLowerCase();
+  let seconds: number | undefined;
+
+  if (/^\d+(\.\d+)?s?$/.test(text)) {
+    seconds = Math.floor(parseFloat(text));
+  } else if (/^(\d+:)?\d{1,2}:\d{2}$/.test(text)) {
+    seconds = text.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  } else {
+    const match = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+    if (match && text) seconds = Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60 + Number(match[3] || 0);
+  }
+
+  return seconds && seconds > 0 ? seconds : undefined;
+};
+
+/** "1:30" style label for a start time, as shown next to the editor field. */
+export const formatTimestamp = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+const hostMatches = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+const withQuery = (base: string, params: Record<string, string | number | undefined>): string => {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return query ? `${base}?${query}` : base;
+};
+
+const youtube = (url: URL, host: string, options: VideoEmbedOptions): VideoEmbed | null => {
+  const segments = url.pathname.split('/').filter(Boolean);
+  let id: string | undefined;
+  if (host === 'youtu.be') id = segments[0];
+  else if (segments[0] === 'watch') id = url.searchParams.get('v') ?? undefined;
+  else if (['embed', 'shorts', 'live', 'v'].includes(segments[0])) id = segments[1];
+  if (!id || !YOUTUBE_ID.test(id)) return null;
+
+  const start = options.startSeconds ?? parseTimestamp(url.searchParams.get('t') ?? url.searchParams.get('start'));
+  const player = options.privacyEnhanced ? 'https://www.youtube-nocookie.com' : 'https://www.youtube.com';
+  return {
+    provider: 'youtube',
+    id,
+    embedUrl: withQuery(`${player}/embed/${id}`, { start }),
+    watchUrl: withQuery('https://www.youtube.com/watch', { v: id, t: start }),
+    thumbnailUrl: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+    startSeconds: start
+  };
+};
+
+const vimeo = (url: URL, host: string, options: VideoEmbedOptions): VideoEmbed | null => {
+  const segments = url.pathname.split('/').filter(Boolean);
+  let id: string | undefined;
+  let hash = url.searchParams.get('h') ?? undefined;
+
+  if (host === 'player.vimeo.com') {
+    if (segments[0] === 'video') id = segments[1];
+  } else {
+    // vimeo.com/123, /123/<unlisted hash>, /channels/<name>/123, /groups/<name>/videos/123
+    const index = segments.findIndex(segment => /^\d+$/.test(segment));
+    if (index !== -1) {
+      id = segments[index];
+      if (!hash && /^[0-9a-f]+$/i.test(segments[index + 1] || '')) hash = segments[index + 1];
+    }
+  }
+  if (!id || !/^\d+$/.test(id)) return null;
+
+  const start = options.startSeconds ?? parseTimestamp(url.hash.match(/t=([^&]+)/)?.[1] ?? url.searchParams.get('t'));
+  const fragment = start ? `#t=${start}s` : '';
+  return {
+    provider: 'vimeo',
+    id,
+    embedUrl: withQuery(`https://player.vimeo.com/video/${id}`, { h: hash, dnt: options.privacyEnhanced ? 1 : undefined }) + fragment,
+    watchUrl: `https://vimeo.com/${id}${hash ? `/${hash}` : ''}${fragment}`,
+    // Vimeo only exposes thumbnails through its API
+    thumbnailUrl: null,
+    startSeconds: start
+  };
+};
+
+const loom = (url: URL, options: VideoEmbedOptions): VideoEmbed | null => {
+  const [kind, id] = url.pathname.split('/').filter(Boolean);
+  if (!['share', 'embed'].includes(kind) || !id || !LOOM_ID.test(id)) return null;
+
+  const start = options.startSeconds ?? parseTimestamp(url.searchParams.get('t'));
+  return {
+    provider: 'loom',
+    id,
+    embedUrl: withQuery(`https://www.loom.com/embed/${id}`, { t: start }),
+    watchUrl: withQuery(`https://www.loom.com/share/${id}`, { t: start }),
+    thumbnailUrl: `https://cdn.loom.com/sessions/thumbnails/${id}-with-play.gif`,
+    startSeconds: start
+  };
+};
+
+const upload = (url: URL, options: VideoEmbedOptions): VideoEmbed | null => {
+  if (!url.pathname.startsWith(VIDEO_STORAGE_PATH) || url.pathname.length === VIDEO_STORAGE_PATH.length) return null;
+
+  const start = options.startSeconds ?? parseTimestamp(url.hash.match(/t=([^&]+)/)?.[1]);
+  const file = `https://${url.host}${url.pathname}`;
+  return {
+    provider: 'upload',
+    id: url.pathname.slice(VIDEO_STORAGE_PATH.length),
+    // Media fragment: the browser seeks to it before playing
+    embedUrl: start ? `${file}#t=${start}` : file,
+    watchUrl: file,
+    thumbnailUrl: null,
+    startSeconds: start
+  };
+};
+
+/**
+ * The embed description for a pasted URL, or null when it is not a video on
+ * a supported provider. Unknown hosts are always rejected.
+ */
+export const parseVideoUrl = (value: string | null | undefined, options: VideoEmbedOptions = {}): VideoEmbed | null => {
+  if (!value) return null;
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  const host = url.hostname.toLowerCase();
+  if (host === 'youtu.be' || hostMatches(host, 'youtube.com') || hostMatches(host, 'youtube-nocookie.com')) {
+    return youtube(url, host, options);
+  }
+  if (hostMatches(host, 'vimeo.com')) return vimeo(url, host, options);
+  if (hostMatches(host, 'loom.com')) return loom(url, options);
+  // Uploads must come over https from the project's storage
+  if (url.protocol === 'https:' && host === VIDEO_STORAGE_HOST) return upload(url, options);
+  return null;
+};
+
+/** The embed for a video-embed block, with its start time and privacy settings applied. */
+export const videoEmbedForContent = (content: Pick<ContentBlockContent, 'videoUrl' | 'videoStart' | 'privacyEnhanced'>): VideoEmbed | null =>
+  parseVideoUrl(content.videoUrl, { startSeconds: content.videoStart, privacyEnhanced: content.privacyEnhanced });
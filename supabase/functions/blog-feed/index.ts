@@ -0,0 +1,96 @@
+// Public RSS 2.0 / Atom feeds of published blogs.
+//   GET /functions/v1/blog-feed?format=rss|atom&category=<blogs.category>
+// Entry HTML comes from the same converter BlogManager uses for `blogs.content`,
+// imported straight from the app source.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  FEED_CONTENT_TYPES,
+  FEED_FORMATS,
+  FeedFormat,
+  FeedPost,
+  blogFeedUrl,
+  buildFeed,
+  sortFeedPosts,
+} from "../../../src/utils/blogFeed.ts";
+
+const FEED_LIMIT = 50;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const requestedFormat = url.searchParams.get('format') ?? 'rss';
+    const category = url.searchParams.get('category');
+
+    if (!(FEED_FORMATS as readonly string[]).includes(requestedFormat)) {
+      return new Response(JSON.stringify({
+        error: 'Unsupported format',
+        message: `format must be one of: ${FEED_FORMATS.join(', ')}`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const format = requestedFormat as FeedFormat;
+
+    // Anon key on purpose: the public read policy already hides drafts and
+    // posts outside their publish window
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    );
+
+    // Entries are dated publish_at, falling back to created_at. PostgREST cannot
+    // order by that expression, so take the newest of each kind and merge them.
+    const fetchPosts = async (scheduled: boolean) => {
+      let query = supabase
+        .from('blogs')
+        .select('id, title, slug, content, excerpt, category, featured_image_url, created_at, updated_at, publish_at, blog_structure')
+        .eq('status', 'published');
+
+      if (category) {
+        query = query.eq('category', category);
+      }
+
+      query = scheduled
+        ? query.not('publish_at', 'is', null).order('publish_at', { ascending: false })
+        : query.is('publish_at', null).order('created_at', { ascending: false });
+
+      const { data, error } = await query.limit(FEED_LIMIT);
+      if (error) throw error;
+      return (data || []) as FeedPost[];
+    };
+
+    const [scheduled, unscheduled] = await Promise.all([fetchPosts(true), fetchPosts(false)]);
+    const posts = sortFeedPosts([...scheduled, ...unscheduled]).slice(0, FEED_LIMIT);
+
+    const body = buildFeed(format, posts, {
+      siteUrl: Deno.env.get('SITE_URL') ?? 'https://hibiz.ai',
+      feedUrl: blogFeedUrl(format, category),
+      category,
+    });
+
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': FEED_CONTENT_TYPES[format],
+        'Cache-Control': 'public, max-age=300',
+      },
+      status: 200,
+    });
+  } catch (error) {
+    console.error('Error in blog-feed function:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,67 @@
+// Flips blog status when `publish_at` / `unpublish_at` pass.
+// pg_cron calls it every minute with the service role key (see the
+// publish-scheduled-blogs cron migration); it is idempotent, so overlapping
+// runs are harmless.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+
+interface ScheduleRunResult {
+  timestamp: string;
+  published: string[];
+  unpublished: string[];
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const now = new Date().toISOString();
+
+    const { data: published, error: publishError } = await supabase
+      .from('blogs')
+      .update({ status: 'published' })
+      .eq('status', 'scheduled')
+      .lte('publish_at', now)
+      .select('id');
+
+    if (publishError) throw publishError;
+
+    const { data: unpublished, error: unpublishError } = await supabase
+      .from('blogs')
+      .update({ status: 'archived' })
+      .eq('status', 'published')
+      .lte('unpublish_at', now)
+      .select('id');
+
+    if (unpublishError) throw unpublishError;
+
+    const result: ScheduleRunResult = {
+      timestamp: now,
+      published: (published || []).map((row: { id: string }) => row.id),
+      unpublished: (unpublished || []).map((row: { id: string }) => row.id),
+    };
+
+    console.log(`Scheduled run: ${result.published.length} published, ${result.unpublished.length} unpublished`);
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    });
+  } catch (error) {
+    console.error('Error in publish-scheduled-blogs function:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,96 @@
+// sitemap.xml (default) or robots.txt (?file=robots) for the public site.
+// Built on every request from the published blogs, so a post shows up as soon
+// as it is published, manually or by publish-scheduled-blogs.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  STATIC_SITEMAP_ROUTES,
+  SitemapArchive,
+  SitemapBlog,
+  archiveSitemapEntries,
+  blogSitemapEntries,
+  buildRobotsTxt,
+  buildSitemapXml,
+} from "../../../src/utils/sitemap.ts";
+
+const cacheHeaders = { 'Cache-Control': 'public, max-age=300' };
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+
+    if (url.searchParams.get('file') === 'robots') {
+      return new Response(buildRobotsTxt(), {
+        headers: { ...corsHeaders, ...cacheHeaders, 'Content-Type': 'text/plain; charset=utf-8' },
+        status: 200,
+      });
+    }
+
+    // Anon key: the public read policy already applies the publish window
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    );
+
+    const [blogResult, tagResult] = await Promise.all([
+      supabase
+        .from('blogs')
+        .select('slug, category, created_at, updated_at')
+        .eq('status', 'published')
+        .order('updated_at', { ascending: false }),
+      // blog_tags rows are only visible for published posts, so this is the used tags
+      supabase
+        .from('tags')
+        .select('slug, updated_at, blog_tags!inner(blog_id)')
+    ]);
+
+    if (blogResult.error) throw blogResult.error;
+    if (tagResult.error) throw tagResult.error;
+
+    const blogs = (blogResult.data || []) as (SitemapBlog & { category: string })[];
+
+    // Blogs are newest first, so the first post seen in a category dates its archive
+    const categories = new Map<string, SitemapArchive>();
+    for (const blog of blogs) {
+      if (!categories.has(blog.category)) {
+        categories.set(blog.category, { slug: blog.category, lastmod: blog.updated_at || blog.created_at });
+      }
+    }
+    const tags = ((tagResult.data || []) as { slug: string; updated_at: string }[])
+      .map(tag => ({ slug: tag.slug, lastmod: tag.updated_at }));
+
+    const latestBlogUpdate = blogs.length > 0 ? blogs[0].updated_at || blogs[0].created_at : null;
+    const staticEntries = STATIC_SITEMAP_ROUTES.map(entry =>
+      entry.path === '/blog' ? { ...entry, lastmod: latestBlogUpdate } : entry
+    );
+
+    const body = buildSitemapXml(
+      [
+        ...staticEntries,
+        ...blogSitemapEntries(blogs),
+        ...archiveSitemapEntries('category', [...categories.values()]),
+        ...archiveSitemapEntries('tag', tags),
+      ],
+      Deno.env.get('SITE_URL') ?? 'https://hibiz.ai'
+    );
+
+    return new Response(body, {
+      headers: { ...corsHeaders, ...cacheHeaders, 'Content-Type': 'application/xml; charset=utf-8' },
+      status: 200,
+    });
+  } catch (error) {
+    console.error('Error in sitemap function:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
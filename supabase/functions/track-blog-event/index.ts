@@ -0,0 +1,69 @@
+// Records anonymous reading events for published posts.
+//   POST /functions/v1/track-blog-event  { slug, sessionId, type, depth }
+// Writes with the service role because visitors have no insert policy on
+// blog_events; validation is shared with the client in src/utils/blogEvents.ts.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { parseBlogEventPayload } from "../../../src/utils/blogEvents.ts";
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const event = parseBlogEventPayload(await req.json().catch(() => null));
+    if (!event) {
+      return jsonResponse({ error: 'Invalid event' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Only published posts are tracked; anything else is ignored quietly
+    const { data: blog, error: blogError } = await supabase
+      .from('blogs')
+      .select('id')
+      .eq('slug', event.slug)
+      .eq('status', 'published')
+      .maybeSingle();
+
+    if (blogError) throw blogError;
+    if (!blog) {
+      return jsonResponse({ recorded: false }, 202);
+    }
+
+    // Repeats within a session hit the unique index and are skipped
+    const { error } = await supabase
+      .from('blog_events')
+      .upsert([{
+        blog_id: blog.id,
+        session_id: event.sessionId,
+        event_type: event.type,
+        depth: event.depth,
+      }], { onConflict: 'blog_id,session_id,event_type,depth', ignoreDuplicates: true });
+
+    if (error) throw error;
+
+    return jsonResponse({ recorded: true }, 202);
+  } catch (error) {
+    console.error('Error in track-blog-event function:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      message: error.message
+    }, 500);
+  }
+});
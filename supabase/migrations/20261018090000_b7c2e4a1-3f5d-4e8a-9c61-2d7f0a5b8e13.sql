@@ -0,0 +1,64 @@
+-- Keep a revision of every blog save so edits and autosaves can be reviewed and restored
+CREATE TABLE public.blog_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  excerpt TEXT,
+  blog_structure JSONB,
+  status TEXT NOT NULL,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_blog_revisions_blog_id_created_at ON public.blog_revisions (blog_id, created_at DESC);
+
+ALTER TABLE public.blog_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and editors can view blog revisions" 
+ON public.blog_revisions 
+FOR SELECT 
+USING (
+  public.has_role(auth.uid(), 'admin') OR 
+  public.has_role(auth.uid(), 'editor')
+);
+
+-- Revisions are written by the trigger below only; they are never edited
+CREATE POLICY "Admins can delete blog revisions" 
+ON public.blog_revisions 
+FOR DELETE 
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Record a revision whenever a blog is created or its content changes
+CREATE OR REPLACE FUNCTION public.record_blog_revision()
+RETURNS TRIGGER 
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.title IS NOT DISTINCT FROM OLD.title
+     AND NEW.content IS NOT DISTINCT FROM OLD.content
+     AND NEW.excerpt IS NOT DISTINCT FROM OLD.excerpt
+     AND NEW.blog_structure IS NOT DISTINCT FROM OLD.blog_structure THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.blog_revisions (blog_id, title, content, excerpt, blog_structure, status, author_id, author_email)
+  VALUES (NEW.id, NEW.title, NEW.content, NEW.excerpt, NEW.blog_structure, NEW.status, auth.uid(), auth.jwt() ->> 'email');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_blog_revision
+AFTER INSERT OR UPDATE ON public.blogs
+FOR EACH ROW
+EXECUTE FUNCTION public.record_blog_revision();
+
+-- Seed one revision per existing blog so history starts from the current content
+INSERT INTO public.blog_revisions (blog_id, title, content, excerpt, blog_structure, status, author_id, created_at)
+SELECT id, title, content, excerpt, blog_structure, status, author_id, updated_at
+FROM public.blogs;
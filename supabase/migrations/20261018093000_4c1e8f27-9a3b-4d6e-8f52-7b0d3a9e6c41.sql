@@ -0,0 +1,31 @@
+-- Scheduled publishing: posts can go live and be taken down at set times
+ALTER TABLE public.blogs
+  ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.blogs DROP CONSTRAINT IF EXISTS blogs_status_check;
+ALTER TABLE public.blogs
+  ADD CONSTRAINT blogs_status_check CHECK (status IN ('draft', 'scheduled', 'published', 'archived'));
+
+ALTER TABLE public.blogs
+  ADD CONSTRAINT blogs_schedule_check CHECK (
+    (status <> 'scheduled' OR publish_at IS NOT NULL) AND
+    (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at)
+  );
+
+-- Used by the publish-scheduled-blogs edge function
+CREATE INDEX idx_blogs_publish_at ON public.blogs (publish_at) WHERE status = 'scheduled';
+CREATE INDEX idx_blogs_unpublish_at ON public.blogs (unpublish_at) WHERE status = 'published';
+
+-- Published posts are only public inside their publish window, even before
+-- the edge function has flipped their status
+DROP POLICY IF EXISTS "Anyone can view published blogs" ON public.blogs;
+
+CREATE POLICY "Anyone can view published blogs" 
+ON public.blogs 
+FOR SELECT 
+USING (
+  status = 'published' AND
+  (publish_at IS NULL OR publish_at <= now()) AND
+  (unpublish_at IS NULL OR unpublish_at > now())
+);
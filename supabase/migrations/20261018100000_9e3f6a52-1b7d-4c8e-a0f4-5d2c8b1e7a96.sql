@@ -0,0 +1,102 @@
+-- Editorial review: editors submit posts for review, admins approve or reject them
+ALTER TABLE public.blogs
+  ADD COLUMN review_comment TEXT,
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN submitted_for_review_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.blogs DROP CONSTRAINT IF EXISTS blogs_status_check;
+ALTER TABLE public.blogs
+  ADD CONSTRAINT blogs_status_check CHECK (status IN ('draft', 'in_review', 'scheduled', 'published', 'archived'));
+
+-- Split the all-or-nothing policy: admins keep full access, editors only work on unapproved posts
+DROP POLICY IF EXISTS "Admins and editors can manage blogs" ON public.blogs;
+
+CREATE POLICY "Admins can manage blogs" 
+ON public.blogs 
+FOR ALL 
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Editors can view all blogs" 
+ON public.blogs 
+FOR SELECT 
+USING (public.has_role(auth.uid(), 'editor'));
+
+CREATE POLICY "Editors can create blogs for review" 
+ON public.blogs 
+FOR INSERT 
+WITH CHECK (
+  public.has_role(auth.uid(), 'editor') AND 
+  status IN ('draft', 'in_review')
+);
+
+CREATE POLICY "Editors can edit unapproved blogs" 
+ON public.blogs 
+FOR UPDATE 
+USING (
+  public.has_role(auth.uid(), 'editor') AND 
+  status IN ('draft', 'in_review')
+)
+WITH CHECK (
+  public.has_role(auth.uid(), 'editor') AND 
+  status IN ('draft', 'in_review')
+);
+
+CREATE POLICY "Editors can delete drafts" 
+ON public.blogs 
+FOR DELETE 
+USING (
+  public.has_role(auth.uid(), 'editor') AND 
+  status = 'draft'
+);
+
+-- RLS cannot compare old and new rows, so review fields and timestamps are handled here.
+-- Requests without a user (service role, scheduled publishing) are treated as admin.
+CREATE OR REPLACE FUNCTION public.enforce_blog_review_workflow()
+RETURNS TRIGGER 
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_admin BOOLEAN := auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin');
+BEGIN
+  IF NOT is_admin THEN
+    IF NEW.status NOT IN ('draft', 'in_review') THEN
+      RAISE EXCEPTION 'Only admins can set blog status to %', NEW.status;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+      NEW.review_comment := NULL;
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+    ELSIF NEW.review_comment IS DISTINCT FROM OLD.review_comment
+       OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+       OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+      RAISE EXCEPTION 'Only admins can review blogs';
+    END IF;
+  END IF;
+
+  -- A new submission starts a fresh review
+  IF NEW.status = 'in_review' AND (TG_OP = 'INSERT' OR OLD.status <> 'in_review') THEN
+    NEW.submitted_for_review_at := now();
+    NEW.review_comment := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  END IF;
+
+  -- Leaving review by an admin is an approval or a rejection
+  IF TG_OP = 'UPDATE' AND OLD.status = 'in_review' AND NEW.status <> 'in_review' AND is_admin THEN
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_blog_review_workflow
+BEFORE INSERT OR UPDATE ON public.blogs
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_blog_review_workflow();
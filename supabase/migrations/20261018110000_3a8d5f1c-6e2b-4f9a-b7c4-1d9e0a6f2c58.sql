@@ -0,0 +1,139 @@
+-- Full-text search over blogs: title, excerpt, content and the text inside
+-- blog_structure blocks, ranked and highlighted by the search_blogs RPC
+
+-- Plain text of every block: text, captions, titles, table cells and chart titles
+CREATE OR REPLACE FUNCTION public.blog_structure_text(structure JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(string_agg(value #>> '{}', ' '), '')
+  FROM (
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.text') AS value
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.title')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.caption')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.tableData.headers[*]')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.tableData.rows[*][*]')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.chartData.title')
+  ) AS parts
+  WHERE jsonb_typeof(value) = 'string';
+$$;
+
+-- Searchable body text with markup stripped; also what snippets are cut from
+CREATE OR REPLACE FUNCTION public.blog_search_body(content TEXT, structure JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT regexp_replace(
+    regexp_replace(
+      coalesce(content, '') || ' ' || public.blog_structure_text(structure),
+      '<[^>]*>', ' ', 'g'
+    ),
+    '&nbsp;|\s+', ' ', 'g'
+  );
+$$;
+
+ALTER TABLE public.blogs ADD COLUMN search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION public.update_blog_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.excerpt, '')), 'B') ||
+    setweight(to_tsvector('english', public.blog_search_body(NEW.content, NEW.blog_structure)), 'C');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_blog_search_vector
+BEFORE INSERT OR UPDATE OF title, excerpt, content, blog_structure ON public.blogs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_blog_search_vector();
+
+-- Backfill existing rows without touching updated_at
+ALTER TABLE public.blogs DISABLE TRIGGER update_blogs_updated_at;
+UPDATE public.blogs SET title = title;
+ALTER TABLE public.blogs ENABLE TRIGGER update_blogs_updated_at;
+
+CREATE INDEX idx_blogs_search_vector ON public.blogs USING GIN (search_vector);
+
+-- Ranked, highlighted and paginated search. SECURITY INVOKER, so visitors only
+-- ever match published posts inside their publish window while admins and
+-- editors search everything. Matches are wrapped in <mark>…</mark>.
+CREATE OR REPLACE FUNCTION public.search_blogs(
+  search_query TEXT,
+  status_filter TEXT DEFAULT NULL,
+  category_filter TEXT DEFAULT NULL,
+  page_size INTEGER DEFAULT 20,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  slug TEXT,
+  excerpt TEXT,
+  category TEXT,
+  status TEXT,
+  featured BOOLEAN,
+  featured_image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  matches AS (
+    SELECT b.*, ts_rank_cd(b.search_vector, query.q, 32) AS rank, count(*) OVER () AS total_count
+    FROM public.blogs b, query
+    WHERE b.search_vector @@ query.q
+      AND (status_filter IS NULL OR b.status = status_filter)
+      AND (category_filter IS NULL OR b.category = category_filter)
+    ORDER BY rank DESC, b.created_at DESC
+    LIMIT least(greatest(page_size, 1), 100)
+    OFFSET greatest(page_offset, 0)
+  )
+  SELECT
+    m.id,
+    m.title,
+    m.slug,
+    m.excerpt,
+    m.category,
+    m.status,
+    m.featured,
+    m.featured_image_url,
+    m.created_at,
+    m.updated_at,
+    m.rank,
+    ts_headline('english', m.title, query.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    ts_headline(
+      'english',
+      coalesce(nullif(m.excerpt, ''), '') || ' ' || public.blog_search_body(m.content, m.blog_structure),
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'
+    ),
+    m.total_count
+  FROM matches m, query
+  ORDER BY m.rank DESC, m.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_blogs(TEXT, TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
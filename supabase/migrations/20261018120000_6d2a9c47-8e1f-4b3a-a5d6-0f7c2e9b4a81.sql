@@ -0,0 +1,121 @@
+-- Managed blog taxonomy: categories and tags with slugs, descriptions and ordering
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.blog_tags (
+  blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (blog_id, tag_id)
+);
+
+-- The primary key covers lookups by blog; tag archives look up by tag
+CREATE INDEX idx_blog_tags_tag_id ON public.blog_tags (tag_id);
+
+CREATE TRIGGER update_categories_updated_at
+BEFORE UPDATE ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_tags_updated_at
+BEFORE UPDATE ON public.tags
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The categories the admin form used to hard-code, plus any other value already on a post
+INSERT INTO public.categories (slug, name, sort_order) VALUES
+  ('general', 'General', 0),
+  ('technology', 'Technology', 1),
+  ('ai', 'Artificial Intelligence', 2),
+  ('business', 'Business', 3);
+
+INSERT INTO public.categories (slug, name, sort_order)
+SELECT DISTINCT category, initcap(replace(category, '-', ' ')), 100
+FROM public.blogs
+WHERE category NOT IN (SELECT slug FROM public.categories);
+
+-- blogs.category keeps holding the category slug. As a foreign key with
+-- ON UPDATE CASCADE, changing a category's slug rewrites every post using it,
+-- and a category cannot be deleted while posts still use it.
+ALTER TABLE public.blogs
+  ADD CONSTRAINT blogs_category_fkey
+  FOREIGN KEY (category) REFERENCES public.categories(slug)
+  ON UPDATE CASCADE;
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.blog_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories"
+ON public.categories
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage categories"
+ON public.categories
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view tags"
+ON public.tags
+FOR SELECT
+USING (true);
+
+-- Editors create tags from the blog form; renaming and deleting is for admins
+CREATE POLICY "Admins and editors can create tags"
+ON public.tags
+FOR INSERT
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'editor')
+);
+
+CREATE POLICY "Admins can manage tags"
+ON public.tags
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The subquery runs under the blogs policies, so tags of posts the caller
+-- cannot see (drafts, scheduled posts) stay hidden too
+CREATE POLICY "Anyone can view tags of visible blogs"
+ON public.blog_tags
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.blogs WHERE blogs.id = blog_tags.blog_id));
+
+CREATE POLICY "Admins can manage blog tags"
+ON public.blog_tags
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Same rule as "Editors can edit unapproved blogs"
+CREATE POLICY "Editors can tag unapproved blogs"
+ON public.blog_tags
+FOR ALL
+USING (
+  public.has_role(auth.uid(), 'editor') AND
+  EXISTS (SELECT 1 FROM public.blogs WHERE blogs.id = blog_tags.blog_id AND blogs.status IN ('draft', 'in_review'))
+)
+WITH CHECK (
+  public.has_role(auth.uid(), 'editor') AND
+  EXISTS (SELECT 1 FROM public.blogs WHERE blogs.id = blog_tags.blog_id AND blogs.status IN ('draft', 'in_review'))
+);
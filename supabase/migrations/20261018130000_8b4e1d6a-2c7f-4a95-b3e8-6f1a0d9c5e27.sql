@@ -0,0 +1,55 @@
+-- Public author profiles for post bylines, one per auth user
+CREATE TABLE public.author_profiles (
+  id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  bio TEXT,
+  avatar_url TEXT,
+  -- { "website": url, "twitter": url, "linkedin": url, "github": url }
+  social_links JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_author_profiles_updated_at
+BEFORE UPDATE ON public.author_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.author_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view author profiles"
+ON public.author_profiles
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can create their own author profile"
+ON public.author_profiles
+FOR INSERT
+WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Users can update their own author profile"
+ON public.author_profiles
+FOR UPDATE
+USING (auth.uid() = id)
+WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Admins can manage author profiles"
+ON public.author_profiles
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Everyone who can write posts starts with a profile named after their email
+INSERT INTO public.author_profiles (id, display_name)
+SELECT DISTINCT u.id, split_part(u.email, '@', 1)
+FROM public.user_roles ur
+JOIN auth.users u ON u.id = ur.user_id
+WHERE ur.role IN ('admin', 'editor')
+ON CONFLICT (id) DO NOTHING;
+
+-- The admin form sends author_id on create; this covers inserts that do not
+-- (scripts, SQL). Service-role inserts have no user and stay unattributed.
+ALTER TABLE public.blogs ALTER COLUMN author_id SET DEFAULT auth.uid();
+
+-- Author archives list an author's posts newest first
+CREATE INDEX idx_blogs_author_id_created_at ON public.blogs (author_id, created_at DESC);
@@ -0,0 +1,238 @@
+-- Related posts, precomputed per published post from shared tags, category and
+-- text similarity. Kept current by the triggers below, so readers only ever
+-- run a cheap indexed lookup.
+CREATE TABLE public.blog_related_posts (
+  blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  related_blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  score REAL NOT NULL,
+  shared_tags INTEGER NOT NULL DEFAULT 0,
+  same_category BOOLEAN NOT NULL DEFAULT false,
+  text_similarity REAL NOT NULL DEFAULT 0,
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (blog_id, related_blog_id),
+  CHECK (blog_id <> related_blog_id)
+);
+
+CREATE INDEX idx_blog_related_posts_blog_id_score ON public.blog_related_posts (blog_id, score DESC);
+CREATE INDEX idx_blog_related_posts_related_blog_id ON public.blog_related_posts (related_blog_id);
+
+ALTER TABLE public.blog_related_posts ENABLE ROW LEVEL SECURITY;
+
+-- Rows only pair ids; the posts themselves are still filtered by the blogs policies.
+-- Written by the SECURITY DEFINER functions below only.
+CREATE POLICY "Anyone can view related posts"
+ON public.blog_related_posts
+FOR SELECT
+USING (true);
+
+-- Every published post scored against `target`. Each signal is a Jaccard index:
+-- tags over blog_tags, text over the lexemes of search_vector (title, excerpt,
+-- content and the text inside blog_structure blocks). Empty unless `target` is
+-- published. Symmetric, so one call also scores `target` for every other post.
+CREATE OR REPLACE FUNCTION public.related_post_candidates(target UUID)
+RETURNS TABLE (
+  related_blog_id UUID,
+  score REAL,
+  shared_tags INTEGER,
+  same_category BOOLEAN,
+  text_similarity REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH target_post AS (
+    SELECT
+      b.id,
+      b.category,
+      tsvector_to_array(coalesce(b.search_vector, ''::tsvector)) AS lexemes,
+      ARRAY(SELECT bt.tag_id FROM public.blog_tags bt WHERE bt.blog_id = b.id) AS tag_ids
+    FROM public.blogs b
+    WHERE b.id = target AND b.status = 'published'
+  ),
+  candidates AS (
+    SELECT
+      b.id,
+      b.category = t.category AS same_category,
+      cardinality(t.tag_ids) AS target_tags,
+      cardinality(t.lexemes) AS target_lexemes,
+      c.tag_ids,
+      c.lexemes,
+      (SELECT count(*) FROM (SELECT unnest(c.tag_ids) INTERSECT SELECT unnest(t.tag_ids)) shared) AS shared_tags,
+      (SELECT count(*) FROM (SELECT unnest(c.lexemes) INTERSECT SELECT unnest(t.lexemes)) shared) AS shared_lexemes
+    FROM public.blogs b
+    CROSS JOIN target_post t
+    CROSS JOIN LATERAL (
+      SELECT
+        ARRAY(SELECT bt.tag_id FROM public.blog_tags bt WHERE bt.blog_id = b.id) AS tag_ids,
+        tsvector_to_array(coalesce(b.search_vector, ''::tsvector)) AS lexemes
+    ) c
+    WHERE b.status = 'published' AND b.id <> t.id
+  ),
+  scored AS (
+    SELECT
+      id,
+      shared_tags::INTEGER AS shared_tags,
+      same_category,
+      coalesce(shared_tags::REAL / nullif(cardinality(tag_ids) + target_tags - shared_tags, 0), 0) AS tag_similarity,
+      coalesce(shared_lexemes::REAL / nullif(cardinality(lexemes) + target_lexemes - shared_lexemes, 0), 0) AS text_similarity
+    FROM candidates
+  )
+  SELECT
+    id,
+    (0.5 * tag_similarity + 0.2 * same_category::INTEGER + 0.3 * text_similarity)::REAL,
+    shared_tags,
+    same_category,
+    text_similarity::REAL
+  FROM scored
+  WHERE shared_tags > 0 OR same_category OR text_similarity > 0;
+$$;
+
+-- Replace one post's list with its best candidates
+CREATE OR REPLACE FUNCTION public.rebuild_related_posts(target UUID, max_related INTEGER DEFAULT 6)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.blog_related_posts WHERE blog_id = target;
+
+  INSERT INTO public.blog_related_posts (blog_id, related_blog_id, score, shared_tags, same_category, text_similarity)
+  SELECT target, c.related_blog_id, c.score, c.shared_tags, c.same_category, c.text_similarity
+  FROM public.related_post_candidates(target) c
+  ORDER BY c.score DESC, c.related_blog_id
+  LIMIT max_related;
+END;
+$$;
+
+-- Re-score `target` against everything after it is published, edited, retagged,
+-- unpublished or deleted. Its own list is rebuilt and it is offered to every
+-- other list (trimmed back to the limit) instead of rebuilding them all; lists
+-- that lose it when it stops being published are refilled from scratch.
+CREATE OR REPLACE FUNCTION public.refresh_related_posts(target UUID, max_related INTEGER DEFAULT 6)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  short_list UUID;
+BEGIN
+  DELETE FROM public.blog_related_posts WHERE blog_id = target OR related_blog_id = target;
+
+  IF EXISTS (SELECT 1 FROM public.blogs WHERE id = target AND status = 'published') THEN
+    WITH candidates AS (
+      SELECT * FROM public.related_post_candidates(target)
+    ),
+    own_list AS (
+      SELECT * FROM candidates ORDER BY score DESC, related_blog_id LIMIT max_related
+    )
+    INSERT INTO public.blog_related_posts (blog_id, related_blog_id, score, shared_tags, same_category, text_similarity)
+    SELECT target, related_blog_id, score, shared_tags, same_category, text_similarity FROM own_list
+    UNION ALL
+    SELECT related_blog_id, target, score, shared_tags, same_category, text_similarity FROM candidates;
+
+    DELETE FROM public.blog_related_posts r
+    USING (
+      SELECT blog_id, related_blog_id,
+        row_number() OVER (PARTITION BY blog_id ORDER BY score DESC, related_blog_id) AS position
+      FROM public.blog_related_posts
+      WHERE blog_id IN (SELECT blog_id FROM public.blog_related_posts WHERE related_blog_id = target)
+    ) ranked
+    WHERE r.blog_id = ranked.blog_id
+      AND r.related_blog_id = ranked.related_blog_id
+      AND ranked.position > max_related;
+  ELSE
+    FOR short_list IN
+      SELECT b.id
+      FROM public.blogs b
+      WHERE b.status = 'published'
+        AND (SELECT count(*) FROM public.blog_related_posts r WHERE r.blog_id = b.id) < max_related
+    LOOP
+      PERFORM public.rebuild_related_posts(short_list, max_related);
+    END LOOP;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_related_posts_for_blog()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'published' THEN
+      PERFORM public.refresh_related_posts(OLD.id);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IS NOT DISTINCT FROM OLD.status
+     AND NEW.category IS NOT DISTINCT FROM OLD.category
+     AND NEW.search_vector IS NOT DISTINCT FROM OLD.search_vector THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'published' OR (TG_OP = 'UPDATE' AND OLD.status = 'published') THEN
+    PERFORM public.refresh_related_posts(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_related_posts
+AFTER INSERT OR UPDATE OF status, category, title, excerpt, content, blog_structure OR DELETE ON public.blogs
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_related_posts_for_blog();
+
+-- Tags are saved right after the post itself, so retagging refreshes too
+CREATE OR REPLACE FUNCTION public.refresh_related_posts_for_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    FOR changed IN
+      SELECT DISTINCT t.blog_id FROM new_rows t JOIN public.blogs b ON b.id = t.blog_id WHERE b.status = 'published'
+    LOOP
+      PERFORM public.refresh_related_posts(changed);
+    END LOOP;
+  ELSE
+    FOR changed IN
+      SELECT DISTINCT t.blog_id FROM old_rows t JOIN public.blogs b ON b.id = t.blog_id WHERE b.status = 'published'
+    LOOP
+      PERFORM public.refresh_related_posts(changed);
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_related_posts_on_tag_insert
+AFTER INSERT ON public.blog_tags
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.refresh_related_posts_for_tags();
+
+CREATE TRIGGER refresh_related_posts_on_tag_delete
+AFTER DELETE ON public.blog_tags
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.refresh_related_posts_for_tags();
+
+-- Only the triggers write related posts
+REVOKE EXECUTE ON FUNCTION public.rebuild_related_posts(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_related_posts(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Backfill every published post
+SELECT public.rebuild_related_posts(id) FROM public.blogs WHERE status = 'published';
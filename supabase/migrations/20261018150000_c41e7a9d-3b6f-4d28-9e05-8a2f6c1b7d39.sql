@@ -0,0 +1,145 @@
+-- Reader comments on published posts, with threaded replies. Visitors submit
+-- into a moderation queue; only approved comments are shown.
+CREATE TABLE public.blog_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.blog_comments(id) ON DELETE CASCADE,
+  -- Signed-in commenters are linked; visitors are anonymous
+  user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name TEXT NOT NULL CHECK (char_length(btrim(author_name)) BETWEEN 1 AND 80),
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 2000),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'spam')),
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  moderated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_blog_comments_blog_id_status ON public.blog_comments (blog_id, status, created_at);
+CREATE INDEX idx_blog_comments_status_created_at ON public.blog_comments (status, created_at DESC);
+CREATE INDEX idx_blog_comments_parent_id ON public.blog_comments (parent_id);
+
+CREATE TRIGGER update_blog_comments_updated_at
+BEFORE UPDATE ON public.blog_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.blog_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view approved comments on published blogs"
+ON public.blog_comments
+FOR SELECT
+USING (
+  status = 'approved'
+  AND EXISTS (SELECT 1 FROM public.blogs b WHERE b.id = blog_id AND b.status = 'published')
+);
+
+-- Submissions always enter the queue; replies must go to an approved comment on the same post
+CREATE POLICY "Anyone can comment on published blogs"
+ON public.blog_comments
+FOR INSERT
+WITH CHECK (
+  status = 'pending'
+  AND moderated_at IS NULL
+  AND moderated_by IS NULL
+  AND (user_id IS NULL OR user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.blogs b WHERE b.id = blog_id AND b.status = 'published')
+  AND (
+    parent_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.blog_comments p
+      WHERE p.id = parent_id AND p.blog_id = blog_comments.blog_id AND p.status = 'approved'
+    )
+  )
+);
+
+CREATE POLICY "Admins and editors can view all comments"
+ON public.blog_comments
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'));
+
+CREATE POLICY "Admins and editors can moderate comments"
+ON public.blog_comments
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'))
+WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'));
+
+CREATE POLICY "Admins can delete comments"
+ON public.blog_comments
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Recent submissions per submitter (user id, else client IP), hashed. No
+-- policies: only the trigger below reads and writes it.
+CREATE TABLE public.blog_comment_submissions (
+  submitter_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_blog_comment_submissions_submitter ON public.blog_comment_submissions (submitter_hash, created_at DESC);
+
+ALTER TABLE public.blog_comment_submissions ENABLE ROW LEVEL SECURITY;
+
+-- At most 5 comments per submitter every 10 minutes. The client shows the
+-- message as is, so keep it readable.
+CREATE OR REPLACE FUNCTION public.limit_blog_comment_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  submitter TEXT;
+  recent INTEGER;
+BEGIN
+  -- Moderators are never limited
+  IF public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor') THEN
+    RETURN NEW;
+  END IF;
+
+  submitter := md5(coalesce(
+    auth.uid()::TEXT,
+    split_part(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ',', 1),
+    'unknown'
+  ));
+
+  DELETE FROM public.blog_comment_submissions WHERE created_at < now() - interval '1 day';
+
+  SELECT count(*) INTO recent
+  FROM public.blog_comment_submissions
+  WHERE submitter_hash = submitter AND created_at > now() - interval '10 minutes';
+
+  IF recent >= 5 THEN
+    RAISE EXCEPTION 'You are commenting too quickly. Please wait a few minutes and try again.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.blog_comment_submissions (submitter_hash) VALUES (submitter);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER limit_blog_comment_rate
+BEFORE INSERT ON public.blog_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.limit_blog_comment_rate();
+
+-- Stamp who moderated a comment and when
+CREATE OR REPLACE FUNCTION public.stamp_blog_comment_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.moderated_at := now();
+    NEW.moderated_by := auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_blog_comment_moderation
+BEFORE UPDATE OF status ON public.blog_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_blog_comment_moderation();
@@ -0,0 +1,99 @@
+-- Anonymous reading analytics for published posts, written by the
+-- track-blog-event edge function with the service role
+CREATE TABLE public.blog_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  -- Random id kept in the reader's sessionStorage; never linked to a user
+  session_id UUID NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('view', 'scroll', 'complete')),
+  -- Percent of the article scrolled past: 0 for views, 100 for completions
+  depth SMALLINT NOT NULL DEFAULT 0 CHECK (depth BETWEEN 0 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One view, one completion and one event per scroll milestone per session,
+-- so reloads and repeated scrolling do not inflate the numbers
+CREATE UNIQUE INDEX idx_blog_events_once_per_session
+ON public.blog_events (blog_id, session_id, event_type, depth);
+
+CREATE INDEX idx_blog_events_created_at ON public.blog_events (created_at);
+
+ALTER TABLE public.blog_events ENABLE ROW LEVEL SECURITY;
+
+-- No insert policy: visitors only reach the table through the edge function
+CREATE POLICY "Admins and editors can view blog events"
+ON public.blog_events
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'));
+
+CREATE POLICY "Admins can delete blog events"
+ON public.blog_events
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Views and completions per UTC day since `since`, including days without any.
+-- SECURITY INVOKER, so only admins and editors see anything.
+CREATE OR REPLACE FUNCTION public.blog_analytics_daily(since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  day DATE,
+  views BIGINT,
+  completions BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    d::DATE,
+    count(e.id) FILTER (WHERE e.event_type = 'view'),
+    count(e.id) FILTER (WHERE e.event_type = 'complete')
+  FROM generate_series(date_trunc('day', since), date_trunc('day', now()), interval '1 day') AS d
+  LEFT JOIN public.blog_events e
+    ON e.created_at >= d AND e.created_at < d + interval '1 day' AND e.created_at >= since
+  GROUP BY d
+  ORDER BY d;
+$$;
+
+-- Per post since `since`: sessions that viewed it, sessions that reached the
+-- end, and the average of each session's deepest scroll
+CREATE OR REPLACE FUNCTION public.blog_analytics_posts(since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  blog_id UUID,
+  title TEXT,
+  slug TEXT,
+  category TEXT,
+  views BIGINT,
+  completions BIGINT,
+  avg_depth NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH sessions AS (
+    SELECT
+      e.blog_id,
+      e.session_id,
+      max(e.depth) AS depth,
+      bool_or(e.event_type = 'view') AS viewed,
+      bool_or(e.event_type = 'complete') AS completed
+    FROM public.blog_events e
+    WHERE e.created_at >= since
+    GROUP BY e.blog_id, e.session_id
+  )
+  SELECT
+    b.id,
+    b.title,
+    b.slug,
+    b.category,
+    count(*) FILTER (WHERE s.viewed),
+    count(*) FILTER (WHERE s.completed),
+    round(avg(s.depth), 1)
+  FROM sessions s
+  JOIN public.blogs b ON b.id = s.blog_id
+  GROUP BY b.id, b.title, b.slug, b.category
+  ORDER BY 5 DESC, b.title;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.blog_analytics_daily(TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.blog_analytics_posts(TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,31 @@
+-- Run the publish-scheduled-blogs edge function every minute so publish_at /
+-- unpublish_at take effect (and the feed, sitemap and related-post refreshes
+-- that follow a status change run) without anyone invoking it by hand.
+--
+-- The function is called with the service role key, read from Vault at run
+-- time so it never lives in a migration. Store it once per project:
+--   select vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+GRANT USAGE ON SCHEMA cron TO postgres;
+
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'publish-scheduled-blogs';
+
+SELECT cron.schedule(
+  'publish-scheduled-blogs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tqpjqyjyidyargswfzga.supabase.co/functions/v1/publish-scheduled-blogs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 10000
+  );
+  $$
+);
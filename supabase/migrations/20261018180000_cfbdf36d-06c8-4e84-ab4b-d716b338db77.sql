@@ -0,0 +1,43 @@
+-- Key anonymous comment rate limits on an address the client cannot choose.
+-- The first x-forwarded-for entry is whatever the client sent, so a fresh
+-- header per request got past the limit. Prefer cf-connecting-ip, which the
+-- Supabase edge (Cloudflare) sets and overwrites on every request; without
+-- it, use the last x-forwarded-for entry, the hop our gateway appended.
+CREATE OR REPLACE FUNCTION public.limit_blog_comment_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers JSON := current_setting('request.headers', true)::json;
+  submitter TEXT;
+  recent INTEGER;
+BEGIN
+  -- Moderators are never limited
+  IF public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor') THEN
+    RETURN NEW;
+  END IF;
+
+  submitter := md5(coalesce(
+    auth.uid()::TEXT,
+    nullif(trim(headers ->> 'cf-connecting-ip'), ''),
+    nullif(trim(regexp_replace(headers ->> 'x-forwarded-for', '^.*,', '')), ''),
+    'unknown'
+  ));
+
+  DELETE FROM public.blog_comment_submissions WHERE created_at < now() - interval '1 day';
+
+  SELECT count(*) INTO recent
+  FROM public.blog_comment_submissions
+  WHERE submitter_hash = submitter AND created_at > now() - interval '10 minutes';
+
+  IF recent >= 5 THEN
+    RAISE EXCEPTION 'You are commenting too quickly. Please wait a few minutes and try again.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.blog_comment_submissions (submitter_hash) VALUES (submitter);
+  RETURN NEW;
+END;
+$$;
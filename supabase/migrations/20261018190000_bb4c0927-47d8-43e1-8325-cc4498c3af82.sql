@@ -0,0 +1,43 @@
+-- Index the text blog_structure_text skipped so search and related-post
+-- similarity see it: list items (nested ones too), quote attributions, image
+-- captions and alt text of gallery/carousel/comparison blocks, chart series names
+CREATE OR REPLACE FUNCTION public.blog_structure_text(structure JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(string_agg(value #>> '{}', ' '), '')
+  FROM (
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.text') AS value
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.title')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.caption')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.attribution')
+    UNION ALL
+    -- Strict, so nested item arrays are not unwrapped into duplicate matches
+    SELECT jsonb_path_query(items, 'strict $.** ? (@.type() == "object" && exists(@.text)).text')
+    FROM jsonb_path_query(structure, 'lax $.blocks[*].content.listData.items') AS items
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.images[*].caption')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.images[*].alt')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.tableData.headers[*]')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.tableData.rows[*][*]')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.chartData.title')
+    UNION ALL
+    SELECT jsonb_path_query(structure, 'lax $.blocks[*].content.chartData.series[*].name')
+  ) AS parts
+  WHERE jsonb_typeof(value) = 'string';
+$$;
+
+-- Backfill existing rows without touching updated_at; the related-post
+-- trigger re-scores every published post whose search_vector changed
+ALTER TABLE public.blogs DISABLE TRIGGER update_blogs_updated_at;
+UPDATE public.blogs SET title = title;
+ALTER TABLE public.blogs ENABLE TRIGGER update_blogs_updated_at;